@@ -1,5 +1,6 @@
 import { Module } from '@nestjs/common'
 import { APP_FILTER, APP_INTERCEPTOR, APP_PIPE } from '@nestjs/core'
+import { ScheduleModule } from '@nestjs/schedule'
 import { ZodSerializerInterceptor } from 'nestjs-zod'
 import { AppController } from './app.controller'
 import { AppService } from './app.service'
@@ -8,14 +9,17 @@ import { AppoinmentModule } from './routes/appoinment/appoinment.module'
 import { AuthModule } from './routes/auth/auth.module'
 import { BlogModule } from './routes/blog/blog.module'
 import { CateBlogModule } from './routes/category-blog/cate-blog.module'
+import { ClinicCalendarModule } from './routes/clinic-calendar/clinic-calendar.module'
 import { DoctorModule } from './routes/doctor/doctor.module'
 import { MediaModule } from './routes/media/media.module'
 import { MedicineModule } from './routes/medicine/medicine.module'
 import { TestPatientTreatmentModule } from './routes/patient-treatment/modules/test/patient-treatment-test.module'
 import { PatientTreatmentModule } from './routes/patient-treatment/patient-treatment.module'
 import { PermissionModule } from './routes/permission/permission.module'
+import { ReminderModule } from './routes/reminder/reminder.module'
 import { RoleModule } from './routes/role/role.module'
 import { ServiceModule } from './routes/service/service.module'
+import { TestResultModule } from './routes/test-result/test-result.module'
 import { TreatmentProtocolModule } from './routes/treatment-protocol/treatment-protocol.module'
 import { UserModule } from './routes/user/user.module'
 import { CatchEverythingFilter } from './shared/fillters/catch-everything.fillter'
@@ -23,6 +27,7 @@ import { SharedModule } from './shared/shared.module'
 
 @Module({
   imports: [
+    ScheduleModule.forRoot(),
     SharedModule,
     AuthModule,
     RoleModule,
@@ -38,6 +43,9 @@ import { SharedModule } from './shared/shared.module'
     BlogModule,
     ServiceModule,
     AppoinmentModule,
+    ReminderModule,
+    ClinicCalendarModule,
+    TestResultModule,
   ],
   controllers: [AppController],
   providers: [
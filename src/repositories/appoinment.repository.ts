@@ -1,14 +1,33 @@
 import { Injectable } from '@nestjs/common'
-import { AppointmentStatus, AppointmentType } from '@prisma/client'
 import {
+  AppointmentPurpose,
+  AppointmentStatus,
+  AppointmentType,
+  Prisma,
+  ReminderType,
+  ServiceType,
+  WaitlistStatus,
+} from '@prisma/client'
+import {
+  AppointmentHoldResponseType,
   AppointmentResponseType,
+  AppointmentSeriesResponseType,
+  AppointmentStatusHistoryResponseType,
   CreateAppointmentDtoType,
   UpdateAppointmentDtoType,
+  WaitlistEntryResponseType,
 } from '../routes/appoinment/appoinment.dto'
 import { AppointmentFilterSchema } from '../routes/appoinment/appoinment.model'
 import { createPaginationSchema, PaginatedResponse, PaginationOptions } from '../shared/schemas/pagination.schema'
 import { PaginationService } from '../shared/services/pagination.service'
 import { PrismaService } from '../shared/services/prisma.service'
+import {
+  AppointmentCancellationPolicy,
+  NO_SHOW_CANDIDATE_STATUSES,
+  SLOT_BLOCKING_APPOINTMENT_STATUSES,
+} from '../shared/constants/appointment.constant'
+import { APPOINTMENT_REMINDER_OFFSETS_HOURS } from '../shared/constants/reminder.constant'
+import { getAttendanceDelta } from '../shared/utils/attendance.utils'
 
 @Injectable()
 export class AppoinmentRepository {
@@ -65,9 +84,18 @@ export class AppoinmentRepository {
       doctorId: data.doctorId!,
     }
 
-    const appointment = await this.prisma.appointment.create({
-      data: prismaData,
-      include: this.includeRelations,
+    const appointment = await this.prisma.$transaction(async (tx) => {
+      const created = await tx.appointment.create({
+        data: {
+          ...prismaData,
+          statusHistory: {
+            create: { newStatus: prismaData.status },
+          },
+        },
+        include: this.includeRelations,
+      })
+      await this.replaceAppointmentReminders(tx, created)
+      return created
     })
 
     // Flatten doctor.user into doctor
@@ -87,11 +115,168 @@ export class AppoinmentRepository {
     } as AppointmentResponseType
   }
 
+  // Đặt lịch nguyên tử: khoá slot của bác sĩ, kiểm tra trùng rồi tạo lịch hẹn trong cùng transaction.
+  // Trả về null nếu slot đã có lịch hẹn hoặc đang được người khác giữ chỗ.
+  async createAppointmentInSlot(
+    data: Omit<CreateAppointmentDtoType, 'holdId' | 'preferredDoctorId' | 'doctorFallback'> & {
+      seriesId?: number
+      seriesIndex?: number
+    },
+    slotStart: Date,
+    slotEnd: Date,
+  ): Promise<AppointmentResponseType | null> {
+    const doctorId = data.doctorId!
+    const appointment = await this.prisma.$transaction(async (tx) => {
+      await this.lockDoctorSlot(tx, doctorId, slotStart)
+      if (await this.isSlotTaken(tx, doctorId, slotStart, slotEnd, data.userId)) return null
+
+      const created = await tx.appointment.create({
+        data: {
+          ...data,
+          type: data.type as AppointmentType,
+          status: data.status as AppointmentStatus,
+          doctorId,
+          statusHistory: {
+            create: { newStatus: data.status as AppointmentStatus },
+          },
+        },
+        include: this.includeRelations,
+      })
+      await this.replaceAppointmentReminders(tx, created)
+      // Slot đã được đặt thì giải phóng hold của chính bệnh nhân
+      await tx.appointmentHold.deleteMany({ where: { userId: data.userId, doctorId, slotStart } })
+      return created
+    })
+    if (!appointment) return null
+
+    // Flatten doctor.user into doctor
+    const doctorUser = appointment.doctor?.user
+    const doctor = doctorUser
+      ? {
+          id: appointment.doctor.id,
+          name: doctorUser.name,
+          email: doctorUser.email,
+          avatar: doctorUser.avatar,
+        }
+      : null
+
+    return {
+      ...appointment,
+      doctor,
+    } as AppointmentResponseType
+  }
+
+  // Dời lịch hẹn sang slot mới (giữ nguyên bác sĩ, bệnh nhân) và ghi lịch sử dời lịch trong cùng transaction
+  async rescheduleAppointmentInSlot(
+    id: number,
+    data: {
+      userId: number
+      doctorId: number
+      previousTime: Date
+      slotStart: Date
+      slotEnd: Date
+      reason: string
+      rescheduledById: number
+      patientMeetingUrl?: string
+      doctorMeetingUrl?: string
+    },
+  ): Promise<AppointmentResponseType | null> {
+    const appointment = await this.prisma.$transaction(async (tx) => {
+      await this.lockDoctorSlot(tx, data.doctorId, data.slotStart)
+      if (await this.isSlotTaken(tx, data.doctorId, data.slotStart, data.slotEnd, data.userId, id)) return null
+
+      const updated = await tx.appointment.update({
+        where: { id },
+        data: {
+          appointmentTime: data.slotStart,
+          rescheduleCount: { increment: 1 },
+          ...(data.patientMeetingUrl && { patientMeetingUrl: data.patientMeetingUrl }),
+          ...(data.doctorMeetingUrl && { doctorMeetingUrl: data.doctorMeetingUrl }),
+          reschedules: {
+            create: {
+              previousTime: data.previousTime,
+              newTime: data.slotStart,
+              reason: data.reason,
+              rescheduledById: data.rescheduledById,
+            },
+          },
+        },
+        include: this.includeRelations,
+      })
+      await this.replaceAppointmentReminders(tx, updated)
+      await tx.appointmentHold.deleteMany({
+        where: { userId: data.userId, doctorId: data.doctorId, slotStart: data.slotStart },
+      })
+      return updated
+    })
+    if (!appointment) return null
+
+    // Flatten doctor.user into doctor
+    const doctorUser = appointment.doctor?.user
+    const doctor = doctorUser
+      ? {
+          id: appointment.doctor.id,
+          name: doctorUser.name,
+          email: doctorUser.email,
+          avatar: doctorUser.avatar,
+        }
+      : null
+
+    return {
+      ...appointment,
+      doctor,
+    } as AppointmentResponseType
+  }
+
+  // Sửa lịch hẹn nguyên tử: khoá slot mới của bác sĩ, kiểm tra trùng (bỏ qua chính lịch hẹn này) rồi cập nhật.
+  // Trả về null nếu slot đã có lịch hẹn khác hoặc đang được người khác giữ chỗ.
+  async updateAppointmentInSlot(
+    id: number,
+    data: UpdateAppointmentDtoType & { userId: number; doctorId: number },
+    slotStart: Date,
+    slotEnd: Date,
+  ): Promise<AppointmentResponseType | null> {
+    const appointment = await this.prisma.$transaction(async (tx) => {
+      await this.lockDoctorSlot(tx, data.doctorId, slotStart)
+      if (await this.isSlotTaken(tx, data.doctorId, slotStart, slotEnd, data.userId, id)) return null
+
+      const updated = await tx.appointment.update({
+        where: { id },
+        data,
+        include: this.includeRelations,
+      })
+      if (data.appointmentTime) await this.replaceAppointmentReminders(tx, updated)
+      return updated
+    })
+    if (!appointment) return null
+
+    // Flatten doctor.user into doctor
+    const doctorUser = appointment.doctor?.user
+    const doctor = doctorUser
+      ? {
+          id: appointment.doctor.id,
+          name: doctorUser.name,
+          email: doctorUser.email,
+          avatar: doctorUser.avatar,
+        }
+      : null
+
+    return {
+      ...appointment,
+      doctor,
+    } as AppointmentResponseType
+  }
+
   async updateAppointment(id: number, data: UpdateAppointmentDtoType): Promise<AppointmentResponseType> {
-    const appointment = await this.prisma.appointment.update({
-      where: { id },
-      data,
-      include: this.includeRelations,
+    const appointment = await this.prisma.$transaction(async (tx) => {
+      const updated = await tx.appointment.update({
+        where: { id },
+        data,
+        include: this.includeRelations,
+      })
+      // Đổi giờ hẹn thì tạo lại nhắc nhở
+      if (data.appointmentTime) await this.replaceAppointmentReminders(tx, updated)
+      return updated
     })
 
     // Flatten doctor.user into doctor
@@ -111,10 +296,37 @@ export class AppoinmentRepository {
     } as AppointmentResponseType
   }
 
-  async updateAppointmentStatus(id: number, status: AppointmentStatus): Promise<AppointmentResponseType> {
+  async updateAppointmentStatus(
+    id: number,
+    status: AppointmentStatus,
+    history?: { previousStatus?: AppointmentStatus; changedById?: number; reason?: string },
+    cancellation?: { isLateCancellation: boolean; isRefundEligible: boolean },
+  ): Promise<AppointmentResponseType> {
     const appointment = await this.prisma.appointment.update({
       where: { id },
-      data: { status },
+      data: {
+        status,
+        // Huỷ lịch: lưu lý do và kết quả áp dụng chính sách huỷ
+        ...(cancellation && {
+          cancellationReason: history?.reason,
+          cancelledAt: new Date(),
+          isLateCancellation: cancellation.isLateCancellation,
+          isRefundEligible: cancellation.isRefundEligible,
+        }),
+        ...this.buildAttendanceUpdate(history?.previousStatus, status, cancellation?.isLateCancellation ?? false),
+        // Lịch hẹn đã huỷ / vắng mặt thì bỏ các nhắc nhở chưa gửi
+        ...((status === AppointmentStatus.CANCELLED || status === AppointmentStatus.NO_SHOW) && {
+          reminders: { deleteMany: { isSent: false } },
+        }),
+        statusHistory: {
+          create: {
+            previousStatus: history?.previousStatus,
+            newStatus: status,
+            changedById: history?.changedById,
+            reason: history?.reason,
+          },
+        },
+      },
       include: this.includeRelations,
     })
 
@@ -370,13 +582,480 @@ export class AppoinmentRepository {
     return this.paginationService.paginate(this.prisma.appointment, validatedOptions, where, this.includeRelations)
   }
 
+  async findAppointmentStatusHistory(appointmentId: number): Promise<AppointmentStatusHistoryResponseType[]> {
+    return this.prisma.appointmentStatusHistory.findMany({
+      where: { appointmentId },
+      select: {
+        id: true,
+        appointmentId: true,
+        previousStatus: true,
+        newStatus: true,
+        reason: true,
+        changedBy: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+          },
+        },
+        createdAt: true,
+      },
+      orderBy: { createdAt: 'asc' },
+    })
+  }
+
   async getAppointmentByDoctorAndTime(doctorId: number, slotStart: Date, slotEnd: Date) {
     return this.prisma.appointment.findFirst({
       where: {
         doctorId,
         appointmentTime: { gte: slotStart, lt: slotEnd },
+        status: { in: SLOT_BLOCKING_APPOINTMENT_STATUSES },
+      },
+    })
+  }
+
+  // Lấy các lịch hẹn còn giữ slot của nhiều bác sĩ trong một khoảng thời gian
+  async findSlotBlockingAppointments(doctorIds: number[], from: Date, to: Date) {
+    return this.prisma.appointment.findMany({
+      where: {
+        doctorId: { in: doctorIds },
+        appointmentTime: { gte: from, lt: to },
+        status: { in: SLOT_BLOCKING_APPOINTMENT_STATUSES },
+      },
+      select: { id: true, doctorId: true, appointmentTime: true },
+    })
+  }
+
+  async findCancellationPolicies() {
+    return this.prisma.appointmentCancellationPolicy.findMany()
+  }
+
+  async findCancellationPolicyByServiceType(serviceType: ServiceType) {
+    return this.prisma.appointmentCancellationPolicy.findUnique({ where: { serviceType } })
+  }
+
+  async upsertCancellationPolicy(policy: AppointmentCancellationPolicy) {
+    const { serviceType, ...data } = policy
+    return this.prisma.appointmentCancellationPolicy.upsert({
+      where: { serviceType },
+      create: policy,
+      update: data,
+    })
+  }
+
+  async findPatientAttendance(userId: number) {
+    return this.prisma.patientAttendance.findUnique({ where: { userId } })
+  }
+
+  // Lịch hẹn chưa check-in bắt đầu trong khoảng [since, before), kèm cấu hình slot của dịch vụ để tính giờ kết thúc
+  async findNoShowCandidates(since: Date, before: Date) {
+    return this.prisma.appointment.findMany({
+      where: {
+        status: { in: NO_SHOW_CANDIDATE_STATUSES },
+        appointmentTime: { gte: since, lt: before },
+      },
+      select: {
+        id: true,
+        status: true,
+        appointmentTime: true,
+        service: { select: { slots: true } },
+      },
+      orderBy: { appointmentTime: 'asc' },
+    })
+  }
+
+  private readonly waitlistEntrySelect = {
+    id: true,
+    userId: true,
+    serviceId: true,
+    doctorId: true,
+    dateFrom: true,
+    dateTo: true,
+    status: true,
+    offeredDoctorId: true,
+    offeredSlotStart: true,
+    offerExpiresAt: true,
+    appointmentId: true,
+    createdAt: true,
+    updatedAt: true,
+  }
+
+  async createWaitlistEntry(data: {
+    userId: number
+    serviceId: number
+    doctorId?: number
+    dateFrom: Date
+    dateTo: Date
+  }): Promise<WaitlistEntryResponseType> {
+    return this.prisma.appointmentWaitlistEntry.create({ data, select: this.waitlistEntrySelect })
+  }
+
+  async findActiveWaitlistEntry(userId: number, serviceId: number) {
+    return this.prisma.appointmentWaitlistEntry.findFirst({
+      where: {
+        userId,
+        serviceId,
+        status: { in: [WaitlistStatus.WAITING, WaitlistStatus.OFFERED] },
+      },
+    })
+  }
+
+  async findWaitlistEntriesByUserId(userId: number): Promise<WaitlistEntryResponseType[]> {
+    return this.prisma.appointmentWaitlistEntry.findMany({
+      where: { userId },
+      select: this.waitlistEntrySelect,
+      orderBy: { createdAt: 'desc' },
+    })
+  }
+
+  async findWaitlistEntryById(id: number) {
+    return this.prisma.appointmentWaitlistEntry.findUnique({ where: { id } })
+  }
+
+  async findWaitlistEntryByOfferToken(offerToken: string) {
+    return this.prisma.appointmentWaitlistEntry.findUnique({ where: { offerToken } })
+  }
+
+  // Bệnh nhân chờ sớm nhất phù hợp với slot vừa trống
+  async findWaitingEntriesForSlot(serviceId: number, doctorId: number, slotStart: Date) {
+    return this.prisma.appointmentWaitlistEntry.findMany({
+      where: {
+        serviceId,
+        status: WaitlistStatus.WAITING,
+        dateFrom: { lte: slotStart },
+        dateTo: { gte: slotStart },
+        OR: [{ doctorId: null }, { doctorId }],
+      },
+      orderBy: { createdAt: 'asc' },
+    })
+  }
+
+  async findExpiredWaitlistOffers(now: Date) {
+    return this.prisma.appointmentWaitlistEntry.findMany({
+      where: { status: WaitlistStatus.OFFERED, offerExpiresAt: { lte: now } },
+    })
+  }
+
+  async updateWaitlistEntry(
+    id: number,
+    data: Prisma.AppointmentWaitlistEntryUpdateInput,
+  ): Promise<WaitlistEntryResponseType> {
+    return this.prisma.appointmentWaitlistEntry.update({ where: { id }, data, select: this.waitlistEntrySelect })
+  }
+
+  async expirePastWaitlistEntries(now: Date) {
+    return this.prisma.appointmentWaitlistEntry.updateMany({
+      where: { status: WaitlistStatus.WAITING, dateTo: { lt: now } },
+      data: { status: WaitlistStatus.EXPIRED },
+    })
+  }
+
+  // Giữ chỗ một slot; trả về null nếu slot đã có lịch hẹn hoặc đang được người khác giữ
+  async createAppointmentHold(data: {
+    userId: number
+    doctorId: number
+    serviceId: number
+    slotStart: Date
+    slotEnd: Date
+    expiresAt: Date
+  }): Promise<AppointmentHoldResponseType | null> {
+    return this.prisma.$transaction(async (tx) => {
+      await this.lockDoctorSlot(tx, data.doctorId, data.slotStart)
+      if (await this.isSlotTaken(tx, data.doctorId, data.slotStart, data.slotEnd, data.userId)) return null
+
+      // Mỗi bệnh nhân chỉ giữ một slot tại một thời điểm
+      await tx.appointmentHold.deleteMany({ where: { userId: data.userId } })
+      return tx.appointmentHold.create({ data })
+    })
+  }
+
+  async findAppointmentHoldById(id: number): Promise<AppointmentHoldResponseType | null> {
+    return this.prisma.appointmentHold.findUnique({ where: { id } })
+  }
+
+  async deleteAppointmentHold(id: number): Promise<AppointmentHoldResponseType> {
+    return this.prisma.appointmentHold.delete({ where: { id } })
+  }
+
+  async deleteExpiredAppointmentHolds(now: Date) {
+    return this.prisma.appointmentHold.deleteMany({ where: { expiresAt: { lte: now } } })
+  }
+
+  async findActiveHoldByDoctorAndTime(doctorId: number, slotStart: Date, slotEnd: Date, excludeUserId?: number) {
+    return this.prisma.appointmentHold.findFirst({
+      where: {
+        doctorId,
+        slotStart: { lt: slotEnd },
+        slotEnd: { gt: slotStart },
+        expiresAt: { gt: new Date() },
+        ...(excludeUserId && { userId: { not: excludeUserId } }),
+      },
+    })
+  }
+
+  async findActiveHoldsInRange(doctorIds: number[], from: Date, to: Date) {
+    return this.prisma.appointmentHold.findMany({
+      where: {
+        doctorId: { in: doctorIds },
+        slotStart: { gte: from, lt: to },
+        expiresAt: { gt: new Date() },
+      },
+      select: { id: true, doctorId: true, slotStart: true, slotEnd: true },
+    })
+  }
+
+  // Lịch hẹn tái khám (purpose = FOLLOW_UP), lọc theo bệnh nhân hoặc phác đồ điều trị
+  async findFollowUpAppointments(where: { userId?: number; patientTreatmentId?: number }) {
+    const appointments = await this.prisma.appointment.findMany({
+      where: { ...where, purpose: AppointmentPurpose.FOLLOW_UP },
+      include: this.includeRelations,
+      orderBy: { appointmentTime: 'asc' },
+    })
+
+    // Flatten doctor.user into doctor
+    return appointments.map((appointment) => ({
+      ...appointment,
+      doctor: {
+        id: appointment.doctor.id,
+        name: appointment.doctor.user.name,
+        email: appointment.doctor.user.email,
+        avatar: appointment.doctor.user.avatar,
+      },
+    })) as AppointmentResponseType[]
+  }
+
+  // Đếm lịch hẹn tái khám theo trạng thái trong khoảng thời gian
+  async countFollowUpAppointmentsByStatus(dateFrom?: Date, dateTo?: Date) {
+    return this.prisma.appointment.groupBy({
+      by: ['status'],
+      where: {
+        purpose: AppointmentPurpose.FOLLOW_UP,
+        ...((dateFrom || dateTo) && { appointmentTime: { gte: dateFrom, lte: dateTo } }),
+      },
+      _count: { _all: true },
+    })
+  }
+
+  async countUpcomingFollowUpAppointments(now: Date, dateTo?: Date) {
+    return this.prisma.appointment.count({
+      where: {
+        purpose: AppointmentPurpose.FOLLOW_UP,
         status: { in: [AppointmentStatus.PENDING, AppointmentStatus.CONFIRMED] },
+        appointmentTime: { gte: now, lte: dateTo },
+      },
+    })
+  }
+
+  async createAppointmentSeries(data: Prisma.AppointmentSeriesUncheckedCreateInput) {
+    return this.prisma.appointmentSeries.create({ data })
+  }
+
+  async updateAppointmentSeries(id: number, data: Prisma.AppointmentSeriesUpdateInput) {
+    return this.prisma.appointmentSeries.update({ where: { id }, data })
+  }
+
+  async deleteAppointmentSeries(id: number) {
+    return this.prisma.appointmentSeries.delete({ where: { id } })
+  }
+
+  // Lấy chuỗi lịch hẹn kèm toàn bộ các lần hẹn đã sinh
+  async findAppointmentSeriesById(id: number): Promise<AppointmentSeriesResponseType | null> {
+    const series = await this.prisma.appointmentSeries.findUnique({
+      where: { id },
+      include: {
+        appointments: {
+          include: this.includeRelations,
+          orderBy: { appointmentTime: 'asc' },
+        },
+      },
+    })
+    if (!series) return null
+
+    // Flatten doctor.user into doctor
+    const appointments = series.appointments.map((appointment) => ({
+      ...appointment,
+      doctor: {
+        id: appointment.doctor.id,
+        name: appointment.doctor.user.name,
+        email: appointment.doctor.user.email,
+        avatar: appointment.doctor.user.avatar,
+      },
+    }))
+    return { ...series, appointments } as AppointmentSeriesResponseType
+  }
+
+  // Dời một lần hẹn của chuỗi sang slot mới (có thể đổi bác sĩ), kiểm tra trùng lịch trong cùng transaction.
+  // Trả về null nếu slot mới đã có lịch hẹn hoặc đang được giữ chỗ.
+  async moveSeriesOccurrence(
+    id: number,
+    data: {
+      userId: number
+      doctorId: number
+      slotStart: Date
+      slotEnd: Date
+      isSeriesException: boolean
+      notes?: string
+    },
+  ): Promise<AppointmentResponseType | null> {
+    const appointment = await this.prisma.$transaction(async (tx) => {
+      await this.lockDoctorSlot(tx, data.doctorId, data.slotStart)
+      if (await this.isSlotTaken(tx, data.doctorId, data.slotStart, data.slotEnd, data.userId, id)) return null
+
+      const updated = await tx.appointment.update({
+        where: { id },
+        data: {
+          appointmentTime: data.slotStart,
+          doctorId: data.doctorId,
+          isSeriesException: data.isSeriesException,
+          ...(data.notes !== undefined && { notes: data.notes }),
+        },
+        include: this.includeRelations,
+      })
+      await this.replaceAppointmentReminders(tx, updated)
+      return updated
+    })
+    if (!appointment) return null
+
+    // Flatten doctor.user into doctor
+    const doctorUser = appointment.doctor?.user
+    const doctor = doctorUser
+      ? {
+          id: appointment.doctor.id,
+          name: doctorUser.name,
+          email: doctorUser.email,
+          avatar: doctorUser.avatar,
+        }
+      : null
+
+    return {
+      ...appointment,
+      doctor,
+    } as AppointmentResponseType
+  }
+
+  // Huỷ các lần hẹn chưa diễn ra của chuỗi (do phòng khám huỷ nên không tính vào thống kê đi khám của bệnh nhân)
+  async cancelSeriesOccurrences(seriesId: number, from: Date, reason: string, changedById: number): Promise<number> {
+    return this.prisma.$transaction(async (tx) => {
+      const occurrences = await tx.appointment.findMany({
+        where: {
+          seriesId,
+          appointmentTime: { gte: from },
+          status: { in: [AppointmentStatus.PENDING, AppointmentStatus.CONFIRMED] },
+        },
+        select: { id: true, status: true },
+      })
+      for (const occurrence of occurrences) {
+        await tx.appointment.update({
+          where: { id: occurrence.id },
+          data: {
+            status: AppointmentStatus.CANCELLED,
+            cancellationReason: reason,
+            cancelledAt: new Date(),
+            reminders: { deleteMany: { isSent: false } },
+            statusHistory: {
+              create: {
+                previousStatus: occurrence.status,
+                newStatus: AppointmentStatus.CANCELLED,
+                reason,
+                changedById,
+              },
+            },
+          },
+        })
+      }
+      return occurrences.length
+    })
+  }
+
+  // Tạo lại các nhắc nhở chưa gửi của lịch hẹn theo giờ hẹn hiện tại (bỏ qua các mốc đã qua)
+  private async replaceAppointmentReminders(
+    tx: Prisma.TransactionClient,
+    appointment: { id: number; userId: number; appointmentTime: Date; service: { name: string } },
+  ) {
+    await tx.reminder.deleteMany({ where: { appointmentId: appointment.id, isSent: false } })
+
+    const now = Date.now()
+    const reminders = APPOINTMENT_REMINDER_OFFSETS_HOURS.map((hours) => ({
+      userId: appointment.userId,
+      appointmentId: appointment.id,
+      type: ReminderType.APPOINTMENT,
+      remindAt: new Date(appointment.appointmentTime.getTime() - hours * 60 * 60 * 1000),
+      message: `Bạn có lịch hẹn ${appointment.service.name} sau ${hours} giờ nữa`,
+    })).filter((reminder) => reminder.remindAt.getTime() > now)
+    if (reminders.length > 0) await tx.reminder.createMany({ data: reminders })
+  }
+
+  // Cập nhật bộ đếm đi khám của bệnh nhân theo trạng thái mới của lịch hẹn
+  private buildAttendanceUpdate(
+    previousStatus: AppointmentStatus | undefined,
+    status: AppointmentStatus,
+    isLateCancellation: boolean,
+  ) {
+    const { attended, noShow, cancelled, lateCancel } = getAttendanceDelta(previousStatus, status, isLateCancellation)
+    if (!attended && !noShow && !cancelled) return {}
+
+    const lastNoShowAt = noShow ? new Date() : undefined
+    return {
+      user: {
+        update: {
+          attendance: {
+            upsert: {
+              create: {
+                attendedCount: Math.max(attended, 0),
+                noShowCount: noShow,
+                cancelledCount: cancelled,
+                lateCancelCount: lateCancel,
+                lastNoShowAt,
+              },
+              update: {
+                attendedCount: { increment: attended },
+                noShowCount: { increment: noShow },
+                cancelledCount: { increment: cancelled },
+                lateCancelCount: { increment: lateCancel },
+                lastNoShowAt,
+              },
+            },
+          },
+        },
+      },
+    }
+  }
+
+  // Advisory lock theo (bác sĩ, phút bắt đầu slot), tự nhả khi transaction kết thúc
+  private async lockDoctorSlot(tx: Prisma.TransactionClient, doctorId: number, slotStart: Date) {
+    const slotKey = Math.floor(slotStart.getTime() / 60000)
+    await tx.$queryRaw`SELECT pg_advisory_xact_lock(${doctorId}::int, ${slotKey}::int)::text`
+  }
+
+  private async isSlotTaken(
+    tx: Prisma.TransactionClient,
+    doctorId: number,
+    slotStart: Date,
+    slotEnd: Date,
+    userId: number,
+    excludeAppointmentId?: number,
+  ): Promise<boolean> {
+    const appointment = await tx.appointment.findFirst({
+      where: {
+        ...(excludeAppointmentId && { id: { not: excludeAppointmentId } }),
+        doctorId,
+        appointmentTime: { gte: slotStart, lt: slotEnd },
+        status: { in: SLOT_BLOCKING_APPOINTMENT_STATUSES },
+      },
+      select: { id: true },
+    })
+    if (appointment) return true
+
+    const hold = await tx.appointmentHold.findFirst({
+      where: {
+        doctorId,
+        slotStart: { lt: slotEnd },
+        slotEnd: { gt: slotStart },
+        expiresAt: { gt: new Date() },
+        userId: { not: userId },
       },
+      select: { id: true },
     })
+    return !!hold
   }
 }
@@ -0,0 +1,131 @@
+import { Injectable } from '@nestjs/common'
+import { DayOfWeek, Prisma, Shift } from '@prisma/client'
+import { PrismaService } from '../shared/services/prisma.service'
+import { AvailabilityTemplateType } from '../routes/doctor/availability.model'
+
+const availabilityTemplateInclude = Prisma.validator<Prisma.DoctorAvailabilityTemplateInclude>()({
+  slots: {
+    select: { dayOfWeek: true, shift: true },
+    orderBy: [{ dayOfWeek: 'asc' }, { shift: 'asc' }],
+  },
+  exceptions: {
+    select: { id: true, date: true, shifts: true, reason: true, createdAt: true },
+    orderBy: { date: 'asc' },
+  },
+})
+
+interface AvailabilitySlotRecord {
+  dayOfWeek: DayOfWeek
+  shift: Shift
+}
+
+@Injectable()
+export class AvailabilityRepository {
+  constructor(private readonly prismaService: PrismaService) {}
+
+  async createTemplate(data: {
+    doctorId: number
+    name?: string
+    effectiveFrom: Date
+    effectiveTo: Date | null
+    slots: AvailabilitySlotRecord[]
+  }): Promise<AvailabilityTemplateType> {
+    return this.prismaService.doctorAvailabilityTemplate.create({
+      data: {
+        doctorId: data.doctorId,
+        name: data.name,
+        effectiveFrom: data.effectiveFrom,
+        effectiveTo: data.effectiveTo,
+        slots: { createMany: { data: data.slots } },
+      },
+      include: availabilityTemplateInclude,
+    })
+  }
+
+  async findTemplateById(id: number): Promise<AvailabilityTemplateType | null> {
+    return this.prismaService.doctorAvailabilityTemplate.findUnique({
+      where: { id },
+      include: availabilityTemplateInclude,
+    })
+  }
+
+  async findTemplates(where: Prisma.DoctorAvailabilityTemplateWhereInput): Promise<AvailabilityTemplateType[]> {
+    return this.prismaService.doctorAvailabilityTemplate.findMany({
+      where,
+      include: availabilityTemplateInclude,
+      orderBy: [{ doctorId: 'asc' }, { effectiveFrom: 'asc' }],
+    })
+  }
+
+  // Các lịch định kỳ có hiệu lực trong khoảng ngày (effectiveTo null là không giới hạn)
+  async findTemplatesInRange(
+    startDate: Date,
+    endDate: Date,
+    doctorIds?: number[],
+  ): Promise<AvailabilityTemplateType[]> {
+    return this.findTemplates({
+      ...(doctorIds && { doctorId: { in: doctorIds } }),
+      effectiveFrom: { lte: endDate },
+      OR: [{ effectiveTo: null }, { effectiveTo: { gte: startDate } }],
+    })
+  }
+
+  async findOverlappingTemplates(
+    doctorId: number,
+    effectiveFrom: Date,
+    effectiveTo: Date | null,
+    excludeId?: number,
+  ): Promise<AvailabilityTemplateType[]> {
+    return this.findTemplates({
+      doctorId,
+      ...(excludeId && { id: { not: excludeId } }),
+      ...(effectiveTo && { effectiveFrom: { lte: effectiveTo } }),
+      OR: [{ effectiveTo: null }, { effectiveTo: { gte: effectiveFrom } }],
+    })
+  }
+
+  // Cập nhật lịch định kỳ; khi có slots mới thì thay toàn bộ slots cũ
+  async updateTemplate(
+    id: number,
+    data: { name?: string; effectiveFrom?: Date; effectiveTo?: Date | null; slots?: AvailabilitySlotRecord[] },
+  ): Promise<AvailabilityTemplateType> {
+    const { slots, ...template } = data
+    return this.prismaService.$transaction(async (tx) => {
+      if (slots) {
+        await tx.doctorAvailabilitySlot.deleteMany({ where: { templateId: id } })
+        await tx.doctorAvailabilitySlot.createMany({ data: slots.map((slot) => ({ ...slot, templateId: id })) })
+      }
+      return tx.doctorAvailabilityTemplate.update({
+        where: { id },
+        data: template,
+        include: availabilityTemplateInclude,
+      })
+    })
+  }
+
+  async deleteTemplate(id: number): Promise<void> {
+    await this.prismaService.doctorAvailabilityTemplate.delete({ where: { id } })
+  }
+
+  async upsertException(
+    templateId: number,
+    data: { date: Date; shifts: Shift[]; reason?: string },
+  ): Promise<AvailabilityTemplateType> {
+    await this.prismaService.doctorAvailabilityException.upsert({
+      where: { templateId_date: { templateId, date: data.date } },
+      create: { templateId, ...data },
+      update: { shifts: data.shifts, reason: data.reason },
+    })
+    return this.prismaService.doctorAvailabilityTemplate.findUniqueOrThrow({
+      where: { id: templateId },
+      include: availabilityTemplateInclude,
+    })
+  }
+
+  async deleteException(templateId: number, exceptionId: number): Promise<number> {
+    const { count } = await this.prismaService.doctorAvailabilityException.deleteMany({
+      where: { id: exceptionId, templateId },
+    })
+    return count
+  }
+}
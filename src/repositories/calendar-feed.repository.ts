@@ -0,0 +1,73 @@
+import { Injectable } from '@nestjs/common'
+import { Prisma } from '@prisma/client'
+import { PrismaService } from '../shared/services/prisma.service'
+import { CALENDAR_APPOINTMENT_STATUSES } from '../shared/constants/appointment.constant'
+
+@Injectable()
+export class CalendarFeedRepository {
+  constructor(private readonly prismaService: PrismaService) {}
+
+  // Bác sĩ kèm tên, dùng làm tên lịch
+  async findCalendarDoctor(where: Prisma.DoctorWhereUniqueInput) {
+    return this.prismaService.doctor.findUnique({
+      where,
+      select: { id: true, user: { select: { name: true } } },
+    })
+  }
+
+  async findFeedByDoctorId(doctorId: number) {
+    return this.prismaService.doctorCalendarFeed.findUnique({ where: { doctorId } })
+  }
+
+  async findFeedByToken(token: string) {
+    return this.prismaService.doctorCalendarFeed.findUnique({ where: { token } })
+  }
+
+  // Mỗi bác sĩ chỉ có một đường dẫn đăng ký; tạo lại thì token cũ hết hiệu lực
+  async upsertFeed(doctorId: number, token: string) {
+    return this.prismaService.doctorCalendarFeed.upsert({
+      where: { doctorId },
+      create: { doctorId, token },
+      update: { token, createdAt: new Date(), lastAccessedAt: null },
+    })
+  }
+
+  async deleteFeed(doctorId: number) {
+    return this.prismaService.doctorCalendarFeed.deleteMany({ where: { doctorId } })
+  }
+
+  async markFeedAccessed(id: number) {
+    return this.prismaService.doctorCalendarFeed.update({ where: { id }, data: { lastAccessedAt: new Date() } })
+  }
+
+  // Các ca làm việc (không nghỉ) của bác sĩ trong khoảng ngày
+  async findCalendarSchedules(doctorId: number, startDate: Date, endDate: Date) {
+    return this.prismaService.doctorSchedule.findMany({
+      where: { doctorId, date: { gte: startDate, lte: endDate }, isOff: false },
+      select: { id: true, date: true, shift: true },
+      orderBy: [{ date: 'asc' }, { shift: 'asc' }],
+    })
+  }
+
+  // Lịch hẹn đã đặt của bác sĩ trong khoảng thời gian, kèm slot của dịch vụ để tính giờ kết thúc
+  async findCalendarAppointments(doctorId: number, start: Date, end: Date) {
+    return this.prismaService.appointment.findMany({
+      where: {
+        doctorId,
+        appointmentTime: { gte: start, lte: end },
+        status: { in: CALENDAR_APPOINTMENT_STATUSES },
+      },
+      select: {
+        id: true,
+        appointmentTime: true,
+        isAnonymous: true,
+        type: true,
+        status: true,
+        doctorMeetingUrl: true,
+        user: { select: { name: true } },
+        service: { select: { name: true, slots: true } },
+      },
+      orderBy: { appointmentTime: 'asc' },
+    })
+  }
+}
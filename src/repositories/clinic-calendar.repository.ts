@@ -0,0 +1,44 @@
+import { Injectable } from '@nestjs/common'
+import { Prisma } from '@prisma/client'
+import { PrismaService } from '../shared/services/prisma.service'
+
+const clinicClosureInclude = Prisma.validator<Prisma.ClinicClosureInclude>()({
+  service: { select: { id: true, name: true } },
+})
+
+@Injectable()
+export class ClinicCalendarRepository {
+  constructor(private readonly prismaService: PrismaService) {}
+
+  async createClosure(data: Prisma.ClinicClosureUncheckedCreateInput) {
+    return this.prismaService.clinicClosure.create({ data, include: clinicClosureInclude })
+  }
+
+  async findClosureById(id: number) {
+    return this.prismaService.clinicClosure.findUnique({ where: { id }, include: clinicClosureInclude })
+  }
+
+  async findClosures(where: Prisma.ClinicClosureWhereInput) {
+    return this.prismaService.clinicClosure.findMany({
+      where,
+      include: clinicClosureInclude,
+      orderBy: [{ startDate: 'asc' }, { id: 'asc' }],
+    })
+  }
+
+  // Các ngày nghỉ giao với khoảng ngày (ngày lưu ở 00:00 UTC); không có endDate là mọi ngày nghỉ từ startDate trở đi
+  async findClosuresInRange(startDate: Date, endDate?: Date) {
+    return this.findClosures({
+      endDate: { gte: startDate },
+      ...(endDate && { startDate: { lte: endDate } }),
+    })
+  }
+
+  async updateClosure(id: number, data: Prisma.ClinicClosureUncheckedUpdateInput) {
+    return this.prismaService.clinicClosure.update({ where: { id }, data, include: clinicClosureInclude })
+  }
+
+  async deleteClosure(id: number) {
+    return this.prismaService.clinicClosure.delete({ where: { id }, include: clinicClosureInclude })
+  }
+}
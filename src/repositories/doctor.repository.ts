@@ -1,6 +1,42 @@
 import { Injectable } from '@nestjs/common'
-import { DayOfWeek, Doctor, DoctorSchedule, Prisma, Shift } from '@prisma/client'
+import {
+  DayOfWeek,
+  Doctor,
+  DoctorSchedule,
+  DoctorScheduleChange,
+  Prisma,
+  ScheduleChangeAction,
+  Shift,
+  ShiftSwapRequestStatus,
+  TimeOffRequestStatus,
+} from '@prisma/client'
 import { PrismaService } from '../shared/services/prisma.service'
+import { SLOT_BLOCKING_APPOINTMENT_STATUSES } from '../shared/constants/appointment.constant'
+import { toScheduleSnapshot } from '../shared/utils/schedule-change.utils'
+import {
+  DoctorShiftPreferenceType,
+  ShiftSwapRequestType,
+  TimeOffRequestType,
+} from '../routes/doctor/doctor.model'
+
+const timeOffRequestInclude = Prisma.validator<Prisma.TimeOffRequestInclude>()({
+  doctor: {
+    include: {
+      user: { select: { name: true, email: true } },
+    },
+  },
+})
+
+type TimeOffRequestWithDoctor = Prisma.TimeOffRequestGetPayload<{ include: typeof timeOffRequestInclude }>
+
+const shiftSwapRequestInclude = Prisma.validator<Prisma.ShiftSwapRequestInclude>()({
+  requester: { select: { id: true, user: { select: { name: true } } } },
+  targetDoctor: { select: { id: true, user: { select: { name: true } } } },
+  requesterSchedule: { select: { id: true, date: true, shift: true } },
+  targetSchedule: { select: { id: true, date: true, shift: true } },
+})
+
+type ShiftSwapRequestWithRelations = Prisma.ShiftSwapRequestGetPayload<{ include: typeof shiftSwapRequestInclude }>
 
 @Injectable()
 export class DoctorRepository {
@@ -16,12 +52,18 @@ export class DoctorRepository {
     userId: number
     specialization?: string
     certifications?: string[]
+    bio?: string
+    yearsOfExperience?: number
+    languages?: string[]
   }): Promise<Doctor> {
     return this.prismaService.doctor.create({
       data: {
         userId: data.userId,
         specialization: data.specialization || "",
         certifications: data.certifications || [],
+        bio: data.bio,
+        yearsOfExperience: data.yearsOfExperience,
+        languages: data.languages || [],
       },
       include: {
         user: {
@@ -222,6 +264,26 @@ export class DoctorRepository {
     return this.prismaService.doctorSchedule.findMany(args)
   }
 
+  // Lấy các ca làm việc (không nghỉ) trong khoảng ngày, kèm tên bác sĩ
+  async findWorkingSchedulesInRange(startDate: Date, endDate: Date, doctorId?: number) {
+    return this.prismaService.doctorSchedule.findMany({
+      where: {
+        date: { gte: startDate, lte: endDate },
+        isOff: false,
+        ...(doctorId && { doctorId }),
+        doctor: { isAvailable: true },
+      },
+      include: {
+        doctor: {
+          include: {
+            user: { select: { id: true, name: true } },
+          },
+        },
+      },
+      orderBy: [{ date: 'asc' }, { doctorId: 'asc' }],
+    })
+  }
+
   async findDoctorByDate(date: Date) {
     return this.prismaService.doctor.findMany({
       where: {
@@ -321,4 +383,286 @@ export class DoctorRepository {
       },
     })
   }
+
+  // Đơn xin nghỉ: trả về kèm tên và email bác sĩ
+  private mapTimeOffRequest({ doctor, ...request }: TimeOffRequestWithDoctor): TimeOffRequestType {
+    return {
+      ...request,
+      doctor: { id: doctor.id, name: doctor.user.name, email: doctor.user.email },
+    }
+  }
+
+  async createTimeOffRequest(data: {
+    doctorId: number
+    startDate: Date
+    endDate: Date
+    shifts: Shift[]
+    reason: string
+  }): Promise<TimeOffRequestType> {
+    const request = await this.prismaService.timeOffRequest.create({
+      data,
+      include: timeOffRequestInclude,
+    })
+    return this.mapTimeOffRequest(request)
+  }
+
+  async findTimeOffRequestById(id: number): Promise<TimeOffRequestType | null> {
+    const request = await this.prismaService.timeOffRequest.findUnique({
+      where: { id },
+      include: timeOffRequestInclude,
+    })
+    return request ? this.mapTimeOffRequest(request) : null
+  }
+
+  async findTimeOffRequests(where: Prisma.TimeOffRequestWhereInput): Promise<TimeOffRequestType[]> {
+    const requests = await this.prismaService.timeOffRequest.findMany({
+      where,
+      include: timeOffRequestInclude,
+      orderBy: [{ startDate: 'asc' }, { id: 'asc' }],
+    })
+    return requests.map((request) => this.mapTimeOffRequest(request))
+  }
+
+  // Đơn đang chờ duyệt hoặc đã duyệt của bác sĩ có khoảng ngày giao với [startDate, endDate]
+  async findOverlappingTimeOffRequests(doctorId: number, startDate: Date, endDate: Date) {
+    return this.prismaService.timeOffRequest.findMany({
+      where: {
+        doctorId,
+        status: { in: [TimeOffRequestStatus.PENDING, TimeOffRequestStatus.APPROVED] },
+        startDate: { lte: endDate },
+        endDate: { gte: startDate },
+      },
+    })
+  }
+
+  async rejectTimeOffRequest(
+    id: number,
+    data: { reviewedById: number; reviewNote?: string },
+  ): Promise<TimeOffRequestType> {
+    const request = await this.prismaService.timeOffRequest.update({
+      where: { id },
+      data: {
+        status: TimeOffRequestStatus.REJECTED,
+        reviewedById: data.reviewedById,
+        reviewNote: data.reviewNote,
+        reviewedAt: new Date(),
+      },
+      include: timeOffRequestInclude,
+    })
+    return this.mapTimeOffRequest(request)
+  }
+
+  // Duyệt đơn và đánh dấu nghỉ các ca làm việc đã xếp trong khoảng ngày của đơn, ghi lại các ca bị đổi
+  async approveTimeOffRequest(
+    id: number,
+    data: { reviewedById: number; reviewNote?: string },
+  ): Promise<{ request: TimeOffRequestType; scheduleChanges: DoctorScheduleChange[] }> {
+    const { request, scheduleChanges } = await this.prismaService.$transaction(async (tx) => {
+      const approved = await tx.timeOffRequest.update({
+        where: { id },
+        data: {
+          status: TimeOffRequestStatus.APPROVED,
+          reviewedById: data.reviewedById,
+          reviewNote: data.reviewNote,
+          reviewedAt: new Date(),
+        },
+        include: timeOffRequestInclude,
+      })
+      const schedules = await tx.doctorSchedule.findMany({
+        where: {
+          doctorId: approved.doctorId,
+          date: { gte: approved.startDate, lte: approved.endDate },
+          shift: { in: approved.shifts },
+          isOff: false,
+        },
+      })
+      await tx.doctorSchedule.updateMany({
+        where: { id: { in: schedules.map((schedule) => schedule.id) } },
+        data: { isOff: true },
+      })
+      const changes = await tx.doctorScheduleChange.createManyAndReturn({
+        data: schedules.map((schedule) => ({
+          doctorId: schedule.doctorId,
+          scheduleId: schedule.id,
+          action: ScheduleChangeAction.TIME_OFF,
+          before: toScheduleSnapshot(schedule),
+          after: toScheduleSnapshot({ ...schedule, isOff: true }),
+          changedById: data.reviewedById,
+        })),
+      })
+      return { request: approved, scheduleChanges: changes }
+    })
+    return { request: this.mapTimeOffRequest(request), scheduleChanges }
+  }
+
+  // Lịch hẹn còn giữ slot của bác sĩ trong khoảng thời gian
+  async findBookedAppointmentsInRange(doctorId: number, start: Date, end: Date) {
+    return this.prismaService.appointment.findMany({
+      where: {
+        doctorId,
+        appointmentTime: { gte: start, lte: end },
+        status: { in: SLOT_BLOCKING_APPOINTMENT_STATUSES },
+      },
+      select: {
+        id: true,
+        appointmentTime: true,
+        status: true,
+        type: true,
+        user: { select: { id: true, name: true, email: true } },
+        service: { select: { id: true, name: true } },
+      },
+      orderBy: { appointmentTime: 'asc' },
+    })
+  }
+
+  // Tên và email của các bác sĩ
+  async findDoctorContacts(ids: number[]) {
+    return this.prismaService.doctor.findMany({
+      where: { id: { in: ids } },
+      select: { id: true, user: { select: { name: true, email: true } } },
+    })
+  }
+
+  // Đơn đổi ca: trả về kèm tên hai bác sĩ
+  private mapShiftSwapRequest({
+    requester,
+    targetDoctor,
+    ...request
+  }: ShiftSwapRequestWithRelations): ShiftSwapRequestType {
+    return {
+      ...request,
+      requester: { id: requester.id, name: requester.user.name },
+      targetDoctor: { id: targetDoctor.id, name: targetDoctor.user.name },
+    }
+  }
+
+  async createShiftSwapRequest(data: {
+    requesterId: number
+    requesterScheduleId: number
+    targetDoctorId: number
+    targetScheduleId: number
+    reason?: string
+  }): Promise<ShiftSwapRequestType> {
+    const request = await this.prismaService.shiftSwapRequest.create({
+      data,
+      include: shiftSwapRequestInclude,
+    })
+    return this.mapShiftSwapRequest(request)
+  }
+
+  async findShiftSwapRequestById(id: number): Promise<ShiftSwapRequestType | null> {
+    const request = await this.prismaService.shiftSwapRequest.findUnique({
+      where: { id },
+      include: shiftSwapRequestInclude,
+    })
+    return request ? this.mapShiftSwapRequest(request) : null
+  }
+
+  async findShiftSwapRequests(where: Prisma.ShiftSwapRequestWhereInput): Promise<ShiftSwapRequestType[]> {
+    const requests = await this.prismaService.shiftSwapRequest.findMany({
+      where,
+      include: shiftSwapRequestInclude,
+      orderBy: { createdAt: 'desc' },
+    })
+    return requests.map((request) => this.mapShiftSwapRequest(request))
+  }
+
+  // Đơn đổi ca đang chờ có liên quan tới một trong các ca làm việc
+  async findPendingShiftSwapRequestForSchedules(scheduleIds: number[]) {
+    return this.prismaService.shiftSwapRequest.findFirst({
+      where: {
+        status: ShiftSwapRequestStatus.PENDING,
+        OR: [{ requesterScheduleId: { in: scheduleIds } }, { targetScheduleId: { in: scheduleIds } }],
+      },
+    })
+  }
+
+  async updateShiftSwapRequestStatus(id: number, status: ShiftSwapRequestStatus): Promise<ShiftSwapRequestType> {
+    const request = await this.prismaService.shiftSwapRequest.update({
+      where: { id },
+      data: { status, respondedAt: new Date() },
+      include: shiftSwapRequestInclude,
+    })
+    return this.mapShiftSwapRequest(request)
+  }
+
+  // Đổi bác sĩ của hai ca làm việc và chuyển các lịch hẹn đã đặt sang bác sĩ trực thay trong cùng transaction,
+  // ghi lại thay đổi cho cả hai bác sĩ. Khi đổi theo đơn, trả về null nếu đơn không còn ở trạng thái chờ.
+  async swapSchedulesWithHandover(data: {
+    first: DoctorSchedule
+    second: DoctorSchedule
+    handovers: { appointmentId: number; doctorId: number; patientMeetingUrl?: string; doctorMeetingUrl?: string }[]
+    swapRequestId?: number
+    changedById: number
+  }): Promise<DoctorScheduleChange[] | null> {
+    return this.prismaService.$transaction(async (tx) => {
+      const respondedAt = new Date()
+      if (data.swapRequestId) {
+        const { count } = await tx.shiftSwapRequest.updateMany({
+          where: { id: data.swapRequestId, status: ShiftSwapRequestStatus.PENDING },
+          data: { status: ShiftSwapRequestStatus.ACCEPTED, respondedAt },
+        })
+        if (count === 0) return null
+      }
+
+      await tx.doctorSchedule.update({
+        where: { id: data.first.id },
+        data: { doctorId: data.second.doctorId, swappedWithId: data.second.id },
+      })
+      await tx.doctorSchedule.update({
+        where: { id: data.second.id },
+        data: { doctorId: data.first.doctorId, swappedWithId: data.first.id },
+      })
+      for (const { appointmentId, ...handover } of data.handovers) {
+        await tx.appointment.update({ where: { id: appointmentId }, data: handover })
+      }
+
+      // Các đơn đổi ca khác đang chờ trên hai ca này không còn hợp lệ
+      const scheduleIds = [data.first.id, data.second.id]
+      await tx.shiftSwapRequest.updateMany({
+        where: {
+          status: ShiftSwapRequestStatus.PENDING,
+          OR: [{ requesterScheduleId: { in: scheduleIds } }, { targetScheduleId: { in: scheduleIds } }],
+        },
+        data: { status: ShiftSwapRequestStatus.CANCELLED, respondedAt },
+      })
+
+      const changes = [
+        { schedule: data.first, newDoctorId: data.second.doctorId },
+        { schedule: data.second, newDoctorId: data.first.doctorId },
+      ].flatMap(({ schedule, newDoctorId }) =>
+        [schedule.doctorId, newDoctorId].map((doctorId) => ({
+          doctorId,
+          scheduleId: schedule.id,
+          action: ScheduleChangeAction.SWAPPED,
+          before: toScheduleSnapshot(schedule),
+          after: toScheduleSnapshot({ ...schedule, doctorId: newDoctorId }),
+          changedById: data.changedById,
+        })),
+      )
+      return tx.doctorScheduleChange.createManyAndReturn({ data: changes })
+    })
+  }
+
+  async findShiftPreferences(doctorId: number): Promise<DoctorShiftPreferenceType[]> {
+    return this.prismaService.doctorShiftPreference.findMany({
+      where: { doctorId },
+      select: { dayOfWeek: true, shift: true, preference: true },
+      orderBy: [{ dayOfWeek: 'asc' }, { shift: 'asc' }],
+    })
+  }
+
+  // Thay toàn bộ nguyện vọng ca làm việc của bác sĩ
+  async replaceShiftPreferences(
+    doctorId: number,
+    preferences: DoctorShiftPreferenceType[],
+  ): Promise<DoctorShiftPreferenceType[]> {
+    await this.prismaService.$transaction([
+      this.prismaService.doctorShiftPreference.deleteMany({ where: { doctorId } }),
+      this.prismaService.doctorShiftPreference.createMany({
+        data: preferences.map((preference) => ({ ...preference, doctorId })),
+      }),
+    ])
+    return this.findShiftPreferences(doctorId)
+  }
 }
@@ -0,0 +1,40 @@
+import { Injectable } from '@nestjs/common'
+import { MedicationSchedule, Prisma } from '@prisma/client'
+import { PrismaService } from '../shared/services/prisma.service'
+import { RegimenTreatment, regimenTreatmentSelect } from '../shared/utils/regimen.utils'
+
+@Injectable()
+export class DoseLogRepository {
+  constructor(private readonly prismaService: PrismaService) {}
+
+  async findTreatmentForDoseLog(id: number): Promise<RegimenTreatment | null> {
+    return this.prismaService.patientTreatment.findUnique({ where: { id }, select: regimenTreatmentSelect })
+  }
+
+  // Đợt điều trị đang diễn ra mới nhất của bệnh nhân
+  async findActiveTreatmentForDoseLog(patientId: number): Promise<RegimenTreatment | null> {
+    const now = new Date()
+    return this.prismaService.patientTreatment.findFirst({
+      where: { patientId, startDate: { lte: now }, OR: [{ endDate: null }, { endDate: { gt: now } }] },
+      select: regimenTreatmentSelect,
+      orderBy: [{ startDate: 'desc' }, { id: 'desc' }],
+    })
+  }
+
+  // Ghi lại liều đã có thì cập nhật thay vì tạo mới
+  async upsertDoseLog(data: Prisma.DoseLogUncheckedCreateInput & { doseDate: Date; scheduleSlot: MedicationSchedule }) {
+    const { patientTreatmentId, doseDate, scheduleSlot, ...fields } = data
+    return this.prismaService.doseLog.upsert({
+      where: { patientTreatmentId_doseDate_scheduleSlot: { patientTreatmentId, doseDate, scheduleSlot } },
+      create: data,
+      update: fields,
+    })
+  }
+
+  async findDoseLogs(patientTreatmentId: number, fromDate: Date, toDate: Date) {
+    return this.prismaService.doseLog.findMany({
+      where: { patientTreatmentId, doseDate: { gte: fromDate, lte: toDate } },
+      orderBy: [{ doseDate: 'asc' }, { scheduleSlot: 'asc' }],
+    })
+  }
+}
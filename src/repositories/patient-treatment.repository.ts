@@ -4,6 +4,7 @@ import { z } from 'zod'
 import { CreatePatientTreatmentSchema } from '../routes/patient-treatment/patient-treatment.model'
 import { PaginationService } from '../shared/services/pagination.service'
 import { PrismaService } from '../shared/services/prisma.service'
+import { replaceMedicineReminders } from './reminder.repository'
 
 // Constants
 const DAYS_IN_MS = 1000 * 60 * 60 * 24
@@ -112,19 +113,23 @@ export class PatientTreatmentRepository {
     const customMedicationsJson = this.serializeCustomMedications(validatedData.customMedications)
 
     try {
-      return await this.prismaService.patientTreatment.create({
-        data: {
-          patientId: validatedData.patientId,
-          protocolId: validatedData.protocolId,
-          doctorId: validatedData.doctorId,
-          customMedications: customMedicationsJson,
-          notes: validatedData.notes,
-          startDate: validatedData.startDate,
-          endDate: validatedData.endDate,
-          createdById: validatedData.createdById,
-          total: validatedData.total || 0,
-        },
-        include: this.defaultIncludes,
+      return await this.prismaService.$transaction(async (tx) => {
+        const created = await tx.patientTreatment.create({
+          data: {
+            patientId: validatedData.patientId,
+            protocolId: validatedData.protocolId,
+            doctorId: validatedData.doctorId,
+            customMedications: customMedicationsJson,
+            notes: validatedData.notes,
+            startDate: validatedData.startDate,
+            endDate: validatedData.endDate,
+            createdById: validatedData.createdById,
+            total: validatedData.total || 0,
+          },
+          include: this.defaultIncludes,
+        })
+        await replaceMedicineReminders(tx, [created.id])
+        return created
       })
     } catch (error) {
       throw this.handlePrismaError(error)
@@ -153,6 +158,7 @@ export class PatientTreatmentRepository {
 
   /**
    * Update patient treatment with validation
+   * Upcoming medicine reminders are rebuilt, so a changed regimen or end date takes effect immediately
    */
   async updatePatientTreatment(
     id: number,
@@ -177,10 +183,14 @@ export class PatientTreatmentRepository {
     }
 
     try {
-      return await this.prismaService.patientTreatment.update({
-        where: { id: validatedId },
-        data: updateData,
-        include: this.defaultIncludes,
+      return await this.prismaService.$transaction(async (tx) => {
+        const updated = await tx.patientTreatment.update({
+          where: { id: validatedId },
+          data: updateData,
+          include: this.defaultIncludes,
+        })
+        await replaceMedicineReminders(tx, [updated.id])
+        return updated
       })
     } catch (error) {
       throw this.handlePrismaError(error)
@@ -203,17 +213,21 @@ export class PatientTreatmentRepository {
     const validatedIds = treatmentIds.map((id) => this.validateId(id))
 
     try {
-      const result = await this.prismaService.patientTreatment.updateMany({
-        where: {
-          id: {
-            in: validatedIds,
+      const result = await this.prismaService.$transaction(async (tx) => {
+        const updated = await tx.patientTreatment.updateMany({
+          where: {
+            id: {
+              in: validatedIds,
+            },
           },
-        },
-        data: {
-          ...(data.endDate && { endDate: data.endDate }),
-          ...(data.notes && { notes: data.notes }),
-          ...(data.total !== undefined && { total: data.total }),
-        },
+          data: {
+            ...(data.endDate && { endDate: data.endDate }),
+            ...(data.notes && { notes: data.notes }),
+            ...(data.total !== undefined && { total: data.total }),
+          },
+        })
+        if (data.endDate) await replaceMedicineReminders(tx, validatedIds)
+        return updated
       })
 
       return { count: result.count }
@@ -434,6 +448,34 @@ export class PatientTreatmentRepository {
     }
   }
 
+  /**
+   * Get treatments that have started and not yet ended, for viral load monitoring
+   * Newest treatment of each patient comes first
+   */
+  async findTreatmentsForViralLoadMonitoring(doctorId?: number) {
+    const currentDate = new Date()
+
+    try {
+      return await this.prismaService.patientTreatment.findMany({
+        where: {
+          startDate: { lte: currentDate },
+          OR: [{ endDate: null }, { endDate: { gt: currentDate } }],
+          ...(doctorId && { doctorId: this.validateId(doctorId) }),
+        },
+        select: {
+          id: true,
+          patientId: true,
+          startDate: true,
+          patient: { select: { id: true, name: true, email: true, phoneNumber: true } },
+          doctor: { select: { id: true, user: { select: { name: true } } } },
+        },
+        orderBy: [{ patientId: 'asc' }, { startDate: 'desc' }],
+      })
+    } catch (error) {
+      throw this.handlePrismaError(error)
+    }
+  }
+
   /**
    * Get active patient treatments by patient ID with additional status information
    * Provides enhanced information about current treatments including timing status
@@ -0,0 +1,44 @@
+import { Injectable } from '@nestjs/common'
+import { Prisma } from '@prisma/client'
+import { PrismaService } from '../shared/services/prisma.service'
+
+@Injectable()
+export class QualificationRepository {
+  constructor(private readonly prismaService: PrismaService) {}
+
+  async createQualification(data: Prisma.DoctorQualificationUncheckedCreateInput) {
+    return this.prismaService.doctorQualification.create({ data })
+  }
+
+  async findQualificationById(id: number) {
+    return this.prismaService.doctorQualification.findUnique({ where: { id } })
+  }
+
+  async findQualifications(where: Prisma.DoctorQualificationWhereInput) {
+    return this.prismaService.doctorQualification.findMany({
+      where,
+      orderBy: [{ doctorId: 'asc' }, { expiresAt: { sort: 'asc', nulls: 'last' } }, { id: 'asc' }],
+    })
+  }
+
+  async updateQualification(id: number, data: Prisma.DoctorQualificationUncheckedUpdateInput) {
+    return this.prismaService.doctorQualification.update({ where: { id }, data })
+  }
+
+  async deleteQualification(id: number) {
+    return this.prismaService.doctorQualification.delete({ where: { id } })
+  }
+
+  // Chứng chỉ còn hạn nhưng sẽ hết hạn trước mốc thời gian và chưa được nhắc
+  async findQualificationsToAlert(now: Date, until: Date) {
+    return this.prismaService.doctorQualification.findMany({
+      where: { expiresAt: { gte: now, lte: until }, expiryAlertSentAt: null },
+      include: { doctor: { select: { user: { select: { name: true, email: true } } } } },
+      orderBy: { expiresAt: 'asc' },
+    })
+  }
+
+  async markExpiryAlertSent(id: number) {
+    return this.prismaService.doctorQualification.update({ where: { id }, data: { expiryAlertSentAt: new Date() } })
+  }
+}
@@ -0,0 +1,177 @@
+import { Injectable } from '@nestjs/common'
+import { Prisma, ReminderType } from '@prisma/client'
+import { ReminderResponseType } from '../routes/reminder/reminder.dto'
+import { MAX_REMINDER_ATTEMPTS } from '../shared/constants/reminder.constant'
+import { PrismaService } from '../shared/services/prisma.service'
+import { buildMedicineReminders, getMedicineReminderTimes } from '../shared/utils/medicine-reminder.utils'
+import { regimenTreatmentSelect } from '../shared/utils/regimen.utils'
+
+/**
+ * Rebuild the upcoming medicine reminders of treatments from their current regimen and the patient's reminder times
+ *
+ * Called inside the transaction that changes a treatment, its protocol or the reminder times.
+ * Reminders the patient opted out of are kept and not created again.
+ */
+export async function replaceMedicineReminders(
+  tx: Prisma.TransactionClient,
+  patientTreatmentIds: number[],
+  now: Date = new Date(),
+): Promise<void> {
+  if (patientTreatmentIds.length === 0) return
+
+  const treatments = await tx.patientTreatment.findMany({
+    where: { id: { in: patientTreatmentIds } },
+    select: { ...regimenTreatmentSelect, patient: { select: { reminderPreference: true } } },
+  })
+  const upcoming = {
+    patientTreatmentId: { in: patientTreatmentIds },
+    type: ReminderType.MEDICINE,
+    isSent: false,
+    remindAt: { gt: now },
+  }
+  await tx.reminder.deleteMany({ where: { ...upcoming, isCancelled: false } })
+  const optedOut = await tx.reminder.findMany({
+    where: { ...upcoming, isCancelled: true },
+    select: { patientTreatmentId: true, remindAt: true },
+  })
+  const optedOutKeys = new Set(
+    optedOut.map((reminder) => `${reminder.patientTreatmentId}:${reminder.remindAt.getTime()}`),
+  )
+
+  const reminders = treatments
+    .flatMap((treatment) =>
+      buildMedicineReminders(treatment, getMedicineReminderTimes(treatment.patient.reminderPreference), now),
+    )
+    .filter((reminder) => !optedOutKeys.has(`${reminder.patientTreatmentId}:${reminder.remindAt.getTime()}`))
+  if (reminders.length > 0) await tx.reminder.createMany({ data: reminders })
+}
+
+@Injectable()
+export class ReminderRepository {
+  constructor(private readonly prisma: PrismaService) {}
+
+  private readonly reminderSelect = {
+    id: true,
+    userId: true,
+    type: true,
+    message: true,
+    remindAt: true,
+    isSent: true,
+    isCancelled: true,
+    appointmentId: true,
+    patientTreatmentId: true,
+    scheduleSlot: true,
+    sentAt: true,
+    createdAt: true,
+  }
+
+  async findRemindersByUserId(
+    userId: number,
+    filter: { type?: ReminderType; upcoming?: boolean },
+  ): Promise<ReminderResponseType[]> {
+    return this.prisma.reminder.findMany({
+      where: {
+        userId,
+        ...(filter.type && { type: filter.type }),
+        ...(filter.upcoming && { isSent: false, isCancelled: false, remindAt: { gte: new Date() } }),
+      },
+      select: this.reminderSelect,
+      orderBy: { remindAt: filter.upcoming ? 'asc' : 'desc' },
+      take: 100,
+    })
+  }
+
+  async findReminderById(id: number) {
+    return this.prisma.reminder.findUnique({ where: { id } })
+  }
+
+  async updateReminder(id: number, data: Prisma.ReminderUpdateInput): Promise<ReminderResponseType> {
+    return this.prisma.reminder.update({ where: { id }, data, select: this.reminderSelect })
+  }
+
+  // Nhắc nhở đến hạn gửi (kể cả các lần gửi lại đã tới giờ), kèm thông tin cần cho email
+  async findDueReminders(now: Date, limit: number) {
+    return this.prisma.reminder.findMany({
+      where: {
+        isSent: false,
+        isCancelled: false,
+        remindAt: { lte: now },
+        attempts: { lt: MAX_REMINDER_ATTEMPTS },
+        OR: [{ nextAttemptAt: null }, { nextAttemptAt: { lte: now } }],
+      },
+      include: {
+        user: {
+          select: {
+            email: true,
+            reminderPreference: true,
+          },
+        },
+        appointment: {
+          select: {
+            appointmentTime: true,
+            status: true,
+            type: true,
+            patientMeetingUrl: true,
+            service: { select: { name: true } },
+          },
+        },
+      },
+      orderBy: { remindAt: 'asc' },
+      take: limit,
+    })
+  }
+
+  // Nhận gửi một nhắc nhở bằng cách dời nextAttemptAt tới leaseUntil; false nếu lần chạy khác đã nhận hoặc đã gửi
+  async claimReminder(id: number, now: Date, leaseUntil: Date): Promise<boolean> {
+    const { count } = await this.prisma.reminder.updateMany({
+      where: {
+        id,
+        isSent: false,
+        isCancelled: false,
+        OR: [{ nextAttemptAt: null }, { nextAttemptAt: { lte: now } }],
+      },
+      data: { nextAttemptAt: leaseUntil },
+    })
+    return count === 1
+  }
+
+  async findReminderPreference(userId: number) {
+    return this.prisma.reminderPreference.findUnique({ where: { userId } })
+  }
+
+  async upsertReminderPreference(
+    userId: number,
+    data: {
+      appointmentReminders?: boolean
+      medicineReminders?: boolean
+      morningReminderTime?: string
+      afternoonReminderTime?: string
+      nightReminderTime?: string
+    },
+  ) {
+    return this.prisma.reminderPreference.upsert({
+      where: { userId },
+      create: { userId, ...data },
+      update: data,
+    })
+  }
+
+  // Đợt điều trị chưa kết thúc, lấy theo từng trang id tăng dần; truyền userId để chỉ lấy của một bệnh nhân
+  async findActiveTreatmentIds(filter: { userId?: number; afterId?: number; limit?: number }): Promise<number[]> {
+    const treatments = await this.prisma.patientTreatment.findMany({
+      where: {
+        ...(filter.userId && { patientId: filter.userId }),
+        ...(filter.afterId && { id: { gt: filter.afterId } }),
+        OR: [{ endDate: null }, { endDate: { gt: new Date() } }],
+      },
+      select: { id: true },
+      orderBy: { id: 'asc' },
+      take: filter.limit,
+    })
+    return treatments.map((treatment) => treatment.id)
+  }
+
+  async syncMedicineReminders(patientTreatmentIds: number[]): Promise<void> {
+    await this.prisma.$transaction((tx) => replaceMedicineReminders(tx, patientTreatmentIds))
+  }
+}
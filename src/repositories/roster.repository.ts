@@ -0,0 +1,160 @@
+import { Injectable } from '@nestjs/common'
+import { DayOfWeek, DoctorScheduleChange, Prisma, RosterStatus, ScheduleChangeAction, Shift } from '@prisma/client'
+import { PrismaService } from '../shared/services/prisma.service'
+import { toScheduleSnapshot } from '../shared/utils/schedule-change.utils'
+import {
+  RosterAssignmentType,
+  RosterConstraintsSchema,
+  RosterConstraintsType,
+  RosterType,
+} from '../routes/doctor/roster.model'
+
+const rosterInclude = Prisma.validator<Prisma.RosterInclude>()({
+  assignments: {
+    include: { doctor: { select: { user: { select: { name: true } } } } },
+    orderBy: [{ date: 'asc' }, { shift: 'asc' }, { doctorId: 'asc' }],
+  },
+})
+
+type RosterWithAssignments = Prisma.RosterGetPayload<{ include: typeof rosterInclude }>
+
+export interface RosterAssignmentRecord {
+  doctorId: number
+  date: Date
+  shift: Shift
+}
+
+@Injectable()
+export class RosterRepository {
+  constructor(private readonly prismaService: PrismaService) {}
+
+  private mapRoster({ assignments, constraints, ...roster }: RosterWithAssignments): {
+    roster: RosterType
+    assignments: RosterAssignmentType[]
+  } {
+    return {
+      roster: { ...roster, constraints: RosterConstraintsSchema.parse(constraints) },
+      assignments: assignments.map(({ doctor, date, ...assignment }) => ({
+        id: assignment.id,
+        doctorId: assignment.doctorId,
+        doctorName: doctor.user.name,
+        date: date.toISOString().slice(0, 10),
+        shift: assignment.shift,
+        isManual: assignment.isManual,
+      })),
+    }
+  }
+
+  async createRoster(data: {
+    weekStart: Date
+    constraints: RosterConstraintsType
+    createdById: number
+    assignments: RosterAssignmentRecord[]
+  }) {
+    const roster = await this.prismaService.roster.create({
+      data: {
+        weekStart: data.weekStart,
+        constraints: data.constraints,
+        createdById: data.createdById,
+        assignments: { createMany: { data: data.assignments } },
+      },
+      include: rosterInclude,
+    })
+    return this.mapRoster(roster)
+  }
+
+  async findRosterById(id: number) {
+    const roster = await this.prismaService.roster.findUnique({
+      where: { id },
+      include: rosterInclude,
+    })
+    return roster ? this.mapRoster(roster) : null
+  }
+
+  async findRosters(where: Prisma.RosterWhereInput): Promise<RosterType[]> {
+    const rosters = await this.prismaService.roster.findMany({
+      where,
+      orderBy: [{ weekStart: 'desc' }, { id: 'desc' }],
+    })
+    return rosters.map((roster) => ({ ...roster, constraints: RosterConstraintsSchema.parse(roster.constraints) }))
+  }
+
+  // Chỉnh sửa bản nháp: bỏ các phân công cũ rồi thêm phân công thủ công mới
+  async updateRosterAssignments(id: number, add: RosterAssignmentRecord[], remove: RosterAssignmentRecord[]) {
+    const roster = await this.prismaService.$transaction(async (tx) => {
+      if (remove.length > 0) {
+        await tx.rosterAssignment.deleteMany({ where: { rosterId: id, OR: remove } })
+      }
+      if (add.length > 0) {
+        await tx.rosterAssignment.createMany({
+          data: add.map((assignment) => ({ ...assignment, rosterId: id, isManual: true })),
+          skipDuplicates: true,
+        })
+      }
+      return tx.roster.update({ where: { id }, data: { updatedAt: new Date() }, include: rosterInclude })
+    })
+    return this.mapRoster(roster)
+  }
+
+  // Công bố bản nháp thành lịch làm việc và ghi lại các ca được phân công.
+  // Trả về null nếu bản nháp đã được công bố hoặc huỷ.
+  async publishRoster(
+    id: number,
+    schedules: { doctorId: number; date: Date; dayOfWeek: DayOfWeek; shift: Shift }[],
+    publishedById: number,
+  ): Promise<DoctorScheduleChange[] | null> {
+    return this.prismaService.$transaction(async (tx) => {
+      const { count } = await tx.roster.updateMany({
+        where: { id, status: RosterStatus.DRAFT },
+        data: { status: RosterStatus.PUBLISHED, publishedAt: new Date() },
+      })
+      if (count === 0) return null
+      const created = await tx.doctorSchedule.createManyAndReturn({
+        data: schedules.map((schedule) => ({ ...schedule, isOff: false })),
+      })
+      return tx.doctorScheduleChange.createManyAndReturn({
+        data: created.map((schedule) => ({
+          doctorId: schedule.doctorId,
+          scheduleId: schedule.id,
+          action: ScheduleChangeAction.PUBLISHED,
+          after: toScheduleSnapshot(schedule),
+          changedById: publishedById,
+        })),
+      })
+    })
+  }
+
+  async updateRosterStatus(id: number, status: RosterStatus): Promise<RosterType> {
+    const roster = await this.prismaService.roster.update({ where: { id }, data: { status } })
+    return { ...roster, constraints: RosterConstraintsSchema.parse(roster.constraints) }
+  }
+
+  // Bác sĩ đang nhận lịch, kèm tên và chuyên khoa
+  async findRosterDoctors() {
+    return this.prismaService.doctor.findMany({
+      where: { isAvailable: true },
+      select: { id: true, specialization: true, user: { select: { name: true } } },
+      orderBy: { id: 'asc' },
+    })
+  }
+
+  async findShiftPreferences(doctorIds: number[]) {
+    return this.prismaService.doctorShiftPreference.findMany({
+      where: { doctorId: { in: doctorIds } },
+    })
+  }
+
+  // Các ca làm việc (không nghỉ) đã công bố trong khoảng ngày
+  async findWorkingSchedules(startDate: Date, endDate: Date) {
+    return this.prismaService.doctorSchedule.findMany({
+      where: { date: { gte: startDate, lte: endDate }, isOff: false },
+      select: { doctorId: true, date: true, shift: true },
+    })
+  }
+
+  async countSchedulesInRange(startDate: Date, endDate: Date): Promise<number> {
+    return this.prismaService.doctorSchedule.count({
+      where: { date: { gte: startDate, lte: endDate } },
+    })
+  }
+}
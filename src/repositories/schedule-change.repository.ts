@@ -0,0 +1,33 @@
+import { Injectable } from '@nestjs/common'
+import { Prisma } from '@prisma/client'
+import { PrismaService } from '../shared/services/prisma.service'
+
+@Injectable()
+export class ScheduleChangeRepository {
+  constructor(private readonly prismaService: PrismaService) {}
+
+  async createScheduleChanges(data: Prisma.DoctorScheduleChangeCreateManyInput[]) {
+    return this.prismaService.doctorScheduleChange.createManyAndReturn({ data })
+  }
+
+  async findScheduleChangeDoctor(id: number) {
+    return this.prismaService.doctor.findUnique({
+      where: { id },
+      select: { id: true, userId: true, scheduleChangesSeenAt: true },
+    })
+  }
+
+  // Thay đổi mới nhất trước, kèm tên người thay đổi
+  async findScheduleChanges(doctorId: number, since: Date | undefined, limit: number) {
+    return this.prismaService.doctorScheduleChange.findMany({
+      where: { doctorId, ...(since && { createdAt: { gt: since } }) },
+      include: { changedBy: { select: { id: true, name: true } } },
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      take: limit,
+    })
+  }
+
+  async markScheduleChangesSeen(doctorId: number, seenAt: Date) {
+    return this.prismaService.doctor.update({ where: { id: doctorId }, data: { scheduleChangesSeenAt: seenAt } })
+  }
+}
@@ -0,0 +1,117 @@
+import { Injectable } from '@nestjs/common'
+import { Prisma, TestType } from '@prisma/client'
+import { PrismaService } from '../shared/services/prisma.service'
+
+export const testResultInclude = Prisma.validator<Prisma.TestResultInclude>()({
+  user: { select: { id: true, name: true } },
+  doctor: { select: { id: true, user: { select: { name: true } } } },
+  appointment: { select: { id: true, appointmentTime: true, service: { select: { id: true, name: true } } } },
+})
+
+export type TestResultWithRelations = Prisma.TestResultGetPayload<{ include: typeof testResultInclude }>
+
+@Injectable()
+export class TestResultRepository {
+  constructor(private readonly prismaService: PrismaService) {}
+
+  getTestResultModel() {
+    return this.prismaService.testResult
+  }
+
+  async createTestResult(data: Prisma.TestResultUncheckedCreateInput): Promise<TestResultWithRelations> {
+    return this.prismaService.testResult.create({ data, include: testResultInclude })
+  }
+
+  async findTestResultById(id: number): Promise<TestResultWithRelations | null> {
+    return this.prismaService.testResult.findUnique({ where: { id }, include: testResultInclude })
+  }
+
+  // Kết quả mới nhất trước
+  async findTestResults(where: Prisma.TestResultWhereInput, take?: number): Promise<TestResultWithRelations[]> {
+    return this.prismaService.testResult.findMany({
+      where,
+      include: testResultInclude,
+      orderBy: [{ resultDate: 'desc' }, { id: 'desc' }],
+      take,
+    })
+  }
+
+  async updateTestResult(id: number, data: Prisma.TestResultUncheckedUpdateInput): Promise<TestResultWithRelations> {
+    return this.prismaService.testResult.update({ where: { id }, data, include: testResultInclude })
+  }
+
+  async deleteTestResult(id: number): Promise<TestResultWithRelations> {
+    return this.prismaService.testResult.delete({ where: { id }, include: testResultInclude })
+  }
+
+  async findTreatmentForTestResult(id: number) {
+    return this.prismaService.patientTreatment.findUnique({
+      where: { id },
+      select: { id: true, patientId: true, doctorId: true },
+    })
+  }
+
+  async findDoctorForTestResult(id: number) {
+    return this.prismaService.doctor.findUnique({ where: { id }, select: { id: true } })
+  }
+
+  // Lịch hẹn kèm loại và giá dịch vụ, dùng để kiểm tra lịch hẹn xét nghiệm
+  async findAppointmentForTestResult(id: number) {
+    return this.prismaService.appointment.findUnique({
+      where: { id },
+      select: { id: true, userId: true, service: { select: { type: true, price: true } } },
+    })
+  }
+
+  // Kết quả tải lượng virus mới nhất của từng bệnh nhân
+  async findLatestViralLoads(userIds: number[]) {
+    return this.prismaService.testResult.findMany({
+      where: { userId: { in: userIds }, type: { equals: TestType.HIV_VIRAL_LOAD, mode: 'insensitive' } },
+      orderBy: [{ userId: 'asc' }, { resultDate: 'desc' }, { id: 'desc' }],
+      distinct: ['userId'],
+      select: { userId: true, resultDate: true, value: true },
+    })
+  }
+
+  async findPatientForLabTrends(id: number) {
+    return this.prismaService.user.findUnique({ where: { id }, select: { id: true, name: true } })
+  }
+
+  // Các đợt điều trị của bệnh nhân theo thứ tự thời gian, mỗi lần đổi phác đồ là một đợt
+  async findTreatmentPeriods(patientId: number) {
+    return this.prismaService.patientTreatment.findMany({
+      where: { patientId },
+      select: {
+        id: true,
+        protocolId: true,
+        startDate: true,
+        endDate: true,
+        protocol: { select: { name: true } },
+        doctor: { select: { id: true, user: { select: { name: true } } } },
+      },
+      orderBy: [{ startDate: 'asc' }, { id: 'asc' }],
+    })
+  }
+
+  // Kết quả CD4 và tải lượng virus có giá trị số, cũ nhất trước
+  async findLabTrendResults(patientId: number) {
+    return this.prismaService.testResult.findMany({
+      where: {
+        userId: patientId,
+        value: { not: null },
+        OR: [TestType.CD4, TestType.HIV_VIRAL_LOAD].map((type) => ({ type: { equals: type, mode: 'insensitive' } })),
+      },
+      select: {
+        id: true,
+        type: true,
+        value: true,
+        unit: true,
+        referenceRangeLow: true,
+        referenceRangeHigh: true,
+        resultDate: true,
+        patientTreatmentId: true,
+      },
+      orderBy: [{ resultDate: 'asc' }, { id: 'asc' }],
+    })
+  }
+}
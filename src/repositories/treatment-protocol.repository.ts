@@ -4,6 +4,7 @@ import { z } from 'zod'
 import { PaginatedResponse } from '../shared/schemas/pagination.schema'
 import { PaginationService } from '../shared/services/pagination.service'
 import { PrismaService } from '../shared/services/prisma.service'
+import { replaceMedicineReminders } from './reminder.repository'
 
 export const ProtocolMedicineSchema = z.object({
   medicineId: z.number().positive('Medicine ID must be positive'),
@@ -208,30 +209,45 @@ export class TreatmentProtocolRepository {
       }
     }
 
-    return this.prismaService.treatmentProtocol.update({
-      where: { id },
-      data: updateData,
-      include: {
-        medicines: {
-          include: {
-            medicine: true,
+    // Đổi thuốc của phác đồ thì tạo lại nhắc uống thuốc của các đợt điều trị đang dùng phác đồ
+    return this.prismaService.$transaction(async (tx) => {
+      const protocol = await tx.treatmentProtocol.update({
+        where: { id },
+        data: updateData,
+        include: {
+          medicines: {
+            include: {
+              medicine: true,
+            },
           },
-        },
-        createdBy: {
-          select: {
-            id: true,
-            name: true,
-            email: true,
+          createdBy: {
+            select: {
+              id: true,
+              name: true,
+              email: true,
+            },
           },
-        },
-        updatedBy: {
-          select: {
-            id: true,
-            name: true,
-            email: true,
+          updatedBy: {
+            select: {
+              id: true,
+              name: true,
+              email: true,
+            },
           },
         },
-      },
+      })
+
+      if (data.medicines) {
+        const treatments = await tx.patientTreatment.findMany({
+          where: { protocolId: id, OR: [{ endDate: null }, { endDate: { gt: new Date() } }] },
+          select: { id: true },
+        })
+        await replaceMedicineReminders(
+          tx,
+          treatments.map((treatment) => treatment.id),
+        )
+      }
+      return protocol
     })
   }
 
@@ -106,6 +106,20 @@ export class AuthRepository {
     }) as Promise<UserResponseType | null>
   }
 
+  async findUserRoleNameById(id: number): Promise<string | null> {
+    const user = await this.prismaService.user.findUnique({
+      where: { id },
+      select: {
+        role: {
+          select: {
+            name: true,
+          },
+        },
+      },
+    })
+    return user?.role.name.toUpperCase() ?? null
+  }
+
   async findUserByIdWithDoctorId(id: number): Promise<(UserResponseType & { doctorId?: number }) | null> {
     const user = (await this.prismaService.user.findFirst({
       where: { id },
@@ -0,0 +1,43 @@
+import { Injectable } from '@nestjs/common'
+import { PrismaService } from '../shared/services/prisma.service'
+
+@Injectable()
+export class WorkloadRepository {
+  constructor(private readonly prismaService: PrismaService) {}
+
+  async findWorkloadDoctors() {
+    return this.prismaService.doctor.findMany({
+      select: { id: true, specialization: true, isAvailable: true, user: { select: { name: true } } },
+      orderBy: { id: 'asc' },
+    })
+  }
+
+  // Các ca làm việc (không nghỉ) trong khoảng ngày
+  async findWorkingSchedules(startDate: Date, endDate: Date) {
+    return this.prismaService.doctorSchedule.findMany({
+      where: { date: { gte: startDate, lte: endDate }, isOff: false },
+      select: { doctorId: true, date: true, shift: true },
+    })
+  }
+
+  // Số lịch hẹn theo bác sĩ, trạng thái và hình thức khám
+  async countAppointmentsByDoctor(start: Date, end: Date) {
+    return this.prismaService.appointment.groupBy({
+      by: ['doctorId', 'status', 'type'],
+      where: { appointmentTime: { gte: start, lte: end } },
+      _count: { _all: true },
+    })
+  }
+
+  // Số phác đồ điều trị còn hiệu lực trong khoảng ngày theo bác sĩ
+  async countActiveTreatmentsByDoctor(startDate: Date, endDate: Date) {
+    return this.prismaService.patientTreatment.groupBy({
+      by: ['doctorId'],
+      where: {
+        startDate: { lte: endDate },
+        OR: [{ endDate: null }, { endDate: { gte: startDate } }],
+      },
+      _count: { _all: true },
+    })
+  }
+}
@@ -1,31 +1,67 @@
-import { Controller, Get, Post, Put, Delete, Body, Param, Query, ParseIntPipe } from '@nestjs/common'
+import { Controller, Get, Post, Put, Delete, Body, Param, Query, ParseIntPipe, ParseEnumPipe } from '@nestjs/common'
+import { ServiceType } from '@prisma/client'
 import { AppoinmentService } from './appoinment.service'
 import {
+  AcceptWaitlistOfferDto,
+  AcceptWaitlistOfferDtoType,
+  AppointmentAvailabilityQueryDto,
+  AppointmentAvailabilityQueryType,
+  AppointmentAvailabilityResponseType,
+  AppointmentHoldResponseType,
   AppointmentResponseType,
+  AppointmentStatusHistoryResponseType,
+  CancelAppointmentDto,
+  CancelAppointmentDtoType,
+  CancellationPolicyResponseType,
   CreateAppointmentDto,
   CreateAppointmentDtoType,
+  CreateAppointmentHoldDto,
+  CreateAppointmentHoldDtoType,
+  CreateWaitlistEntryDto,
+  CreateWaitlistEntryDtoType,
+  PatientAttendanceResponseType,
+  RescheduleAppointmentDto,
+  RescheduleAppointmentDtoType,
   UpdateAppointmentDto,
   UpdateAppointmentDtoType,
+  UpdateAppointmentStatusDto,
+  UpdateAppointmentStatusDtoType,
+  UpdateCancellationPolicyDto,
+  UpdateCancellationPolicyDtoType,
+  WaitlistEntryResponseType,
 } from './appoinment.dto'
 import { PaginatedResponse, PaginationOptions } from 'src/shared/schemas/pagination.schema'
 import {
+  ApiAcceptWaitlistOffer,
+  ApiCancelAppointment,
   ApiCreateAppointment,
+  ApiCreateAppointmentHold,
   ApiDeleteAppointment,
   ApiFindAppointmentByDoctorId,
   ApiFindAppointmentById,
   ApiFindAppointmentByUserId,
   ApiFindAppointmentsPaginated,
   ApiFindAppointmentsPaginatedByStaff,
+  ApiFindMyWaitlistEntries,
+  ApiGetAppointmentAvailability,
+  ApiGetAppointmentStatusHistory,
+  ApiGetCancellationPolicies,
+  ApiGetPatientAttendance,
+  ApiJoinWaitlist,
+  ApiLeaveWaitlist,
+  ApiReleaseAppointmentHold,
+  ApiRescheduleAppointment,
   ApiUpdateAppointment,
   ApiUpdateAppointmentStatus,
+  ApiUpdateCancellationPolicy,
 } from 'src/swagger/appoinment.swagger'
-import { AppointmentStatus } from '@prisma/client'
 import CustomZodValidationPipe from 'src/common/custom-zod-validate'
 import { ApiBearerAuth, ApiTags } from '@nestjs/swagger'
 import { Auth } from 'src/shared/decorators/auth.decorator'
 import { AuthType } from 'src/shared/constants/auth.constant'
 import { Roles } from 'src/shared/decorators/roles.decorator'
 import { Role } from 'src/shared/constants/role.constant'
+import { ActiveUser } from 'src/shared/decorators/active-user.decorator'
 
 @ApiTags('Appointments')
 @ApiBearerAuth()
@@ -45,6 +81,64 @@ export class AppoinmentController {
     return this.appoinmentService.createAppointment(body)
   }
 
+  @ApiCreateAppointmentHold()
+  @Roles(Role.Patient)
+  @Post('holds')
+  createAppointmentHold(
+    @Body(new CustomZodValidationPipe(CreateAppointmentHoldDto)) body: CreateAppointmentHoldDtoType,
+    @ActiveUser('userId') userId: number,
+  ): Promise<AppointmentHoldResponseType> {
+    return this.appoinmentService.createAppointmentHold(userId, body)
+  }
+
+  @ApiReleaseAppointmentHold()
+  @Roles(Role.Patient)
+  @Delete('holds/:id')
+  releaseAppointmentHold(
+    @Param('id', ParseIntPipe) id: number,
+    @ActiveUser('userId') userId: number,
+  ): Promise<AppointmentHoldResponseType> {
+    return this.appoinmentService.releaseAppointmentHold(id, userId)
+  }
+
+  @ApiJoinWaitlist()
+  @Roles(Role.Patient)
+  @Post('waitlist')
+  joinWaitlist(
+    @Body(new CustomZodValidationPipe(CreateWaitlistEntryDto)) body: CreateWaitlistEntryDtoType,
+    @ActiveUser('userId') userId: number,
+  ): Promise<WaitlistEntryResponseType> {
+    return this.appoinmentService.joinWaitlist(userId, body)
+  }
+
+  @ApiFindMyWaitlistEntries()
+  @Roles(Role.Patient)
+  @Get('waitlist/me')
+  findMyWaitlistEntries(@ActiveUser('userId') userId: number): Promise<WaitlistEntryResponseType[]> {
+    return this.appoinmentService.findMyWaitlistEntries(userId)
+  }
+
+  @ApiLeaveWaitlist()
+  @Roles(Role.Patient)
+  @Delete('waitlist/:id')
+  leaveWaitlist(
+    @Param('id', ParseIntPipe) id: number,
+    @ActiveUser('userId') userId: number,
+  ): Promise<WaitlistEntryResponseType> {
+    return this.appoinmentService.leaveWaitlist(id, userId)
+  }
+
+  // Trang nhận lịch trên frontend (mở từ email mời) gửi token lên đây, token đóng vai trò xác thực.
+  // Dùng POST để trình quét link trong email không tự nhận lịch thay bệnh nhân
+  @ApiAcceptWaitlistOffer()
+  @Auth([AuthType.None])
+  @Post('waitlist/offers/accept')
+  acceptWaitlistOffer(
+    @Body(new CustomZodValidationPipe(AcceptWaitlistOfferDto)) body: AcceptWaitlistOfferDtoType,
+  ): Promise<AppointmentResponseType> {
+    return this.appoinmentService.acceptWaitlistOffer(body.token)
+  }
+
   @ApiUpdateAppointment()
   @Roles(Role.Staff, Role.Doctor)
   @Put(':id')
@@ -56,17 +150,66 @@ export class AppoinmentController {
   }
 
   @ApiUpdateAppointmentStatus()
-  @Roles(Role.Staff, Role.Doctor, Role.Patient)
+  @Roles(Role.Admin, Role.Staff, Role.Doctor, Role.Patient)
   @Put('status/:id/')
   updateAppointmentStatus(
     @Param('id', ParseIntPipe) id: number,
-    @Body('status') status: string,
+    @Body(new CustomZodValidationPipe(UpdateAppointmentStatusDto)) body: UpdateAppointmentStatusDtoType,
+    @ActiveUser('userId') userId: number,
+  ): Promise<AppointmentResponseType> {
+    return this.appoinmentService.updateAppointmentStatus(id, body, userId)
+  }
+
+  @ApiRescheduleAppointment()
+  @Roles(Role.Admin, Role.Staff, Role.Doctor, Role.Patient)
+  @Post(':id/reschedule')
+  rescheduleAppointment(
+    @Param('id', ParseIntPipe) id: number,
+    @Body(new CustomZodValidationPipe(RescheduleAppointmentDto)) body: RescheduleAppointmentDtoType,
+    @ActiveUser('userId') userId: number,
   ): Promise<AppointmentResponseType> {
-    return this.appoinmentService.updateAppointmentStatus(id, status as AppointmentStatus)
+    return this.appoinmentService.rescheduleAppointment(id, body, userId)
+  }
+
+  @ApiCancelAppointment()
+  @Roles(Role.Admin, Role.Staff, Role.Doctor, Role.Patient)
+  @Post(':id/cancel')
+  cancelAppointment(
+    @Param('id', ParseIntPipe) id: number,
+    @Body(new CustomZodValidationPipe(CancelAppointmentDto)) body: CancelAppointmentDtoType,
+    @ActiveUser('userId') userId: number,
+  ): Promise<AppointmentResponseType> {
+    return this.appoinmentService.cancelAppointment(id, body, userId)
+  }
+
+  @ApiGetCancellationPolicies()
+  @Get('cancellation-policies')
+  getCancellationPolicies(): Promise<CancellationPolicyResponseType[]> {
+    return this.appoinmentService.getCancellationPolicies()
+  }
+
+  @ApiUpdateCancellationPolicy()
+  @Roles(Role.Admin)
+  @Put('cancellation-policies/:serviceType')
+  updateCancellationPolicy(
+    @Param('serviceType', new ParseEnumPipe(ServiceType)) serviceType: ServiceType,
+    @Body(new CustomZodValidationPipe(UpdateCancellationPolicyDto)) body: UpdateCancellationPolicyDtoType,
+  ): Promise<CancellationPolicyResponseType> {
+    return this.appoinmentService.updateCancellationPolicy(serviceType, body)
+  }
+
+  @ApiGetAppointmentStatusHistory()
+  @Roles(Role.Admin, Role.Staff, Role.Doctor, Role.Patient)
+  @Get(':id/history')
+  findAppointmentStatusHistory(
+    @Param('id', ParseIntPipe) id: number,
+    @ActiveUser('userId') userId: number,
+  ): Promise<AppointmentStatusHistoryResponseType[]> {
+    return this.appoinmentService.findAppointmentStatusHistory(id, userId)
   }
 
   @ApiDeleteAppointment()
-  @Roles(Role.Admin, Role.Staff)
+  @Roles(Role.Admin)
   @Delete(':id')
   deleteAppointment(@Param('id', ParseIntPipe) id: number): Promise<AppointmentResponseType> {
     return this.appoinmentService.deleteAppointment(id)
@@ -82,6 +225,16 @@ export class AppoinmentController {
     return this.appoinmentService.findAppointmentByUserId(id, query)
   }
 
+  @ApiGetPatientAttendance()
+  @Roles(Role.Patient, Role.Admin, Role.Staff, Role.Doctor)
+  @Get('user/:id/attendance')
+  getPatientAttendance(
+    @Param('id', ParseIntPipe) id: number,
+    @ActiveUser('userId') userId: number,
+  ): Promise<PatientAttendanceResponseType> {
+    return this.appoinmentService.getPatientAttendance(id, userId)
+  }
+
   @ApiFindAppointmentByDoctorId()
   @Roles(Role.Doctor, Role.Admin)
   @Get('doctor/:id')
@@ -106,6 +259,14 @@ export class AppoinmentController {
     return this.appoinmentService.findAppointmentsPaginatedByStaff(query)
   }
 
+  @ApiGetAppointmentAvailability()
+  @Get('availability')
+  getAppointmentAvailability(
+    @Query(new CustomZodValidationPipe(AppointmentAvailabilityQueryDto)) query: AppointmentAvailabilityQueryType,
+  ): Promise<AppointmentAvailabilityResponseType> {
+    return this.appoinmentService.getAppointmentAvailability(query)
+  }
+
   @ApiFindAppointmentById()
   @Get(':id')
   findAppointmentById(@Param('id', ParseIntPipe) id: number): Promise<AppointmentResponseType> {
@@ -1,6 +1,29 @@
 import { createZodDto } from 'nestjs-zod'
 import { z } from 'zod'
-import { CreateAppointmentSchema, UpdateAppointmentSchema, AppointmentResSchema } from './appoinment.model'
+import {
+  CreateAppointmentSchema,
+  UpdateAppointmentSchema,
+  AppointmentResSchema,
+  UpdateAppointmentStatusSchema,
+  AppointmentStatusHistoryResSchema,
+  AppointmentAvailabilityQuerySchema,
+  AppointmentAvailabilityResSchema,
+  CreateAppointmentHoldSchema,
+  AppointmentHoldResSchema,
+  RescheduleAppointmentSchema,
+  CancelAppointmentSchema,
+  CancellationPolicySchema,
+  UpdateCancellationPolicySchema,
+  PatientAttendanceResSchema,
+  CreateWaitlistEntrySchema,
+  AcceptWaitlistOfferSchema,
+  WaitlistEntryResSchema,
+  CreateAppointmentSeriesSchema,
+  UpdateAppointmentSeriesOccurrenceSchema,
+  AppointmentSeriesResSchema,
+  AppointmentSeriesPlanResSchema,
+  doctorFallbackSchema,
+} from './appoinment.model'
 
 export class CreateAppointmentDto extends createZodDto(CreateAppointmentSchema) {
   static create(data: unknown) {
@@ -14,6 +37,85 @@ export class UpdateAppointmentDto extends createZodDto(UpdateAppointmentSchema)
   }
 }
 
+export class UpdateAppointmentStatusDto extends createZodDto(UpdateAppointmentStatusSchema) {
+  static create(data: unknown) {
+    return UpdateAppointmentStatusSchema.parse(data)
+  }
+}
+
+export class RescheduleAppointmentDto extends createZodDto(RescheduleAppointmentSchema) {
+  static create(data: unknown) {
+    return RescheduleAppointmentSchema.parse(data)
+  }
+}
+
+export class CancelAppointmentDto extends createZodDto(CancelAppointmentSchema) {
+  static create(data: unknown) {
+    return CancelAppointmentSchema.parse(data)
+  }
+}
+
+export class UpdateCancellationPolicyDto extends createZodDto(UpdateCancellationPolicySchema) {
+  static create(data: unknown) {
+    return UpdateCancellationPolicySchema.parse(data)
+  }
+}
+
+export class CreateWaitlistEntryDto extends createZodDto(CreateWaitlistEntrySchema) {
+  static create(data: unknown) {
+    return CreateWaitlistEntrySchema.parse(data)
+  }
+}
+
+export class AcceptWaitlistOfferDto extends createZodDto(AcceptWaitlistOfferSchema) {
+  static create(data: unknown) {
+    return AcceptWaitlistOfferSchema.parse(data)
+  }
+}
+
+export class CreateAppointmentSeriesDto extends createZodDto(CreateAppointmentSeriesSchema) {
+  static create(data: unknown) {
+    return CreateAppointmentSeriesSchema.parse(data)
+  }
+}
+
+export class UpdateAppointmentSeriesOccurrenceDto extends createZodDto(UpdateAppointmentSeriesOccurrenceSchema) {
+  static create(data: unknown) {
+    return UpdateAppointmentSeriesOccurrenceSchema.parse(data)
+  }
+}
+
+export class CreateAppointmentHoldDto extends createZodDto(CreateAppointmentHoldSchema) {
+  static create(data: unknown) {
+    return CreateAppointmentHoldSchema.parse(data)
+  }
+}
+
+export class AppointmentAvailabilityQueryDto extends createZodDto(AppointmentAvailabilityQuerySchema) {
+  static create(data: unknown) {
+    return AppointmentAvailabilityQuerySchema.parse(data)
+  }
+}
+
 export type AppointmentResponseType = z.infer<typeof AppointmentResSchema>
 export type CreateAppointmentDtoType = z.infer<typeof CreateAppointmentSchema>
 export type UpdateAppointmentDtoType = z.infer<typeof UpdateAppointmentSchema>
+export type UpdateAppointmentStatusDtoType = z.infer<typeof UpdateAppointmentStatusSchema>
+export type AppointmentStatusHistoryResponseType = z.infer<typeof AppointmentStatusHistoryResSchema>
+export type AppointmentAvailabilityQueryType = z.infer<typeof AppointmentAvailabilityQuerySchema>
+export type AppointmentAvailabilityResponseType = z.infer<typeof AppointmentAvailabilityResSchema>
+export type CreateAppointmentHoldDtoType = z.infer<typeof CreateAppointmentHoldSchema>
+export type DoctorFallbackType = z.infer<typeof doctorFallbackSchema>
+export type AppointmentHoldResponseType = z.infer<typeof AppointmentHoldResSchema>
+export type RescheduleAppointmentDtoType = z.infer<typeof RescheduleAppointmentSchema>
+export type CancelAppointmentDtoType = z.infer<typeof CancelAppointmentSchema>
+export type CancellationPolicyResponseType = z.infer<typeof CancellationPolicySchema>
+export type UpdateCancellationPolicyDtoType = z.infer<typeof UpdateCancellationPolicySchema>
+export type PatientAttendanceResponseType = z.infer<typeof PatientAttendanceResSchema>
+export type CreateWaitlistEntryDtoType = z.infer<typeof CreateWaitlistEntrySchema>
+export type AcceptWaitlistOfferDtoType = z.infer<typeof AcceptWaitlistOfferSchema>
+export type WaitlistEntryResponseType = z.infer<typeof WaitlistEntryResSchema>
+export type CreateAppointmentSeriesDtoType = z.infer<typeof CreateAppointmentSeriesSchema>
+export type UpdateAppointmentSeriesOccurrenceDtoType = z.infer<typeof UpdateAppointmentSeriesOccurrenceSchema>
+export type AppointmentSeriesResponseType = z.infer<typeof AppointmentSeriesResSchema>
+export type AppointmentSeriesPlanResponseType = z.infer<typeof AppointmentSeriesPlanResSchema>
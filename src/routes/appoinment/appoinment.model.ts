@@ -1,5 +1,12 @@
 import { Prisma } from '@prisma/client'
 import { z } from 'zod'
+import {
+  MAX_AVAILABILITY_RANGE_DAYS,
+  MAX_SERIES_INTERVAL_DAYS,
+  MAX_SERIES_OCCURRENCES,
+  MAX_WAITLIST_WINDOW_DAYS,
+  MIN_SERIES_INTERVAL_DAYS,
+} from '../../shared/constants/appointment.constant'
 
 export const userResSchhema = z.object({
   id: z.number(),
@@ -36,7 +43,9 @@ export const AppointmentSchema = z.object({
   type: z.enum(['ONLINE', 'OFFLINE'], {
     errorMap: () => ({ message: 'Type must be ONLINE hoặc OFFLINE' }),
   }),
-  status: z.enum(['PENDING', 'CHECKIN', 'PAID', 'PROCESS', 'CONFIRMED', 'COMPLETED', 'CANCELLED']).default('PENDING'),
+  status: z
+    .enum(['PENDING', 'CHECKIN', 'PAID', 'PROCESS', 'CONFIRMED', 'COMPLETED', 'CANCELLED', 'NO_SHOW'])
+    .default('PENDING'),
   notes: z.string().nullable().optional(),
   patientMeetingUrl: z.string().nullable().optional(),
   doctorMeetingUrl: z.string().nullable().optional(),
@@ -44,6 +53,12 @@ export const AppointmentSchema = z.object({
   updatedAt: z.date(),
 })
 
+const appointmentPurposeSchema = z.enum(['INITIAL', 'FOLLOW_UP', 'TEST', 'REFILL'])
+
+// Cách xử lý khi bác sĩ bệnh nhân mong muốn không rảnh ở slot đã chọn (chỉ áp dụng cho tư vấn online):
+// AUTO_ASSIGN: tự chọn bác sĩ rảnh khác, FAIL: báo lỗi, SUGGEST: báo lỗi kèm các slot trống gần nhất của bác sĩ đó
+export const doctorFallbackSchema = z.enum(['AUTO_ASSIGN', 'FAIL', 'SUGGEST'])
+
 export const CreateAppointmentSchema = z.object({
   userId: z.number(),
   doctorId: z.number().optional(),
@@ -56,10 +71,17 @@ export const CreateAppointmentSchema = z.object({
   type: z.enum(['ONLINE', 'OFFLINE'], {
     errorMap: () => ({ message: 'Type must be ONLINE hoặc OFFLINE' }),
   }),
-  status: z.enum(['PENDING', 'CHECKIN', 'PAID', 'PROCESS', 'CONFIRMED', 'COMPLETED', 'CANCELLED']).default('PENDING'),
+  status: z
+    .enum(['PENDING', 'CHECKIN', 'PAID', 'PROCESS', 'CONFIRMED', 'COMPLETED', 'CANCELLED', 'NO_SHOW'])
+    .default('PENDING'),
   notes: z.string().nullable().optional(),
   patientMeetingUrl: z.string().nullable().optional(),
   doctorMeetingUrl: z.string().nullable().optional(),
+  holdId: z.number().int().positive().optional(), // slot đã giữ chỗ qua POST /appointments/holds
+  patientTreatmentId: z.number().int().positive().optional(), // phác đồ điều trị mà lịch hẹn thuộc về
+  purpose: appointmentPurposeSchema.optional(), // mặc định suy ra từ phác đồ / loại dịch vụ
+  preferredDoctorId: z.number().int().positive().optional(), // mặc định là bác sĩ điều trị của phác đồ
+  doctorFallback: doctorFallbackSchema.optional(), // mặc định AUTO_ASSIGN
 })
 
 export const UpdateAppointmentSchema = z.object({
@@ -75,15 +97,44 @@ export const UpdateAppointmentSchema = z.object({
       errorMap: () => ({ message: 'Type must be ONLINE hoặc OFFLINE' }),
     })
     .optional(),
-  status: z
-    .enum(['PENDING', 'CHECKIN', 'PAID', 'PROCESS', 'CONFIRMED', 'COMPLETED', 'CANCELLED'])
-    .default('PENDING')
-    .optional(),
   notes: z.string().nullable().optional(),
   patientMeetingUrl: z.string().nullable().optional(),
   doctorMeetingUrl: z.string().nullable().optional(),
 })
 
+export const UpdateAppointmentStatusSchema = z.object({
+  status: z.enum(['PENDING', 'CHECKIN', 'PAID', 'PROCESS', 'CONFIRMED', 'COMPLETED', 'CANCELLED', 'NO_SHOW'], {
+    errorMap: () => ({ message: 'Invalid appointment status' }),
+  }),
+  reason: z.string().max(1000).optional(),
+})
+
+export const RescheduleAppointmentSchema = z.object({
+  appointmentTime: z.preprocess(
+    (val) => (typeof val === 'string' || val instanceof Date ? new Date(val) : val),
+    z.date(),
+  ),
+  reason: z.string().trim().min(1, { message: 'Reason is required' }).max(1000),
+})
+
+export const CancelAppointmentSchema = z.object({
+  reason: z.string().trim().min(1, { message: 'Reason is required' }).max(1000),
+})
+
+export const CancellationPolicySchema = z.object({
+  serviceType: z.enum(['TEST', 'CONSULT', 'TREATMENT']),
+  minNoticeHours: z
+    .number()
+    .int()
+    .min(0)
+    .max(24 * 30),
+  allowLateCancel: z.boolean(),
+  refundable: z.boolean(),
+  lateCancelRefundable: z.boolean(),
+})
+
+export const UpdateCancellationPolicySchema = CancellationPolicySchema.omit({ serviceType: true }).partial()
+
 export const AppointmentResSchema = z.object({
   id: z.number(),
   user: userResSchhema,
@@ -92,19 +143,247 @@ export const AppointmentResSchema = z.object({
   appointmentTime: z.date(),
   isAnonymous: z.boolean(),
   type: z.enum(['ONLINE', 'OFFLINE']),
-  status: z.enum(['PENDING', 'CHECKIN', 'PAID', 'PROCESS', 'CONFIRMED', 'COMPLETED', 'CANCELLED']),
+  status: z.enum(['PENDING', 'CHECKIN', 'PAID', 'PROCESS', 'CONFIRMED', 'COMPLETED', 'CANCELLED', 'NO_SHOW']),
   notes: z.string().nullable(),
   patientMeetingUrl: z.string().nullable().optional(),
   doctorMeetingUrl: z.string().nullable().optional(),
+  rescheduleCount: z.number(),
+  cancellationReason: z.string().nullable(),
+  cancelledAt: z.date().nullable(),
+  isLateCancellation: z.boolean(),
+  isRefundEligible: z.boolean().nullable(),
+  patientTreatmentId: z.number().nullable(),
+  purpose: appointmentPurposeSchema,
+  seriesId: z.number().nullable(),
+  seriesIndex: z.number().nullable(),
+  isSeriesException: z.boolean(),
   createdAt: z.date(),
   updatedAt: z.date(),
 })
 
+export const AppointmentStatusHistoryResSchema = z.object({
+  id: z.number(),
+  appointmentId: z.number(),
+  previousStatus: z
+    .enum(['PENDING', 'CHECKIN', 'PAID', 'PROCESS', 'CONFIRMED', 'COMPLETED', 'CANCELLED', 'NO_SHOW'])
+    .nullable(),
+  newStatus: z.enum(['PENDING', 'CHECKIN', 'PAID', 'PROCESS', 'CONFIRMED', 'COMPLETED', 'CANCELLED', 'NO_SHOW']),
+  reason: z.string().nullable(),
+  changedBy: z
+    .object({
+      id: z.number(),
+      name: z.string(),
+      email: z.string(),
+    })
+    .nullable(),
+  createdAt: z.date(),
+})
+
+export const CreateAppointmentHoldSchema = z.object({
+  serviceId: z.number(),
+  doctorId: z.number().optional(),
+  preferredDoctorId: z.number().int().positive().optional(),
+  doctorFallback: doctorFallbackSchema.optional(),
+  appointmentTime: z.preprocess(
+    (val) => (typeof val === 'string' || val instanceof Date ? new Date(val) : val),
+    z.date(),
+  ),
+})
+
+export const AppointmentHoldResSchema = z.object({
+  id: z.number(),
+  userId: z.number(),
+  doctorId: z.number(),
+  serviceId: z.number(),
+  slotStart: z.date(),
+  slotEnd: z.date(),
+  expiresAt: z.date(),
+  createdAt: z.date(),
+})
+
+const dateOnlySchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, { message: 'Date must be in YYYY-MM-DD format' })
+
+export const AppointmentAvailabilityQuerySchema = z
+  .object({
+    serviceId: z.coerce.number().int().positive(),
+    date: dateOnlySchema,
+    endDate: dateOnlySchema.optional(),
+    doctorId: z.coerce.number().int().positive().optional(),
+  })
+  .refine((query) => !query.endDate || query.endDate >= query.date, {
+    message: 'End date must be on or after date',
+    path: ['endDate'],
+  })
+  .refine(
+    (query) =>
+      !query.endDate ||
+      (Date.parse(query.endDate) - Date.parse(query.date)) / (24 * 60 * 60 * 1000) < MAX_AVAILABILITY_RANGE_DAYS,
+    {
+      message: `Date range cannot exceed ${MAX_AVAILABILITY_RANGE_DAYS} days`,
+      path: ['endDate'],
+    },
+  )
+
+export const AvailableSlotSchema = z.object({
+  start: z.string(),
+  end: z.string(),
+  shift: z.enum(['MORNING', 'AFTERNOON']),
+  isAvailable: z.boolean(),
+  availableDoctors: z.array(
+    z.object({
+      id: z.number(),
+      name: z.string(),
+    }),
+  ),
+})
+
+export const AppointmentAvailabilityResSchema = z.object({
+  serviceId: z.number(),
+  days: z.array(
+    z.object({
+      date: z.string(),
+      slots: z.array(AvailableSlotSchema),
+    }),
+  ),
+})
+
+export const CreateWaitlistEntrySchema = z
+  .object({
+    serviceId: z.number(),
+    doctorId: z.number().optional(),
+    dateFrom: dateOnlySchema,
+    dateTo: dateOnlySchema,
+  })
+  .refine((data) => data.dateTo >= data.dateFrom, {
+    message: 'dateTo must be on or after dateFrom',
+    path: ['dateTo'],
+  })
+  .refine(
+    (data) => (Date.parse(data.dateTo) - Date.parse(data.dateFrom)) / (24 * 60 * 60 * 1000) < MAX_WAITLIST_WINDOW_DAYS,
+    {
+      message: `Waitlist window cannot exceed ${MAX_WAITLIST_WINDOW_DAYS} days`,
+      path: ['dateTo'],
+    },
+  )
+
+export const AcceptWaitlistOfferSchema = z.object({
+  token: z.string().min(1, 'Offer token is required'),
+})
+
+export const WaitlistEntryResSchema = z.object({
+  id: z.number(),
+  userId: z.number(),
+  serviceId: z.number(),
+  doctorId: z.number().nullable(),
+  dateFrom: z.date(),
+  dateTo: z.date(),
+  status: z.enum(['WAITING', 'OFFERED', 'BOOKED', 'EXPIRED', 'CANCELLED']),
+  offeredDoctorId: z.number().nullable(),
+  offeredSlotStart: z.date().nullable(),
+  offerExpiresAt: z.date().nullable(),
+  appointmentId: z.number().nullable(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+})
+
+const timeOnlySchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, { message: 'Time must be in HH:mm format' })
+
+const dayOfWeekSchema = z.enum(['MONDAY', 'TUESDAY', 'WEDNESDAY', 'THURSDAY', 'FRIDAY', 'SATURDAY', 'SUNDAY'])
+
+export const CreateAppointmentSeriesSchema = z
+  .object({
+    patientTreatmentId: z.number().int().positive().optional(),
+    userId: z.number().int().positive().optional(), // mặc định lấy bệnh nhân của treatment
+    doctorId: z.number().int().positive().optional(), // mặc định lấy bác sĩ của treatment
+    serviceId: z.number().int().positive().optional(), // mặc định tìm dịch vụ tái khám HIV
+    startDate: dateOnlySchema,
+    intervalDays: z.number().int().min(MIN_SERIES_INTERVAL_DAYS).max(MAX_SERIES_INTERVAL_DAYS),
+    occurrenceCount: z.number().int().min(1).max(MAX_SERIES_OCCURRENCES).optional(),
+    untilDate: dateOnlySchema.optional(),
+    preferredWeekday: dayOfWeekSchema.optional(),
+    preferredSlot: timeOnlySchema.optional(),
+    notes: z.string().max(1000).optional(),
+  })
+  .refine((data) => data.patientTreatmentId || (data.userId && data.doctorId), {
+    message: 'Either patientTreatmentId or both userId and doctorId are required',
+    path: ['patientTreatmentId'],
+  })
+  .refine((data) => data.occurrenceCount || data.untilDate, {
+    message: 'Either occurrenceCount or untilDate is required',
+    path: ['occurrenceCount'],
+  })
+  .refine((data) => !data.untilDate || data.untilDate >= data.startDate, {
+    message: 'untilDate must be on or after startDate',
+    path: ['untilDate'],
+  })
+
+export const UpdateAppointmentSeriesOccurrenceSchema = z
+  .object({
+    scope: z.enum(['THIS', 'FUTURE']), // chỉ lần hẹn này, hoặc lần này và tất cả các lần sau
+    appointmentTime: z
+      .preprocess((val) => (typeof val === 'string' || val instanceof Date ? new Date(val) : val), z.date())
+      .optional(),
+    doctorId: z.number().int().positive().optional(),
+    notes: z.string().max(1000).optional(),
+    intervalDays: z.number().int().min(MIN_SERIES_INTERVAL_DAYS).max(MAX_SERIES_INTERVAL_DAYS).optional(),
+    preferredWeekday: dayOfWeekSchema.nullable().optional(),
+  })
+  .refine(
+    (data) =>
+      data.appointmentTime ||
+      data.doctorId ||
+      data.notes !== undefined ||
+      data.intervalDays ||
+      data.preferredWeekday !== undefined,
+    { message: 'Nothing to update' },
+  )
+  .refine((data) => data.scope === 'FUTURE' || (!data.intervalDays && data.preferredWeekday === undefined), {
+    message: 'intervalDays and preferredWeekday can only be changed for all future occurrences',
+    path: ['scope'],
+  })
+
+export const AppointmentSeriesResSchema = z.object({
+  id: z.number(),
+  userId: z.number(),
+  doctorId: z.number(),
+  serviceId: z.number(),
+  patientTreatmentId: z.number().nullable(),
+  startDate: z.date(),
+  intervalDays: z.number(),
+  occurrenceCount: z.number().nullable(),
+  untilDate: z.date().nullable(),
+  preferredWeekday: dayOfWeekSchema.nullable(),
+  preferredSlot: z.string().nullable(),
+  notes: z.string().nullable(),
+  status: z.enum(['ACTIVE', 'CANCELLED']),
+  createdById: z.number().nullable(),
+  appointments: z.array(AppointmentResSchema),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+})
+
+// Kết quả sinh lịch: các ngày không xếp được slot nào sẽ bị bỏ qua
+export const AppointmentSeriesPlanResSchema = AppointmentSeriesResSchema.extend({
+  skippedDates: z.array(z.string()),
+})
+
+export const PatientAttendanceResSchema = z.object({
+  userId: z.number(),
+  attendedCount: z.number(),
+  noShowCount: z.number(),
+  cancelledCount: z.number(),
+  lateCancelCount: z.number(),
+  lastNoShowAt: z.date().nullable(),
+  attendanceRate: z.number().nullable(), // % lịch hẹn có đến khám, null khi chưa có dữ liệu
+})
+
 export const AppointmentFilterSchema = z
   .object({
     serviceId: z.number({ message: 'Service ID must be a number' }).optional(),
     appointmentTime: z.date({ message: 'Appointment time must be a valid date' }).optional(),
-    status: z.enum(['PENDING', 'CHECKIN', 'PAID', 'PROCESS', 'CONFIRMED', 'COMPLETED', 'CANCELLED']).optional(),
+    status: z
+      .enum(['PENDING', 'CHECKIN', 'PAID', 'PROCESS', 'CONFIRMED', 'COMPLETED', 'CANCELLED', 'NO_SHOW'])
+      .optional(),
     type: z.enum(['ONLINE', 'OFFLINE']).optional(),
     serviceType: z.enum(['TEST', 'CONSULT', 'TREATMENT']).optional(),
     dateFrom: z.string().optional(),
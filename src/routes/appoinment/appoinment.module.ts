@@ -5,7 +5,9 @@ import { AppoinmentRepository } from '../../repositories/appoinment.repository'
 import { PrismaService } from 'src/shared/services/prisma.service'
 import { AuthRepository } from 'src/repositories/user.repository'
 import { ServiceRepository } from 'src/repositories/service.repository'
+import { PatientTreatmentRepository } from 'src/repositories/patient-treatment.repository'
 import { DoctorRepository } from 'src/repositories/doctor.repository'
+import { ClinicCalendarRepository } from 'src/repositories/clinic-calendar.repository'
 import { MeetingService } from '../meeting/meeting.service'
 import { EmailService } from 'src/shared/services/email.service'
 
@@ -17,9 +19,11 @@ import { EmailService } from 'src/shared/services/email.service'
     PrismaService,
     AuthRepository,
     ServiceRepository,
+    PatientTreatmentRepository,
     DoctorRepository,
     MeetingService,
     EmailService,
+    ClinicCalendarRepository,
   ],
 })
 export class AppoinmentModule {}
@@ -0,0 +1,365 @@
+import { Test, TestingModule } from '@nestjs/testing'
+import { AppoinmentRepository } from '../../repositories/appoinment.repository'
+import { ClinicCalendarRepository } from '../../repositories/clinic-calendar.repository'
+import { DoctorRepository } from '../../repositories/doctor.repository'
+import { PatientTreatmentRepository } from '../../repositories/patient-treatment.repository'
+import { ServiceRepository } from '../../repositories/service.repository'
+import { AuthRepository } from '../../repositories/user.repository'
+import { EmailService } from '../../shared/services/email.service'
+import { PaginationService } from '../../shared/services/pagination.service'
+import { MeetingService } from '../meeting/meeting.service'
+import { AppoinmentService } from './appoinment.service'
+
+// Config đọc file .env khi import; MeetingService dùng node-fetch (ESM). Test không cần cả hai
+jest.mock('../../shared/config', () => ({ __esModule: true, default: {} }))
+jest.mock('../meeting/meeting.service', () => ({ MeetingService: class MeetingService {} }))
+
+describe('AppoinmentService', () => {
+  let service: AppoinmentService
+  let appoinmentRepository: Partial<Record<keyof AppoinmentRepository, jest.Mock>>
+  let userRepository: Partial<Record<keyof AuthRepository, jest.Mock>>
+  let serviceRepository: Partial<Record<keyof ServiceRepository, jest.Mock>>
+  let doctorRepository: Partial<Record<keyof DoctorRepository, jest.Mock>>
+  let emailService: Partial<Record<keyof EmailService, jest.Mock>>
+
+  const appointment = (overrides: Record<string, unknown> = {}) => ({
+    id: 1,
+    status: 'PENDING',
+    appointmentTime: new Date('2099-01-05T08:00:00+07:00'),
+    user: { id: 2 },
+    doctor: { id: 3 },
+    service: { id: 10, type: 'TEST' },
+    ...overrides,
+  })
+
+  beforeEach(async () => {
+    appoinmentRepository = {
+      findAppointmentById: jest.fn(),
+      updateAppointmentStatus: jest.fn().mockImplementation((id, status) => Promise.resolve({ id, status })),
+      findCancellationPolicyByServiceType: jest.fn().mockResolvedValue(null),
+      findWaitingEntriesForSlot: jest.fn().mockResolvedValue([]),
+      findNoShowCandidates: jest.fn().mockResolvedValue([]),
+      findWaitlistEntryByOfferToken: jest.fn(),
+      findAppointmentHoldById: jest.fn().mockResolvedValue(null),
+      createAppointmentHold: jest.fn(),
+      updateWaitlistEntry: jest.fn(),
+      getAppointmentByDoctorAndTime: jest.fn().mockResolvedValue(null),
+      findActiveHoldByDoctorAndTime: jest.fn().mockResolvedValue(null),
+      findSlotBlockingAppointments: jest.fn().mockResolvedValue([]),
+    }
+    userRepository = {
+      findUserRoleNameById: jest.fn(),
+      findUserByIdWithDoctorId: jest.fn(),
+      findUserById: jest.fn(),
+    }
+    serviceRepository = {
+      findServiceById: jest.fn(),
+    }
+    doctorRepository = {
+      findDoctorById: jest.fn(),
+      findDoctorByDate: jest.fn(),
+    }
+    emailService = {
+      sendWaitlistOfferMail: jest.fn(),
+    }
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AppoinmentService,
+        { provide: AppoinmentRepository, useValue: appoinmentRepository },
+        { provide: AuthRepository, useValue: userRepository },
+        { provide: ServiceRepository, useValue: serviceRepository },
+        { provide: PatientTreatmentRepository, useValue: {} },
+        { provide: PaginationService, useValue: {} },
+        { provide: DoctorRepository, useValue: doctorRepository },
+        { provide: MeetingService, useValue: {} },
+        { provide: EmailService, useValue: emailService },
+        { provide: ClinicCalendarRepository, useValue: { findClosuresInRange: jest.fn().mockResolvedValue([]) } },
+      ],
+    }).compile()
+
+    service = module.get<AppoinmentService>(AppoinmentService)
+  })
+
+  describe('updateAppointmentStatus', () => {
+    it('should reject transitions outside the workflow and list the allowed statuses', async () => {
+      ;(appoinmentRepository.findAppointmentById as jest.Mock).mockResolvedValue(appointment())
+
+      await expect(service.updateAppointmentStatus(1, { status: 'COMPLETED' }, 9)).rejects.toThrow(
+        'Cannot change appointment status from PENDING to COMPLETED. Allowed next statuses: CONFIRMED, CANCELLED, NO_SHOW',
+      )
+      expect(appoinmentRepository.updateAppointmentStatus).not.toHaveBeenCalled()
+    })
+
+    it('should reject roles that may not perform the transition', async () => {
+      ;(appoinmentRepository.findAppointmentById as jest.Mock).mockResolvedValue(appointment())
+      ;(userRepository.findUserRoleNameById as jest.Mock).mockResolvedValue('PATIENT')
+
+      await expect(service.updateAppointmentStatus(1, { status: 'CONFIRMED' }, 2)).rejects.toThrow(
+        'You are not allowed to change appointment status to CONFIRMED',
+      )
+    })
+
+    it('should only let doctors change their own appointments', async () => {
+      ;(appoinmentRepository.findAppointmentById as jest.Mock).mockResolvedValue(appointment({ status: 'PAID' }))
+      ;(userRepository.findUserRoleNameById as jest.Mock).mockResolvedValue('DOCTOR')
+      ;(userRepository.findUserByIdWithDoctorId as jest.Mock).mockResolvedValue({ id: 7, doctorId: 4 })
+
+      await expect(service.updateAppointmentStatus(1, { status: 'PROCESS' }, 7)).rejects.toThrow(
+        'You can only manage your own appointments',
+      )
+    })
+
+    it('should record the previous status and the actor in the status history', async () => {
+      ;(appoinmentRepository.findAppointmentById as jest.Mock).mockResolvedValue(appointment())
+      ;(userRepository.findUserRoleNameById as jest.Mock).mockResolvedValue('STAFF')
+
+      await service.updateAppointmentStatus(1, { status: 'CONFIRMED', reason: 'Đã gọi xác nhận' }, 9)
+
+      expect(appoinmentRepository.updateAppointmentStatus).toHaveBeenCalledWith(
+        1,
+        'CONFIRMED',
+        { previousStatus: 'PENDING', changedById: 9, reason: 'Đã gọi xác nhận' },
+        undefined,
+      )
+    })
+  })
+
+  describe('cancelAppointment', () => {
+    const hoursFromNow = (hours: number) => new Date(Date.now() + hours * 60 * 60 * 1000)
+
+    it('should reject late cancellation by the patient when the policy does not allow it', async () => {
+      ;(appoinmentRepository.findAppointmentById as jest.Mock).mockResolvedValue(
+        appointment({ appointmentTime: hoursFromNow(5), service: { id: 10, type: 'TREATMENT' } }),
+      )
+      ;(userRepository.findUserRoleNameById as jest.Mock).mockResolvedValue('PATIENT')
+
+      await expect(service.cancelAppointment(1, { reason: 'Bận việc' }, 2)).rejects.toThrow(
+        'Appointments for this service must be cancelled at least 24 hours in advance',
+      )
+      expect(appoinmentRepository.updateAppointmentStatus).not.toHaveBeenCalled()
+    })
+
+    it('should let staff cancel late but without a refund', async () => {
+      ;(appoinmentRepository.findAppointmentById as jest.Mock).mockResolvedValue(
+        appointment({ appointmentTime: hoursFromNow(5), service: { id: 10, type: 'TREATMENT' } }),
+      )
+      ;(userRepository.findUserRoleNameById as jest.Mock).mockResolvedValue('STAFF')
+
+      await service.cancelAppointment(1, { reason: 'Bác sĩ nghỉ' }, 9)
+
+      expect(appoinmentRepository.updateAppointmentStatus).toHaveBeenCalledWith(
+        1,
+        'CANCELLED',
+        expect.objectContaining({ previousStatus: 'PENDING', changedById: 9 }),
+        { isLateCancellation: true, isRefundEligible: false },
+      )
+    })
+
+    it('should refund cancellations made before the notice period', async () => {
+      ;(appoinmentRepository.findAppointmentById as jest.Mock).mockResolvedValue(
+        appointment({ appointmentTime: hoursFromNow(48), service: { id: 10, type: 'TREATMENT' } }),
+      )
+      ;(userRepository.findUserRoleNameById as jest.Mock).mockResolvedValue('PATIENT')
+
+      await service.cancelAppointment(1, { reason: 'Đổi kế hoạch' }, 2)
+
+      expect(appoinmentRepository.updateAppointmentStatus).toHaveBeenCalledWith(1, 'CANCELLED', expect.anything(), {
+        isLateCancellation: false,
+        isRefundEligible: true,
+      })
+    })
+
+    it('should apply the configured policy instead of the default one', async () => {
+      ;(appoinmentRepository.findAppointmentById as jest.Mock).mockResolvedValue(
+        appointment({ appointmentTime: hoursFromNow(5), service: { id: 10, type: 'TEST' } }),
+      )
+      ;(appoinmentRepository.findCancellationPolicyByServiceType as jest.Mock).mockResolvedValue({
+        serviceType: 'TEST',
+        minNoticeHours: 6,
+        allowLateCancel: false,
+        refundable: true,
+        lateCancelRefundable: false,
+      })
+      ;(userRepository.findUserRoleNameById as jest.Mock).mockResolvedValue('PATIENT')
+
+      await expect(service.cancelAppointment(1, { reason: 'Bận việc' }, 2)).rejects.toThrow(
+        'Appointments for this service must be cancelled at least 6 hours in advance',
+      )
+    })
+  })
+
+  describe('markNoShowAppointments', () => {
+    const now = new Date('2026-03-02T08:00:00+07:00')
+
+    beforeEach(() => {
+      jest.useFakeTimers({ now })
+    })
+
+    afterEach(() => {
+      jest.useRealTimers()
+    })
+
+    it('should only look at appointments from the last 48 hours', async () => {
+      await service.markNoShowAppointments()
+
+      expect(appoinmentRepository.findNoShowCandidates).toHaveBeenCalledWith(new Date('2026-02-28T08:00:00+07:00'), now)
+    })
+
+    it('should mark appointments whose slot has ended and skip the ones still running', async () => {
+      ;(appoinmentRepository.findNoShowCandidates as jest.Mock).mockResolvedValue([
+        { id: 1, status: 'CONFIRMED', appointmentTime: new Date('2026-03-02T07:00:00+07:00'), service: {} },
+        { id: 2, status: 'PENDING', appointmentTime: new Date('2026-03-02T07:35:00+07:00'), service: {} },
+      ])
+
+      await service.markNoShowAppointments()
+
+      expect(appoinmentRepository.updateAppointmentStatus).toHaveBeenCalledTimes(1)
+      expect(appoinmentRepository.updateAppointmentStatus).toHaveBeenCalledWith(
+        1,
+        'NO_SHOW',
+        expect.objectContaining({ previousStatus: 'CONFIRMED' }),
+      )
+    })
+  })
+
+  describe('waitlist', () => {
+    const offer = (overrides: Record<string, unknown> = {}) => ({
+      id: 5,
+      userId: 2,
+      serviceId: 10,
+      status: 'OFFERED',
+      offeredDoctorId: 3,
+      offeredSlotStart: new Date('2099-01-05T08:10:00+07:00'),
+      offerExpiresAt: new Date(Date.now() + 10 * 60 * 1000),
+      offerHoldId: null,
+      ...overrides,
+    })
+
+    it('should offer a cancelled slot to the first waiting patient', async () => {
+      ;(appoinmentRepository.findAppointmentById as jest.Mock).mockResolvedValue(
+        appointment({ appointmentTime: new Date('2099-01-05T08:10:00+07:00') }),
+      )
+      ;(userRepository.findUserRoleNameById as jest.Mock).mockResolvedValue('STAFF')
+      ;(userRepository.findUserById as jest.Mock).mockResolvedValue({ id: 6, email: 'patient@example.com' })
+      ;(serviceRepository.findServiceById as jest.Mock).mockResolvedValue({
+        id: 10,
+        name: 'Xét nghiệm HIV',
+        isActive: true,
+      })
+      ;(appoinmentRepository.findWaitingEntriesForSlot as jest.Mock).mockResolvedValue([{ id: 5, userId: 6 }])
+      ;(appoinmentRepository.createAppointmentHold as jest.Mock).mockResolvedValue({ id: 11 })
+
+      await service.cancelAppointment(1, { reason: 'Bận việc' }, 9)
+
+      expect(appoinmentRepository.createAppointmentHold).toHaveBeenCalledWith(
+        expect.objectContaining({
+          userId: 6,
+          doctorId: 3,
+          serviceId: 10,
+          slotStart: new Date('2099-01-05T08:10:00+07:00'),
+          slotEnd: new Date('2099-01-05T08:40:00+07:00'),
+        }),
+      )
+      expect(appoinmentRepository.updateWaitlistEntry).toHaveBeenCalledWith(
+        5,
+        expect.objectContaining({ status: 'OFFERED', offeredDoctorId: 3, offerHoldId: 11 }),
+      )
+      expect(emailService.sendWaitlistOfferMail).toHaveBeenCalledWith(
+        expect.objectContaining({
+          email: 'patient@example.com',
+          acceptUrl: expect.stringContaining('/waitlist/offers/accept?token=') as string,
+        }),
+      )
+    })
+
+    it('should reject unknown and expired offers', async () => {
+      ;(appoinmentRepository.findWaitlistEntryByOfferToken as jest.Mock).mockResolvedValueOnce(null)
+      await expect(service.acceptWaitlistOffer('unknown')).rejects.toThrow('Waitlist offer not found')
+      ;(appoinmentRepository.findWaitlistEntryByOfferToken as jest.Mock).mockResolvedValueOnce(
+        offer({ offerExpiresAt: new Date(Date.now() - 1000) }),
+      )
+      await expect(service.acceptWaitlistOffer('expired')).rejects.toThrow('Waitlist offer has expired')
+    })
+
+    it('should book the offered slot and mark the entry as booked', async () => {
+      ;(appoinmentRepository.findWaitlistEntryByOfferToken as jest.Mock).mockResolvedValue(offer())
+      ;(serviceRepository.findServiceById as jest.Mock).mockResolvedValue({ id: 10, type: 'TEST' })
+      const createAppointment = jest
+        .spyOn(service, 'createAppointment')
+        .mockResolvedValue({ id: 20 } as Awaited<ReturnType<AppoinmentService['createAppointment']>>)
+
+      const result = await service.acceptWaitlistOffer('token')
+
+      expect(createAppointment).toHaveBeenCalledWith(
+        expect.objectContaining({
+          userId: 2,
+          serviceId: 10,
+          doctorId: 3,
+          appointmentTime: new Date('2099-01-05T08:10:00+07:00'),
+          type: 'OFFLINE',
+        }),
+      )
+      expect(appoinmentRepository.updateWaitlistEntry).toHaveBeenCalledWith(5, {
+        status: 'BOOKED',
+        appointmentId: 20,
+        offerToken: null,
+      })
+      expect(result).toEqual({ id: 20 })
+    })
+  })
+
+  describe('createAppointmentHold with a preferred doctor', () => {
+    const appointmentTime = new Date('2099-01-05T08:10:00+07:00')
+    const workingDoctor = (id: number) => ({
+      id,
+      schedules: [{ doctorId: id, date: new Date('2099-01-05T00:00:00Z'), shift: 'MORNING', isOff: false }],
+    })
+
+    beforeEach(() => {
+      ;(serviceRepository.findServiceById as jest.Mock).mockResolvedValue({
+        id: 10,
+        type: 'CONSULT',
+        isActive: true,
+        startTime: '07:00',
+        endTime: '17:00',
+      })
+      ;(doctorRepository.findDoctorByDate as jest.Mock).mockResolvedValue([workingDoctor(3), workingDoctor(4)])
+      ;(doctorRepository.findDoctorById as jest.Mock).mockResolvedValue({ id: 3 })
+      ;(appoinmentRepository.createAppointmentHold as jest.Mock).mockImplementation((data) =>
+        Promise.resolve({ id: 11, ...data }),
+      )
+      // Bác sĩ 3 đã có lịch ở slot này
+      ;(appoinmentRepository.getAppointmentByDoctorAndTime as jest.Mock).mockImplementation((doctorId: number) =>
+        Promise.resolve(doctorId === 3 ? { id: 99 } : null),
+      )
+    })
+
+    it('should keep the preferred doctor when they are free', async () => {
+      // Cả hai bác sĩ đều rảnh, tự chia tải sẽ chọn bác sĩ 3
+      ;(appoinmentRepository.getAppointmentByDoctorAndTime as jest.Mock).mockResolvedValue(null)
+
+      await service.createAppointmentHold(2, { serviceId: 10, appointmentTime, preferredDoctorId: 4 })
+
+      expect(appoinmentRepository.createAppointmentHold).toHaveBeenCalledWith(expect.objectContaining({ doctorId: 4 }))
+    })
+
+    it('should assign another free doctor when the preferred one is busy', async () => {
+      await service.createAppointmentHold(2, { serviceId: 10, appointmentTime, preferredDoctorId: 3 })
+
+      expect(appoinmentRepository.createAppointmentHold).toHaveBeenCalledWith(expect.objectContaining({ doctorId: 4 }))
+    })
+
+    it('should fail instead of reassigning when the fallback is FAIL', async () => {
+      await expect(
+        service.createAppointmentHold(2, {
+          serviceId: 10,
+          appointmentTime,
+          preferredDoctorId: 3,
+          doctorFallback: 'FAIL',
+        }),
+      ).rejects.toThrow('Preferred doctor is not available for this slot')
+      expect(appoinmentRepository.createAppointmentHold).not.toHaveBeenCalled()
+    })
+  })
+})
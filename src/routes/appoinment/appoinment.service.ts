@@ -1,188 +1,178 @@
-import { BadRequestException, Injectable } from '@nestjs/common'
+import { BadRequestException, ForbiddenException, Injectable, Logger } from '@nestjs/common'
+import { Cron, CronExpression } from '@nestjs/schedule'
 import { AppoinmentRepository } from '../../repositories/appoinment.repository'
-import { AppointmentResponseType, CreateAppointmentDtoType, UpdateAppointmentDtoType } from './appoinment.dto'
+import {
+  AppointmentAvailabilityQueryType,
+  AppointmentAvailabilityResponseType,
+  AppointmentHoldResponseType,
+  AppointmentResponseType,
+  AppointmentStatusHistoryResponseType,
+  CancelAppointmentDtoType,
+  CancellationPolicyResponseType,
+  CreateAppointmentDtoType,
+  CreateAppointmentHoldDtoType,
+  CreateWaitlistEntryDtoType,
+  DoctorFallbackType,
+  PatientAttendanceResponseType,
+  RescheduleAppointmentDtoType,
+  UpdateAppointmentDtoType,
+  UpdateAppointmentStatusDtoType,
+  UpdateCancellationPolicyDtoType,
+  WaitlistEntryResponseType,
+} from './appoinment.dto'
 import { PaginatedResponse, PaginationOptions } from 'src/shared/schemas/pagination.schema'
-import { AppointmentStatus } from '@prisma/client'
+import { AppointmentStatus, Service, ServiceType, Shift, WaitlistStatus } from '@prisma/client'
+import { randomBytes } from 'crypto'
+import envConfig from 'src/shared/config'
 import { AuthRepository } from 'src/repositories/user.repository'
 import { ServiceRepository } from 'src/repositories/service.repository'
+import { PatientTreatmentRepository } from 'src/repositories/patient-treatment.repository'
 import { PaginationService } from 'src/shared/services/pagination.service'
 import { formatTimeHHMM, isTimeBetween } from 'src/shared/utils/date.utils'
 import { DoctorRepository } from 'src/repositories/doctor.repository'
+import { ClinicCalendarRepository } from 'src/repositories/clinic-calendar.repository'
 import { MeetingService } from '../meeting/meeting.service'
 import { EmailService } from 'src/shared/services/email.service'
-
-const slots = [
-  { start: '07:00', end: '07:30' },
-  { start: '07:35', end: '08:05' },
-  { start: '08:10', end: '08:40' },
-  { start: '08:45', end: '09:15' },
-  { start: '09:20', end: '09:50' },
-  { start: '09:55', end: '10:25' },
-  { start: '10:30', end: '11:00' },
-  { start: '13:00', end: '13:30' },
-  { start: '13:35', end: '14:05' },
-  { start: '14:10', end: '14:40' },
-  { start: '14:45', end: '15:15' },
-  { start: '15:20', end: '15:50' },
-  { start: '15:55', end: '16:25' },
-  { start: '16:30', end: '17:00' },
-]
+import {
+  APPOINTMENT_HOLD_MINUTES,
+  APPOINTMENT_RESCHEDULE_CUTOFF_HOURS,
+  AppointmentCancellationPolicy,
+  AppointmentSlot,
+  DEFAULT_CANCELLATION_POLICIES,
+  findAppointmentStatusTransition,
+  getNextAppointmentStatuses,
+  DEFAULT_SLOT_MINUTES,
+  MAX_APPOINTMENT_RESCHEDULES,
+  MAX_AVAILABILITY_RANGE_DAYS,
+  NO_SHOW_LOOKBACK_HOURS,
+  PREFERRED_DOCTOR_SUGGESTION_LIMIT,
+  RESCHEDULABLE_APPOINTMENT_STATUSES,
+  WAITLIST_OFFER_MINUTES,
+} from 'src/shared/constants/appointment.constant'
+import { Role } from 'src/shared/constants/role.constant'
+import {
+  addDaysToDateString,
+  formatDateYYYYMMDD,
+  getServiceSlots,
+  getShiftBySlotStart,
+  getSlotDateRange,
+} from 'src/shared/utils/appointment-slot.utils'
+import { isSlotOpen } from 'src/shared/utils/clinic-calendar.utils'
 
 @Injectable()
 export class AppoinmentService {
+  private readonly logger = new Logger(AppoinmentService.name)
+
   constructor(
     private readonly appoinmentRepository: AppoinmentRepository,
     private readonly userRepository: AuthRepository,
     private readonly serviceRepository: ServiceRepository,
+    private readonly patientTreatmentRepository: PatientTreatmentRepository,
     private readonly paginationService: PaginationService,
     private readonly doctorRepository: DoctorRepository,
     private readonly meetingService: MeetingService,
     private readonly emailService: EmailService,
+    private readonly clinicCalendarRepository: ClinicCalendarRepository,
   ) {}
 
   async createAppointment(data: CreateAppointmentDtoType): Promise<AppointmentResponseType> {
-    const user = await this.userRepository.findUserById(data.userId)
+    const { holdId, preferredDoctorId, doctorFallback, ...appointmentData } = data
+    const user = await this.userRepository.findUserById(appointmentData.userId)
     if (!user) throw new BadRequestException('User not found')
 
-    if (data.appointmentTime < new Date()) throw new BadRequestException('Appointment time cannot be in the past')
+    if (appointmentData.appointmentTime < new Date())
+      throw new BadRequestException('Appointment time cannot be in the past')
 
-    const service = await this.serviceRepository.findServiceById(data.serviceId)
+    const service = await this.serviceRepository.findServiceById(appointmentData.serviceId)
     if (!service) throw new BadRequestException('Service not found')
 
-    if (data.type === 'OFFLINE' && data.isAnonymous === true)
+    if (appointmentData.type === 'OFFLINE' && appointmentData.isAnonymous === true)
       throw new BadRequestException('Anonymous appointment must be online')
 
+    let treatmentDoctorId: number | undefined
+    if (appointmentData.patientTreatmentId) {
+      const treatment = await this.patientTreatmentRepository.findPatientTreatmentById(
+        appointmentData.patientTreatmentId,
+        {},
+      )
+      if (!treatment || treatment.patientId !== appointmentData.userId)
+        throw new BadRequestException('Patient treatment not found')
+      treatmentDoctorId = treatment.doctorId
+    }
+    // Không truyền mục đích thì suy ra: lịch theo phác đồ là tái khám, dịch vụ xét nghiệm là xét nghiệm
+    appointmentData.purpose ??= appointmentData.patientTreatmentId
+      ? 'FOLLOW_UP'
+      : service.type === 'TEST'
+        ? 'TEST'
+        : 'INITIAL'
+
     if (
-      (service.type === 'CONSULT' && data.type !== 'ONLINE') ||
-      (service.type !== 'CONSULT' && data.type !== 'OFFLINE')
+      (service.type === 'CONSULT' && appointmentData.type !== 'ONLINE') ||
+      (service.type !== 'CONSULT' && appointmentData.type !== 'OFFLINE')
     ) {
       throw new BadRequestException('Invalid appointment type for this service')
     }
 
-    if (service.type === 'CONSULT' && data.type === 'ONLINE') {
-      if (data.doctorId) throw new BadRequestException('It is not possible to choose your own doctor for this service.')
-      // Tìm slot
-      const appointmentTimeFormatted = formatTimeHHMM(data.appointmentTime)
-      const slot = slots.find((s) => s.start === appointmentTimeFormatted)
-      if (!slot) throw new BadRequestException('This slot is not available for appointment')
-
-      if (!isTimeBetween(appointmentTimeFormatted, service.startTime, service.endTime)) {
-        throw new BadRequestException('Appointment time must be within service working hours')
-      }
+    const { slot, date, shift, slotStart, slotEnd } = this.resolveBookingSlot(service, appointmentData.appointmentTime)
+    await this.assertClinicOpen(service.id, date, slot)
+    const hold = holdId ? await this.findUsableHold(holdId, appointmentData.userId, service.id, slotStart) : null
 
-      const shift = data.appointmentTime.getHours() - 7 < 11 ? 'MORNING' : 'AFTERNOON'
-      const date = new Date(data.appointmentTime).toISOString().slice(0, 10)
-      const doctors = await this.doctorRepository.findDoctorByDate(new Date(date))
-      // Lọc doctor có lịch làm việc ca đó
-      const availableDoctors = doctors.filter((doc) =>
-        doc.schedules.some((sch) => sch.date.toISOString().slice(0, 10) === date && sch.shift === shift),
-      )
-      // Lọc doctor chưa có appointment ở slot đó
-      let foundDoctorId: number | null = null
-      for (const doc of availableDoctors) {
-        const slotStart = new Date(data.appointmentTime)
-        const [endHour, endMinute] = slot.end.split(':').map(Number)
-        const slotEnd = new Date(
-          slotStart.getFullYear(),
-          slotStart.getMonth(),
-          slotStart.getDate(),
-          endHour + 7,
-          endMinute,
-          0,
-          0,
-        )
-        const existingAppointment = await this.appoinmentRepository.getAppointmentByDoctorAndTime(
-          doc.id,
+    if (service.type === 'CONSULT' && appointmentData.type === 'ONLINE') {
+      if (appointmentData.doctorId)
+        throw new BadRequestException('It is not possible to choose your own doctor for this service.')
+      // Đã giữ chỗ thì dùng bác sĩ của hold; ngược lại ưu tiên bác sĩ mong muốn (mặc định là bác sĩ điều trị)
+      appointmentData.doctorId =
+        hold?.doctorId ??
+        (await this.assignConsultDoctor({
+          serviceId: service.id,
+          date,
+          shift,
           slotStart,
           slotEnd,
-        )
-        if (!existingAppointment) {
-          foundDoctorId = doc.id
-          break
-        }
-      }
-      if (!foundDoctorId) throw new BadRequestException('No available doctor for this slot')
-      // Gán doctorId vào data
-      data.doctorId = foundDoctorId
-      console.log('data', data)
+          userId: appointmentData.userId,
+          preferredDoctorId: preferredDoctorId ?? treatmentDoctorId,
+          fallback: doctorFallback,
+        }))
 
       // Tạo phòng meeting VideoSDK
-      const roomId = `appointment-${Date.now()}-${data.userId}`
+      const roomId = `appointment-${Date.now()}-${appointmentData.userId}`
       const { patientUrl, doctorUrl } = await this.meetingService.createMeeting(roomId, {
-        patientId: String(data.userId),
-        doctorId: String(data.doctorId),
+        patientId: String(appointmentData.userId),
+        doctorId: String(appointmentData.doctorId),
       })
-      data.patientMeetingUrl = patientUrl
-      data.doctorMeetingUrl = doctorUrl
+      appointmentData.patientMeetingUrl = patientUrl
+      appointmentData.doctorMeetingUrl = doctorUrl
     } else {
-      if (!data.doctorId) throw new BadRequestException('Doctor ID is required for this appointment type')
-      const doctor = await this.doctorRepository.findDoctorById(data.doctorId)
+      if (!appointmentData.doctorId) throw new BadRequestException('Doctor ID is required for this appointment type')
+      const doctor = await this.doctorRepository.findDoctorById(appointmentData.doctorId)
       if (!doctor) throw new BadRequestException('Doctor not found')
+      if (hold && hold.doctorId !== appointmentData.doctorId)
+        throw new BadRequestException('Appointment hold does not match the selected doctor')
     }
 
-    // Format the appointment time to HH:MM format for comparison with service hours
-    const appointmentTimeFormatted = formatTimeHHMM(data.appointmentTime)
-    const slot = slots.find((s) => s.start === appointmentTimeFormatted)
-    if (!slot) {
-      throw new BadRequestException('This slot is not available for appointment')
-    }
-
-    // Check if appointment time is within service hours using the utility function
-    if (!isTimeBetween(appointmentTimeFormatted, service.startTime, service.endTime)) {
-      throw new BadRequestException('Appointment time must be within service working hours')
-    }
-
-    const shift = data.appointmentTime.getHours() - 7 < 11 ? 'MORNING' : 'AFTERNOON'
-
-    const date = new Date(data.appointmentTime).toISOString().slice(0, 10)
-    const doctors = await this.doctorRepository.findDoctorByDate(new Date(date))
-    if (!data.doctorId) throw new BadRequestException('Doctor ID is required to check slot booking')
-    const hasSchedule = doctors.some((doc) =>
-      doc.schedules.some(
-        (sch) => sch.doctorId === data.doctorId && sch.date.toISOString().slice(0, 10) === date && sch.shift === shift,
-      ),
-    )
-
-    if (!hasSchedule) {
+    const doctorId = appointmentData.doctorId
+    if (!(await this.hasWorkingShift(doctorId, date, shift))) {
       throw new BadRequestException('Doctor does not have a working shift at the selected time')
     }
 
-    // Check if the slot is already booked
-    const slotStart = new Date(data.appointmentTime)
-    const [endHour, endMinute] = slot.end.split(':').map(Number)
-    const slotEnd = new Date(
-      slotStart.getFullYear(),
-      slotStart.getMonth(),
-      slotStart.getDate(),
-      endHour + 7,
-      endMinute,
-      0,
-      0,
-    )
+    // Kiểm tra trùng slot và tạo lịch hẹn trong cùng một transaction
+    const appointment = await this.appoinmentRepository.createAppointmentInSlot(appointmentData, slotStart, slotEnd)
+    if (!appointment) throw new BadRequestException('This slot is already booked')
 
-    const existingAppointment = await this.appoinmentRepository.getAppointmentByDoctorAndTime(
-      data.doctorId,
-      slotStart,
-      slotEnd,
-    )
-
-    if (existingAppointment) {
-      throw new BadRequestException('This slot is already booked')
-    }
-    if (data.type === 'ONLINE') {
+    if (appointmentData.type === 'ONLINE') {
       //gửi mail thông báo đặt lịch thành công
       await this.emailService.sendMeetingUrlMail({
         email: user.email,
-        meetingUrl: data.patientMeetingUrl || '',
+        meetingUrl: appointmentData.patientMeetingUrl || '',
       })
-      const doctor = await this.doctorRepository.findDoctorById(data.doctorId)
+      const doctor = await this.doctorRepository.findDoctorById(doctorId)
       const userDoctor = await this.userRepository.findUserById(Number(doctor?.userId))
       await this.emailService.sendMeetingUrlMail({
         email: userDoctor?.email || '',
-        meetingUrl: data.doctorMeetingUrl || '',
+        meetingUrl: appointmentData.doctorMeetingUrl || '',
       })
     }
-    return await this.appoinmentRepository.createAppointment(data)
+    return appointment
   }
 
   async updateAppointment(id: number, data: UpdateAppointmentDtoType): Promise<AppointmentResponseType> {
@@ -212,107 +202,495 @@ export class AppoinmentService {
       throw new BadRequestException('Invalid appointment type for this service')
     }
 
+    const { date, shift, slotStart, slotEnd } = this.resolveBookingSlot(service, appointmentTime)
     let finalDoctorId = doctorId
 
     if (service.type === 'CONSULT' && type === 'ONLINE') {
       if (data.doctorId) throw new BadRequestException('It is not possible to choose your own doctor for this service.')
-      // Tìm slot và tự động chọn bác sĩ rảnh slot
-      const appointmentTimeFormatted = formatTimeHHMM(appointmentTime)
-      const slot = slots.find((s) => s.start === appointmentTimeFormatted)
-      if (!slot) throw new BadRequestException('This slot is not available for appointment')
+      // Giữ bác sĩ hiện tại nếu còn rảnh, ngược lại tự chọn bác sĩ rảnh slot (bỏ qua chính lịch hẹn đang sửa)
+      finalDoctorId = await this.assignConsultDoctor({
+        serviceId: service.id,
+        date,
+        shift,
+        slotStart,
+        slotEnd,
+        userId: existed.user.id,
+        preferredDoctorId: existed.doctor.id,
+        excludeAppointmentId: id,
+      })
+    } else {
+      if (!doctorId) throw new BadRequestException('Doctor ID is required for this appointment type')
+      const doctor = await this.doctorRepository.findDoctorById(doctorId)
+      if (!doctor) throw new BadRequestException('Doctor not found')
+    }
+
+    // Validate lịch làm việc, trùng slot
+    if (!finalDoctorId) throw new BadRequestException('Doctor ID is required to check slot booking')
+    if (!(await this.hasWorkingShift(finalDoctorId, date, shift))) {
+      throw new BadRequestException('Doctor does not have a working shift at the selected time')
+    }
 
-      if (!isTimeBetween(appointmentTimeFormatted, service.startTime, service.endTime)) {
-        throw new BadRequestException('Appointment time must be within service working hours')
+    // Gán lại doctorId vào data update; kiểm tra trùng slot và cập nhật trong cùng transaction có khoá slot
+    const appointment = await this.appoinmentRepository.updateAppointmentInSlot(
+      id,
+      { ...data, userId: data.userId ?? existed.user.id, doctorId: finalDoctorId },
+      slotStart,
+      slotEnd,
+    )
+    if (!appointment) throw new BadRequestException('This slot is already booked')
+    return appointment
+  }
+
+  async createAppointmentHold(
+    userId: number,
+    data: CreateAppointmentHoldDtoType,
+  ): Promise<AppointmentHoldResponseType> {
+    if (data.appointmentTime < new Date()) throw new BadRequestException('Appointment time cannot be in the past')
+
+    const service = await this.serviceRepository.findServiceById(data.serviceId)
+    if (!service || !service.isActive) throw new BadRequestException('Service not found')
+
+    const { slot, date, shift, slotStart, slotEnd } = this.resolveBookingSlot(service, data.appointmentTime)
+    await this.assertClinicOpen(service.id, date, slot)
+
+    let doctorId = data.doctorId
+    if (service.type === 'CONSULT') {
+      if (doctorId) throw new BadRequestException('It is not possible to choose your own doctor for this service.')
+      doctorId = await this.assignConsultDoctor({
+        serviceId: service.id,
+        date,
+        shift,
+        slotStart,
+        slotEnd,
+        userId,
+        preferredDoctorId: data.preferredDoctorId,
+        fallback: data.doctorFallback,
+      })
+    } else {
+      if (!doctorId) throw new BadRequestException('Doctor ID is required for this appointment type')
+      if (!(await this.hasWorkingShift(doctorId, date, shift))) {
+        throw new BadRequestException('Doctor does not have a working shift at the selected time')
       }
+    }
+
+    const hold = await this.appoinmentRepository.createAppointmentHold({
+      userId,
+      doctorId,
+      serviceId: service.id,
+      slotStart,
+      slotEnd,
+      expiresAt: new Date(Date.now() + APPOINTMENT_HOLD_MINUTES * 60 * 1000),
+    })
+    if (!hold) throw new BadRequestException('This slot is already booked')
+    return hold
+  }
+
+  async releaseAppointmentHold(id: number, userId: number): Promise<AppointmentHoldResponseType> {
+    const hold = await this.appoinmentRepository.findAppointmentHoldById(id)
+    if (!hold || hold.userId !== userId) throw new BadRequestException('Appointment hold not found')
+    return this.appoinmentRepository.deleteAppointmentHold(id)
+  }
+
+  // Dọn các hold đã hết hạn (hold hết hạn vốn đã không còn chặn slot, đây chỉ là dọn dữ liệu)
+  @Cron(CronExpression.EVERY_MINUTE)
+  async releaseExpiredAppointmentHolds(): Promise<void> {
+    const { count } = await this.appoinmentRepository.deleteExpiredAppointmentHolds(new Date())
+    if (count > 0) this.logger.log(`Released ${count} expired appointment holds`)
+  }
+
+  async updateAppointmentStatus(
+    id: number,
+    data: UpdateAppointmentStatusDtoType,
+    actorId: number,
+  ): Promise<AppointmentResponseType> {
+    const existed = await this.appoinmentRepository.findAppointmentById(id)
+    if (!existed) throw new BadRequestException('Appointment not found')
+
+    const currentStatus = existed.status as AppointmentStatus
+    const nextStatus = data.status as AppointmentStatus
+    if (currentStatus === nextStatus) throw new BadRequestException(`Appointment is already ${currentStatus}`)
 
-      const shift = appointmentTime.getHours() - 7 < 11 ? 'MORNING' : 'AFTERNOON'
-      const date = new Date(appointmentTime).toISOString().slice(0, 10)
-      const doctors = await this.doctorRepository.findDoctorByDate(new Date(date))
-      const availableDoctors = doctors.filter((doc) =>
-        doc.schedules.some((sch) => sch.date.toISOString().slice(0, 10) === date && sch.shift === shift),
+    const transition = findAppointmentStatusTransition(currentStatus, nextStatus)
+    if (!transition) {
+      const allowed = getNextAppointmentStatuses(currentStatus)
+      throw new BadRequestException(
+        `Cannot change appointment status from ${currentStatus} to ${nextStatus}` +
+          (allowed.length > 0 ? `. Allowed next statuses: ${allowed.join(', ')}` : ''),
       )
-      let foundDoctorId: number | null = null
-      for (const doc of availableDoctors) {
-        const slotStart = new Date(appointmentTime)
-        const [endHour, endMinute] = slot.end.split(':').map(Number)
-        const slotEnd = new Date(
-          slotStart.getFullYear(),
-          slotStart.getMonth(),
-          slotStart.getDate(),
-          endHour + 7,
-          endMinute,
-          0,
-          0,
-        )
-        const existingAppointment = await this.appoinmentRepository.getAppointmentByDoctorAndTime(
-          doc.id,
-          slotStart,
-          slotEnd,
+    }
+
+    const actorRole = (await this.userRepository.findUserRoleNameById(actorId)) as Role | null
+    if (!actorRole || !transition.roles.includes(actorRole)) {
+      throw new ForbiddenException(`You are not allowed to change appointment status to ${nextStatus}`)
+    }
+
+    await this.assertOwnAppointment(existed, actorId, actorRole)
+
+    // Huỷ lịch: áp dụng chính sách huỷ theo loại dịch vụ
+    let cancellation: { isLateCancellation: boolean; isRefundEligible: boolean } | undefined
+    if (nextStatus === AppointmentStatus.CANCELLED) {
+      const policy = await this.getCancellationPolicy(existed.service.type as ServiceType)
+      const hoursBeforeStart = (existed.appointmentTime.getTime() - Date.now()) / (60 * 60 * 1000)
+      const isLateCancellation = hoursBeforeStart < policy.minNoticeHours
+      if (isLateCancellation && !policy.allowLateCancel && actorRole === Role.Patient) {
+        throw new BadRequestException(
+          `Appointments for this service must be cancelled at least ${policy.minNoticeHours} hours in advance`,
         )
-        if (!existingAppointment || existingAppointment.id === id) {
-          foundDoctorId = doc.id
-          break
-        }
       }
-      if (!foundDoctorId) throw new BadRequestException('No available doctor for this slot')
-      finalDoctorId = foundDoctorId
-    } else {
-      if (!doctorId) throw new BadRequestException('Doctor ID is required for this appointment type')
-      const doctor = await this.doctorRepository.findDoctorById(doctorId)
-      if (!doctor) throw new BadRequestException('Doctor not found')
+      cancellation = {
+        isLateCancellation,
+        isRefundEligible: isLateCancellation ? policy.lateCancelRefundable : policy.refundable,
+      }
     }
 
-    // Validate slot, lịch làm việc, trùng slot
-    const appointmentTimeFormatted = formatTimeHHMM(appointmentTime)
-    const slot = slots.find((s) => s.start === appointmentTimeFormatted)
-    if (!slot) throw new BadRequestException('This slot is not available for appointment')
-
-    if (!isTimeBetween(appointmentTimeFormatted, service.startTime, service.endTime)) {
-      throw new BadRequestException('Appointment time must be within service working hours')
+    const appointment = await this.appoinmentRepository.updateAppointmentStatus(
+      id,
+      nextStatus,
+      {
+        previousStatus: currentStatus,
+        changedById: actorId,
+        reason: data.reason,
+      },
+      cancellation,
+    )
+    // Slot vừa được huỷ thì mời bệnh nhân trong danh sách chờ
+    if (nextStatus === AppointmentStatus.CANCELLED) {
+      await this.offerFreedSlot(existed.service.id, existed.doctor.id, existed.appointmentTime)
     }
+    return appointment
+  }
 
-    const shift = appointmentTime.getHours() - 7 < 11 ? 'MORNING' : 'AFTERNOON'
-    const date = new Date(appointmentTime).toISOString().slice(0, 10)
-    const doctors = await this.doctorRepository.findDoctorByDate(new Date(date))
-    if (!finalDoctorId) throw new BadRequestException('Doctor ID is required to check slot booking')
-    const hasSchedule = doctors.some((doc) =>
-      doc.schedules.some(
-        (sch) => sch.doctorId === finalDoctorId && sch.date.toISOString().slice(0, 10) === date && sch.shift === shift,
-      ),
+  async cancelAppointment(
+    id: number,
+    data: CancelAppointmentDtoType,
+    actorId: number,
+  ): Promise<AppointmentResponseType> {
+    return this.updateAppointmentStatus(id, { status: AppointmentStatus.CANCELLED, reason: data.reason }, actorId)
+  }
+
+  // Đánh dấu NO_SHOW cho lịch hẹn chưa check-in khi slot đã kết thúc
+  @Cron(CronExpression.EVERY_10_MINUTES)
+  async markNoShowAppointments(): Promise<void> {
+    const now = new Date()
+    const candidates = await this.appoinmentRepository.findNoShowCandidates(
+      new Date(now.getTime() - NO_SHOW_LOOKBACK_HOURS * 60 * 60 * 1000),
+      now,
     )
-    if (!hasSchedule) {
+    let count = 0
+    for (const appointment of candidates) {
+      const date = formatDateYYYYMMDD(appointment.appointmentTime)
+      const slot = getServiceSlots(appointment.service).find(
+        (s) => s.start === formatTimeHHMM(appointment.appointmentTime),
+      )
+      const slotEnd = slot
+        ? getSlotDateRange(date, slot).slotEnd
+        : new Date(appointment.appointmentTime.getTime() + DEFAULT_SLOT_MINUTES * 60 * 1000)
+      if (slotEnd > now) continue
+
+      await this.appoinmentRepository.updateAppointmentStatus(appointment.id, AppointmentStatus.NO_SHOW, {
+        previousStatus: appointment.status,
+        reason: 'Bệnh nhân không check-in trước khi kết thúc slot',
+      })
+      count++
+    }
+    if (count > 0) this.logger.log(`Marked ${count} appointments as NO_SHOW`)
+  }
+
+  async getPatientAttendance(userId: number, actorId: number): Promise<PatientAttendanceResponseType> {
+    const actorRole = (await this.userRepository.findUserRoleNameById(actorId)) as Role | null
+    if (actorRole === Role.Patient && actorId !== userId) {
+      throw new ForbiddenException('You can only view your own attendance record')
+    }
+    const user = await this.userRepository.findUserById(userId)
+    if (!user) throw new BadRequestException('User not found')
+
+    const attendance = await this.appoinmentRepository.findPatientAttendance(userId)
+    const attendedCount = attendance?.attendedCount ?? 0
+    const noShowCount = attendance?.noShowCount ?? 0
+    return {
+      userId,
+      attendedCount,
+      noShowCount,
+      cancelledCount: attendance?.cancelledCount ?? 0,
+      lateCancelCount: attendance?.lateCancelCount ?? 0,
+      lastNoShowAt: attendance?.lastNoShowAt ?? null,
+      attendanceRate:
+        attendedCount + noShowCount > 0 ? Math.round((attendedCount / (attendedCount + noShowCount)) * 100) : null,
+    }
+  }
+
+  async getCancellationPolicies(): Promise<CancellationPolicyResponseType[]> {
+    return Promise.all(Object.values(ServiceType).map((serviceType) => this.getCancellationPolicy(serviceType)))
+  }
+
+  async updateCancellationPolicy(
+    serviceType: ServiceType,
+    data: UpdateCancellationPolicyDtoType,
+  ): Promise<CancellationPolicyResponseType> {
+    const current = await this.getCancellationPolicy(serviceType)
+    const policy = await this.appoinmentRepository.upsertCancellationPolicy({ ...current, ...data, serviceType })
+    return this.toCancellationPolicy(policy)
+  }
+
+  async rescheduleAppointment(
+    id: number,
+    data: RescheduleAppointmentDtoType,
+    actorId: number,
+  ): Promise<AppointmentResponseType> {
+    const existed = await this.appoinmentRepository.findAppointmentById(id)
+    if (!existed) throw new BadRequestException('Appointment not found')
+
+    const actorRole = (await this.userRepository.findUserRoleNameById(actorId)) as Role | null
+    if (!actorRole) throw new ForbiddenException('You are not allowed to reschedule this appointment')
+    await this.assertOwnAppointment(existed, actorId, actorRole)
+
+    if (!RESCHEDULABLE_APPOINTMENT_STATUSES.includes(existed.status as AppointmentStatus)) {
+      throw new BadRequestException(`Cannot reschedule an appointment with status ${existed.status}`)
+    }
+    if (existed.rescheduleCount >= MAX_APPOINTMENT_RESCHEDULES) {
+      throw new BadRequestException(`Appointment cannot be rescheduled more than ${MAX_APPOINTMENT_RESCHEDULES} times`)
+    }
+    const cutoff = existed.appointmentTime.getTime() - APPOINTMENT_RESCHEDULE_CUTOFF_HOURS * 60 * 60 * 1000
+    if (Date.now() > cutoff) {
+      throw new BadRequestException(
+        `Appointment cannot be rescheduled within ${APPOINTMENT_RESCHEDULE_CUTOFF_HOURS} hours of its start time`,
+      )
+    }
+    if (data.appointmentTime < new Date()) throw new BadRequestException('Appointment time cannot be in the past')
+
+    const service = await this.serviceRepository.findServiceById(existed.service.id)
+    if (!service) throw new BadRequestException('Service not found')
+
+    // Giữ nguyên bác sĩ của lịch hẹn, chỉ đổi thời gian
+    const doctorId = existed.doctor.id
+    const { slot, date, shift, slotStart, slotEnd } = this.resolveBookingSlot(service, data.appointmentTime)
+    if (slotStart.getTime() === existed.appointmentTime.getTime()) {
+      throw new BadRequestException('New appointment time must be different from the current one')
+    }
+    await this.assertClinicOpen(service.id, date, slot)
+    if (!(await this.hasWorkingShift(doctorId, date, shift))) {
       throw new BadRequestException('Doctor does not have a working shift at the selected time')
     }
 
-    const slotStart = new Date(appointmentTime)
-    const [endHour, endMinute] = slot.end.split(':').map(Number)
-    const slotEnd = new Date(
-      slotStart.getFullYear(),
-      slotStart.getMonth(),
-      slotStart.getDate(),
-      endHour + 7,
-      endMinute,
-      0,
-      0,
-    )
-    const existingAppointment = await this.appoinmentRepository.getAppointmentByDoctorAndTime(
-      finalDoctorId,
+    // Lịch online cần phòng meeting mới cho thời gian mới
+    let meetingUrls: { patientMeetingUrl?: string; doctorMeetingUrl?: string } = {}
+    if (existed.type === 'ONLINE') {
+      const roomId = `appointment-${Date.now()}-${existed.user.id}`
+      const { patientUrl, doctorUrl } = await this.meetingService.createMeeting(roomId, {
+        patientId: String(existed.user.id),
+        doctorId: String(doctorId),
+      })
+      meetingUrls = { patientMeetingUrl: patientUrl, doctorMeetingUrl: doctorUrl }
+    }
+
+    const appointment = await this.appoinmentRepository.rescheduleAppointmentInSlot(id, {
+      userId: existed.user.id,
+      doctorId,
+      previousTime: existed.appointmentTime,
       slotStart,
       slotEnd,
-    )
-    if (existingAppointment && existingAppointment.id !== id) {
-      throw new BadRequestException('This slot is already booked')
+      reason: data.reason,
+      rescheduledById: actorId,
+      ...meetingUrls,
+    })
+    if (!appointment) throw new BadRequestException('This slot is already booked')
+
+    // Lịch đã đổi xong, gửi email lỗi thì chỉ ghi log
+    const recipients = [
+      { email: existed.user.email, meetingUrl: appointment.patientMeetingUrl },
+      { email: existed.doctor.email, meetingUrl: appointment.doctorMeetingUrl },
+    ]
+    for (const { email, meetingUrl } of recipients) {
+      try {
+        await this.emailService.sendAppointmentRescheduledMail({
+          email,
+          serviceName: service.name,
+          oldTime: existed.appointmentTime,
+          newTime: appointment.appointmentTime,
+          reason: data.reason,
+          meetingUrl,
+        })
+      } catch (error) {
+        this.logger.error(`Failed to send reschedule email of appointment ${appointment.id} to ${email}`, error)
+      }
+    }
+    // Slot cũ đã trống, mời bệnh nhân trong danh sách chờ
+    await this.offerFreedSlot(service.id, doctorId, existed.appointmentTime)
+    return appointment
+  }
+
+  async joinWaitlist(userId: number, data: CreateWaitlistEntryDtoType): Promise<WaitlistEntryResponseType> {
+    const service = await this.serviceRepository.findServiceById(data.serviceId)
+    if (!service || !service.isActive) throw new BadRequestException('Service not found')
+
+    if (data.doctorId) {
+      if (service.type === 'CONSULT')
+        throw new BadRequestException('It is not possible to choose your own doctor for this service.')
+      const doctor = await this.doctorRepository.findDoctorById(data.doctorId)
+      if (!doctor) throw new BadRequestException('Doctor not found')
+    }
+
+    const dateFrom = new Date(`${data.dateFrom}T00:00:00+07:00`)
+    const dateTo = new Date(`${data.dateTo}T23:59:59.999+07:00`)
+    if (dateTo < new Date()) throw new BadRequestException('Waitlist window cannot be in the past')
+
+    const existing = await this.appoinmentRepository.findActiveWaitlistEntry(userId, service.id)
+    if (existing) throw new BadRequestException('You are already on the waitlist for this service')
+
+    return this.appoinmentRepository.createWaitlistEntry({
+      userId,
+      serviceId: service.id,
+      doctorId: data.doctorId,
+      dateFrom,
+      dateTo,
+    })
+  }
+
+  async findMyWaitlistEntries(userId: number): Promise<WaitlistEntryResponseType[]> {
+    return this.appoinmentRepository.findWaitlistEntriesByUserId(userId)
+  }
+
+  async leaveWaitlist(id: number, userId: number): Promise<WaitlistEntryResponseType> {
+    const entry = await this.appoinmentRepository.findWaitlistEntryById(id)
+    if (!entry || entry.userId !== userId) throw new BadRequestException('Waitlist entry not found')
+    if (entry.status !== WaitlistStatus.WAITING && entry.status !== WaitlistStatus.OFFERED) {
+      throw new BadRequestException(`Waitlist entry is already ${entry.status}`)
     }
-    //
 
-    // Gán lại doctorId vào data update
-    return this.appoinmentRepository.updateAppointment(id, { ...data, doctorId: finalDoctorId })
+    const updated = await this.appoinmentRepository.updateWaitlistEntry(id, {
+      status: WaitlistStatus.CANCELLED,
+      offerToken: null,
+    })
+    // Đang được mời thì nhả slot cho người chờ tiếp theo
+    if (entry.status === WaitlistStatus.OFFERED) await this.passWaitlistOffer(entry)
+    return updated
   }
 
-  async updateAppointmentStatus(id: number, status: AppointmentStatus): Promise<AppointmentResponseType> {
+  async acceptWaitlistOffer(token: string): Promise<AppointmentResponseType> {
+    const entry = await this.appoinmentRepository.findWaitlistEntryByOfferToken(token)
+    if (!entry || entry.status !== WaitlistStatus.OFFERED || !entry.offeredSlotStart || !entry.offerExpiresAt) {
+      throw new BadRequestException('Waitlist offer not found')
+    }
+    if (entry.offerExpiresAt <= new Date()) throw new BadRequestException('Waitlist offer has expired')
+
+    const service = await this.serviceRepository.findServiceById(entry.serviceId)
+    if (!service) throw new BadRequestException('Service not found')
+    const hold = entry.offerHoldId ? await this.appoinmentRepository.findAppointmentHoldById(entry.offerHoldId) : null
+
+    const appointment = await this.createAppointment({
+      userId: entry.userId,
+      serviceId: service.id,
+      doctorId: service.type === 'CONSULT' ? undefined : (entry.offeredDoctorId ?? undefined),
+      appointmentTime: entry.offeredSlotStart,
+      type: service.type === 'CONSULT' ? 'ONLINE' : 'OFFLINE',
+      isAnonymous: false,
+      status: 'PENDING',
+      holdId: hold?.id,
+    })
+    await this.appoinmentRepository.updateWaitlistEntry(entry.id, {
+      status: WaitlistStatus.BOOKED,
+      appointmentId: appointment.id,
+      offerToken: null,
+    })
+    return appointment
+  }
+
+  // Hết hạn lời mời chưa được nhận (chuyển cho người chờ tiếp theo) và các mục chờ đã quá khoảng ngày
+  @Cron(CronExpression.EVERY_MINUTE)
+  async expireWaitlistOffers(): Promise<void> {
+    const now = new Date()
+    const offers = await this.appoinmentRepository.findExpiredWaitlistOffers(now)
+    for (const entry of offers) {
+      await this.appoinmentRepository.updateWaitlistEntry(entry.id, {
+        status: WaitlistStatus.EXPIRED,
+        offerToken: null,
+      })
+      await this.passWaitlistOffer(entry)
+    }
+    const { count } = await this.appoinmentRepository.expirePastWaitlistEntries(now)
+    if (offers.length + count > 0) this.logger.log(`Expired ${offers.length} waitlist offers and ${count} entries`)
+  }
+
+  async findAppointmentStatusHistory(id: number, actorId: number): Promise<AppointmentStatusHistoryResponseType[]> {
     const existed = await this.appoinmentRepository.findAppointmentById(id)
     if (!existed) throw new BadRequestException('Appointment not found')
-    return this.appoinmentRepository.updateAppointmentStatus(id, status)
+
+    const actorRole = (await this.userRepository.findUserRoleNameById(actorId)) as Role | null
+    if (!actorRole) throw new ForbiddenException('You are not allowed to view this appointment')
+    await this.assertOwnAppointment(existed, actorId, actorRole)
+    return this.appoinmentRepository.findAppointmentStatusHistory(id)
+  }
+
+  async getAppointmentAvailability(
+    query: AppointmentAvailabilityQueryType,
+  ): Promise<AppointmentAvailabilityResponseType> {
+    const service = await this.serviceRepository.findServiceById(query.serviceId)
+    if (!service || !service.isActive) throw new BadRequestException('Service not found')
+
+    const endDate = query.endDate ?? query.date
+    const slots = getServiceSlots(service).filter((slot) =>
+      isTimeBetween(slot.start, service.startTime, service.endTime),
+    )
+
+    // Ca làm việc của bác sĩ (ngày lưu theo UTC 00:00), các lịch hẹn và hold đang giữ slot trong khoảng ngày
+    const schedules = await this.doctorRepository.findWorkingSchedulesInRange(
+      new Date(query.date),
+      new Date(endDate),
+      query.doctorId,
+    )
+    const doctorIds = [...new Set(schedules.map((sch) => sch.doctorId))]
+    const rangeStart = new Date(`${query.date}T00:00:00+07:00`)
+    const rangeEnd = new Date(`${endDate}T23:59:59.999+07:00`)
+    const closures = await this.clinicCalendarRepository.findClosuresInRange(new Date(query.date), new Date(endDate))
+    const [appointments, holds] =
+      doctorIds.length > 0
+        ? await Promise.all([
+            this.appoinmentRepository.findSlotBlockingAppointments(doctorIds, rangeStart, rangeEnd),
+            this.appoinmentRepository.findActiveHoldsInRange(doctorIds, rangeStart, rangeEnd),
+          ])
+        : [[], []]
+
+    const now = new Date()
+    const days: AppointmentAvailabilityResponseType['days'] = []
+    for (const day = new Date(query.date); day <= new Date(endDate); day.setUTCDate(day.getUTCDate() + 1)) {
+      const date = day.toISOString().slice(0, 10)
+      const daySchedules = schedules.filter((sch) => sch.date.toISOString().slice(0, 10) === date)
+
+      days.push({
+        date,
+        slots: slots.map((slot) => {
+          const shift = getShiftBySlotStart(slot.start)
+          const { slotStart, slotEnd } = getSlotDateRange(date, slot)
+          const availableDoctors = new Map<number, { id: number; name: string }>()
+          // Slot đã qua hoặc rơi vào ngày nghỉ của phòng khám thì không còn bác sĩ nào nhận
+          if (slotStart > now && isSlotOpen(closures, date, slot, service.id)) {
+            for (const sch of daySchedules) {
+              if (sch.shift !== shift) continue
+              const isBooked =
+                appointments.some(
+                  (appointment) =>
+                    appointment.doctorId === sch.doctorId &&
+                    appointment.appointmentTime >= slotStart &&
+                    appointment.appointmentTime < slotEnd,
+                ) ||
+                holds.some(
+                  (hold) => hold.doctorId === sch.doctorId && hold.slotStart < slotEnd && hold.slotEnd > slotStart,
+                )
+              if (!isBooked) availableDoctors.set(sch.doctorId, { id: sch.doctorId, name: sch.doctor.user.name })
+            }
+          }
+          return {
+            start: slot.start,
+            end: slot.end,
+            shift,
+            isAvailable: availableDoctors.size > 0,
+            availableDoctors: [...availableDoctors.values()],
+          }
+        }),
+      })
+    }
+
+    return { serviceId: service.id, days }
   }
 
   async deleteAppointment(id: number): Promise<AppointmentResponseType> {
@@ -426,4 +804,250 @@ export class AppoinmentService {
     })
     return result
   }
+  // Mời bệnh nhân chờ sớm nhất nhận slot vừa trống: giữ chỗ slot cho họ và gửi email kèm link nhận lịch.
+  // Lỗi ở bước này không được làm hỏng thao tác huỷ/dời lịch đã thành công.
+  private async offerFreedSlot(serviceId: number, doctorId: number, slotStart: Date): Promise<void> {
+    try {
+      if (slotStart <= new Date()) return
+      const service = await this.serviceRepository.findServiceById(serviceId)
+      if (!service || !service.isActive) return
+      const slot = getServiceSlots(service).find((s) => s.start === formatTimeHHMM(slotStart))
+      if (!slot) return
+      const { slotEnd } = getSlotDateRange(formatDateYYYYMMDD(slotStart), slot)
+
+      const [entry] = await this.appoinmentRepository.findWaitingEntriesForSlot(serviceId, doctorId, slotStart)
+      if (!entry) return
+
+      const offerExpiresAt = new Date(Date.now() + WAITLIST_OFFER_MINUTES * 60 * 1000)
+      const hold = await this.appoinmentRepository.createAppointmentHold({
+        userId: entry.userId,
+        doctorId,
+        serviceId,
+        slotStart,
+        slotEnd,
+        expiresAt: offerExpiresAt,
+      })
+      // Slot đã có người khác đặt/giữ
+      if (!hold) return
+
+      const offerToken = randomBytes(32).toString('hex')
+      await this.appoinmentRepository.updateWaitlistEntry(entry.id, {
+        status: WaitlistStatus.OFFERED,
+        offeredDoctorId: doctorId,
+        offeredSlotStart: slotStart,
+        offerToken,
+        offerExpiresAt,
+        offerHoldId: hold.id,
+      })
+
+      const user = await this.userRepository.findUserById(entry.userId)
+      if (!user) return
+      await this.emailService.sendWaitlistOfferMail({
+        email: user.email,
+        serviceName: service.name,
+        slotStart,
+        expiresAt: offerExpiresAt,
+        acceptUrl: `${envConfig.FRONTEND_URL || 'http://localhost:5173'}/waitlist/offers/accept?token=${offerToken}`,
+      })
+    } catch (error) {
+      this.logger.error(`Failed to offer freed slot of service ${serviceId} to the waitlist`, error)
+    }
+  }
+
+  // Nhả hold của lời mời cũ rồi mời người chờ tiếp theo
+  private async passWaitlistOffer(entry: {
+    serviceId: number
+    offeredDoctorId: number | null
+    offeredSlotStart: Date | null
+    offerHoldId: number | null
+  }): Promise<void> {
+    if (entry.offerHoldId) {
+      const hold = await this.appoinmentRepository.findAppointmentHoldById(entry.offerHoldId)
+      if (hold) await this.appoinmentRepository.deleteAppointmentHold(hold.id)
+    }
+    if (entry.offeredDoctorId && entry.offeredSlotStart) {
+      await this.offerFreedSlot(entry.serviceId, entry.offeredDoctorId, entry.offeredSlotStart)
+    }
+  }
+
+  // Chính sách đã cấu hình, hoặc chính sách mặc định của loại dịch vụ
+  private async getCancellationPolicy(serviceType: ServiceType): Promise<AppointmentCancellationPolicy> {
+    const policy = await this.appoinmentRepository.findCancellationPolicyByServiceType(serviceType)
+    return policy ? this.toCancellationPolicy(policy) : DEFAULT_CANCELLATION_POLICIES[serviceType]
+  }
+
+  private toCancellationPolicy(policy: AppointmentCancellationPolicy): AppointmentCancellationPolicy {
+    return {
+      serviceType: policy.serviceType,
+      minNoticeHours: policy.minNoticeHours,
+      allowLateCancel: policy.allowLateCancel,
+      refundable: policy.refundable,
+      lateCancelRefundable: policy.lateCancelRefundable,
+    }
+  }
+
+  // Bệnh nhân và bác sĩ chỉ được thao tác trên lịch hẹn của chính mình
+  private async assertOwnAppointment(appointment: AppointmentResponseType, actorId: number, actorRole: Role) {
+    if (actorRole === Role.Patient && appointment.user.id !== actorId) {
+      throw new ForbiddenException('You can only manage your own appointments')
+    }
+    if (actorRole === Role.Doctor) {
+      const actor = await this.userRepository.findUserByIdWithDoctorId(actorId)
+      if (!actor?.doctorId || actor.doctorId !== appointment.doctor.id) {
+        throw new ForbiddenException('You can only manage your own appointments')
+      }
+    }
+  }
+
+  // Tìm slot của dịch vụ ứng với thời điểm đặt lịch
+  private resolveBookingSlot(service: Service, appointmentTime: Date) {
+    const appointmentTimeFormatted = formatTimeHHMM(appointmentTime)
+    const slot = getServiceSlots(service).find((s) => s.start === appointmentTimeFormatted)
+    if (!slot) throw new BadRequestException('This slot is not available for appointment')
+
+    if (!isTimeBetween(appointmentTimeFormatted, service.startTime, service.endTime)) {
+      throw new BadRequestException('Appointment time must be within service working hours')
+    }
+
+    const date = formatDateYYYYMMDD(appointmentTime)
+    return { slot, date, shift: getShiftBySlotStart(slot.start), ...getSlotDateRange(date, slot) }
+  }
+
+  // Phòng khám (hoặc riêng dịch vụ) nghỉ lễ, đóng cửa hay giảm giờ thì không nhận lịch ngoài giờ mở cửa
+  private async assertClinicOpen(serviceId: number, date: string, slot: AppointmentSlot) {
+    const closures = await this.clinicCalendarRepository.findClosuresInRange(new Date(date), new Date(date))
+    if (!isSlotOpen(closures, date, slot, serviceId)) {
+      throw new BadRequestException('The clinic is closed at the selected time')
+    }
+  }
+
+  private async hasWorkingShift(doctorId: number, date: string, shift: Shift): Promise<boolean> {
+    const doctors = await this.doctorRepository.findDoctorByDate(new Date(date))
+    return doctors.some((doc) =>
+      doc.schedules.some(
+        (sch) =>
+          !sch.isOff &&
+          sch.doctorId === doctorId &&
+          sch.date.toISOString().slice(0, 10) === date &&
+          sch.shift === shift,
+      ),
+    )
+  }
+
+  // Chọn bác sĩ cho tư vấn online: bác sĩ mong muốn nếu rảnh, không thì xử lý theo fallback (mặc định AUTO_ASSIGN)
+  private async assignConsultDoctor(params: {
+    serviceId: number
+    date: string
+    shift: Shift
+    slotStart: Date
+    slotEnd: Date
+    userId: number
+    preferredDoctorId?: number
+    fallback?: DoctorFallbackType
+    excludeAppointmentId?: number
+  }): Promise<number> {
+    const { serviceId, date, shift, slotStart, slotEnd, userId, preferredDoctorId, excludeAppointmentId } = params
+    const fallback = params.fallback ?? 'AUTO_ASSIGN'
+    const freeDoctorIds = await this.findFreeDoctorsForSlot(
+      date,
+      shift,
+      slotStart,
+      slotEnd,
+      userId,
+      excludeAppointmentId,
+    )
+
+    if (preferredDoctorId) {
+      if (freeDoctorIds.includes(preferredDoctorId)) return preferredDoctorId
+      if (fallback !== 'AUTO_ASSIGN') {
+        const doctor = await this.doctorRepository.findDoctorById(preferredDoctorId)
+        if (!doctor) throw new BadRequestException('Preferred doctor not found')
+        if (fallback === 'FAIL') throw new BadRequestException('Preferred doctor is not available for this slot')
+        throw new BadRequestException({
+          message: 'Preferred doctor is not available for this slot',
+          suggestedSlots: await this.findNextFreeSlotsOfDoctor(serviceId, preferredDoctorId, date),
+        })
+      }
+    }
+
+    const doctorId = await this.pickLeastLoadedDoctor(freeDoctorIds, date)
+    if (!doctorId) throw new BadRequestException('No available doctor for this slot')
+    return doctorId
+  }
+
+  // Bác sĩ có ca làm việc, chưa có lịch hẹn và chưa bị người khác giữ chỗ ở slot này
+  private async findFreeDoctorsForSlot(
+    date: string,
+    shift: Shift,
+    slotStart: Date,
+    slotEnd: Date,
+    userId: number,
+    excludeAppointmentId?: number,
+  ): Promise<number[]> {
+    const doctors = await this.doctorRepository.findDoctorByDate(new Date(date))
+    const availableDoctors = doctors.filter((doc) =>
+      doc.schedules.some((sch) => !sch.isOff && sch.date.toISOString().slice(0, 10) === date && sch.shift === shift),
+    )
+    const freeDoctorIds: number[] = []
+    for (const doc of availableDoctors) {
+      const existingAppointment = await this.appoinmentRepository.getAppointmentByDoctorAndTime(
+        doc.id,
+        slotStart,
+        slotEnd,
+      )
+      if (existingAppointment && existingAppointment.id !== excludeAppointmentId) continue
+      const activeHold = await this.appoinmentRepository.findActiveHoldByDoctorAndTime(
+        doc.id,
+        slotStart,
+        slotEnd,
+        userId,
+      )
+      if (!activeHold) freeDoctorIds.push(doc.id)
+    }
+    return freeDoctorIds
+  }
+
+  // Chia đều tải: chọn bác sĩ có ít lịch hẹn nhất trong ngày, bằng nhau thì lấy bác sĩ có ID nhỏ hơn
+  private async pickLeastLoadedDoctor(doctorIds: number[], date: string): Promise<number | null> {
+    if (doctorIds.length === 0) return null
+    const appointments = await this.appoinmentRepository.findSlotBlockingAppointments(
+      doctorIds,
+      new Date(`${date}T00:00:00+07:00`),
+      new Date(`${date}T23:59:59.999+07:00`),
+    )
+    const load = (doctorId: number) => appointments.filter((appointment) => appointment.doctorId === doctorId).length
+    return [...doctorIds].sort((a, b) => load(a) - load(b) || a - b)[0]
+  }
+
+  // Các slot trống gần nhất của một bác sĩ kể từ ngày đã chọn
+  private async findNextFreeSlotsOfDoctor(serviceId: number, doctorId: number, fromDate: string) {
+    const { days } = await this.getAppointmentAvailability({
+      serviceId,
+      doctorId,
+      date: fromDate,
+      endDate: addDaysToDateString(fromDate, MAX_AVAILABILITY_RANGE_DAYS - 1),
+    })
+    return days
+      .flatMap((day) =>
+        day.slots
+          .filter((slot) => slot.availableDoctors.some((doctor) => doctor.id === doctorId))
+          .map((slot) => ({
+            date: day.date,
+            start: slot.start,
+            end: slot.end,
+            appointmentTime: getSlotDateRange(day.date, slot).slotStart,
+          })),
+      )
+      .slice(0, PREFERRED_DOCTOR_SUGGESTION_LIMIT)
+  }
+
+  private async findUsableHold(holdId: number, userId: number, serviceId: number, slotStart: Date) {
+    const hold = await this.appoinmentRepository.findAppointmentHoldById(holdId)
+    if (!hold || hold.userId !== userId) throw new BadRequestException('Appointment hold not found')
+    if (hold.expiresAt <= new Date()) throw new BadRequestException('Appointment hold has expired')
+    if (hold.serviceId !== serviceId || hold.slotStart.getTime() !== slotStart.getTime()) {
+      throw new BadRequestException('Appointment hold does not match the selected service or time')
+    }
+    return hold
+  }
 }
@@ -0,0 +1,67 @@
+import { Body, Controller, Delete, Get, Param, ParseIntPipe, Post, Put, Query } from '@nestjs/common'
+import { ApiBearerAuth, ApiTags } from '@nestjs/swagger'
+import CustomZodValidationPipe from 'src/common/custom-zod-validate'
+import { AuthType } from 'src/shared/constants/auth.constant'
+import { Role } from 'src/shared/constants/role.constant'
+import { ActiveUser } from 'src/shared/decorators/active-user.decorator'
+import { Auth } from 'src/shared/decorators/auth.decorator'
+import { Roles } from 'src/shared/decorators/roles.decorator'
+import {
+  ApiCreateClinicClosure,
+  ApiDeleteClinicClosure,
+  ApiFindClinicClosures,
+  ApiUpdateClinicClosure,
+} from 'src/swagger/clinic-calendar.swagger'
+import {
+  ClinicClosureQueryDto,
+  ClinicClosureQueryType,
+  ClinicClosureResponseType,
+  CreateClinicClosureDto,
+  CreateClinicClosureDtoType,
+  UpdateClinicClosureDto,
+  UpdateClinicClosureDtoType,
+} from './clinic-calendar.dto'
+import { ClinicCalendarService } from './clinic-calendar.service'
+
+@ApiTags('Clinic Calendar')
+@ApiBearerAuth()
+@Auth([AuthType.Bearer])
+@Controller('clinic-calendar')
+export class ClinicCalendarController {
+  constructor(private readonly clinicCalendarService: ClinicCalendarService) {}
+
+  @ApiFindClinicClosures()
+  @Get('closures')
+  findClosures(
+    @Query(new CustomZodValidationPipe(ClinicClosureQueryDto)) query: ClinicClosureQueryType,
+  ): Promise<ClinicClosureResponseType[]> {
+    return this.clinicCalendarService.findClosures(query)
+  }
+
+  @ApiCreateClinicClosure()
+  @Roles(Role.Admin)
+  @Post('closures')
+  createClosure(
+    @Body(new CustomZodValidationPipe(CreateClinicClosureDto)) body: CreateClinicClosureDtoType,
+    @ActiveUser('userId') userId: number,
+  ): Promise<ClinicClosureResponseType> {
+    return this.clinicCalendarService.createClosure(body, userId)
+  }
+
+  @ApiUpdateClinicClosure()
+  @Roles(Role.Admin)
+  @Put('closures/:id')
+  updateClosure(
+    @Param('id', ParseIntPipe) id: number,
+    @Body(new CustomZodValidationPipe(UpdateClinicClosureDto)) body: UpdateClinicClosureDtoType,
+  ): Promise<ClinicClosureResponseType> {
+    return this.clinicCalendarService.updateClosure(id, body)
+  }
+
+  @ApiDeleteClinicClosure()
+  @Roles(Role.Admin)
+  @Delete('closures/:id')
+  deleteClosure(@Param('id', ParseIntPipe) id: number): Promise<ClinicClosureResponseType> {
+    return this.clinicCalendarService.deleteClosure(id)
+  }
+}
@@ -0,0 +1,31 @@
+import { createZodDto } from 'nestjs-zod'
+import { z } from 'zod'
+import {
+  ClinicClosureQuerySchema,
+  ClinicClosureResSchema,
+  CreateClinicClosureSchema,
+  UpdateClinicClosureSchema,
+} from './clinic-calendar.model'
+
+export class CreateClinicClosureDto extends createZodDto(CreateClinicClosureSchema) {
+  static create(data: unknown) {
+    return CreateClinicClosureSchema.parse(data)
+  }
+}
+
+export class UpdateClinicClosureDto extends createZodDto(UpdateClinicClosureSchema) {
+  static create(data: unknown) {
+    return UpdateClinicClosureSchema.parse(data)
+  }
+}
+
+export class ClinicClosureQueryDto extends createZodDto(ClinicClosureQuerySchema) {
+  static create(data: unknown) {
+    return ClinicClosureQuerySchema.parse(data)
+  }
+}
+
+export type ClinicClosureResponseType = z.infer<typeof ClinicClosureResSchema>
+export type CreateClinicClosureDtoType = z.infer<typeof CreateClinicClosureSchema>
+export type UpdateClinicClosureDtoType = z.infer<typeof UpdateClinicClosureSchema>
+export type ClinicClosureQueryType = z.infer<typeof ClinicClosureQuerySchema>
@@ -0,0 +1,47 @@
+import { z } from 'zod'
+import { ClinicClosureType } from '@prisma/client'
+
+const dateOnlySchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, { message: 'Date must be in YYYY-MM-DD format' })
+const timeSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, { message: 'Time must be in HH:mm format' })
+
+export const ClinicClosureResSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  startDate: z.date(),
+  endDate: z.date(),
+  type: z.nativeEnum(ClinicClosureType),
+  openTime: z.string().nullable(),
+  closeTime: z.string().nullable(),
+  serviceId: z.number().nullable(),
+  service: z.object({ id: z.number(), name: z.string() }).nullable(),
+  createdById: z.number().nullable(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+})
+
+const ClinicClosureBaseSchema = z.object({
+  name: z.string().trim().min(1).max(200),
+  startDate: dateOnlySchema,
+  endDate: dateOnlySchema,
+  type: z.nativeEnum(ClinicClosureType).default(ClinicClosureType.CLOSED),
+  openTime: timeSchema.nullable().optional(),
+  closeTime: timeSchema.nullable().optional(),
+  // Bỏ trống là đóng cửa toàn phòng khám
+  serviceId: z.number().int().positive().nullable().optional(),
+})
+
+export const CreateClinicClosureSchema = ClinicClosureBaseSchema.refine((data) => data.startDate <= data.endDate, {
+  message: 'Start date must be before or equal to end date',
+  path: ['endDate'],
+})
+
+export const UpdateClinicClosureSchema = ClinicClosureBaseSchema.partial().refine(
+  (data) => Object.keys(data).length > 0,
+  { message: 'Nothing to update' },
+)
+
+export const ClinicClosureQuerySchema = z.object({
+  startDate: dateOnlySchema.optional(),
+  endDate: dateOnlySchema.optional(),
+  serviceId: z.coerce.number().int().positive().optional(),
+})
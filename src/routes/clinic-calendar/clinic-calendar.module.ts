@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common'
+import { ClinicCalendarRepository } from '../../repositories/clinic-calendar.repository'
+import { ServiceRepository } from '../../repositories/service.repository'
+import { PrismaService } from '../../shared/services/prisma.service'
+import { ClinicCalendarController } from './clinic-calendar.controller'
+import { ClinicCalendarService } from './clinic-calendar.service'
+
+@Module({
+  controllers: [ClinicCalendarController],
+  providers: [ClinicCalendarService, ClinicCalendarRepository, ServiceRepository, PrismaService],
+})
+export class ClinicCalendarModule {}
@@ -0,0 +1,93 @@
+import { BadRequestException, Injectable } from '@nestjs/common'
+import { ClinicClosureType } from '@prisma/client'
+import { ClinicCalendarRepository } from 'src/repositories/clinic-calendar.repository'
+import { ServiceRepository } from 'src/repositories/service.repository'
+import { compareTimeHHMM } from 'src/shared/utils/date.utils'
+import {
+  ClinicClosureQueryType,
+  ClinicClosureResponseType,
+  CreateClinicClosureDtoType,
+  UpdateClinicClosureDtoType,
+} from './clinic-calendar.dto'
+
+@Injectable()
+export class ClinicCalendarService {
+  constructor(
+    private readonly clinicCalendarRepository: ClinicCalendarRepository,
+    private readonly serviceRepository: ServiceRepository,
+  ) {}
+
+  async findClosures(query: ClinicClosureQueryType): Promise<ClinicClosureResponseType[]> {
+    return this.clinicCalendarRepository.findClosures({
+      ...(query.startDate && { endDate: { gte: new Date(query.startDate) } }),
+      ...(query.endDate && { startDate: { lte: new Date(query.endDate) } }),
+      // Lọc theo dịch vụ thì vẫn trả về các ngày nghỉ của toàn phòng khám
+      ...(query.serviceId && { OR: [{ serviceId: null }, { serviceId: query.serviceId }] }),
+    })
+  }
+
+  async createClosure(data: CreateClinicClosureDtoType, userId: number): Promise<ClinicClosureResponseType> {
+    const closure = await this.validateClosure(data)
+    return this.clinicCalendarRepository.createClosure({
+      ...closure,
+      name: data.name,
+      startDate: new Date(data.startDate),
+      endDate: new Date(data.endDate),
+      createdById: userId,
+    })
+  }
+
+  async updateClosure(id: number, data: UpdateClinicClosureDtoType): Promise<ClinicClosureResponseType> {
+    const existed = await this.findClosureById(id)
+    const startDate = data.startDate ?? existed.startDate.toISOString().slice(0, 10)
+    const endDate = data.endDate ?? existed.endDate.toISOString().slice(0, 10)
+    if (startDate > endDate) throw new BadRequestException('Start date must be before or equal to end date')
+
+    const closure = await this.validateClosure({
+      type: data.type ?? existed.type,
+      openTime: data.openTime === undefined ? existed.openTime : data.openTime,
+      closeTime: data.closeTime === undefined ? existed.closeTime : data.closeTime,
+      serviceId: data.serviceId === undefined ? existed.serviceId : data.serviceId,
+    })
+    return this.clinicCalendarRepository.updateClosure(id, {
+      ...closure,
+      name: data.name,
+      startDate: new Date(startDate),
+      endDate: new Date(endDate),
+    })
+  }
+
+  async deleteClosure(id: number): Promise<ClinicClosureResponseType> {
+    await this.findClosureById(id)
+    return this.clinicCalendarRepository.deleteClosure(id)
+  }
+
+  private async findClosureById(id: number): Promise<ClinicClosureResponseType> {
+    const closure = await this.clinicCalendarRepository.findClosureById(id)
+    if (!closure) throw new BadRequestException('Clinic closure not found')
+    return closure
+  }
+
+  // Ngày giảm giờ cần khung giờ mở cửa hợp lệ, ngày nghỉ cả ngày thì bỏ khung giờ
+  private async validateClosure(data: {
+    type: ClinicClosureType
+    openTime?: string | null
+    closeTime?: string | null
+    serviceId?: number | null
+  }) {
+    if (data.serviceId) {
+      const service = await this.serviceRepository.findServiceById(data.serviceId)
+      if (!service) throw new BadRequestException('Service not found')
+    }
+    if (data.type === ClinicClosureType.CLOSED) {
+      return { type: data.type, openTime: null, closeTime: null, serviceId: data.serviceId ?? null }
+    }
+    if (!data.openTime || !data.closeTime) {
+      throw new BadRequestException('Opening hours are required for a reduced-hours day')
+    }
+    if (compareTimeHHMM(data.openTime, data.closeTime) >= 0) {
+      throw new BadRequestException('Open time must be before close time')
+    }
+    return { type: data.type, openTime: data.openTime, closeTime: data.closeTime, serviceId: data.serviceId ?? null }
+  }
+}
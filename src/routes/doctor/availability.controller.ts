@@ -0,0 +1,99 @@
+import { Body, Controller, Delete, Get, Param, ParseIntPipe, Post, Put, Query } from '@nestjs/common'
+import { ApiBearerAuth, ApiTags } from '@nestjs/swagger'
+import { AvailabilityService } from './availability.service'
+import {
+  CreateAvailabilityExceptionDto,
+  CreateAvailabilityTemplateDto,
+  QueryAvailabilityTemplateDto,
+  UpdateAvailabilityTemplateDto,
+} from './availability.dto'
+import { AvailabilityTemplateType } from './availability.model'
+import {
+  ApiAddAvailabilityException,
+  ApiCreateAvailabilityTemplate,
+  ApiDeleteAvailabilityTemplate,
+  ApiFindAvailabilityTemplates,
+  ApiFindMyAvailabilityTemplates,
+  ApiGetAvailabilityTemplate,
+  ApiRemoveAvailabilityException,
+  ApiUpdateAvailabilityTemplate,
+} from '../../swagger/availability.swagger'
+import { Roles } from '../../shared/decorators/roles.decorator'
+import { Role } from '../../shared/constants/role.constant'
+import { ActiveUser } from '../../shared/decorators/active-user.decorator'
+import { Auth } from '../../shared/decorators/auth.decorator'
+import { AuthType } from '../../shared/constants/auth.constant'
+
+@ApiBearerAuth()
+@ApiTags('Doctor Availability')
+@Auth([AuthType.Bearer])
+@Controller('doctors/availability-templates')
+export class AvailabilityController {
+  constructor(private readonly availabilityService: AvailabilityService) {}
+
+  @Post()
+  @Roles(Role.Admin)
+  @ApiCreateAvailabilityTemplate()
+  async createTemplate(@Body() body: unknown): Promise<AvailabilityTemplateType> {
+    const dto = CreateAvailabilityTemplateDto.create(body)
+    return this.availabilityService.createTemplate(dto)
+  }
+
+  @Get()
+  @Roles(Role.Admin, Role.Staff)
+  @ApiFindAvailabilityTemplates()
+  async findTemplates(@Query() query: unknown): Promise<AvailabilityTemplateType[]> {
+    const dto = QueryAvailabilityTemplateDto.create(query)
+    return this.availabilityService.findTemplates(dto)
+  }
+
+  @Get('me')
+  @Roles(Role.Doctor)
+  @ApiFindMyAvailabilityTemplates()
+  async findMyTemplates(@ActiveUser('userId') userId: number): Promise<AvailabilityTemplateType[]> {
+    return this.availabilityService.findMyTemplates(userId)
+  }
+
+  @Get(':id')
+  @Roles(Role.Admin, Role.Staff)
+  @ApiGetAvailabilityTemplate()
+  async findTemplateById(@Param('id', ParseIntPipe) id: number): Promise<AvailabilityTemplateType> {
+    return this.availabilityService.findTemplateById(id)
+  }
+
+  @Put(':id')
+  @Roles(Role.Admin)
+  @ApiUpdateAvailabilityTemplate()
+  async updateTemplate(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() body: unknown,
+  ): Promise<AvailabilityTemplateType> {
+    const dto = UpdateAvailabilityTemplateDto.create(body)
+    return this.availabilityService.updateTemplate(id, dto)
+  }
+
+  @Delete(':id')
+  @Roles(Role.Admin)
+  @ApiDeleteAvailabilityTemplate()
+  async deleteTemplate(@Param('id', ParseIntPipe) id: number): Promise<{ message: string }> {
+    return this.availabilityService.deleteTemplate(id)
+  }
+
+  @Post(':id/exceptions')
+  @Roles(Role.Admin)
+  @ApiAddAvailabilityException()
+  async addException(@Param('id', ParseIntPipe) id: number, @Body() body: unknown): Promise<AvailabilityTemplateType> {
+    const dto = CreateAvailabilityExceptionDto.create(body)
+    return this.availabilityService.addException(id, dto)
+  }
+
+  @Delete(':id/exceptions/:exceptionId')
+  @Roles(Role.Admin)
+  @ApiRemoveAvailabilityException()
+  async removeException(
+    @Param('id', ParseIntPipe) id: number,
+    @Param('exceptionId', ParseIntPipe) exceptionId: number,
+  ): Promise<AvailabilityTemplateType> {
+    return this.availabilityService.removeException(id, exceptionId)
+  }
+}
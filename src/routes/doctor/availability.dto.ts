@@ -0,0 +1,19 @@
+import { createZodDto } from 'nestjs-zod'
+import {
+  CreateAvailabilityExceptionSchema,
+  CreateAvailabilityTemplateSchema,
+  QueryAvailabilityTemplateSchema,
+  UpdateAvailabilityTemplateSchema,
+} from './availability.model'
+
+// Create Availability Template DTO
+export class CreateAvailabilityTemplateDto extends createZodDto(CreateAvailabilityTemplateSchema) {}
+
+// Update Availability Template DTO
+export class UpdateAvailabilityTemplateDto extends createZodDto(UpdateAvailabilityTemplateSchema) {}
+
+// Query Availability Template DTO
+export class QueryAvailabilityTemplateDto extends createZodDto(QueryAvailabilityTemplateSchema) {}
+
+// Create Availability Exception DTO
+export class CreateAvailabilityExceptionDto extends createZodDto(CreateAvailabilityExceptionSchema) {}
@@ -0,0 +1,82 @@
+import { z } from 'zod'
+import { DayOfWeek, Shift } from '@prisma/client'
+import { DEFAULT_TIME_OFF_SHIFTS } from '../../shared/constants/doctor.constant'
+
+const dateOnlySchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, { message: 'Date must be in YYYY-MM-DD format' })
+
+const AvailabilitySlotSchema = z.object({
+  dayOfWeek: z.nativeEnum(DayOfWeek),
+  shift: z.nativeEnum(Shift),
+})
+
+const availabilitySlotsSchema = z
+  .array(AvailabilitySlotSchema)
+  .min(1, { message: 'At least one slot is required' })
+  .refine((slots) => new Set(slots.map((slot) => `${slot.dayOfWeek}_${slot.shift}`)).size === slots.length, {
+    message: 'Each day and shift can only appear once',
+  })
+
+export const AvailabilityExceptionSchema = z.object({
+  id: z.number(),
+  date: z.date(),
+  shifts: z.array(z.nativeEnum(Shift)),
+  reason: z.string().nullable(),
+  createdAt: z.date(),
+})
+
+export const AvailabilityTemplateSchema = z.object({
+  id: z.number(),
+  doctorId: z.number(),
+  name: z.string().nullable(),
+  effectiveFrom: z.date(),
+  effectiveTo: z.date().nullable(),
+  slots: z.array(AvailabilitySlotSchema),
+  exceptions: z.array(AvailabilityExceptionSchema),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+})
+
+export const CreateAvailabilityTemplateSchema = z
+  .object({
+    doctorId: z.number().int().positive(),
+    name: z.string().trim().max(100).optional(),
+    effectiveFrom: dateOnlySchema,
+    effectiveTo: dateOnlySchema.optional(),
+    slots: availabilitySlotsSchema,
+  })
+  .refine((data) => !data.effectiveTo || data.effectiveFrom <= data.effectiveTo, {
+    message: 'Effective from must be before or equal to effective to',
+    path: ['effectiveTo'],
+  })
+
+export const UpdateAvailabilityTemplateSchema = z
+  .object({
+    name: z.string().trim().max(100).optional(),
+    effectiveFrom: dateOnlySchema.optional(),
+    effectiveTo: dateOnlySchema.nullable().optional(),
+    slots: availabilitySlotsSchema.optional(),
+  })
+  .refine((data) => Object.keys(data).length > 0, { message: 'Nothing to update' })
+
+export const QueryAvailabilityTemplateSchema = z.object({
+  doctorId: z
+    .preprocess((val) => (typeof val === 'string' ? parseInt(val, 10) : val), z.number().int().positive())
+    .optional(),
+  // Chỉ lấy các lịch có hiệu lực vào ngày này
+  date: dateOnlySchema.optional(),
+})
+
+// Ngoại lệ không khai báo ca thì được hiểu là nghỉ cả ngày
+export const CreateAvailabilityExceptionSchema = z.object({
+  date: dateOnlySchema,
+  shifts: z.array(z.nativeEnum(Shift)).min(1).optional().default(DEFAULT_TIME_OFF_SHIFTS),
+  reason: z.string().trim().max(500).optional(),
+})
+
+// Types
+export type AvailabilityTemplateType = z.infer<typeof AvailabilityTemplateSchema>
+export type AvailabilityExceptionType = z.infer<typeof AvailabilityExceptionSchema>
+export type CreateAvailabilityTemplateType = z.infer<typeof CreateAvailabilityTemplateSchema>
+export type UpdateAvailabilityTemplateType = z.infer<typeof UpdateAvailabilityTemplateSchema>
+export type QueryAvailabilityTemplateType = z.infer<typeof QueryAvailabilityTemplateSchema>
+export type CreateAvailabilityExceptionType = z.infer<typeof CreateAvailabilityExceptionSchema>
@@ -0,0 +1,112 @@
+import { BadRequestException, ConflictException, Injectable, NotFoundException } from '@nestjs/common'
+import { AvailabilityRepository } from '../../repositories/availability.repository'
+import { DoctorRepository } from '../../repositories/doctor.repository'
+import {
+  AvailabilityTemplateType,
+  CreateAvailabilityExceptionType,
+  CreateAvailabilityTemplateType,
+  QueryAvailabilityTemplateType,
+  UpdateAvailabilityTemplateType,
+} from './availability.model'
+
+@Injectable()
+export class AvailabilityService {
+  constructor(
+    private readonly availabilityRepository: AvailabilityRepository,
+    private readonly doctorRepository: DoctorRepository,
+  ) {}
+
+  // Mỗi bác sĩ chỉ có một lịch định kỳ có hiệu lực tại một thời điểm
+  async createTemplate(data: CreateAvailabilityTemplateType): Promise<AvailabilityTemplateType> {
+    const doctor = await this.doctorRepository.findDoctorById(data.doctorId)
+    if (!doctor) {
+      throw new NotFoundException('Doctor not found')
+    }
+
+    const effectiveFrom = new Date(data.effectiveFrom)
+    const effectiveTo = data.effectiveTo ? new Date(data.effectiveTo) : null
+    await this.ensureNoOverlap(data.doctorId, effectiveFrom, effectiveTo)
+
+    return this.availabilityRepository.createTemplate({ ...data, effectiveFrom, effectiveTo })
+  }
+
+  async findTemplates(query: QueryAvailabilityTemplateType): Promise<AvailabilityTemplateType[]> {
+    if (query.date) {
+      const date = new Date(query.date)
+      return this.availabilityRepository.findTemplatesInRange(date, date, query.doctorId ? [query.doctorId] : undefined)
+    }
+    return this.availabilityRepository.findTemplates({ ...(query.doctorId && { doctorId: query.doctorId }) })
+  }
+
+  async findMyTemplates(userId: number): Promise<AvailabilityTemplateType[]> {
+    const doctor = await this.doctorRepository.findDoctorByUserId(userId)
+    if (!doctor) {
+      throw new NotFoundException('Doctor not found')
+    }
+    return this.availabilityRepository.findTemplates({ doctorId: doctor.id })
+  }
+
+  async findTemplateById(id: number): Promise<AvailabilityTemplateType> {
+    const template = await this.availabilityRepository.findTemplateById(id)
+    if (!template) {
+      throw new NotFoundException('Availability template not found')
+    }
+    return template
+  }
+
+  async updateTemplate(id: number, data: UpdateAvailabilityTemplateType): Promise<AvailabilityTemplateType> {
+    const template = await this.findTemplateById(id)
+
+    const effectiveFrom = data.effectiveFrom ? new Date(data.effectiveFrom) : template.effectiveFrom
+    const effectiveTo =
+      data.effectiveTo === undefined ? template.effectiveTo : data.effectiveTo ? new Date(data.effectiveTo) : null
+    if (effectiveTo && effectiveFrom > effectiveTo) {
+      throw new BadRequestException('Effective from must be before or equal to effective to')
+    }
+    await this.ensureNoOverlap(template.doctorId, effectiveFrom, effectiveTo, id)
+
+    return this.availabilityRepository.updateTemplate(id, {
+      name: data.name,
+      effectiveFrom,
+      effectiveTo,
+      slots: data.slots,
+    })
+  }
+
+  async deleteTemplate(id: number): Promise<{ message: string }> {
+    await this.findTemplateById(id)
+    await this.availabilityRepository.deleteTemplate(id)
+    return { message: 'Availability template deleted successfully' }
+  }
+
+  // Thêm ngoại lệ (ngày lễ, ngày bận) cho lịch định kỳ; ngày đã có ngoại lệ thì ghi đè
+  async addException(id: number, data: CreateAvailabilityExceptionType): Promise<AvailabilityTemplateType> {
+    const template = await this.findTemplateById(id)
+    const date = new Date(data.date)
+    if (date < template.effectiveFrom || (template.effectiveTo && date > template.effectiveTo)) {
+      throw new BadRequestException('Exception date is outside the effective range of the template')
+    }
+    return this.availabilityRepository.upsertException(id, { ...data, date, shifts: [...new Set(data.shifts)] })
+  }
+
+  async removeException(id: number, exceptionId: number): Promise<AvailabilityTemplateType> {
+    await this.findTemplateById(id)
+    const count = await this.availabilityRepository.deleteException(id, exceptionId)
+    if (count === 0) {
+      throw new NotFoundException('Availability exception not found')
+    }
+    return this.findTemplateById(id)
+  }
+
+  private async ensureNoOverlap(doctorId: number, effectiveFrom: Date, effectiveTo: Date | null, excludeId?: number) {
+    const overlapping = await this.availabilityRepository.findOverlappingTemplates(
+      doctorId,
+      effectiveFrom,
+      effectiveTo,
+      excludeId,
+    )
+    if (overlapping.length > 0) {
+      throw new ConflictException('Doctor already has an availability template in this period')
+    }
+  }
+}
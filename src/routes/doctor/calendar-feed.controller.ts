@@ -0,0 +1,81 @@
+import { Controller, Delete, Get, Param, ParseIntPipe, Post, Query, Res } from '@nestjs/common'
+import { ApiBearerAuth, ApiTags } from '@nestjs/swagger'
+import { Response } from 'express'
+import { CalendarFeedService } from './calendar-feed.service'
+import { QueryCalendarExportDto } from './calendar-feed.dto'
+import { CalendarSubscriptionType } from './calendar-feed.model'
+import {
+  ApiCreateMyCalendarSubscription,
+  ApiExportDoctorCalendar,
+  ApiExportMyCalendar,
+  ApiGetCalendarFeed,
+  ApiGetMyCalendarSubscription,
+  ApiRevokeMyCalendarSubscription,
+} from '../../swagger/calendar-feed.swagger'
+import { Auth } from '../../shared/decorators/auth.decorator'
+import { AuthType } from '../../shared/constants/auth.constant'
+import { Roles } from '../../shared/decorators/roles.decorator'
+import { Role } from '../../shared/constants/role.constant'
+import { ActiveUser } from '../../shared/decorators/active-user.decorator'
+
+@ApiBearerAuth()
+@ApiTags('Doctor Calendar')
+@Auth([AuthType.Bearer])
+@Controller('doctors/calendar')
+export class CalendarFeedController {
+  constructor(private readonly calendarFeedService: CalendarFeedService) {}
+
+  @Get('me')
+  @Roles(Role.Doctor)
+  @ApiExportMyCalendar()
+  async exportMyCalendar(@ActiveUser('userId') userId: number, @Query() query: unknown, @Res() res: Response) {
+    const dto = QueryCalendarExportDto.create(query)
+    this.sendCalendar(res, await this.calendarFeedService.exportMyCalendar(userId, dto))
+  }
+
+  @Get('subscription')
+  @Roles(Role.Doctor)
+  @ApiGetMyCalendarSubscription()
+  async getMySubscription(@ActiveUser('userId') userId: number): Promise<CalendarSubscriptionType | null> {
+    return this.calendarFeedService.getMySubscription(userId)
+  }
+
+  @Post('subscription')
+  @Roles(Role.Doctor)
+  @ApiCreateMyCalendarSubscription()
+  async createMySubscription(@ActiveUser('userId') userId: number): Promise<CalendarSubscriptionType> {
+    return this.calendarFeedService.createMySubscription(userId)
+  }
+
+  @Delete('subscription')
+  @Roles(Role.Doctor)
+  @ApiRevokeMyCalendarSubscription()
+  async revokeMySubscription(@ActiveUser('userId') userId: number): Promise<{ message: string }> {
+    return this.calendarFeedService.revokeMySubscription(userId)
+  }
+
+  @Get('feeds/:token')
+  @Auth([AuthType.None])
+  @ApiGetCalendarFeed()
+  async getCalendarFeed(@Param('token') token: string, @Res() res: Response) {
+    this.sendCalendar(res, await this.calendarFeedService.exportFeedCalendar(token))
+  }
+
+  @Get(':id')
+  @Roles(Role.Admin, Role.Staff)
+  @ApiExportDoctorCalendar()
+  async exportDoctorCalendar(@Param('id', ParseIntPipe) id: number, @Query() query: unknown, @Res() res: Response) {
+    const dto = QueryCalendarExportDto.create(query)
+    this.sendCalendar(res, await this.calendarFeedService.exportDoctorCalendar(id, dto))
+  }
+
+  // Trả file .ics trực tiếp, không bọc qua TransformInterceptor
+  private sendCalendar(res: Response, calendar: string) {
+    res
+      .set({
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="schedule.ics"',
+      })
+      .send(calendar)
+  }
+}
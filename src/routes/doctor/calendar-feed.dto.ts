@@ -0,0 +1,5 @@
+import { createZodDto } from 'nestjs-zod'
+import { QueryCalendarExportSchema } from './calendar-feed.model'
+
+// Query Calendar Export DTO
+export class QueryCalendarExportDto extends createZodDto(QueryCalendarExportSchema) {}
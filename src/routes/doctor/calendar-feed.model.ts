@@ -0,0 +1,34 @@
+import { z } from 'zod'
+import { MAX_CALENDAR_EXPORT_DAYS } from '../../shared/constants/doctor.constant'
+
+const dateOnlySchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, { message: 'Date must be in YYYY-MM-DD format' })
+
+// Không truyền khoảng ngày thì lấy từ CALENDAR_EXPORT_PAST_DAYS ngày trước đến CALENDAR_EXPORT_FUTURE_DAYS ngày tới
+export const QueryCalendarExportSchema = z
+  .object({
+    startDate: dateOnlySchema.optional(),
+    endDate: dateOnlySchema.optional(),
+  })
+  .refine((data) => !data.startDate || !data.endDate || data.startDate <= data.endDate, {
+    message: 'Start date must be before or equal to end date',
+    path: ['endDate'],
+  })
+  .refine(
+    (data) =>
+      !data.startDate ||
+      !data.endDate ||
+      new Date(data.endDate).getTime() - new Date(data.startDate).getTime() <=
+        MAX_CALENDAR_EXPORT_DAYS * 24 * 60 * 60 * 1000,
+    { message: `Date range cannot exceed ${MAX_CALENDAR_EXPORT_DAYS} days`, path: ['endDate'] },
+  )
+
+export const CalendarSubscriptionSchema = z.object({
+  url: z.string(),
+  token: z.string(),
+  createdAt: z.date(),
+  lastAccessedAt: z.date().nullable(),
+})
+
+// Types
+export type QueryCalendarExportType = z.infer<typeof QueryCalendarExportSchema>
+export type CalendarSubscriptionType = z.infer<typeof CalendarSubscriptionSchema>
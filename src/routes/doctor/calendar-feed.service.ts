@@ -0,0 +1,144 @@
+import { Injectable, NotFoundException } from '@nestjs/common'
+import { Prisma } from '@prisma/client'
+import { randomBytes } from 'crypto'
+import { CalendarFeedRepository } from '../../repositories/calendar-feed.repository'
+import { DEFAULT_SLOT_MINUTES } from '../../shared/constants/appointment.constant'
+import {
+  CALENDAR_EXPORT_FUTURE_DAYS,
+  CALENDAR_EXPORT_PAST_DAYS,
+  SHIFT_LABELS,
+  SHIFT_TIME_RANGES,
+} from '../../shared/constants/doctor.constant'
+import envConfig from '../../shared/config'
+import {
+  addDaysToDateString,
+  formatDateYYYYMMDD,
+  getServiceSlots,
+  getSlotDateRange,
+} from '../../shared/utils/appointment-slot.utils'
+import { formatTimeHHMM } from '../../shared/utils/date.utils'
+import { ICalEvent, buildICalendar } from '../../shared/utils/ical.utils'
+import { CalendarSubscriptionType, QueryCalendarExportType } from './calendar-feed.model'
+
+@Injectable()
+export class CalendarFeedService {
+  constructor(private readonly calendarFeedRepository: CalendarFeedRepository) {}
+
+  async exportDoctorCalendar(doctorId: number, query: QueryCalendarExportType): Promise<string> {
+    return this.buildDoctorCalendar({ id: doctorId }, query)
+  }
+
+  async exportMyCalendar(userId: number, query: QueryCalendarExportType): Promise<string> {
+    return this.buildDoctorCalendar({ userId }, query)
+  }
+
+  // Lịch cho ứng dụng lịch đăng ký qua token, luôn lấy khoảng ngày mặc định
+  async exportFeedCalendar(token: string): Promise<string> {
+    const feed = await this.calendarFeedRepository.findFeedByToken(token.replace(/\.ics$/, ''))
+    if (!feed) {
+      throw new NotFoundException('Calendar feed not found')
+    }
+    await this.calendarFeedRepository.markFeedAccessed(feed.id)
+    return this.buildDoctorCalendar({ id: feed.doctorId }, {})
+  }
+
+  async getMySubscription(userId: number): Promise<CalendarSubscriptionType | null> {
+    const doctor = await this.findDoctorByUserId(userId)
+    const feed = await this.calendarFeedRepository.findFeedByDoctorId(doctor.id)
+    return feed ? this.toSubscription(feed) : null
+  }
+
+  // Tạo mới hoặc cấp lại đường dẫn đăng ký; đường dẫn cũ không dùng được nữa
+  async createMySubscription(userId: number): Promise<CalendarSubscriptionType> {
+    const doctor = await this.findDoctorByUserId(userId)
+    const feed = await this.calendarFeedRepository.upsertFeed(doctor.id, randomBytes(32).toString('hex'))
+    return this.toSubscription(feed)
+  }
+
+  async revokeMySubscription(userId: number): Promise<{ message: string }> {
+    const doctor = await this.findDoctorByUserId(userId)
+    const { count } = await this.calendarFeedRepository.deleteFeed(doctor.id)
+    if (count === 0) {
+      throw new NotFoundException('Calendar subscription not found')
+    }
+    return { message: 'Calendar subscription revoked successfully' }
+  }
+
+  private async findDoctorByUserId(userId: number) {
+    const doctor = await this.calendarFeedRepository.findCalendarDoctor({ userId })
+    if (!doctor) {
+      throw new NotFoundException('Doctor not found')
+    }
+    return doctor
+  }
+
+  private toSubscription(feed: {
+    token: string
+    createdAt: Date
+    lastAccessedAt: Date | null
+  }): CalendarSubscriptionType {
+    return {
+      url: `${envConfig.APP_URL || 'http://localhost:3000'}/doctors/calendar/feeds/${feed.token}.ics`,
+      token: feed.token,
+      createdAt: feed.createdAt,
+      lastAccessedAt: feed.lastAccessedAt,
+    }
+  }
+
+  // Ca làm việc và lịch hẹn của bác sĩ; lịch hẹn ẩn danh không hiện tên bệnh nhân
+  private async buildDoctorCalendar(
+    where: Prisma.DoctorWhereUniqueInput,
+    query: QueryCalendarExportType,
+  ): Promise<string> {
+    const doctor = await this.calendarFeedRepository.findCalendarDoctor(where)
+    if (!doctor) {
+      throw new NotFoundException('Doctor not found')
+    }
+
+    const today = formatDateYYYYMMDD(new Date())
+    const startDate = query.startDate ?? addDaysToDateString(today, -CALENDAR_EXPORT_PAST_DAYS)
+    const endDate = query.endDate ?? addDaysToDateString(today, CALENDAR_EXPORT_FUTURE_DAYS)
+
+    const [schedules, appointments] = await Promise.all([
+      this.calendarFeedRepository.findCalendarSchedules(doctor.id, new Date(startDate), new Date(endDate)),
+      this.calendarFeedRepository.findCalendarAppointments(
+        doctor.id,
+        new Date(`${startDate}T00:00:00+07:00`),
+        new Date(`${endDate}T23:59:59+07:00`),
+      ),
+    ])
+
+    const shiftEvents: ICalEvent[] = schedules.map((schedule) => {
+      const { slotStart, slotEnd } = getSlotDateRange(
+        schedule.date.toISOString().slice(0, 10),
+        SHIFT_TIME_RANGES[schedule.shift],
+      )
+      return {
+        uid: `schedule-${schedule.id}@hiv-care-hub`,
+        start: slotStart,
+        end: slotEnd,
+        summary: SHIFT_LABELS[schedule.shift],
+      }
+    })
+
+    const appointmentEvents: ICalEvent[] = appointments.map((appointment) => {
+      const slot = getServiceSlots(appointment.service).find(
+        (s) => s.start === formatTimeHHMM(appointment.appointmentTime),
+      )
+      const end = slot
+        ? getSlotDateRange(formatDateYYYYMMDD(appointment.appointmentTime), slot).slotEnd
+        : new Date(appointment.appointmentTime.getTime() + DEFAULT_SLOT_MINUTES * 60 * 1000)
+      const patientName = appointment.isAnonymous ? 'Bệnh nhân ẩn danh' : appointment.user.name
+      return {
+        uid: `appointment-${appointment.id}@hiv-care-hub`,
+        start: appointment.appointmentTime,
+        end,
+        summary: `${appointment.service.name} - ${patientName}`,
+        description: `Hình thức: ${appointment.type}\nTrạng thái: ${appointment.status}`,
+        ...(appointment.doctorMeetingUrl && { location: appointment.doctorMeetingUrl }),
+      }
+    })
+
+    return buildICalendar(`Lịch làm việc - ${doctor.user.name}`, [...shiftEvents, ...appointmentEvents])
+  }
+}
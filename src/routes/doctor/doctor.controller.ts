@@ -1,4 +1,4 @@
-import { Body, Controller, Delete, Get, Param, Post, Put, Query, ParseIntPipe } from '@nestjs/common'
+import { Body, Controller, Delete, Get, Param, Patch, Post, Put, Query, ParseIntPipe } from '@nestjs/common'
 import { ApiBearerAuth, ApiTags } from '@nestjs/swagger'
 import { DoctorService } from './doctor.service'
 import { Doctor } from '@prisma/client'
@@ -7,13 +7,20 @@ import {
   CreateDoctorDto,
   UpdateDoctorDto,
   QueryDoctorDto,
+  QueryPublicDoctorDto,
   GetDoctorScheduleDto,
   GenerateScheduleDto,
   GetDoctorByDateDto,
   ManualScheduleAssignmentDto,
+  CreateTimeOffRequestDto,
+  QueryTimeOffRequestDto,
+  ReviewTimeOffRequestDto,
+  CreateShiftSwapRequestDto,
+  UpdateDoctorShiftPreferencesDto,
 } from './doctor.dto'
 import {
   ApiGetAllDoctors,
+  ApiGetPublicDoctors,
   ApiGetDoctorById,
   ApiCreateDoctor,
   ApiUpdateDoctor,
@@ -23,17 +30,48 @@ import {
   ApiAssignDoctorsManually,
   ApiSwapShifts,
   ApiGetDoctorsByDate,
+  ApiRequestTimeOff,
+  ApiGetMyTimeOffRequests,
+  ApiGetTimeOffRequests,
+  ApiApproveTimeOffRequest,
+  ApiRejectTimeOffRequest,
+  ApiGetTimeOffAffectedAppointments,
+  ApiGetSchedulesWithTimeOff,
+  ApiRequestShiftSwap,
+  ApiGetMyShiftSwapRequests,
+  ApiGetShiftSwapImpact,
+  ApiAcceptShiftSwap,
+  ApiDeclineShiftSwap,
+  ApiCancelShiftSwap,
+  ApiGetPreferredSchedules,
+  ApiUpdatePreferredSchedules,
 } from '../../swagger/doctor.swagger'
-import { ManualScheduleAssignmentType, SwapShiftsType } from './doctor.model'
+import {
+  ManualScheduleAssignmentType,
+  SwapShiftsType,
+  ReviewTimeOffRequestResType,
+  AffectedAppointmentType,
+  TimeOffRequestType,
+  ShiftSwapImpactType,
+  ShiftSwapRequestType,
+  DoctorShiftPreferenceType,
+  PublicDoctorType,
+} from './doctor.model'
+import { Roles } from '../../shared/decorators/roles.decorator'
+import { Role } from '../../shared/constants/role.constant'
+import { ActiveUser } from '../../shared/decorators/active-user.decorator'
+import { Auth } from '../../shared/decorators/auth.decorator'
+import { AuthType } from '../../shared/constants/auth.constant'
 
 @ApiBearerAuth()
 @ApiTags('Doctors')
+@Auth([AuthType.Bearer])
 @Controller('doctors')
 export class DoctorController {
   constructor(private readonly doctorService: DoctorService) {}
 
   @Post()
-  // @Roles(Role.Admin)
+  @Roles(Role.Admin)
   @ApiCreateDoctor()
   async createDoctor(@Body() body: unknown): Promise<Doctor> {
     const validatedData = CreateDoctorDto.create(body)
@@ -41,22 +79,114 @@ export class DoctorController {
   }
 
   @Get()
-  // @Roles(Role.Admin)
+  @Auth([AuthType.None])
   @ApiGetAllDoctors()
   async findAllDoctors(@Query() query: unknown): Promise<PaginatedResponse<Doctor>> {
     const validatedQuery = QueryDoctorDto.create(query)
     return this.doctorService.findAllDoctors(validatedQuery)
   }
 
+  @Get('public')
+  @Auth([AuthType.None])
+  @ApiGetPublicDoctors()
+  async findPublicDoctors(@Query() query: unknown): Promise<PaginatedResponse<PublicDoctorType>> {
+    const dto = QueryPublicDoctorDto.create(query)
+    return this.doctorService.findPublicDoctors(dto)
+  }
+
+  @Post('time-off')
+  @Roles(Role.Doctor)
+  @ApiRequestTimeOff()
+  async requestTimeOff(@Body() body: unknown, @ActiveUser('userId') userId: number): Promise<TimeOffRequestType> {
+    const dto = CreateTimeOffRequestDto.create(body)
+    return this.doctorService.requestTimeOff(userId, dto)
+  }
+
+  @Get('time-off/me')
+  @Roles(Role.Doctor)
+  @ApiGetMyTimeOffRequests()
+  async findMyTimeOffRequests(@ActiveUser('userId') userId: number): Promise<TimeOffRequestType[]> {
+    return this.doctorService.findMyTimeOffRequests(userId)
+  }
+
+  @Get('time-off')
+  @Roles(Role.Admin, Role.Staff)
+  @ApiGetTimeOffRequests()
+  async findTimeOffRequests(@Query() query: unknown): Promise<TimeOffRequestType[]> {
+    const dto = QueryTimeOffRequestDto.create(query)
+    return this.doctorService.findTimeOffRequests(dto)
+  }
+
+  @Get('time-off/:id/affected-appointments')
+  @Roles(Role.Admin, Role.Staff)
+  @ApiGetTimeOffAffectedAppointments()
+  async getTimeOffAffectedAppointments(
+    @Param('id', ParseIntPipe) id: number,
+  ): Promise<AffectedAppointmentType[]> {
+    return this.doctorService.getTimeOffAffectedAppointments(id)
+  }
+
+  @Patch('time-off/:id/approve')
+  @Roles(Role.Admin)
+  @ApiApproveTimeOffRequest()
+  async approveTimeOffRequest(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() body: unknown,
+    @ActiveUser('userId') userId: number,
+  ): Promise<ReviewTimeOffRequestResType> {
+    const dto = ReviewTimeOffRequestDto.create(body ?? {})
+    return this.doctorService.approveTimeOffRequest(id, userId, dto)
+  }
+
+  @Patch('time-off/:id/reject')
+  @Roles(Role.Admin)
+  @ApiRejectTimeOffRequest()
+  async rejectTimeOffRequest(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() body: unknown,
+    @ActiveUser('userId') userId: number,
+  ): Promise<TimeOffRequestType> {
+    const dto = ReviewTimeOffRequestDto.create(body ?? {})
+    return this.doctorService.rejectTimeOffRequest(id, userId, dto)
+  }
+
+  @Get('schedule/time-off')
+  @Roles(Role.Admin, Role.Staff)
+  @ApiGetSchedulesWithTimeOff()
+  async getSchedulesWithTimeOff(@Query() query: unknown) {
+    const dto = GetDoctorScheduleDto.create(query)
+    const startDate = dto.startDate || new Date()
+    const endDate = dto.endDate || new Date(new Date().setDate(new Date().getDate() + 30))
+    return this.doctorService.getSchedulesWithTimeOff(startDate, endDate)
+  }
+
+  @Get('schedule/preferences/me')
+  @Roles(Role.Doctor)
+  @ApiGetPreferredSchedules()
+  async getMyShiftPreferences(@ActiveUser('userId') userId: number): Promise<DoctorShiftPreferenceType[]> {
+    return this.doctorService.getMyShiftPreferences(userId)
+  }
+
+  @Put('schedule/preferences/me')
+  @Roles(Role.Doctor)
+  @ApiUpdatePreferredSchedules()
+  async updateMyShiftPreferences(
+    @Body() body: unknown,
+    @ActiveUser('userId') userId: number,
+  ): Promise<DoctorShiftPreferenceType[]> {
+    const dto = UpdateDoctorShiftPreferencesDto.create(body)
+    return this.doctorService.updateMyShiftPreferences(userId, dto)
+  }
+
   @Get(':id')
-  // @Roles(Role.Admin)
+  @Auth([AuthType.None])
   @ApiGetDoctorById()
   async findDoctorById(@Param('id', ParseIntPipe) id: number): Promise<Doctor | null> {
     return this.doctorService.findDoctorById(id)
   }
 
   @Put(':id')
-  // @Roles(Role.Admin)
+  @Roles(Role.Admin)
   @ApiUpdateDoctor()
   async updateDoctor(@Param('id', ParseIntPipe) id: number, @Body() body: unknown): Promise<Doctor> {
     const validatedData = UpdateDoctorDto.create(body)
@@ -64,13 +194,14 @@ export class DoctorController {
   }
 
   @Delete(':id')
-  // @Roles(Role.Admin)
+  @Roles(Role.Admin)
   @ApiDeleteDoctor()
   async deleteDoctor(@Param('id', ParseIntPipe) id: number): Promise<Doctor> {
     return this.doctorService.deleteDoctor(id)
   }
 
   @Get('schedule/weekly')
+  @Auth([AuthType.None])
   @ApiGetAllDoctors()
   async getWeeklySchedule(@Query() query: unknown): Promise<any> {
     const validatedQuery = QueryDoctorDto.create(query)
@@ -97,6 +228,7 @@ export class DoctorController {
   }
 
   @Get(':id/schedule')
+  @Auth([AuthType.None])
   @ApiGetDoctorSchedule()
   async getDoctorSchedule(@Param('id', ParseIntPipe) id: number, @Query() query: unknown) {
     const dto = GetDoctorScheduleDto.create(query)
@@ -104,33 +236,97 @@ export class DoctorController {
   }
 
   @Post('schedule/generate')
-  // @Roles(Role.Admin)
+  @Roles(Role.Admin)
   @ApiGenerateSchedule()
-  async generateSchedule(@Body() body: unknown) {
+  async generateSchedule(@Body() body: unknown, @ActiveUser('userId') userId: number) {
     const dto = GenerateScheduleDto.create(body)
-    return this.doctorService.generateSchedule(dto.doctorsPerShift, new Date(dto.startDate))
+    return this.doctorService.generateSchedule(dto.doctorsPerShift, new Date(dto.startDate), userId)
   }
 
   @Post('schedule/manual')
+  @Roles(Role.Admin)
   @ApiAssignDoctorsManually()
-  async assignDoctorsManually(@Body() body: unknown) {
+  async assignDoctorsManually(@Body() body: unknown, @ActiveUser('userId') userId: number) {
     const dto = ManualScheduleAssignmentDto.create(body)
-    return this.doctorService.assignDoctorsManually(dto)
+    return this.doctorService.assignDoctorsManually(dto, userId)
   }
 
   @Post('schedule/swap')
-  // @Roles(Role.Admin)
+  @Roles(Role.Admin)
   @ApiSwapShifts()
-  async swapShifts(@Body() data: SwapShiftsType) {
-    return this.doctorService.swapShifts(data)
+  async swapShifts(@Body() data: SwapShiftsType, @ActiveUser('userId') userId: number) {
+    return this.doctorService.swapShifts(data, userId)
   }
 
   @ApiGetDoctorsByDate()
   @Get('schedule/by-date')
+  @Auth([AuthType.None])
   async getDoctorsByDate(@Query('date') date: string): Promise<Doctor[]> {
     const parsedDate = new Date(date)
     console.log('date', date)
     console.log('parsedDate', parsedDate)
     return this.doctorService.getDoctorsByDate(parsedDate)
   }
+
+  @Post('schedule/swap-requests')
+  @Roles(Role.Doctor)
+  @ApiRequestShiftSwap()
+  async requestShiftSwap(@Body() body: unknown, @ActiveUser('userId') userId: number): Promise<ShiftSwapImpactType> {
+    const dto = CreateShiftSwapRequestDto.create(body)
+    return this.doctorService.requestShiftSwap(userId, dto)
+  }
+
+  @Get('schedule/swap-requests/me')
+  @Roles(Role.Doctor)
+  @ApiGetMyShiftSwapRequests()
+  async findMyShiftSwapRequests(@ActiveUser('userId') userId: number): Promise<ShiftSwapRequestType[]> {
+    return this.doctorService.findMyShiftSwapRequests(userId)
+  }
+
+  @Get('schedule/swap-requests/:id/impact')
+  @Roles(Role.Admin, Role.Staff, Role.Doctor)
+  @ApiGetShiftSwapImpact()
+  async getShiftSwapImpact(
+    @Param('id', ParseIntPipe) id: number,
+    @ActiveUser('userId') userId: number,
+  ): Promise<ShiftSwapImpactType> {
+    return this.doctorService.getShiftSwapImpact(id, userId)
+  }
+
+  @Patch('schedule/swap-requests/:id/accept')
+  @Roles(Role.Doctor)
+  @ApiAcceptShiftSwap()
+  async acceptShiftSwap(
+    @Param('id', ParseIntPipe) id: number,
+    @ActiveUser('userId') userId: number,
+  ): Promise<ShiftSwapImpactType> {
+    return this.doctorService.acceptShiftSwap(id, userId)
+  }
+
+  @Patch('schedule/swap-requests/:id/decline')
+  @Roles(Role.Doctor)
+  @ApiDeclineShiftSwap()
+  async declineShiftSwap(
+    @Param('id', ParseIntPipe) id: number,
+    @ActiveUser('userId') userId: number,
+  ): Promise<ShiftSwapRequestType> {
+    return this.doctorService.declineShiftSwap(id, userId)
+  }
+
+  @Patch('schedule/swap-requests/:id/cancel')
+  @Roles(Role.Doctor)
+  @ApiCancelShiftSwap()
+  async cancelShiftSwap(
+    @Param('id', ParseIntPipe) id: number,
+    @ActiveUser('userId') userId: number,
+  ): Promise<ShiftSwapRequestType> {
+    return this.doctorService.cancelShiftSwap(id, userId)
+  }
+
+  @Get(':id/schedule/preferences')
+  @Roles(Role.Admin, Role.Staff)
+  @ApiGetPreferredSchedules()
+  async getShiftPreferences(@Param('id', ParseIntPipe) id: number): Promise<DoctorShiftPreferenceType[]> {
+    return this.doctorService.getShiftPreferences(id)
+  }
 }
@@ -3,11 +3,17 @@ import {
   CreateDoctorSchema,
   UpdateDoctorSchema,
   QueryDoctorSchema,
+  QueryPublicDoctorSchema,
   SwapShiftsSchema,
   GetDoctorScheduleSchema,
   GenerateScheduleSchema,
   GetDoctorByDateSchema,
   ManualScheduleAssignmentSchema,
+  CreateTimeOffRequestSchema,
+  ReviewTimeOffRequestSchema,
+  QueryTimeOffRequestSchema,
+  CreateShiftSwapRequestSchema,
+  UpdateDoctorShiftPreferencesSchema,
 } from './doctor.model'
 
 // Create Doctor DTO
@@ -19,6 +25,9 @@ export class UpdateDoctorDto extends createZodDto(UpdateDoctorSchema) {}
 // Query Doctor DTO
 export class QueryDoctorDto extends createZodDto(QueryDoctorSchema) {}
 
+// Query Public Doctor DTO
+export class QueryPublicDoctorDto extends createZodDto(QueryPublicDoctorSchema) {}
+
 // Swap Shifts DTO
 export class SwapShiftsDto extends createZodDto(SwapShiftsSchema) {}
 
@@ -33,3 +42,18 @@ export class GetDoctorByDateDto extends createZodDto(GetDoctorByDateSchema) {}
 
 // Manual Schedule Assignment DTO
 export class ManualScheduleAssignmentDto extends createZodDto(ManualScheduleAssignmentSchema) {}
+
+// Create Time Off Request DTO
+export class CreateTimeOffRequestDto extends createZodDto(CreateTimeOffRequestSchema) {}
+
+// Review Time Off Request DTO
+export class ReviewTimeOffRequestDto extends createZodDto(ReviewTimeOffRequestSchema) {}
+
+// Query Time Off Request DTO
+export class QueryTimeOffRequestDto extends createZodDto(QueryTimeOffRequestSchema) {}
+
+// Create Shift Swap Request DTO
+export class CreateShiftSwapRequestDto extends createZodDto(CreateShiftSwapRequestSchema) {}
+
+// Update Doctor Shift Preferences DTO
+export class UpdateDoctorShiftPreferencesDto extends createZodDto(UpdateDoctorShiftPreferencesSchema) {}
@@ -1,5 +1,14 @@
 import { z } from 'zod'
-import { Shift, DayOfWeek } from '@prisma/client'
+import {
+  Shift,
+  DayOfWeek,
+  TimeOffRequestStatus,
+  AppointmentStatus,
+  AppointmentType,
+  ShiftSwapRequestStatus,
+  ShiftPreferenceType,
+} from '@prisma/client'
+import { DEFAULT_TIME_OFF_SHIFTS, MAX_TIME_OFF_DAYS } from '../../shared/constants/doctor.constant'
 
 // Base Doctor Schema
 export const DoctorSchema = z.object({
@@ -7,6 +16,9 @@ export const DoctorSchema = z.object({
   userId: z.number(),
   specialization: z.string().min(1).max(100),
   certifications: z.array(z.string()),
+  bio: z.string().nullable(),
+  yearsOfExperience: z.number().nullable(),
+  languages: z.array(z.string()),
  
   createdAt: z.date(),
   updatedAt: z.date(),
@@ -32,15 +44,22 @@ export const DoctorScheduleSchema = z.object({
   deletedAt: z.date().nullable(),
 })
 
+// Thông tin hồ sơ hiển thị cho bệnh nhân
+const DoctorProfileSchema = z.object({
+  bio: z.string().trim().max(2000).optional(),
+  yearsOfExperience: z.number().int().min(0).max(70).optional(),
+  languages: z.array(z.string().trim().min(1).max(50)).max(20).optional(),
+})
+
 // Create Doctor Schema
-export const CreateDoctorSchema = z.object({
+export const CreateDoctorSchema = DoctorProfileSchema.extend({
   userId: z.number(),
   specialization: z.string().optional(),
   certifications: z.array(z.string()).optional(),
 })
 
 // Update Doctor Schema
-export const UpdateDoctorSchema = z.object({
+export const UpdateDoctorSchema = DoctorProfileSchema.extend({
   specialization: z.string().optional(),
   certifications: z.array(z.string()).optional(),
 })
@@ -66,6 +85,33 @@ export const QueryDoctorSchema = z.object({
   endDate: z.string().transform((str) => new Date(str)).optional(),
 })
 
+// Danh bạ bác sĩ công khai cho trang dành cho bệnh nhân
+export const QueryPublicDoctorSchema = z.object({
+  page: z
+    .preprocess((val) => (typeof val === 'string' ? parseInt(val, 10) : val), z.number().int().min(1))
+    .optional()
+    .default(1),
+  limit: z
+    .preprocess((val) => (typeof val === 'string' ? parseInt(val, 10) : val), z.number().int().min(1).max(50))
+    .optional()
+    .default(10),
+  search: z.string().optional(),
+  specialization: z.string().optional(),
+  language: z.string().optional(),
+})
+
+// Chỉ gồm các trường an toàn để công khai: không có email, số điện thoại hay số hiệu chứng chỉ
+export const PublicDoctorSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  avatar: z.string().nullable(),
+  specialization: z.string(),
+  bio: z.string().nullable(),
+  yearsOfExperience: z.number().nullable(),
+  languages: z.array(z.string()),
+  qualifications: z.array(z.object({ name: z.string(), issuingBody: z.string() })),
+})
+
 // Create Schedule Schema
 export const CreateScheduleSchema = z.object({
   startDate: z.string().transform((str) => new Date(str)),
@@ -241,11 +287,166 @@ export const GetDoctorByDateSchema = z.object({
   date: z.string().transform((str) => new Date(str)),
 })
 
+const dateOnlySchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, { message: 'Date must be in YYYY-MM-DD format' })
+
+// Time Off Request Schemas
+export const TimeOffRequestSchema = z.object({
+  id: z.number(),
+  doctorId: z.number(),
+  startDate: z.date(),
+  endDate: z.date(),
+  shifts: z.array(z.nativeEnum(Shift)),
+  reason: z.string(),
+  status: z.nativeEnum(TimeOffRequestStatus),
+  reviewedById: z.number().nullable(),
+  reviewedAt: z.date().nullable(),
+  reviewNote: z.string().nullable(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+  doctor: z.object({
+    id: z.number(),
+    name: z.string(),
+    email: z.string(),
+  }),
+})
+
+export const CreateTimeOffRequestSchema = z
+  .object({
+    startDate: dateOnlySchema,
+    endDate: dateOnlySchema,
+    shifts: z.array(z.nativeEnum(Shift)).min(1).optional().default(DEFAULT_TIME_OFF_SHIFTS),
+    reason: z.string().trim().min(1, { message: 'Reason is required' }).max(500),
+  })
+  .refine((data) => data.startDate <= data.endDate, {
+    message: 'Start date must be before or equal to end date',
+    path: ['endDate'],
+  })
+  .refine((data) => data.startDate >= new Date().toISOString().slice(0, 10), {
+    message: 'Cannot request time off for past dates',
+    path: ['startDate'],
+  })
+  .refine(
+    (data) => {
+      const days = (new Date(data.endDate).getTime() - new Date(data.startDate).getTime()) / (24 * 60 * 60 * 1000)
+      return days < MAX_TIME_OFF_DAYS
+    },
+    {
+      message: `Time off request cannot span more than ${MAX_TIME_OFF_DAYS} days`,
+      path: ['endDate'],
+    },
+  )
+
+export const ReviewTimeOffRequestSchema = z.object({
+  note: z.string().trim().max(500).optional(),
+})
+
+export const QueryTimeOffRequestSchema = z.object({
+  status: z.nativeEnum(TimeOffRequestStatus).optional(),
+  doctorId: z
+    .preprocess((val) => (typeof val === 'string' ? parseInt(val, 10) : val), z.number().int().positive())
+    .optional(),
+  startDate: dateOnlySchema.optional(),
+  endDate: dateOnlySchema.optional(),
+})
+
+// Lịch hẹn đã đặt rơi vào ca nghỉ hoặc ca đổi, cần sắp xếp lại bác sĩ
+export const AffectedAppointmentSchema = z.object({
+  id: z.number(),
+  appointmentTime: z.date(),
+  status: z.nativeEnum(AppointmentStatus),
+  type: z.nativeEnum(AppointmentType),
+  shift: z.nativeEnum(Shift),
+  user: z.object({
+    id: z.number(),
+    name: z.string(),
+    email: z.string(),
+  }),
+  service: z.object({
+    id: z.number(),
+    name: z.string(),
+  }),
+})
+
+export const ReviewTimeOffRequestResSchema = z.object({
+  request: TimeOffRequestSchema,
+  affectedAppointments: z.array(AffectedAppointmentSchema),
+})
+
+// Shift Swap Request Schemas
+const SwapScheduleSummarySchema = z.object({
+  id: z.number(),
+  date: z.date(),
+  shift: z.nativeEnum(Shift),
+})
+
+const SwapDoctorSummarySchema = z.object({
+  id: z.number(),
+  name: z.string(),
+})
+
+export const ShiftSwapRequestSchema = z.object({
+  id: z.number(),
+  requesterId: z.number(),
+  requesterScheduleId: z.number(),
+  targetDoctorId: z.number(),
+  targetScheduleId: z.number(),
+  reason: z.string().nullable(),
+  status: z.nativeEnum(ShiftSwapRequestStatus),
+  respondedAt: z.date().nullable(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+  requester: SwapDoctorSummarySchema,
+  targetDoctor: SwapDoctorSummarySchema,
+  requesterSchedule: SwapScheduleSummarySchema,
+  targetSchedule: SwapScheduleSummarySchema,
+})
+
+export const CreateShiftSwapRequestSchema = z
+  .object({
+    scheduleId: z.number().int().positive(),
+    targetScheduleId: z.number().int().positive(),
+    reason: z.string().trim().max(500).optional(),
+  })
+  .refine((data) => data.scheduleId !== data.targetScheduleId, {
+    message: 'Cannot swap a schedule with itself',
+    path: ['targetScheduleId'],
+  })
+
+// Lịch hẹn sẽ được chuyển khi đổi ca: của người gửi sang bác sĩ nhận và ngược lại
+export const ShiftSwapImpactSchema = z.object({
+  request: ShiftSwapRequestSchema,
+  toTargetDoctor: z.array(AffectedAppointmentSchema),
+  toRequester: z.array(AffectedAppointmentSchema),
+})
+
+// Nguyện vọng ca làm việc của bác sĩ, dùng làm ràng buộc mềm khi xếp lịch
+export const DoctorShiftPreferenceSchema = z.object({
+  dayOfWeek: z.nativeEnum(DayOfWeek),
+  shift: z.nativeEnum(Shift),
+  preference: z.nativeEnum(ShiftPreferenceType).default(ShiftPreferenceType.PREFERRED),
+})
+
+export const UpdateDoctorShiftPreferencesSchema = z
+  .object({
+    schedules: z.array(DoctorShiftPreferenceSchema),
+  })
+  .refine(
+    (data) =>
+      new Set(data.schedules.map((schedule) => `${schedule.dayOfWeek}_${schedule.shift}`)).size ===
+      data.schedules.length,
+    {
+      message: 'Each day and shift can only appear once',
+      path: ['schedules'],
+    },
+  )
+
 // Types
 export type DoctorType = z.infer<typeof DoctorSchema>
 export type DoctorScheduleType = z.infer<typeof DoctorScheduleSchema>
 export type CreateDoctorType = z.infer<typeof CreateDoctorSchema>
 export type UpdateDoctorType = z.infer<typeof UpdateDoctorSchema>
+export type QueryPublicDoctorType = z.infer<typeof QueryPublicDoctorSchema>
+export type PublicDoctorType = z.infer<typeof PublicDoctorSchema>
 export type QueryDoctorType = z.infer<typeof QueryDoctorSchema>
 export type SwapShiftsType = z.infer<typeof SwapShiftsSchema>
 export type CreateScheduleConfigType = z.infer<typeof CreateScheduleConfigSchema>
@@ -253,3 +454,14 @@ export type RegisterScheduleType = z.infer<typeof RegisterScheduleSchema>
 export type GetDoctorScheduleType = z.infer<typeof GetDoctorScheduleSchema>
 export type ManualScheduleAssignmentType = z.infer<typeof ManualScheduleAssignmentSchema>
 export type GetDoctorByDateType = z.infer<typeof GetDoctorByDateSchema>
+export type TimeOffRequestType = z.infer<typeof TimeOffRequestSchema>
+export type CreateTimeOffRequestType = z.infer<typeof CreateTimeOffRequestSchema>
+export type ReviewTimeOffRequestType = z.infer<typeof ReviewTimeOffRequestSchema>
+export type QueryTimeOffRequestType = z.infer<typeof QueryTimeOffRequestSchema>
+export type AffectedAppointmentType = z.infer<typeof AffectedAppointmentSchema>
+export type ReviewTimeOffRequestResType = z.infer<typeof ReviewTimeOffRequestResSchema>
+export type ShiftSwapRequestType = z.infer<typeof ShiftSwapRequestSchema>
+export type CreateShiftSwapRequestType = z.infer<typeof CreateShiftSwapRequestSchema>
+export type ShiftSwapImpactType = z.infer<typeof ShiftSwapImpactSchema>
+export type DoctorShiftPreferenceType = z.infer<typeof DoctorShiftPreferenceSchema>
+export type UpdateDoctorShiftPreferencesType = z.infer<typeof UpdateDoctorShiftPreferencesSchema>
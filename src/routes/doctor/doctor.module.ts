@@ -3,14 +3,59 @@ import { DoctorController } from './doctor.controller';
 import { DoctorService } from './doctor.service';
 import { DoctorRepository } from '../../repositories/doctor.repository';
 import { PrismaService } from '../../shared/services/prisma.service';
+import { EmailService } from '../../shared/services/email.service';
+import { MeetingService } from '../meeting/meeting.service';
+import { RosterController } from './roster.controller';
+import { RosterService } from './roster.service';
+import { RosterRepository } from '../../repositories/roster.repository';
+import { AvailabilityController } from './availability.controller';
+import { AvailabilityService } from './availability.service';
+import { AvailabilityRepository } from '../../repositories/availability.repository';
+import { ClinicCalendarRepository } from '../../repositories/clinic-calendar.repository';
+import { CalendarFeedController } from './calendar-feed.controller';
+import { CalendarFeedService } from './calendar-feed.service';
+import { CalendarFeedRepository } from '../../repositories/calendar-feed.repository';
+import { WorkloadController } from './workload.controller';
+import { WorkloadService } from './workload.service';
+import { WorkloadRepository } from '../../repositories/workload.repository';
+import { QualificationController } from './qualification.controller';
+import { QualificationService } from './qualification.service';
+import { QualificationRepository } from '../../repositories/qualification.repository';
+import { ScheduleChangeController } from './schedule-change.controller';
+import { ScheduleChangeService } from './schedule-change.service';
+import { ScheduleChangeRepository } from '../../repositories/schedule-change.repository';
+import { AuthRepository } from '../../repositories/user.repository';
 
 @Module({
-  controllers: [DoctorController],
+  controllers: [
+    RosterController,
+    AvailabilityController,
+    CalendarFeedController,
+    WorkloadController,
+    QualificationController,
+    ScheduleChangeController,
+    DoctorController,
+  ],
   providers: [
     DoctorService,
     DoctorRepository,
+    RosterService,
+    RosterRepository,
+    AvailabilityService,
+    AvailabilityRepository,
+    ClinicCalendarRepository,
+    CalendarFeedService,
+    CalendarFeedRepository,
+    WorkloadService,
+    WorkloadRepository,
+    QualificationService,
+    QualificationRepository,
+    ScheduleChangeService,
+    ScheduleChangeRepository,
+    AuthRepository,
     PrismaService,
-    
+    MeetingService,
+    EmailService,
   ],
   exports: [DoctorService],
 })
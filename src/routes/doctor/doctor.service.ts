@@ -3,28 +3,81 @@ import {
   ConflictException,
   NotFoundException,
   BadRequestException,
+  ForbiddenException,
   InternalServerErrorException,
+  Logger,
 } from '@nestjs/common'
 import { DoctorRepository } from '../../repositories/doctor.repository'
-import { Doctor, Shift, DayOfWeek } from '@prisma/client'
+import { AvailabilityRepository } from '../../repositories/availability.repository'
+import { ClinicCalendarRepository } from '../../repositories/clinic-calendar.repository'
+import { AuthRepository } from '../../repositories/user.repository'
+import {
+  AppointmentType,
+  Doctor,
+  DoctorSchedule,
+  Shift,
+  DayOfWeek,
+  ShiftSwapRequestStatus,
+  TimeOffRequestStatus,
+  Prisma,
+  ScheduleChangeAction,
+  UserStatus,
+} from '@prisma/client'
 import { PaginationService } from '../../shared/services/pagination.service'
 import { createPaginationSchema, PaginatedResponse } from '../../shared/schemas/pagination.schema'
 import {
   CreateDoctorType,
   UpdateDoctorType,
   QueryDoctorSchema,
+  QueryPublicDoctorType,
+  PublicDoctorType,
   ManualScheduleAssignmentType,
   SwapShiftsType,
+  CreateTimeOffRequestType,
+  QueryTimeOffRequestType,
+  ReviewTimeOffRequestType,
+  ReviewTimeOffRequestResType,
+  AffectedAppointmentType,
+  TimeOffRequestType,
+  CreateShiftSwapRequestType,
+  ShiftSwapImpactType,
+  ShiftSwapRequestType,
+  DoctorShiftPreferenceType,
+  UpdateDoctorShiftPreferencesType,
 } from './doctor.model'
 import { GetDoctorScheduleDto } from './doctor.dto'
 import { startOfDay, endOfDay, addDays } from 'date-fns'
+import { formatDateYYYYMMDD, getShiftBySlotStart } from '../../shared/utils/appointment-slot.utils'
+import { EmailService } from '../../shared/services/email.service'
+import { MeetingService } from '../meeting/meeting.service'
+import { formatTimeHHMM } from '../../shared/utils/date.utils'
+import { isAvailableByTemplate } from '../../shared/utils/availability.utils'
+import { ClinicClosureInput, isShiftOpen } from '../../shared/utils/clinic-calendar.utils'
+import { toScheduleSnapshot } from '../../shared/utils/schedule-change.utils'
+import { ScheduleChangeService } from './schedule-change.service'
+import { Role } from '../../shared/constants/role.constant'
 import * as z from 'zod'
 
+const publicDoctorInclude = Prisma.validator<Prisma.DoctorInclude>()({
+  user: { select: { name: true, avatar: true } },
+  qualifications: { select: { name: true, issuingBody: true, expiresAt: true }, orderBy: { id: 'asc' } },
+})
+
+type DoctorWithPublicProfile = Prisma.DoctorGetPayload<{ include: typeof publicDoctorInclude }>
+
 @Injectable()
 export class DoctorService {
+  private readonly logger = new Logger(DoctorService.name)
+
   constructor(
     private readonly doctorRepository: DoctorRepository,
     private readonly paginationService: PaginationService,
+    private readonly meetingService: MeetingService,
+    private readonly emailService: EmailService,
+    private readonly availabilityRepository: AvailabilityRepository,
+    private readonly clinicCalendarRepository: ClinicCalendarRepository,
+    private readonly scheduleChangeService: ScheduleChangeService,
+    private readonly authRepository: AuthRepository,
   ) {}
 
   async createDoctor(data: CreateDoctorType): Promise<Doctor> {
@@ -197,6 +250,44 @@ export class DoctorService {
     }
   }
 
+  // Danh bạ công khai: chỉ bác sĩ đang nhận lịch có tài khoản hoạt động, chỉ trả về các trường an toàn
+  // và các chứng chỉ còn hạn
+  async findPublicDoctors(query: QueryPublicDoctorType): Promise<PaginatedResponse<PublicDoctorType>> {
+    const now = new Date()
+    const where: Prisma.DoctorWhereInput = {
+      isAvailable: true,
+      user: {
+        status: UserStatus.ACTIVE,
+        ...(query.search && { name: { contains: query.search, mode: 'insensitive' } }),
+      },
+      ...(query.specialization && { specialization: { contains: query.specialization, mode: 'insensitive' } }),
+      ...(query.language && { languages: { has: query.language } }),
+    }
+
+    const result = await this.paginationService.paginate<DoctorWithPublicProfile>(
+      this.doctorRepository.getDoctorModel(),
+      { page: query.page, limit: query.limit, sortBy: 'id', sortOrder: 'asc' },
+      where,
+      publicDoctorInclude,
+    )
+
+    return {
+      data: result.data.map((doctor) => ({
+        id: doctor.id,
+        name: doctor.user.name,
+        avatar: doctor.user.avatar,
+        specialization: doctor.specialization,
+        bio: doctor.bio,
+        yearsOfExperience: doctor.yearsOfExperience,
+        languages: doctor.languages,
+        qualifications: doctor.qualifications
+          .filter((qualification) => !qualification.expiresAt || qualification.expiresAt >= now)
+          .map(({ name, issuingBody }) => ({ name, issuingBody })),
+      })),
+      meta: result.meta,
+    }
+  }
+
   async updateDoctor(id: number, data: UpdateDoctorType): Promise<Doctor> {
     try {
       const doctor = await this.doctorRepository.findDoctorById(id)
@@ -253,8 +344,8 @@ export class DoctorService {
     return days[utcDate.getUTCDay()] as DayOfWeek
   }
 
-  // Calculate total shifts for a week (Monday to Friday only)
-  private calculateTotalShifts(startDate: Date, endDate: Date): number {
+  // Calculate total shifts for a week (Monday to Friday only, skipping clinic closures)
+  private calculateTotalShifts(startDate: Date, endDate: Date, closures: ClinicClosureInput[]): number {
     let totalShifts = 0
     const currentDate = new Date(startDate)
 
@@ -262,7 +353,8 @@ export class DoctorService {
       const dayOfWeek = currentDate.getUTCDay()
       if (dayOfWeek >= 1 && dayOfWeek <= 5) {
         // Monday to Friday only
-        totalShifts += 2 // 2 shifts per day (morning + afternoon)
+        const dayKey = currentDate.toISOString().split('T')[0]
+        totalShifts += [Shift.MORNING, Shift.AFTERNOON].filter((shift) => isShiftOpen(closures, dayKey, shift)).length
       }
       currentDate.setUTCDate(currentDate.getUTCDate() + 1)
     }
@@ -270,7 +362,7 @@ export class DoctorService {
   }
 
   // Generate schedule for all doctors
-  async generateSchedule(doctorsPerShift: number, startDate: Date) {
+  async generateSchedule(doctorsPerShift: number, startDate: Date, userId: number) {
     try {
       console.log('=== Starting Schedule Generation ===')
       console.log('Input parameters:', {
@@ -336,8 +428,22 @@ export class DoctorService {
         })),
       )
 
+      // Bác sĩ có lịch định kỳ chỉ được xếp vào các ca trong lịch đó
+      const templates = await this.availabilityRepository.findTemplatesInRange(actualStartDate, endDate)
+      const isAvailable = (doctorId: number, dayKey: string, shift: Shift) =>
+        isAvailableByTemplate(
+          templates.filter((template) => template.doctorId === doctorId),
+          dayKey,
+          shift,
+        )
+
+      // Ngày nghỉ lễ / đóng cửa của toàn phòng khám không xếp ca
+      const closures = (await this.clinicCalendarRepository.findClosuresInRange(actualStartDate, endDate)).filter(
+        (closure) => closure.serviceId === null,
+      )
+
       // Calculate total shifts and required doctors
-      const totalShifts = this.calculateTotalShifts(actualStartDate, endDate) // 10 shifts (5 days × 2)
+      const totalShifts = this.calculateTotalShifts(actualStartDate, endDate, closures) // 10 shifts (5 days × 2)
       const totalRequiredShifts = totalShifts * doctorsPerShift // 20 shifts (10 × 2)
 
       console.log('Shift calculations:', {
@@ -359,6 +465,7 @@ export class DoctorService {
 
       // Initialize shift count for each doctor
       const doctorShifts = new Map<number, number>()
+      const createdSchedules: DoctorSchedule[] = []
       doctors.forEach((doctor) => {
         doctorShifts.set(doctor.id, 0)
       })
@@ -370,7 +477,8 @@ export class DoctorService {
         const dayOfWeek = currentDate.getUTCDay()
         if (dayOfWeek >= 1 && dayOfWeek <= 5) {
           // Monday to Friday only
-          for (const shift of [Shift.MORNING, Shift.AFTERNOON]) {
+          const dayKey = currentDate.toISOString().split('T')[0]
+          for (const shift of [Shift.MORNING, Shift.AFTERNOON].filter((item) => isShiftOpen(closures, dayKey, item))) {
             availableDates.push({
               date: new Date(currentDate),
               shift,
@@ -448,6 +556,8 @@ export class DoctorService {
             return (
               shifts.length === 2 &&
               !assignedDays.has(dayKey) &&
+              isAvailable(doctor.id, dayKey, Shift.MORNING) &&
+              isAvailable(doctor.id, dayKey, Shift.AFTERNOON) &&
               (shiftAssignments.get(morningKey) || 0) < doctorsPerShift &&
               (shiftAssignments.get(afternoonKey) || 0) < doctorsPerShift
             )
@@ -470,7 +580,7 @@ export class DoctorService {
 
           // Only assign both shifts if we have room for both
           if (assignedShifts + 2 <= shiftsToAssign) {
-            await Promise.all([
+            const created = await Promise.all([
               this.doctorRepository.createSchedule({
                 doctor: { connect: { id: doctor.id } },
                 date: morning.date,
@@ -486,6 +596,7 @@ export class DoctorService {
                 isOff: false,
               }),
             ])
+            createdSchedules.push(...created)
 
             assignedShifts += 2
             const assignedDays = doctorDayAssignments.get(doctor.id) || new Set()
@@ -504,14 +615,18 @@ export class DoctorService {
         if (assignedShifts < shiftsToAssign) {
           const remainingShiftsToAssign = shiftsToAssign - assignedShifts
           const singleShifts = Array.from(datesByDay.entries())
+            // Chỉ giữ các ca bác sĩ có thể làm theo lịch định kỳ
+            .map(([dayKey, shifts]): [string, { date: Date; shift: Shift }[]] => [
+              dayKey,
+              shifts.filter((shift) => isAvailable(doctor.id, dayKey, shift.shift)),
+            ])
             .filter(([dayKey, shifts]) => {
               const assignedDays = doctorDayAssignments.get(doctor.id) || new Set()
               const shift = shifts[0]
-              const shiftKey = `${dayKey}_${shift.shift}`
               return (
                 shifts.length > 0 &&
                 !assignedDays.has(dayKey) &&
-                (shiftAssignments.get(shiftKey) || 0) < doctorsPerShift
+                (shiftAssignments.get(`${dayKey}_${shift.shift}`) || 0) < doctorsPerShift
               )
             })
             .sort((a, b) => {
@@ -529,13 +644,14 @@ export class DoctorService {
             const [dayKey, shifts] = singleShifts[i]
             const shift = shifts[0]
 
-            await this.doctorRepository.createSchedule({
+            const created = await this.doctorRepository.createSchedule({
               doctor: { connect: { id: doctor.id } },
               date: shift.date,
               dayOfWeek: this.getDayOfWeek(shift.date),
               shift: shift.shift,
               isOff: false,
             })
+            createdSchedules.push(created)
 
             assignedShifts++
             const assignedDays = doctorDayAssignments.get(doctor.id) || new Set()
@@ -569,8 +685,18 @@ export class DoctorService {
         })),
       )
 
+      await this.scheduleChangeService.recordChanges(
+        createdSchedules.map((schedule) => ({
+          doctorId: schedule.doctorId,
+          scheduleId: schedule.id,
+          action: ScheduleChangeAction.GENERATED,
+          after: toScheduleSnapshot(schedule),
+          changedById: userId,
+        })),
+      )
+
       // Get remaining shifts that need to be filled
-      const remainingShifts = await this.getRemainingShifts(actualStartDate, endDate, doctorsPerShift)
+      const remainingShifts = await this.getRemainingShifts(actualStartDate, endDate, doctorsPerShift, closures)
 
       return {
         message: 'Schedule generated successfully',
@@ -591,7 +717,12 @@ export class DoctorService {
   }
 
   // Get remaining shifts that need to be filled
-  private async getRemainingShifts(startDate: Date, endDate: Date, doctorsPerShift: number) {
+  private async getRemainingShifts(
+    startDate: Date,
+    endDate: Date,
+    doctorsPerShift: number,
+    closures: ClinicClosureInput[],
+  ) {
     const shifts: { date: Date; shift: Shift }[] = []
     const currentDate = new Date(startDate)
 
@@ -601,6 +732,7 @@ export class DoctorService {
         const shiftsForDay = dayOfWeek === 6 ? [Shift.MORNING] : [Shift.MORNING, Shift.AFTERNOON]
 
         for (const shift of shiftsForDay) {
+          if (!isShiftOpen(closures, currentDate.toISOString().split('T')[0], shift)) continue
           const doctorsInShift = await this.doctorRepository.countSchedules({
             date: {
               gte: startOfDay(currentDate),
@@ -641,33 +773,140 @@ export class DoctorService {
     })
   }
 
-  // Request time off for a doctor
-  async requestTimeOff(doctorId: number, date: Date, shift: Shift) {
-    try {
-      const schedule = await this.doctorRepository.findFirstSchedule({
-        doctorId,
-        date: {
-          gte: startOfDay(date),
-          lte: endOfDay(date),
-        },
-        shift,
-      })
+  async getShiftPreferences(doctorId: number): Promise<DoctorShiftPreferenceType[]> {
+    const doctor = await this.doctorRepository.findDoctorById(doctorId)
+    if (!doctor) {
+      throw new NotFoundException('Doctor not found')
+    }
+    return this.doctorRepository.findShiftPreferences(doctorId)
+  }
 
-      if (!schedule) {
-        throw new NotFoundException('Schedule not found')
-      }
+  async getMyShiftPreferences(userId: number): Promise<DoctorShiftPreferenceType[]> {
+    const doctor = await this.findDoctorByUserId(userId)
+    return this.doctorRepository.findShiftPreferences(doctor.id)
+  }
 
-      return this.doctorRepository.updateSchedule(schedule.id, {
-        isOff: true,
-      })
-    } catch (error) {
-      if (error instanceof NotFoundException) {
-        throw error
-      }
-      throw new InternalServerErrorException('Error requesting time off: ' + error.message)
+  async updateMyShiftPreferences(
+    userId: number,
+    data: UpdateDoctorShiftPreferencesType,
+  ): Promise<DoctorShiftPreferenceType[]> {
+    const doctor = await this.findDoctorByUserId(userId)
+    return this.doctorRepository.replaceShiftPreferences(doctor.id, data.schedules)
+  }
+
+  // Bác sĩ gửi đơn xin nghỉ, lịch làm việc chỉ được đánh dấu nghỉ khi admin duyệt
+  async requestTimeOff(userId: number, data: CreateTimeOffRequestType): Promise<TimeOffRequestType> {
+    const doctor = await this.findDoctorByUserId(userId)
+    const startDate = new Date(data.startDate)
+    const endDate = new Date(data.endDate)
+    const shifts = [...new Set(data.shifts)]
+
+    const overlapping = await this.doctorRepository.findOverlappingTimeOffRequests(doctor.id, startDate, endDate)
+    if (overlapping.some((request) => request.shifts.some((shift) => shifts.includes(shift)))) {
+      throw new ConflictException('A pending or approved time off request already covers some of these shifts')
+    }
+
+    return this.doctorRepository.createTimeOffRequest({
+      doctorId: doctor.id,
+      startDate,
+      endDate,
+      shifts,
+      reason: data.reason,
+    })
+  }
+
+  async findMyTimeOffRequests(userId: number): Promise<TimeOffRequestType[]> {
+    const doctor = await this.findDoctorByUserId(userId)
+    return this.doctorRepository.findTimeOffRequests({ doctorId: doctor.id })
+  }
+
+  async findTimeOffRequests(query: QueryTimeOffRequestType): Promise<TimeOffRequestType[]> {
+    return this.doctorRepository.findTimeOffRequests({
+      ...(query.status && { status: query.status }),
+      ...(query.doctorId && { doctorId: query.doctorId }),
+      ...(query.startDate && { endDate: { gte: new Date(query.startDate) } }),
+      ...(query.endDate && { startDate: { lte: new Date(query.endDate) } }),
+    })
+  }
+
+  async approveTimeOffRequest(
+    id: number,
+    reviewerId: number,
+    data: ReviewTimeOffRequestType,
+  ): Promise<ReviewTimeOffRequestResType> {
+    await this.findPendingTimeOffRequest(id)
+    const { request, scheduleChanges } = await this.doctorRepository.approveTimeOffRequest(id, {
+      reviewedById: reviewerId,
+      reviewNote: data.note,
+    })
+    await this.scheduleChangeService.notifyDoctors(scheduleChanges)
+    return {
+      request,
+      affectedAppointments: await this.findBookedShiftAppointments(
+        request.doctorId,
+        request.startDate,
+        request.endDate,
+        request.shifts,
+      ),
     }
   }
 
+  async rejectTimeOffRequest(
+    id: number,
+    reviewerId: number,
+    data: ReviewTimeOffRequestType,
+  ): Promise<TimeOffRequestType> {
+    await this.findPendingTimeOffRequest(id)
+    return this.doctorRepository.rejectTimeOffRequest(id, {
+      reviewedById: reviewerId,
+      reviewNote: data.note,
+    })
+  }
+
+  // Danh sách lịch hẹn cần sắp xếp lại của một đơn xin nghỉ đã duyệt
+  async getTimeOffAffectedAppointments(id: number): Promise<AffectedAppointmentType[]> {
+    const request = await this.doctorRepository.findTimeOffRequestById(id)
+    if (!request) {
+      throw new NotFoundException('Time off request not found')
+    }
+    if (request.status !== TimeOffRequestStatus.APPROVED) {
+      return []
+    }
+    return this.findBookedShiftAppointments(request.doctorId, request.startDate, request.endDate, request.shifts)
+  }
+
+  private async findPendingTimeOffRequest(id: number): Promise<TimeOffRequestType> {
+    const request = await this.doctorRepository.findTimeOffRequestById(id)
+    if (!request) {
+      throw new NotFoundException('Time off request not found')
+    }
+    if (request.status !== TimeOffRequestStatus.PENDING) {
+      throw new BadRequestException(`Time off request has already been ${request.status.toLowerCase()}`)
+    }
+    return request
+  }
+
+  // Lịch hẹn đã đặt với bác sĩ trong các ca của khoảng ngày
+  // (ngày ca làm việc lưu theo UTC 00:00, giờ hẹn theo giờ Việt Nam)
+  private async findBookedShiftAppointments(
+    doctorId: number,
+    startDate: Date,
+    endDate: Date,
+    shifts: Shift[],
+  ): Promise<AffectedAppointmentType[]> {
+    const appointments = await this.doctorRepository.findBookedAppointmentsInRange(
+      doctorId,
+      new Date(`${startDate.toISOString().slice(0, 10)}T00:00:00+07:00`),
+      new Date(`${endDate.toISOString().slice(0, 10)}T23:59:59.999+07:00`),
+    )
+    return appointments
+      .map((appointment) => ({
+        ...appointment,
+        shift: getShiftBySlotStart(formatTimeHHMM(appointment.appointmentTime)),
+      }))
+      .filter((appointment) => shifts.includes(appointment.shift))
+  }
+
   // Get schedules with time off requests
   async getSchedulesWithTimeOff(startDate: Date, endDate: Date) {
     try {
@@ -693,7 +932,7 @@ export class DoctorService {
   }
 
   // Assign doctors manually to any day in the week
-  async assignDoctorsManually(data: ManualScheduleAssignmentType) {
+  async assignDoctorsManually(data: ManualScheduleAssignmentType, userId: number) {
     try {
       const { doctorId, date, shift } = data
       const scheduleDate = new Date(date)
@@ -758,6 +997,15 @@ export class DoctorService {
         shift,
         isOff: false,
       })
+      await this.scheduleChangeService.recordChanges([
+        {
+          doctorId,
+          scheduleId: assignment.id,
+          action: ScheduleChangeAction.ASSIGNED,
+          after: toScheduleSnapshot(assignment),
+          changedById: userId,
+        },
+      ])
 
       console.log('Manual assignment completed:', {
         doctorId,
@@ -789,7 +1037,7 @@ export class DoctorService {
   }
 
   // Swap shifts between two doctors
-  async swapShifts(data: SwapShiftsType) {
+  async swapShifts(data: SwapShiftsType, userId: number) {
     try {
       const { doctor1, doctor2 } = data
       const scheduleDate1 = new Date(doctor1.date)
@@ -825,20 +1073,12 @@ export class DoctorService {
         throw new BadRequestException('Cannot swap shifts when either doctor has requested time off')
       }
 
-      // Perform the swap
-      await Promise.all([
-        this.doctorRepository.updateSchedule(doctor1Schedule.id, {
-          doctor: { connect: { id: doctor2.id } },
-          swappedWith: { connect: { id: doctor2Schedule.id } },
-        }),
-        this.doctorRepository.updateSchedule(doctor2Schedule.id, {
-          doctor: { connect: { id: doctor1.id } },
-          swappedWith: { connect: { id: doctor1Schedule.id } },
-        }),
-      ])
+      // Perform the swap and hand over booked appointments
+      const { fromFirst, fromSecond } = await this.performShiftSwap(doctor1Schedule, doctor2Schedule, { userId })
 
       return {
         message: 'Shifts swapped successfully',
+        movedAppointments: fromFirst.length + fromSecond.length,
         doctor1: {
           id: doctor1.id,
           newSchedule: {
@@ -862,8 +1102,270 @@ export class DoctorService {
     }
   }
 
+  // Bác sĩ gửi đề nghị đổi ca với một ca của bác sĩ khác, kèm danh sách lịch hẹn sẽ được chuyển
+  async requestShiftSwap(userId: number, data: CreateShiftSwapRequestType): Promise<ShiftSwapImpactType> {
+    const requester = await this.findDoctorByUserId(userId)
+    const [schedule, targetSchedule] = await Promise.all([
+      this.doctorRepository.findFirstSchedule({ id: data.scheduleId }),
+      this.doctorRepository.findFirstSchedule({ id: data.targetScheduleId }),
+    ])
+    if (!schedule || !targetSchedule) {
+      throw new NotFoundException('Schedule not found')
+    }
+    if (schedule.doctorId !== requester.id) {
+      throw new ForbiddenException('You can only swap your own schedule')
+    }
+    if (targetSchedule.doctorId === requester.id) {
+      throw new BadRequestException('Target schedule must belong to another doctor')
+    }
+    await this.validateSwappableSchedules(schedule, targetSchedule)
+
+    const pending = await this.doctorRepository.findPendingShiftSwapRequestForSchedules([
+      schedule.id,
+      targetSchedule.id,
+    ])
+    if (pending) {
+      throw new ConflictException('One of these schedules already has a pending swap request')
+    }
+
+    const request = await this.doctorRepository.createShiftSwapRequest({
+      requesterId: requester.id,
+      requesterScheduleId: schedule.id,
+      targetDoctorId: targetSchedule.doctorId,
+      targetScheduleId: targetSchedule.id,
+      reason: data.reason,
+    })
+    return this.buildShiftSwapImpact(request, schedule, targetSchedule)
+  }
+
+  async findMyShiftSwapRequests(userId: number): Promise<ShiftSwapRequestType[]> {
+    const doctor = await this.findDoctorByUserId(userId)
+    return this.doctorRepository.findShiftSwapRequests({
+      OR: [{ requesterId: doctor.id }, { targetDoctorId: doctor.id }],
+    })
+  }
+
+  // Xem trước các lịch hẹn sẽ được chuyển nếu đơn đổi ca được chấp nhận
+  // Ảnh hưởng của đơn đổi ca gồm thông tin bệnh nhân, chỉ hai bác sĩ trong đơn và Admin/Staff được xem
+  async getShiftSwapImpact(id: number, userId: number): Promise<ShiftSwapImpactType> {
+    const request = await this.findShiftSwapRequest(id)
+    const role = (await this.authRepository.findUserRoleNameById(userId)) as Role | null
+    if (role !== Role.Admin && role !== Role.Staff) {
+      const doctor = await this.doctorRepository.findDoctorByUserId(userId)
+      if (!doctor || (doctor.id !== request.requesterId && doctor.id !== request.targetDoctorId)) {
+        throw new ForbiddenException('You can only view swap requests you are part of')
+      }
+    }
+    if (request.status !== ShiftSwapRequestStatus.PENDING) {
+      return { request, toTargetDoctor: [], toRequester: [] }
+    }
+    const [schedule, targetSchedule] = await this.findShiftSwapSchedules(request)
+    return this.buildShiftSwapImpact(request, schedule, targetSchedule)
+  }
+
+  // Bác sĩ nhận chấp nhận đổi ca: đổi lịch làm việc, chuyển lịch hẹn và báo cho bệnh nhân
+  async acceptShiftSwap(id: number, userId: number): Promise<ShiftSwapImpactType> {
+    const request = await this.findPendingShiftSwapRequest(id)
+    const doctor = await this.findDoctorByUserId(userId)
+    if (request.targetDoctorId !== doctor.id) {
+      throw new ForbiddenException('Only the requested doctor can accept this swap')
+    }
+
+    const [schedule, targetSchedule] = await this.findShiftSwapSchedules(request)
+    if (schedule.doctorId !== request.requesterId || targetSchedule.doctorId !== request.targetDoctorId) {
+      throw new BadRequestException('Schedules have changed since the swap was requested')
+    }
+    await this.validateSwappableSchedules(schedule, targetSchedule)
+
+    const { fromFirst, fromSecond } = await this.performShiftSwap(schedule, targetSchedule, {
+      userId,
+      swapRequestId: request.id,
+    })
+    const accepted = await this.findShiftSwapRequest(id)
+    return { request: accepted, toTargetDoctor: fromFirst, toRequester: fromSecond }
+  }
+
+  async declineShiftSwap(id: number, userId: number): Promise<ShiftSwapRequestType> {
+    const request = await this.findPendingShiftSwapRequest(id)
+    const doctor = await this.findDoctorByUserId(userId)
+    if (request.targetDoctorId !== doctor.id) {
+      throw new ForbiddenException('Only the requested doctor can decline this swap')
+    }
+    return this.doctorRepository.updateShiftSwapRequestStatus(id, ShiftSwapRequestStatus.DECLINED)
+  }
+
+  async cancelShiftSwap(id: number, userId: number): Promise<ShiftSwapRequestType> {
+    const request = await this.findPendingShiftSwapRequest(id)
+    const doctor = await this.findDoctorByUserId(userId)
+    if (request.requesterId !== doctor.id) {
+      throw new ForbiddenException('Only the requesting doctor can cancel this swap')
+    }
+    return this.doctorRepository.updateShiftSwapRequestStatus(id, ShiftSwapRequestStatus.CANCELLED)
+  }
+
+  private async findShiftSwapRequest(id: number): Promise<ShiftSwapRequestType> {
+    const request = await this.doctorRepository.findShiftSwapRequestById(id)
+    if (!request) {
+      throw new NotFoundException('Shift swap request not found')
+    }
+    return request
+  }
+
+  private async findPendingShiftSwapRequest(id: number): Promise<ShiftSwapRequestType> {
+    const request = await this.findShiftSwapRequest(id)
+    if (request.status !== ShiftSwapRequestStatus.PENDING) {
+      throw new BadRequestException(`Shift swap request has already been ${request.status.toLowerCase()}`)
+    }
+    return request
+  }
+
+  private async findShiftSwapSchedules(request: ShiftSwapRequestType): Promise<[DoctorSchedule, DoctorSchedule]> {
+    const [schedule, targetSchedule] = await Promise.all([
+      this.doctorRepository.findFirstSchedule({ id: request.requesterScheduleId }),
+      this.doctorRepository.findFirstSchedule({ id: request.targetScheduleId }),
+    ])
+    if (!schedule || !targetSchedule) {
+      throw new NotFoundException('Schedule not found')
+    }
+    return [schedule, targetSchedule]
+  }
+
+  // Hai ca phải còn hiệu lực, chưa qua, khác nhau và mỗi bác sĩ chưa có ca trùng với ca sẽ nhận
+  private async validateSwappableSchedules(schedule: DoctorSchedule, targetSchedule: DoctorSchedule) {
+    if (schedule.isOff || targetSchedule.isOff) {
+      throw new BadRequestException('Cannot swap shifts when either doctor has requested time off')
+    }
+    const today = formatDateYYYYMMDD(new Date())
+    if (
+      schedule.date.toISOString().slice(0, 10) < today ||
+      targetSchedule.date.toISOString().slice(0, 10) < today
+    ) {
+      throw new BadRequestException('Cannot swap shifts in the past')
+    }
+    if (schedule.date.getTime() === targetSchedule.date.getTime() && schedule.shift === targetSchedule.shift) {
+      throw new BadRequestException('Both schedules are in the same shift')
+    }
+
+    const [targetConflict, requesterConflict] = await Promise.all([
+      this.doctorRepository.findFirstSchedule({
+        doctorId: targetSchedule.doctorId,
+        date: schedule.date,
+        shift: schedule.shift,
+        isOff: false,
+      }),
+      this.doctorRepository.findFirstSchedule({
+        doctorId: schedule.doctorId,
+        date: targetSchedule.date,
+        shift: targetSchedule.shift,
+        isOff: false,
+      }),
+    ])
+    if (targetConflict || requesterConflict) {
+      throw new BadRequestException('Doctor is already assigned to the shift being swapped in')
+    }
+  }
+
+  private async buildShiftSwapImpact(
+    request: ShiftSwapRequestType,
+    schedule: DoctorSchedule,
+    targetSchedule: DoctorSchedule,
+  ): Promise<ShiftSwapImpactType> {
+    const [toTargetDoctor, toRequester] = await Promise.all([
+      this.findBookedShiftAppointments(schedule.doctorId, schedule.date, schedule.date, [schedule.shift]),
+      this.findBookedShiftAppointments(targetSchedule.doctorId, targetSchedule.date, targetSchedule.date, [
+        targetSchedule.shift,
+      ]),
+    ])
+    return { request, toTargetDoctor, toRequester }
+  }
+
+  // Đổi bác sĩ giữa hai ca, chuyển lịch hẹn của mỗi ca sang bác sĩ trực thay (lịch online được tạo phòng meeting mới)
+  // rồi gửi email cho bệnh nhân và hai bác sĩ
+  private async performShiftSwap(
+    first: DoctorSchedule,
+    second: DoctorSchedule,
+    options: { userId: number; swapRequestId?: number },
+  ): Promise<{ fromFirst: AffectedAppointmentType[]; fromSecond: AffectedAppointmentType[] }> {
+    const [fromFirst, fromSecond] = await Promise.all([
+      this.findBookedShiftAppointments(first.doctorId, first.date, first.date, [first.shift]),
+      this.findBookedShiftAppointments(second.doctorId, second.date, second.date, [second.shift]),
+    ])
+    const moves = [
+      ...fromFirst.map((appointment) => ({ appointment, doctorId: second.doctorId })),
+      ...fromSecond.map((appointment) => ({ appointment, doctorId: first.doctorId })),
+    ]
+
+    const handovers: {
+      appointmentId: number
+      doctorId: number
+      patientMeetingUrl?: string
+      doctorMeetingUrl?: string
+    }[] = []
+    for (const { appointment, doctorId } of moves) {
+      if (appointment.type !== AppointmentType.ONLINE) {
+        handovers.push({ appointmentId: appointment.id, doctorId })
+        continue
+      }
+      const roomId = `appointment-${Date.now()}-${appointment.user.id}`
+      const { patientUrl, doctorUrl } = await this.meetingService.createMeeting(roomId, {
+        patientId: String(appointment.user.id),
+        doctorId: String(doctorId),
+      })
+      handovers.push({
+        appointmentId: appointment.id,
+        doctorId,
+        patientMeetingUrl: patientUrl,
+        doctorMeetingUrl: doctorUrl,
+      })
+    }
+
+    const scheduleChanges = await this.doctorRepository.swapSchedulesWithHandover({
+      first,
+      second,
+      handovers,
+      swapRequestId: options.swapRequestId,
+      changedById: options.userId,
+    })
+    if (!scheduleChanges) {
+      throw new BadRequestException('Shift swap request is no longer pending')
+    }
+    await this.scheduleChangeService.notifyDoctors(scheduleChanges)
+
+    const doctors = await this.doctorRepository.findDoctorContacts([first.doctorId, second.doctorId])
+    for (const [index, { appointment, doctorId }] of moves.entries()) {
+      try {
+        await this.emailService.sendAppointmentDoctorChangedMail({
+          email: appointment.user.email,
+          serviceName: appointment.service.name,
+          appointmentTime: appointment.appointmentTime,
+          doctorName: doctors.find((doctor) => doctor.id === doctorId)?.user.name ?? '',
+          meetingUrl: handovers[index].patientMeetingUrl,
+        })
+      } catch (error) {
+        this.logger.error(`Failed to notify patient of appointment ${appointment.id} about doctor change`, error)
+      }
+    }
+    return { fromFirst, fromSecond }
+  }
+
+  // Chỉ trả về các ca nằm trong lịch định kỳ của bác sĩ (nếu có)
   async getDoctorsByDate(date: Date) {
-    return this.doctorRepository.findDoctorByDate(date)
+    const doctors = await this.doctorRepository.findDoctorByDate(date)
+    const templates = await this.availabilityRepository.findTemplatesInRange(
+      date,
+      date,
+      doctors.map((doctor) => doctor.id),
+    )
+    const day = date.toISOString().slice(0, 10)
+    return doctors
+      .map((doctor) => {
+        const doctorTemplates = templates.filter((template) => template.doctorId === doctor.id)
+        return {
+          ...doctor,
+          schedules: doctor.schedules.filter((schedule) => isAvailableByTemplate(doctorTemplates, day, schedule.shift)),
+        }
+      })
+      .filter((doctor) => doctor.schedules.length > 0)
   }
 
   async getWeeklySchedule(startDate: Date, endDate: Date) {
@@ -0,0 +1,63 @@
+import { Body, Controller, Delete, Get, Param, ParseIntPipe, Post, Put, Query } from '@nestjs/common'
+import { ApiBearerAuth, ApiTags } from '@nestjs/swagger'
+import { QualificationService } from './qualification.service'
+import { CreateQualificationDto, QueryQualificationDto, UpdateQualificationDto } from './qualification.dto'
+import { QualificationType } from './qualification.model'
+import {
+  ApiCreateQualification,
+  ApiDeleteQualification,
+  ApiFindMyQualifications,
+  ApiFindQualifications,
+  ApiUpdateQualification,
+} from '../../swagger/qualification.swagger'
+import { Roles } from '../../shared/decorators/roles.decorator'
+import { Role } from '../../shared/constants/role.constant'
+import { ActiveUser } from '../../shared/decorators/active-user.decorator'
+import { Auth } from '../../shared/decorators/auth.decorator'
+import { AuthType } from '../../shared/constants/auth.constant'
+
+@ApiBearerAuth()
+@ApiTags('Doctor Qualifications')
+@Auth([AuthType.Bearer])
+@Controller('doctors/qualifications')
+export class QualificationController {
+  constructor(private readonly qualificationService: QualificationService) {}
+
+  @Post()
+  @Roles(Role.Admin)
+  @ApiCreateQualification()
+  async createQualification(@Body() body: unknown): Promise<QualificationType> {
+    const dto = CreateQualificationDto.create(body)
+    return this.qualificationService.createQualification(dto)
+  }
+
+  @Get()
+  @Roles(Role.Admin, Role.Staff)
+  @ApiFindQualifications()
+  async findQualifications(@Query() query: unknown): Promise<QualificationType[]> {
+    const dto = QueryQualificationDto.create(query)
+    return this.qualificationService.findQualifications(dto)
+  }
+
+  @Get('me')
+  @Roles(Role.Doctor)
+  @ApiFindMyQualifications()
+  async findMyQualifications(@ActiveUser('userId') userId: number): Promise<QualificationType[]> {
+    return this.qualificationService.findMyQualifications(userId)
+  }
+
+  @Put(':id')
+  @Roles(Role.Admin)
+  @ApiUpdateQualification()
+  async updateQualification(@Param('id', ParseIntPipe) id: number, @Body() body: unknown): Promise<QualificationType> {
+    const dto = UpdateQualificationDto.create(body)
+    return this.qualificationService.updateQualification(id, dto)
+  }
+
+  @Delete(':id')
+  @Roles(Role.Admin)
+  @ApiDeleteQualification()
+  async deleteQualification(@Param('id', ParseIntPipe) id: number): Promise<{ message: string }> {
+    return this.qualificationService.deleteQualification(id)
+  }
+}
@@ -0,0 +1,11 @@
+import { createZodDto } from 'nestjs-zod'
+import { CreateQualificationSchema, QueryQualificationSchema, UpdateQualificationSchema } from './qualification.model'
+
+// Create Qualification DTO
+export class CreateQualificationDto extends createZodDto(CreateQualificationSchema) {}
+
+// Update Qualification DTO
+export class UpdateQualificationDto extends createZodDto(UpdateQualificationSchema) {}
+
+// Query Qualification DTO
+export class QueryQualificationDto extends createZodDto(QueryQualificationSchema) {}
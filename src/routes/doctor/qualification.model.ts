@@ -0,0 +1,60 @@
+import { z } from 'zod'
+
+const dateOnlySchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, { message: 'Date must be in YYYY-MM-DD format' })
+
+// EXPIRING_SOON: hết hạn trong QUALIFICATION_EXPIRY_ALERT_DAYS ngày tới
+export const QualificationExpiryStatusSchema = z.enum(['VALID', 'EXPIRING_SOON', 'EXPIRED', 'NO_EXPIRY'])
+
+export const QualificationSchema = z.object({
+  id: z.number(),
+  doctorId: z.number(),
+  name: z.string(),
+  licenseNumber: z.string().nullable(),
+  issuingBody: z.string(),
+  issuedAt: z.date().nullable(),
+  expiresAt: z.date().nullable(),
+  expiryStatus: QualificationExpiryStatusSchema,
+  expiryAlertSentAt: z.date().nullable(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+})
+
+const QualificationFieldsSchema = z.object({
+  name: z.string().trim().min(1).max(200),
+  licenseNumber: z.string().trim().min(1).max(100).optional(),
+  issuingBody: z.string().trim().min(1).max(200),
+  issuedAt: dateOnlySchema.optional(),
+  expiresAt: dateOnlySchema.optional(),
+})
+
+export const CreateQualificationSchema = QualificationFieldsSchema.extend({
+  doctorId: z.number().int().positive(),
+}).refine((data) => !data.issuedAt || !data.expiresAt || data.issuedAt < data.expiresAt, {
+  message: 'Issued date must be before expiry date',
+  path: ['expiresAt'],
+})
+
+export const UpdateQualificationSchema = QualificationFieldsSchema.extend({
+  licenseNumber: z.string().trim().min(1).max(100).nullable().optional(),
+  issuedAt: dateOnlySchema.nullable().optional(),
+  expiresAt: dateOnlySchema.nullable().optional(),
+})
+  .partial()
+  .refine((data) => Object.keys(data).length > 0, { message: 'Nothing to update' })
+
+export const QueryQualificationSchema = z.object({
+  doctorId: z
+    .preprocess((val) => (typeof val === 'string' ? parseInt(val, 10) : val), z.number().int().positive())
+    .optional(),
+  // Chỉ lấy các chứng chỉ hết hạn trong số ngày tới (kể cả đã hết hạn)
+  expiringWithinDays: z
+    .preprocess((val) => (typeof val === 'string' ? parseInt(val, 10) : val), z.number().int().min(0).max(365))
+    .optional(),
+})
+
+// Types
+export type QualificationType = z.infer<typeof QualificationSchema>
+export type QualificationExpiryStatusType = z.infer<typeof QualificationExpiryStatusSchema>
+export type CreateQualificationType = z.infer<typeof CreateQualificationSchema>
+export type UpdateQualificationType = z.infer<typeof UpdateQualificationSchema>
+export type QueryQualificationType = z.infer<typeof QueryQualificationSchema>
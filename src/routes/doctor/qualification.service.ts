@@ -0,0 +1,127 @@
+import { BadRequestException, Injectable, Logger, NotFoundException } from '@nestjs/common'
+import { Cron, CronExpression } from '@nestjs/schedule'
+import { DoctorQualification } from '@prisma/client'
+import { QualificationRepository } from '../../repositories/qualification.repository'
+import { DoctorRepository } from '../../repositories/doctor.repository'
+import { QUALIFICATION_EXPIRY_ALERT_DAYS } from '../../shared/constants/doctor.constant'
+import { EmailService } from '../../shared/services/email.service'
+import {
+  CreateQualificationType,
+  QualificationExpiryStatusType,
+  QualificationType,
+  QueryQualificationType,
+  UpdateQualificationType,
+} from './qualification.model'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+@Injectable()
+export class QualificationService {
+  private readonly logger = new Logger(QualificationService.name)
+
+  constructor(
+    private readonly qualificationRepository: QualificationRepository,
+    private readonly doctorRepository: DoctorRepository,
+    private readonly emailService: EmailService,
+  ) {}
+
+  async createQualification(data: CreateQualificationType): Promise<QualificationType> {
+    const doctor = await this.doctorRepository.findDoctorById(data.doctorId)
+    if (!doctor) {
+      throw new NotFoundException('Doctor not found')
+    }
+    const qualification = await this.qualificationRepository.createQualification({
+      ...data,
+      issuedAt: data.issuedAt ? new Date(data.issuedAt) : undefined,
+      expiresAt: data.expiresAt ? new Date(data.expiresAt) : undefined,
+    })
+    return this.toQualification(qualification)
+  }
+
+  async findQualifications(query: QueryQualificationType): Promise<QualificationType[]> {
+    const qualifications = await this.qualificationRepository.findQualifications({
+      ...(query.doctorId && { doctorId: query.doctorId }),
+      ...(query.expiringWithinDays !== undefined && {
+        expiresAt: { lte: new Date(Date.now() + query.expiringWithinDays * DAY_MS) },
+      }),
+    })
+    return qualifications.map((qualification) => this.toQualification(qualification))
+  }
+
+  async findMyQualifications(userId: number): Promise<QualificationType[]> {
+    const doctor = await this.doctorRepository.findDoctorByUserId(userId)
+    if (!doctor) {
+      throw new NotFoundException('Doctor not found')
+    }
+    return this.findQualifications({ doctorId: doctor.id })
+  }
+
+  // Đổi ngày hết hạn thì bật lại email nhắc gia hạn cho ngày mới
+  async updateQualification(id: number, data: UpdateQualificationType): Promise<QualificationType> {
+    const existing = await this.findQualification(id)
+    const issuedAt = data.issuedAt === undefined ? existing.issuedAt : data.issuedAt && new Date(data.issuedAt)
+    const expiresAt = data.expiresAt === undefined ? existing.expiresAt : data.expiresAt && new Date(data.expiresAt)
+    if (issuedAt && expiresAt && issuedAt >= expiresAt) {
+      throw new BadRequestException('Issued date must be before expiry date')
+    }
+
+    const qualification = await this.qualificationRepository.updateQualification(id, {
+      ...data,
+      issuedAt,
+      expiresAt,
+      ...(data.expiresAt !== undefined && { expiryAlertSentAt: null }),
+    })
+    return this.toQualification(qualification)
+  }
+
+  async deleteQualification(id: number): Promise<{ message: string }> {
+    await this.findQualification(id)
+    await this.qualificationRepository.deleteQualification(id)
+    return { message: 'Qualification deleted successfully' }
+  }
+
+  // Nhắc bác sĩ gia hạn chứng chỉ sắp hết hạn, mỗi ngày hết hạn chỉ nhắc một lần
+  @Cron(CronExpression.EVERY_DAY_AT_8AM)
+  async sendExpiryAlerts(): Promise<void> {
+    const now = new Date()
+    const qualifications = await this.qualificationRepository.findQualificationsToAlert(
+      now,
+      new Date(now.getTime() + QUALIFICATION_EXPIRY_ALERT_DAYS * DAY_MS),
+    )
+
+    for (const qualification of qualifications) {
+      try {
+        await this.emailService.sendQualificationExpiryMail({
+          email: qualification.doctor.user.email,
+          doctorName: qualification.doctor.user.name,
+          qualificationName: qualification.name,
+          licenseNumber: qualification.licenseNumber,
+          expiresAt: qualification.expiresAt!,
+        })
+        await this.qualificationRepository.markExpiryAlertSent(qualification.id)
+      } catch (error) {
+        this.logger.error(`Failed to send expiry alert for qualification ${qualification.id}`, error)
+      }
+    }
+  }
+
+  private async findQualification(id: number) {
+    const qualification = await this.qualificationRepository.findQualificationById(id)
+    if (!qualification) {
+      throw new NotFoundException('Qualification not found')
+    }
+    return qualification
+  }
+
+  private toQualification(qualification: DoctorQualification): QualificationType {
+    return { ...qualification, expiryStatus: this.getExpiryStatus(qualification.expiresAt) }
+  }
+
+  private getExpiryStatus(expiresAt: Date | null): QualificationExpiryStatusType {
+    if (!expiresAt) return 'NO_EXPIRY'
+    const now = Date.now()
+    if (expiresAt.getTime() < now) return 'EXPIRED'
+    if (expiresAt.getTime() <= now + QUALIFICATION_EXPIRY_ALERT_DAYS * DAY_MS) return 'EXPIRING_SOON'
+    return 'VALID'
+  }
+}
@@ -0,0 +1,77 @@
+import { Body, Controller, Get, Param, ParseIntPipe, Post, Put, Query } from '@nestjs/common'
+import { ApiBearerAuth, ApiTags } from '@nestjs/swagger'
+import { RosterService } from './roster.service'
+import { CreateRosterDto, QueryRosterDto, UpdateRosterAssignmentsDto } from './roster.dto'
+import { RosterPreviewType, RosterType } from './roster.model'
+import {
+  ApiCreateRoster,
+  ApiDiscardRoster,
+  ApiFindRosters,
+  ApiGetRosterPreview,
+  ApiPublishRoster,
+  ApiUpdateRosterAssignments,
+} from '../../swagger/roster.swagger'
+import { Roles } from '../../shared/decorators/roles.decorator'
+import { Role } from '../../shared/constants/role.constant'
+import { ActiveUser } from '../../shared/decorators/active-user.decorator'
+import { Auth } from '../../shared/decorators/auth.decorator'
+import { AuthType } from '../../shared/constants/auth.constant'
+
+@ApiBearerAuth()
+@ApiTags('Doctor Rosters')
+@Auth([AuthType.Bearer])
+@Controller('doctors/schedule/rosters')
+export class RosterController {
+  constructor(private readonly rosterService: RosterService) {}
+
+  @Post()
+  @Roles(Role.Admin)
+  @ApiCreateRoster()
+  async createRoster(@Body() body: unknown, @ActiveUser('userId') userId: number): Promise<RosterPreviewType> {
+    const dto = CreateRosterDto.create(body)
+    return this.rosterService.createRoster(dto, userId)
+  }
+
+  @Get()
+  @Roles(Role.Admin, Role.Staff)
+  @ApiFindRosters()
+  async findRosters(@Query() query: unknown): Promise<RosterType[]> {
+    const dto = QueryRosterDto.create(query)
+    return this.rosterService.findRosters(dto)
+  }
+
+  @Get(':id')
+  @Roles(Role.Admin, Role.Staff)
+  @ApiGetRosterPreview()
+  async getRosterPreview(@Param('id', ParseIntPipe) id: number): Promise<RosterPreviewType> {
+    return this.rosterService.getRosterPreview(id)
+  }
+
+  @Put(':id/assignments')
+  @Roles(Role.Admin)
+  @ApiUpdateRosterAssignments()
+  async updateRosterAssignments(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() body: unknown,
+  ): Promise<RosterPreviewType> {
+    const dto = UpdateRosterAssignmentsDto.create(body)
+    return this.rosterService.updateRosterAssignments(id, dto)
+  }
+
+  @Post(':id/publish')
+  @Roles(Role.Admin)
+  @ApiPublishRoster()
+  async publishRoster(
+    @Param('id', ParseIntPipe) id: number,
+    @ActiveUser('userId') userId: number,
+  ): Promise<RosterPreviewType> {
+    return this.rosterService.publishRoster(id, userId)
+  }
+
+  @Post(':id/discard')
+  @Roles(Role.Admin)
+  @ApiDiscardRoster()
+  async discardRoster(@Param('id', ParseIntPipe) id: number): Promise<RosterType> {
+    return this.rosterService.discardRoster(id)
+  }
+}
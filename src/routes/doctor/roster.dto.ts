@@ -0,0 +1,11 @@
+import { createZodDto } from 'nestjs-zod'
+import { CreateRosterSchema, QueryRosterSchema, UpdateRosterAssignmentsSchema } from './roster.model'
+
+// Create Roster DTO
+export class CreateRosterDto extends createZodDto(CreateRosterSchema) {}
+
+// Query Roster DTO
+export class QueryRosterDto extends createZodDto(QueryRosterSchema) {}
+
+// Update Roster Assignments DTO
+export class UpdateRosterAssignmentsDto extends createZodDto(UpdateRosterAssignmentsSchema) {}
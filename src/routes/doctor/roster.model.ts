@@ -0,0 +1,135 @@
+import { z } from 'zod'
+import { DayOfWeek, RosterStatus, Shift } from '@prisma/client'
+import { DEFAULT_MAX_SHIFTS_PER_WEEK } from '../../shared/constants/doctor.constant'
+import { formatDateYYYYMMDD, getDayOfWeekOfDateString } from '../../shared/utils/appointment-slot.utils'
+
+const dateOnlySchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, { message: 'Date must be in YYYY-MM-DD format' })
+
+// Ràng buộc cứng của bộ xếp lịch
+export const RosterConstraintsSchema = z.object({
+  doctorsPerShift: z.number().int().min(1).max(10),
+  maxShiftsPerWeek: z.number().int().min(1).max(11).default(DEFAULT_MAX_SHIFTS_PER_WEEK),
+  noConsecutiveSaturdays: z.boolean().default(true),
+  requiredSpecializations: z
+    .array(
+      z.object({
+        specialization: z.string().trim().min(1),
+        minDoctors: z.number().int().min(1),
+      }),
+    )
+    .default([]),
+})
+
+export const CreateRosterSchema = RosterConstraintsSchema.extend({
+  weekStart: dateOnlySchema
+    .refine((date) => getDayOfWeekOfDateString(date) === DayOfWeek.MONDAY, { message: 'Week must start on a Monday' })
+    .refine((date) => date >= formatDateYYYYMMDD(new Date()), { message: 'Cannot create a roster for a past week' }),
+}).refine(
+  (data) =>
+    data.requiredSpecializations.reduce((sum, requirement) => sum + requirement.minDoctors, 0) <= data.doctorsPerShift,
+  {
+    message: 'Required specializations cannot exceed doctors per shift',
+    path: ['requiredSpecializations'],
+  },
+)
+
+export const QueryRosterSchema = z.object({
+  weekStart: dateOnlySchema.optional(),
+  status: z.nativeEnum(RosterStatus).optional(),
+})
+
+const RosterAssignmentInputSchema = z.object({
+  doctorId: z.number().int().positive(),
+  date: dateOnlySchema,
+  shift: z.nativeEnum(Shift),
+})
+
+// Chỉnh sửa bản nháp: thêm hoặc bỏ bác sĩ khỏi từng ca
+export const UpdateRosterAssignmentsSchema = z
+  .object({
+    add: z.array(RosterAssignmentInputSchema).default([]),
+    remove: z.array(RosterAssignmentInputSchema).default([]),
+  })
+  .refine((data) => data.add.length + data.remove.length > 0, { message: 'Nothing to update' })
+
+export const RosterSchema = z.object({
+  id: z.number(),
+  weekStart: z.date(),
+  status: z.nativeEnum(RosterStatus),
+  constraints: RosterConstraintsSchema,
+  createdById: z.number().nullable(),
+  publishedAt: z.date().nullable(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+})
+
+export const RosterAssignmentSchema = z.object({
+  id: z.number(),
+  doctorId: z.number(),
+  doctorName: z.string(),
+  date: z.string(),
+  shift: z.nativeEnum(Shift),
+  isManual: z.boolean(),
+})
+
+export const RosterReportSchema = z.object({
+  fairness: z.object({
+    doctors: z.array(
+      z.object({
+        doctorId: z.number(),
+        name: z.string(),
+        specialization: z.string(),
+        assignedShifts: z.number(),
+        saturdayShifts: z.number(),
+        preferredShifts: z.number(),
+        avoidedShifts: z.number(),
+        recentWeeklyLoad: z.number(),
+      }),
+    ),
+    minShifts: z.number(),
+    maxShifts: z.number(),
+    averageShifts: z.number(),
+    spread: z.number(),
+    preferenceHits: z.number(),
+    avoidedAssignments: z.number(),
+  }),
+  coverageGaps: z.array(
+    z.object({
+      date: z.string(),
+      shift: z.nativeEnum(Shift),
+      assigned: z.number(),
+      required: z.number(),
+      missingSpecializations: z.array(z.object({ specialization: z.string(), missing: z.number() })),
+    }),
+  ),
+  violations: z.array(
+    z.object({
+      rule: z.enum([
+        'MAX_SHIFTS_PER_WEEK',
+        'CONSECUTIVE_SATURDAY',
+        'TIME_OFF',
+        'OUTSIDE_WORKING_SHIFTS',
+        'UNAVAILABLE_DOCTOR',
+        'OUTSIDE_AVAILABILITY',
+      ]),
+      doctorId: z.number(),
+      date: z.string().optional(),
+      shift: z.nativeEnum(Shift).optional(),
+      message: z.string(),
+    }),
+  ),
+})
+
+export const RosterPreviewSchema = z.object({
+  roster: RosterSchema,
+  assignments: z.array(RosterAssignmentSchema),
+  report: RosterReportSchema,
+})
+
+export type RosterConstraintsType = z.infer<typeof RosterConstraintsSchema>
+export type CreateRosterType = z.infer<typeof CreateRosterSchema>
+export type QueryRosterType = z.infer<typeof QueryRosterSchema>
+export type UpdateRosterAssignmentsType = z.infer<typeof UpdateRosterAssignmentsSchema>
+export type RosterType = z.infer<typeof RosterSchema>
+export type RosterAssignmentType = z.infer<typeof RosterAssignmentSchema>
+export type RosterPreviewType = z.infer<typeof RosterPreviewSchema>
@@ -0,0 +1,223 @@
+import { BadRequestException, Injectable, NotFoundException } from '@nestjs/common'
+import { RosterStatus, TimeOffRequestStatus } from '@prisma/client'
+import { DoctorRepository } from '../../repositories/doctor.repository'
+import { RosterAssignmentRecord, RosterRepository } from '../../repositories/roster.repository'
+import { AvailabilityRepository } from '../../repositories/availability.repository'
+import { ClinicCalendarRepository } from '../../repositories/clinic-calendar.repository'
+import { ROSTER_HISTORY_WEEKS } from '../../shared/constants/doctor.constant'
+import { addDaysToDateString, getDayOfWeekOfDateString } from '../../shared/utils/appointment-slot.utils'
+import { isAvailableByTemplate } from '../../shared/utils/availability.utils'
+import { isShiftOpen } from '../../shared/utils/clinic-calendar.utils'
+import {
+  RosterAssignmentInput,
+  RosterContext,
+  evaluateRoster,
+  generateRoster,
+  getRosterSlots,
+} from '../../shared/utils/roster.utils'
+import {
+  CreateRosterType,
+  QueryRosterType,
+  RosterAssignmentType,
+  RosterConstraintsType,
+  RosterPreviewType,
+  RosterType,
+  UpdateRosterAssignmentsType,
+} from './roster.model'
+import { ScheduleChangeService } from './schedule-change.service'
+
+@Injectable()
+export class RosterService {
+  constructor(
+    private readonly rosterRepository: RosterRepository,
+    private readonly doctorRepository: DoctorRepository,
+    private readonly availabilityRepository: AvailabilityRepository,
+    private readonly clinicCalendarRepository: ClinicCalendarRepository,
+    private readonly scheduleChangeService: ScheduleChangeService,
+  ) {}
+
+  // Tạo bản nháp lịch tuần theo ràng buộc và nguyện vọng của bác sĩ, chưa ghi vào lịch làm việc
+  async createRoster(data: CreateRosterType, userId: number): Promise<RosterPreviewType> {
+    const { weekStart, ...constraints } = data
+    await this.ensureWeekNotScheduled(weekStart)
+
+    const context = await this.buildRosterContext(weekStart, constraints)
+    if (context.doctors.length === 0) {
+      throw new BadRequestException('No available doctors found')
+    }
+    const { roster, assignments } = await this.rosterRepository.createRoster({
+      weekStart: new Date(weekStart),
+      constraints,
+      createdById: userId,
+      assignments: this.toAssignmentRecords(generateRoster(context)),
+    })
+    return this.buildPreview(roster, assignments, context)
+  }
+
+  async findRosters(query: QueryRosterType): Promise<RosterType[]> {
+    return this.rosterRepository.findRosters({
+      ...(query.weekStart && { weekStart: new Date(query.weekStart) }),
+      ...(query.status && { status: query.status }),
+    })
+  }
+
+  // Xem trước bản nháp: phân công, báo cáo công bằng, ca thiếu người và các vi phạm ràng buộc cứng
+  async getRosterPreview(id: number): Promise<RosterPreviewType> {
+    const { roster, assignments } = await this.findRoster(id)
+    return this.buildPreview(roster, assignments)
+  }
+
+  async updateRosterAssignments(id: number, data: UpdateRosterAssignmentsType): Promise<RosterPreviewType> {
+    await this.findDraftRoster(id)
+    const { roster, assignments } = await this.rosterRepository.updateRosterAssignments(
+      id,
+      this.toAssignmentRecords(data.add),
+      this.toAssignmentRecords(data.remove),
+    )
+    return this.buildPreview(roster, assignments)
+  }
+
+  async publishRoster(id: number, userId: number): Promise<RosterPreviewType> {
+    const { roster, assignments } = await this.findDraftRoster(id)
+    const weekStart = roster.weekStart.toISOString().slice(0, 10)
+    await this.ensureWeekNotScheduled(weekStart)
+
+    const context = await this.buildRosterContext(weekStart, roster.constraints)
+    const report = evaluateRoster(context, assignments)
+    if (report.violations.length > 0) {
+      throw new BadRequestException({
+        message: 'Roster violates hard constraints and cannot be published',
+        violations: report.violations,
+      })
+    }
+
+    const scheduleChanges = await this.rosterRepository.publishRoster(
+      id,
+      assignments.map((assignment) => ({
+        doctorId: assignment.doctorId,
+        date: new Date(assignment.date),
+        dayOfWeek: getDayOfWeekOfDateString(assignment.date),
+        shift: assignment.shift,
+      })),
+      userId,
+    )
+    if (!scheduleChanges) {
+      throw new BadRequestException('Roster is no longer a draft')
+    }
+    await this.scheduleChangeService.notifyDoctors(scheduleChanges)
+    return this.getRosterPreview(id)
+  }
+
+  async discardRoster(id: number): Promise<RosterType> {
+    await this.findDraftRoster(id)
+    return this.rosterRepository.updateRosterStatus(id, RosterStatus.DISCARDED)
+  }
+
+  private async findRoster(id: number) {
+    const roster = await this.rosterRepository.findRosterById(id)
+    if (!roster) {
+      throw new NotFoundException('Roster not found')
+    }
+    return roster
+  }
+
+  private async findDraftRoster(id: number) {
+    const roster = await this.findRoster(id)
+    if (roster.roster.status !== RosterStatus.DRAFT) {
+      throw new BadRequestException(`Roster has already been ${roster.roster.status.toLowerCase()}`)
+    }
+    return roster
+  }
+
+  private async ensureWeekNotScheduled(weekStart: string) {
+    const count = await this.rosterRepository.countSchedulesInRange(
+      new Date(weekStart),
+      new Date(addDaysToDateString(weekStart, 6)),
+    )
+    if (count > 0) {
+      throw new BadRequestException('Schedule already exists for this week')
+    }
+  }
+
+  private async buildPreview(
+    roster: RosterType,
+    assignments: RosterAssignmentType[],
+    context?: RosterContext,
+  ): Promise<RosterPreviewType> {
+    const rosterContext =
+      context ?? (await this.buildRosterContext(roster.weekStart.toISOString().slice(0, 10), roster.constraints))
+    return { roster, assignments, report: evaluateRoster(rosterContext, assignments) }
+  }
+
+  // Dữ liệu đầu vào của bộ xếp lịch: bác sĩ, nguyện vọng, ca nghỉ, lịch định kỳ, ngày nghỉ lễ và tải các tuần trước
+  private async buildRosterContext(weekStart: string, constraints: RosterConstraintsType): Promise<RosterContext> {
+    const weekEnd = addDaysToDateString(weekStart, 6)
+    const historyStart = addDaysToDateString(weekStart, -7 * ROSTER_HISTORY_WEEKS)
+    const previousSaturday = addDaysToDateString(weekStart, -2)
+
+    const doctors = await this.rosterRepository.findRosterDoctors()
+    const doctorIds = doctors.map((doctor) => doctor.id)
+    const [preferences, timeOffRequests, templates, closures, history] = await Promise.all([
+      this.rosterRepository.findShiftPreferences(doctorIds),
+      this.doctorRepository.findTimeOffRequests({
+        status: TimeOffRequestStatus.APPROVED,
+        startDate: { lte: new Date(weekEnd) },
+        endDate: { gte: new Date(weekStart) },
+      }),
+      this.availabilityRepository.findTemplatesInRange(new Date(weekStart), new Date(weekEnd), doctorIds),
+      this.clinicCalendarRepository.findClosuresInRange(new Date(weekStart), new Date(weekEnd)),
+      this.rosterRepository.findWorkingSchedules(new Date(historyStart), new Date(addDaysToDateString(weekStart, -1))),
+    ])
+
+    const slots = getRosterSlots(weekStart)
+    const unavailable = timeOffRequests.flatMap((request) => {
+      const startDate = request.startDate.toISOString().slice(0, 10)
+      const endDate = request.endDate.toISOString().slice(0, 10)
+      return slots
+        .filter((slot) => slot.date >= startDate && slot.date <= endDate && request.shifts.includes(slot.shift))
+        .map((slot) => ({ ...slot, doctorId: request.doctorId }))
+    })
+
+    const outsideAvailability = doctorIds.flatMap((doctorId) => {
+      const doctorTemplates = templates.filter((template) => template.doctorId === doctorId)
+      return slots
+        .filter((slot) => !isAvailableByTemplate(doctorTemplates, slot.date, slot.shift))
+        .map((slot) => ({ ...slot, doctorId }))
+    })
+
+    const clinicClosures = closures.filter((closure) => closure.serviceId === null)
+    const closedSlots = slots.filter((slot) => !isShiftOpen(clinicClosures, slot.date, slot.shift))
+
+    const recentWeeklyLoad: Record<number, number> = {}
+    for (const doctorId of doctorIds) {
+      const shifts = history.filter((schedule) => schedule.doctorId === doctorId).length
+      recentWeeklyLoad[doctorId] = shifts / ROSTER_HISTORY_WEEKS
+    }
+
+    return {
+      weekStart,
+      constraints,
+      doctors: doctors.map((doctor) => ({
+        id: doctor.id,
+        name: doctor.user.name,
+        specialization: doctor.specialization,
+      })),
+      preferences,
+      unavailable,
+      outsideAvailability,
+      closedSlots,
+      previousSaturdayDoctorIds: history
+        .filter((schedule) => schedule.date.toISOString().slice(0, 10) === previousSaturday)
+        .map((schedule) => schedule.doctorId),
+      recentWeeklyLoad,
+    }
+  }
+
+  private toAssignmentRecords(assignments: RosterAssignmentInput[]): RosterAssignmentRecord[] {
+    return assignments.map((assignment) => ({
+      doctorId: assignment.doctorId,
+      date: new Date(assignment.date),
+      shift: assignment.shift,
+    }))
+  }
+}
@@ -0,0 +1,31 @@
+import { Controller, Get, Param, ParseIntPipe, Query } from '@nestjs/common'
+import { ApiBearerAuth, ApiTags } from '@nestjs/swagger'
+import { ScheduleChangeService } from './schedule-change.service'
+import { QueryScheduleChangesDto } from './schedule-change.dto'
+import { ScheduleChangesResType } from './schedule-change.model'
+import { ApiGetScheduleChanges } from '../../swagger/schedule-change.swagger'
+import { Roles } from '../../shared/decorators/roles.decorator'
+import { Role } from '../../shared/constants/role.constant'
+import { ActiveUser } from '../../shared/decorators/active-user.decorator'
+import { Auth } from '../../shared/decorators/auth.decorator'
+import { AuthType } from '../../shared/constants/auth.constant'
+
+@ApiBearerAuth()
+@ApiTags('Doctor Schedule Changes')
+@Auth([AuthType.Bearer])
+@Controller('doctors')
+export class ScheduleChangeController {
+  constructor(private readonly scheduleChangeService: ScheduleChangeService) {}
+
+  @Get(':id/schedule/changes')
+  @Roles(Role.Admin, Role.Staff, Role.Doctor)
+  @ApiGetScheduleChanges()
+  async getScheduleChanges(
+    @Param('id', ParseIntPipe) id: number,
+    @Query() query: unknown,
+    @ActiveUser('userId') userId: number,
+  ): Promise<ScheduleChangesResType> {
+    const dto = QueryScheduleChangesDto.create(query)
+    return this.scheduleChangeService.findScheduleChanges(id, dto, userId)
+  }
+}
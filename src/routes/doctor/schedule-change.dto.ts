@@ -0,0 +1,5 @@
+import { createZodDto } from 'nestjs-zod'
+import { QueryScheduleChangesSchema } from './schedule-change.model'
+
+// Query Schedule Changes DTO
+export class QueryScheduleChangesDto extends createZodDto(QueryScheduleChangesSchema) {}
@@ -0,0 +1,43 @@
+import { ScheduleChangeAction, Shift } from '@prisma/client'
+import { z } from 'zod'
+
+export const ScheduleSnapshotSchema = z.object({
+  doctorId: z.number(),
+  date: z.string(),
+  shift: z.nativeEnum(Shift),
+  isOff: z.boolean(),
+})
+
+export const ScheduleChangeSchema = z.object({
+  id: z.number(),
+  doctorId: z.number(),
+  scheduleId: z.number().nullable(),
+  action: z.nativeEnum(ScheduleChangeAction),
+  before: ScheduleSnapshotSchema.nullable(),
+  after: ScheduleSnapshotSchema.nullable(),
+  changedBy: z.object({ id: z.number(), name: z.string() }).nullable(),
+  createdAt: z.date(),
+  // Thay đổi bác sĩ chưa xem (sau lần xem trước)
+  isNew: z.boolean(),
+})
+
+export const QueryScheduleChangesSchema = z.object({
+  // Mặc định: bác sĩ xem lịch của mình thì lấy từ lần xem trước, người khác thì lấy tất cả
+  since: z.string().datetime({ offset: true }).optional(),
+  limit: z
+    .preprocess((val) => (typeof val === 'string' ? parseInt(val, 10) : val), z.number().int().min(1).max(200))
+    .optional()
+    .default(50),
+})
+
+export const ScheduleChangesResSchema = z.object({
+  doctorId: z.number(),
+  lastSeenAt: z.date().nullable(),
+  changes: z.array(ScheduleChangeSchema),
+})
+
+// Types
+export type ScheduleSnapshotType = z.infer<typeof ScheduleSnapshotSchema>
+export type ScheduleChangeType = z.infer<typeof ScheduleChangeSchema>
+export type QueryScheduleChangesType = z.infer<typeof QueryScheduleChangesSchema>
+export type ScheduleChangesResType = z.infer<typeof ScheduleChangesResSchema>
@@ -0,0 +1,128 @@
+import { ForbiddenException, Injectable, Logger, NotFoundException } from '@nestjs/common'
+import { DoctorScheduleChange, Prisma, ScheduleChangeAction } from '@prisma/client'
+import { ScheduleChangeRepository } from '../../repositories/schedule-change.repository'
+import { DoctorRepository } from '../../repositories/doctor.repository'
+import { AuthRepository } from '../../repositories/user.repository'
+import { SHIFT_LABELS } from '../../shared/constants/doctor.constant'
+import { Role } from '../../shared/constants/role.constant'
+import { EmailService } from '../../shared/services/email.service'
+import {
+  QueryScheduleChangesType,
+  ScheduleChangeType,
+  ScheduleChangesResType,
+  ScheduleSnapshotSchema,
+  ScheduleSnapshotType,
+} from './schedule-change.model'
+
+type ScheduleChangeRecord = Awaited<ReturnType<ScheduleChangeRepository['findScheduleChanges']>>[number]
+
+const SnapshotOrNullSchema = ScheduleSnapshotSchema.nullable()
+
+@Injectable()
+export class ScheduleChangeService {
+  private readonly logger = new Logger(ScheduleChangeService.name)
+
+  constructor(
+    private readonly scheduleChangeRepository: ScheduleChangeRepository,
+    private readonly doctorRepository: DoctorRepository,
+    private readonly authRepository: AuthRepository,
+    private readonly emailService: EmailService,
+  ) {}
+
+  // Bác sĩ xem lịch sử của chính mình thì mặc định lấy từ lần xem trước và được đánh dấu là đã xem
+  async findScheduleChanges(
+    doctorId: number,
+    query: QueryScheduleChangesType,
+    userId: number,
+  ): Promise<ScheduleChangesResType> {
+    const doctor = await this.scheduleChangeRepository.findScheduleChangeDoctor(doctorId)
+    if (!doctor) {
+      throw new NotFoundException('Doctor not found')
+    }
+    const isOwner = doctor.userId === userId
+    if (!isOwner) {
+      const role = (await this.authRepository.findUserRoleNameById(userId)) as Role | null
+      if (role !== Role.Admin && role !== Role.Staff) {
+        throw new ForbiddenException('You can only view your own schedule changes')
+      }
+    }
+
+    const lastSeenAt = doctor.scheduleChangesSeenAt
+    const since = query.since ? new Date(query.since) : isOwner ? (lastSeenAt ?? undefined) : undefined
+    // Lấy dư một bản ghi để biết danh sách có bị cắt bởi limit hay không
+    const records = await this.scheduleChangeRepository.findScheduleChanges(doctor.id, since, query.limit + 1)
+    const changes = records.slice(0, query.limit)
+    const coversUnseen = records.length <= query.limit && (!since || (lastSeenAt !== null && since <= lastSeenAt))
+    // Chỉ đánh dấu đã xem đến thay đổi mới nhất được trả về, khi không bỏ sót thay đổi chưa xem nào
+    if (isOwner && coversUnseen && changes.length > 0) {
+      await this.scheduleChangeRepository.markScheduleChangesSeen(doctor.id, changes[0].createdAt)
+    }
+
+    return {
+      doctorId: doctor.id,
+      lastSeenAt,
+      changes: changes.map((change) => this.toScheduleChange(change, lastSeenAt)),
+    }
+  }
+
+  // Ghi lại các thay đổi lịch làm việc rồi báo cho bác sĩ bị ảnh hưởng
+  async recordChanges(changes: Prisma.DoctorScheduleChangeCreateManyInput[]): Promise<void> {
+    if (changes.length === 0) return
+    const records = await this.scheduleChangeRepository.createScheduleChanges(changes)
+    await this.notifyDoctors(records)
+  }
+
+  // Mỗi bác sĩ nhận một email tổng hợp các ca của mình bị thay đổi
+  async notifyDoctors(changes: DoctorScheduleChange[]): Promise<void> {
+    if (changes.length === 0) return
+    const doctors = await this.doctorRepository.findDoctorContacts([...new Set(changes.map((c) => c.doctorId))])
+    for (const doctor of doctors) {
+      try {
+        await this.emailService.sendScheduleChangedMail({
+          email: doctor.user.email,
+          doctorName: doctor.user.name,
+          changes: changes
+            .filter((change) => change.doctorId === doctor.id)
+            .map((change) => this.describeChange(change)),
+        })
+      } catch (error) {
+        this.logger.error(`Failed to notify doctor ${doctor.id} about schedule changes`, error)
+      }
+    }
+  }
+
+  private describeChange(change: DoctorScheduleChange): { date: string; shift: string; description: string } {
+    const before = SnapshotOrNullSchema.parse(change.before)
+    const after = SnapshotOrNullSchema.parse(change.after)
+    const snapshot = (after ?? before) as ScheduleSnapshotType
+    return {
+      date: snapshot.date,
+      shift: SHIFT_LABELS[snapshot.shift],
+      description: this.describeAction(change.action, change.doctorId, before),
+    }
+  }
+
+  private describeAction(action: ScheduleChangeAction, doctorId: number, before: ScheduleSnapshotType | null): string {
+    switch (action) {
+      case ScheduleChangeAction.TIME_OFF:
+        return 'Được nghỉ theo đơn xin nghỉ đã duyệt'
+      case ScheduleChangeAction.SWAPPED:
+        return before?.doctorId === doctorId ? 'Đã đổi ca cho bác sĩ khác' : 'Nhận ca từ bác sĩ khác'
+      default:
+        return 'Được phân công ca làm việc'
+    }
+  }
+
+  private toScheduleChange(
+    { changedBy, ...change }: ScheduleChangeRecord,
+    lastSeenAt: Date | null,
+  ): ScheduleChangeType {
+    return {
+      ...change,
+      before: SnapshotOrNullSchema.parse(change.before),
+      after: SnapshotOrNullSchema.parse(change.after),
+      changedBy,
+      isNew: !lastSeenAt || change.createdAt > lastSeenAt,
+    }
+  }
+}
@@ -0,0 +1,26 @@
+import { Controller, Get, Query } from '@nestjs/common'
+import { ApiBearerAuth, ApiTags } from '@nestjs/swagger'
+import { WorkloadService } from './workload.service'
+import { QueryDoctorWorkloadDto } from './workload.dto'
+import { DoctorWorkloadDashboardType } from './workload.model'
+import { ApiGetDoctorWorkloadDashboard } from '../../swagger/workload.swagger'
+import { Roles } from '../../shared/decorators/roles.decorator'
+import { Role } from '../../shared/constants/role.constant'
+import { Auth } from '../../shared/decorators/auth.decorator'
+import { AuthType } from '../../shared/constants/auth.constant'
+
+@ApiBearerAuth()
+@ApiTags('Doctor Workload')
+@Auth([AuthType.Bearer])
+@Controller('doctors/workload')
+export class WorkloadController {
+  constructor(private readonly workloadService: WorkloadService) {}
+
+  @Get()
+  @Roles(Role.Admin)
+  @ApiGetDoctorWorkloadDashboard()
+  async getWorkloadDashboard(@Query() query: unknown): Promise<DoctorWorkloadDashboardType> {
+    const dto = QueryDoctorWorkloadDto.create(query)
+    return this.workloadService.getWorkloadDashboard(dto)
+  }
+}
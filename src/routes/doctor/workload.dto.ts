@@ -0,0 +1,5 @@
+import { createZodDto } from 'nestjs-zod'
+import { QueryDoctorWorkloadSchema } from './workload.model'
+
+// Query Doctor Workload DTO
+export class QueryDoctorWorkloadDto extends createZodDto(QueryDoctorWorkloadSchema) {}
@@ -0,0 +1,63 @@
+import { z } from 'zod'
+import { MAX_WORKLOAD_RANGE_DAYS } from '../../shared/constants/doctor.constant'
+
+const dateOnlySchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, { message: 'Date must be in YYYY-MM-DD format' })
+
+// Không truyền khoảng ngày thì lấy tuần hiện tại (thứ 2 - chủ nhật)
+export const QueryDoctorWorkloadSchema = z
+  .object({
+    startDate: dateOnlySchema.optional(),
+    endDate: dateOnlySchema.optional(),
+  })
+  .refine((data) => !data.startDate === !data.endDate, {
+    message: 'Start date and end date must be provided together',
+    path: ['endDate'],
+  })
+  .refine((data) => !data.startDate || !data.endDate || data.startDate <= data.endDate, {
+    message: 'Start date must be before or equal to end date',
+    path: ['endDate'],
+  })
+  .refine(
+    (data) =>
+      !data.startDate ||
+      !data.endDate ||
+      new Date(data.endDate).getTime() - new Date(data.startDate).getTime() <
+        MAX_WORKLOAD_RANGE_DAYS * 24 * 60 * 60 * 1000,
+    { message: `Date range cannot exceed ${MAX_WORKLOAD_RANGE_DAYS} days`, path: ['endDate'] },
+  )
+
+const WorkloadMetricsSchema = z.object({
+  scheduledShifts: z.number(),
+  // Số slot mở trong các ca đã xếp (theo slot mặc định, trừ ngày phòng khám đóng cửa)
+  availableSlots: z.number(),
+  // Lịch hẹn không bị huỷ, kể cả lịch hẹn bệnh nhân vắng mặt
+  bookedSlots: z.number(),
+  utilisationRate: z.number(),
+  completedAppointments: z.number(),
+  cancelledAppointments: z.number(),
+  noShowAppointments: z.number(),
+  onlineAppointments: z.number(),
+  offlineAppointments: z.number(),
+  onlineRatio: z.number(),
+  activeTreatments: z.number(),
+})
+
+export const DoctorWorkloadSchema = WorkloadMetricsSchema.extend({
+  doctorId: z.number(),
+  doctorName: z.string(),
+  specialization: z.string(),
+  isAvailable: z.boolean(),
+})
+
+export const DoctorWorkloadDashboardSchema = z.object({
+  startDate: z.string(),
+  endDate: z.string(),
+  summary: WorkloadMetricsSchema,
+  doctors: z.array(DoctorWorkloadSchema),
+})
+
+// Types
+export type QueryDoctorWorkloadType = z.infer<typeof QueryDoctorWorkloadSchema>
+export type WorkloadMetricsType = z.infer<typeof WorkloadMetricsSchema>
+export type DoctorWorkloadType = z.infer<typeof DoctorWorkloadSchema>
+export type DoctorWorkloadDashboardType = z.infer<typeof DoctorWorkloadDashboardSchema>
@@ -0,0 +1,133 @@
+import { Injectable } from '@nestjs/common'
+import { AppointmentStatus, AppointmentType, Shift } from '@prisma/client'
+import { WorkloadRepository } from '../../repositories/workload.repository'
+import { ClinicCalendarRepository } from '../../repositories/clinic-calendar.repository'
+import { DEFAULT_APPOINTMENT_SLOTS } from '../../shared/constants/appointment.constant'
+import { addDaysToDateString, formatDateYYYYMMDD, getShiftBySlotStart } from '../../shared/utils/appointment-slot.utils'
+import { isSlotOpen } from '../../shared/utils/clinic-calendar.utils'
+import {
+  DoctorWorkloadDashboardType,
+  DoctorWorkloadType,
+  QueryDoctorWorkloadType,
+  WorkloadMetricsType,
+} from './workload.model'
+
+type AppointmentCounts = Awaited<ReturnType<WorkloadRepository['countAppointmentsByDoctor']>>
+
+@Injectable()
+export class WorkloadService {
+  constructor(
+    private readonly workloadRepository: WorkloadRepository,
+    private readonly clinicCalendarRepository: ClinicCalendarRepository,
+  ) {}
+
+  // Tải công việc của tất cả bác sĩ trong khoảng ngày, sắp xếp theo tỉ lệ lấp đầy giảm dần
+  async getWorkloadDashboard(query: QueryDoctorWorkloadType): Promise<DoctorWorkloadDashboardType> {
+    const { startDate, endDate } = this.resolveRange(query)
+    const rangeStart = new Date(startDate)
+    const rangeEnd = new Date(endDate)
+
+    const [doctors, schedules, appointmentCounts, treatmentCounts, closures] = await Promise.all([
+      this.workloadRepository.findWorkloadDoctors(),
+      this.workloadRepository.findWorkingSchedules(rangeStart, rangeEnd),
+      this.workloadRepository.countAppointmentsByDoctor(
+        new Date(`${startDate}T00:00:00+07:00`),
+        new Date(`${endDate}T23:59:59+07:00`),
+      ),
+      this.workloadRepository.countActiveTreatmentsByDoctor(rangeStart, rangeEnd),
+      this.clinicCalendarRepository.findClosuresInRange(rangeStart, rangeEnd),
+    ])
+
+    const clinicClosures = closures.filter((closure) => closure.serviceId === null)
+    const openSlotsByShift = new Map<string, number>()
+    const countOpenSlots = (date: string, shift: Shift) => {
+      const key = `${date}_${shift}`
+      if (!openSlotsByShift.has(key)) {
+        const slots = DEFAULT_APPOINTMENT_SLOTS.filter(
+          (slot) => getShiftBySlotStart(slot.start) === shift && isSlotOpen(clinicClosures, date, slot),
+        )
+        openSlotsByShift.set(key, slots.length)
+      }
+      return openSlotsByShift.get(key)!
+    }
+
+    const workloads: DoctorWorkloadType[] = doctors.map((doctor) => {
+      const doctorSchedules = schedules.filter((schedule) => schedule.doctorId === doctor.id)
+      const availableSlots = doctorSchedules.reduce(
+        (sum, schedule) => sum + countOpenSlots(schedule.date.toISOString().slice(0, 10), schedule.shift),
+        0,
+      )
+      const activeTreatments = treatmentCounts.find((count) => count.doctorId === doctor.id)?._count._all ?? 0
+
+      return {
+        doctorId: doctor.id,
+        doctorName: doctor.user.name,
+        specialization: doctor.specialization,
+        isAvailable: doctor.isAvailable,
+        ...this.buildMetrics(
+          doctorSchedules.length,
+          availableSlots,
+          appointmentCounts.filter((count) => count.doctorId === doctor.id),
+          activeTreatments,
+        ),
+      }
+    })
+
+    const summary = this.buildMetrics(
+      workloads.reduce((sum, workload) => sum + workload.scheduledShifts, 0),
+      workloads.reduce((sum, workload) => sum + workload.availableSlots, 0),
+      appointmentCounts,
+      workloads.reduce((sum, workload) => sum + workload.activeTreatments, 0),
+    )
+
+    return {
+      startDate,
+      endDate,
+      summary,
+      doctors: workloads.sort((a, b) => b.utilisationRate - a.utilisationRate || a.doctorId - b.doctorId),
+    }
+  }
+
+  private resolveRange(query: QueryDoctorWorkloadType): { startDate: string; endDate: string } {
+    if (query.startDate && query.endDate) {
+      return { startDate: query.startDate, endDate: query.endDate }
+    }
+    const today = formatDateYYYYMMDD(new Date())
+    const day = new Date(`${today}T00:00:00Z`).getUTCDay()
+    const monday = addDaysToDateString(today, day === 0 ? -6 : 1 - day)
+    return { startDate: monday, endDate: addDaysToDateString(monday, 6) }
+  }
+
+  private buildMetrics(
+    scheduledShifts: number,
+    availableSlots: number,
+    appointmentCounts: AppointmentCounts,
+    activeTreatments: number,
+  ): WorkloadMetricsType {
+    const count = (predicate: (group: AppointmentCounts[number]) => boolean) =>
+      appointmentCounts.filter(predicate).reduce((sum, group) => sum + group._count._all, 0)
+
+    const booked = (group: AppointmentCounts[number]) => group.status !== AppointmentStatus.CANCELLED
+    const bookedSlots = count(booked)
+    const onlineAppointments = count((group) => booked(group) && group.type === AppointmentType.ONLINE)
+
+    return {
+      scheduledShifts,
+      availableSlots,
+      bookedSlots,
+      utilisationRate: this.toRatio(bookedSlots, availableSlots),
+      completedAppointments: count((group) => group.status === AppointmentStatus.COMPLETED),
+      cancelledAppointments: count((group) => group.status === AppointmentStatus.CANCELLED),
+      noShowAppointments: count((group) => group.status === AppointmentStatus.NO_SHOW),
+      onlineAppointments,
+      offlineAppointments: bookedSlots - onlineAppointments,
+      onlineRatio: this.toRatio(onlineAppointments, bookedSlots),
+      activeTreatments,
+    }
+  }
+
+  // Tỉ lệ làm tròn 2 chữ số thập phân, 0 khi mẫu số bằng 0
+  private toRatio(part: number, total: number): number {
+    return total > 0 ? Math.round((part / total) * 100) / 100 : 0
+  }
+}
@@ -1,9 +1,21 @@
 import { Body, Controller, Get, Param, ParseIntPipe, Post, Put, Query } from '@nestjs/common'
 import { ApiBearerAuth, ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger'
+import CustomZodValidationPipe from '../../../common/custom-zod-validate'
 import { AuthType } from '../../../shared/constants/auth.constant'
 import { Role } from '../../../shared/constants/role.constant'
+import { ActiveUser } from '../../../shared/decorators/active-user.decorator'
 import { Auth } from '../../../shared/decorators/auth.decorator'
 import { Roles } from '../../../shared/decorators/roles.decorator'
+import {
+  AppointmentSeriesPlanResponseType,
+  AppointmentSeriesResponseType,
+  CancelAppointmentDto,
+  CancelAppointmentDtoType,
+  CreateAppointmentSeriesDto,
+  CreateAppointmentSeriesDtoType,
+  UpdateAppointmentSeriesOccurrenceDto,
+  UpdateAppointmentSeriesOccurrenceDtoType,
+} from '../../appoinment/appoinment.dto'
 import { FollowUpAppointmentService } from '../services/follow-up-appointment.service'
 
 @ApiTags('Follow-up Appointments')
@@ -13,6 +25,70 @@ import { FollowUpAppointmentService } from '../services/follow-up-appointment.se
 export class FollowUpAppointmentController {
   constructor(private readonly followUpService: FollowUpAppointmentService) {}
 
+  // Các route chuỗi lịch hẹn khai báo trước ':treatmentId' để không bị bắt nhầm
+  @Post('series')
+  @Roles(Role.Admin, Role.Doctor, Role.Staff)
+  @ApiOperation({
+    summary: 'Tạo chuỗi lịch hẹn tái khám định kỳ',
+    description:
+      'Tạo chuỗi lịch hẹn lặp lại (vd mỗi 30/90 ngày) theo số lần hoặc đến ngày kết thúc, có thể chọn thứ và slot mong muốn. Các ngày không còn slot trống được trả về trong skippedDates; không đặt được lần hẹn nào thì chuỗi không được tạo',
+  })
+  @ApiResponse({ status: 201, description: 'Tạo chuỗi lịch hẹn thành công' })
+  @ApiResponse({ status: 400, description: 'Lỗi validation hoặc business logic' })
+  async createAppointmentSeries(
+    @Body(new CustomZodValidationPipe(CreateAppointmentSeriesDto)) body: CreateAppointmentSeriesDtoType,
+    @ActiveUser('userId') userId: number,
+  ): Promise<AppointmentSeriesPlanResponseType> {
+    return await this.followUpService.createAppointmentSeries(body, userId)
+  }
+
+  @Get('series/:seriesId')
+  @Roles(Role.Admin, Role.Doctor, Role.Staff)
+  @ApiOperation({
+    summary: 'Lấy chuỗi lịch hẹn',
+    description: 'Xem quy tắc lặp và tất cả các lần hẹn của chuỗi',
+  })
+  @ApiResponse({ status: 200, description: 'Lấy chuỗi lịch hẹn thành công' })
+  @ApiResponse({ status: 404, description: 'Không tìm thấy chuỗi lịch hẹn' })
+  async getAppointmentSeries(
+    @Param('seriesId', ParseIntPipe) seriesId: number,
+  ): Promise<AppointmentSeriesResponseType> {
+    return await this.followUpService.findAppointmentSeriesById(seriesId)
+  }
+
+  @Put('series/:seriesId/occurrences/:appointmentId')
+  @Roles(Role.Admin, Role.Doctor, Role.Staff)
+  @ApiOperation({
+    summary: 'Sửa một lần hẹn trong chuỗi',
+    description:
+      'scope = THIS: chỉ sửa lần hẹn này (đánh dấu là ngoại lệ của chuỗi). scope = FUTURE: cập nhật quy tắc của chuỗi và xếp lại lần hẹn này cùng các lần sau',
+  })
+  @ApiResponse({ status: 200, description: 'Cập nhật lần hẹn thành công' })
+  @ApiResponse({ status: 400, description: 'Lỗi validation hoặc slot đã được đặt' })
+  async updateAppointmentSeriesOccurrence(
+    @Param('seriesId', ParseIntPipe) seriesId: number,
+    @Param('appointmentId', ParseIntPipe) appointmentId: number,
+    @Body(new CustomZodValidationPipe(UpdateAppointmentSeriesOccurrenceDto))
+    body: UpdateAppointmentSeriesOccurrenceDtoType,
+  ): Promise<AppointmentSeriesPlanResponseType> {
+    return await this.followUpService.updateAppointmentSeriesOccurrence(seriesId, appointmentId, body)
+  }
+
+  @Post('series/:seriesId/cancel')
+  @Roles(Role.Admin, Role.Doctor, Role.Staff)
+  @ApiOperation({
+    summary: 'Huỷ chuỗi lịch hẹn',
+    description: 'Huỷ chuỗi và tất cả các lần hẹn chưa diễn ra',
+  })
+  @ApiResponse({ status: 201, description: 'Huỷ chuỗi lịch hẹn thành công' })
+  async cancelAppointmentSeries(
+    @Param('seriesId', ParseIntPipe) seriesId: number,
+    @Body(new CustomZodValidationPipe(CancelAppointmentDto)) body: CancelAppointmentDtoType,
+    @ActiveUser('userId') userId: number,
+  ): Promise<AppointmentSeriesResponseType> {
+    return await this.followUpService.cancelAppointmentSeries(seriesId, body.reason, userId)
+  }
+
   @Post(':treatmentId')
   @Roles(Role.Admin, Role.Doctor, Role.Staff)
   @ApiOperation({
@@ -85,7 +161,8 @@ export class FollowUpAppointmentController {
   @Roles(Role.Admin, Role.Doctor, Role.Staff)
   @ApiOperation({
     summary: 'Cập nhật follow-up appointment',
-    description: 'Cập nhật thông tin lịch hẹn tái khám',
+    description:
+      'Cập nhật thời gian và ghi chú của lịch hẹn tái khám. Đổi trạng thái dùng PUT /appointments/status/:id',
   })
   @ApiResponse({ status: 200, description: 'Cập nhật follow-up appointment thành công' })
   async updateFollowUpAppointment(
@@ -94,7 +171,6 @@ export class FollowUpAppointmentController {
     updates: {
       appointmentTime?: string
       notes?: string
-      status?: string
     },
   ) {
     const updateData = {
@@ -152,21 +228,11 @@ export class FollowUpAppointmentController {
     description: 'Lấy thống kê về lịch hẹn tái khám trong hệ thống',
   })
   @ApiResponse({ status: 200, description: 'Lấy thống kê thành công' })
-  getFollowUpStatistics(@Query('fromDate') fromDate?: string, @Query('toDate') toDate?: string) {
-    // Tạm thời trả về mock data, có thể implement sau
-    return {
-      totalFollowUpAppointments: 0,
-      upcomingAppointments: 0,
-      completedAppointments: 0,
-      missedAppointments: 0,
-      byStatus: {
-        pending: 0,
-        confirmed: 0,
-        completed: 0,
-        cancelled: 0,
-      },
-      message: 'Statistics feature - coming soon',
-    }
+  async getFollowUpStatistics(@Query('fromDate') fromDate?: string, @Query('toDate') toDate?: string) {
+    return await this.followUpService.getFollowUpStatistics(
+      fromDate ? new Date(fromDate) : undefined,
+      toDate ? new Date(toDate) : undefined,
+    )
   }
 
   @Get('recommended-schedule/:treatmentId')
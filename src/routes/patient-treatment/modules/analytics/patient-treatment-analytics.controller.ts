@@ -95,7 +95,11 @@ export class PatientTreatmentAnalyticsController {
     averageCompliance: number
     completedTreatments: number
     missedAppointments: number
+    medicationAdherence: number | null
+    missedDoses: number
     adherenceScore: string
+    riskLevel: string
+    recommendations: string[]
   }> {
     // If user is a patient, they can only see their own compliance stats
     if (user.role?.name === 'PATIENT' && Number(user.id) !== patientId) {
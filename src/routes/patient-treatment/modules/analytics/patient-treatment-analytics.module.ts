@@ -1,13 +1,22 @@
 import { Module } from '@nestjs/common'
+import { AppoinmentRepository } from '../../../../repositories/appoinment.repository'
 import { PatientTreatmentRepository } from '../../../../repositories/patient-treatment.repository'
 import { PaginationService } from '../../../../shared/services/pagination.service'
 import { PrismaService } from '../../../../shared/services/prisma.service'
+import { DoseLogModule } from '../dose-log/dose-log.module'
 import { PatientTreatmentAnalyticsController } from './patient-treatment-analytics.controller'
 import { PatientTreatmentAnalyticsService } from './patient-treatment-analytics.service'
 
 @Module({
+  imports: [DoseLogModule],
   controllers: [PatientTreatmentAnalyticsController],
-  providers: [PatientTreatmentAnalyticsService, PatientTreatmentRepository, PrismaService, PaginationService],
+  providers: [
+    PatientTreatmentAnalyticsService,
+    PatientTreatmentRepository,
+    AppoinmentRepository,
+    PrismaService,
+    PaginationService,
+  ],
   exports: [PatientTreatmentAnalyticsService],
 })
 export class PatientTreatmentAnalyticsModule {}
@@ -1,5 +1,6 @@
 import { Module } from '@nestjs/common'
 import { AppoinmentRepository } from '../../../../repositories/appoinment.repository'
+import { ClinicCalendarRepository } from '../../../../repositories/clinic-calendar.repository'
 import { DoctorRepository } from '../../../../repositories/doctor.repository'
 import { PatientTreatmentRepository } from '../../../../repositories/patient-treatment.repository'
 import { ServiceRepository } from '../../../../repositories/service.repository'
@@ -22,6 +23,7 @@ import { PatientTreatmentCoreService } from './patient-treatment-core.service'
     AppoinmentRepository,
     ServiceRepository,
     DoctorRepository,
+    ClinicCalendarRepository,
     AuthRepository,
     TreatmentProtocolRepository,
   ],
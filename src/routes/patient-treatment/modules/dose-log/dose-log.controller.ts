@@ -0,0 +1,58 @@
+import { Body, Controller, Get, Param, ParseIntPipe, Post, Query } from '@nestjs/common'
+import { ApiBearerAuth, ApiTags } from '@nestjs/swagger'
+import CustomZodValidationPipe from '../../../../common/custom-zod-validate'
+import { AuthType } from '../../../../shared/constants/auth.constant'
+import { Role } from '../../../../shared/constants/role.constant'
+import { ActiveUser } from '../../../../shared/decorators/active-user.decorator'
+import { Auth } from '../../../../shared/decorators/auth.decorator'
+import { Roles } from '../../../../shared/decorators/roles.decorator'
+import { ApiFindDoseLogs, ApiGetDoseAdherence, ApiLogDose } from '../../../../swagger/dose-log.swagger'
+import {
+  CreateDoseLogDto,
+  CreateDoseLogDtoType,
+  DoseAdherenceResponseType,
+  DoseLogRangeQueryDto,
+  DoseLogRangeQueryType,
+  DoseLogResponseType,
+} from './dose-log.dto'
+import { DoseLogService } from './dose-log.service'
+
+@ApiBearerAuth()
+@ApiTags('Patient Treatment - Dose Logs')
+@Controller('patient-treatments/dose-logs')
+@Auth([AuthType.Bearer])
+export class DoseLogController {
+  constructor(private readonly doseLogService: DoseLogService) {}
+
+  @Post()
+  @Roles(Role.Admin, Role.Doctor, Role.Staff, Role.Patient)
+  @ApiLogDose()
+  logDose(
+    @Body(new CustomZodValidationPipe(CreateDoseLogDto)) body: CreateDoseLogDtoType,
+    @ActiveUser('userId') userId: number,
+  ): Promise<DoseLogResponseType> {
+    return this.doseLogService.logDose(body, userId)
+  }
+
+  @Get('treatment/:patientTreatmentId')
+  @Roles(Role.Admin, Role.Doctor, Role.Staff, Role.Patient)
+  @ApiFindDoseLogs()
+  findDoseLogs(
+    @Param('patientTreatmentId', ParseIntPipe) patientTreatmentId: number,
+    @Query(new CustomZodValidationPipe(DoseLogRangeQueryDto)) query: DoseLogRangeQueryType,
+    @ActiveUser('userId') userId: number,
+  ): Promise<DoseLogResponseType[]> {
+    return this.doseLogService.findDoseLogs(patientTreatmentId, query, userId)
+  }
+
+  @Get('treatment/:patientTreatmentId/adherence')
+  @Roles(Role.Admin, Role.Doctor, Role.Staff, Role.Patient)
+  @ApiGetDoseAdherence()
+  getTreatmentAdherence(
+    @Param('patientTreatmentId', ParseIntPipe) patientTreatmentId: number,
+    @Query(new CustomZodValidationPipe(DoseLogRangeQueryDto)) query: DoseLogRangeQueryType,
+    @ActiveUser('userId') userId: number,
+  ): Promise<DoseAdherenceResponseType> {
+    return this.doseLogService.getTreatmentAdherence(patientTreatmentId, query, userId)
+  }
+}
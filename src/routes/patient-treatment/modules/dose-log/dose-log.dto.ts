@@ -0,0 +1,20 @@
+import { createZodDto } from 'nestjs-zod'
+import { z } from 'zod'
+import { CreateDoseLogSchema, DoseAdherenceResSchema, DoseLogRangeQuerySchema, DoseLogSchema } from './dose-log.model'
+
+export class CreateDoseLogDto extends createZodDto(CreateDoseLogSchema) {
+  static create(data: unknown) {
+    return CreateDoseLogSchema.parse(data)
+  }
+}
+
+export class DoseLogRangeQueryDto extends createZodDto(DoseLogRangeQuerySchema) {
+  static create(data: unknown) {
+    return DoseLogRangeQuerySchema.parse(data)
+  }
+}
+
+export type DoseLogResponseType = z.infer<typeof DoseLogSchema>
+export type DoseAdherenceResponseType = z.infer<typeof DoseAdherenceResSchema>
+export type CreateDoseLogDtoType = z.infer<typeof CreateDoseLogSchema>
+export type DoseLogRangeQueryType = z.infer<typeof DoseLogRangeQuerySchema>
@@ -0,0 +1,78 @@
+import { DoseLogStatus, MedicationSchedule } from '@prisma/client'
+import { z } from 'zod'
+
+// Loại các ngày không tồn tại như 2024-02-30 (Date sẽ tự chuyển sang tháng sau)
+const isCalendarDate = (val: string) => {
+  const date = new Date(`${val}T00:00:00Z`)
+  return !isNaN(date.getTime()) && date.toISOString().startsWith(val)
+}
+const dateOnlySchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, { message: 'Date must be in YYYY-MM-DD format' })
+  .refine(isCalendarDate, { message: 'Date is not a valid calendar date' })
+const dateTimeSchema = z.preprocess(
+  (val) => (typeof val === 'string' || val instanceof Date ? new Date(val) : val),
+  z.date(),
+)
+
+const isDateRangeValid = (data: { fromDate?: string; toDate?: string }) =>
+  !data.fromDate || !data.toDate || data.fromDate <= data.toDate
+const dateRangeError = { message: 'fromDate must not be after toDate', path: ['toDate'] }
+
+export const DoseLogSchema = z.object({
+  id: z.number(),
+  patientTreatmentId: z.number(),
+  doseDate: z.date(),
+  scheduleSlot: z.nativeEnum(MedicationSchedule),
+  status: z.nativeEnum(DoseLogStatus),
+  takenAt: z.date().nullable(),
+  notes: z.string().nullable(),
+  loggedById: z.number().nullable(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+})
+
+export const CreateDoseLogSchema = z
+  .object({
+    patientTreatmentId: z.number().int().positive(),
+    doseDate: dateOnlySchema,
+    scheduleSlot: z.nativeEnum(MedicationSchedule),
+    status: z.nativeEnum(DoseLogStatus),
+    // Mặc định là thời điểm ghi nhận khi đã uống
+    takenAt: dateTimeSchema.optional(),
+    notes: z.string().trim().max(1000).optional(),
+  })
+  .refine((data) => data.status === DoseLogStatus.TAKEN || data.takenAt === undefined, {
+    message: 'takenAt is only allowed for taken doses',
+    path: ['takenAt'],
+  })
+
+export const DoseLogRangeQuerySchema = z
+  .object({
+    fromDate: dateOnlySchema.optional(),
+    toDate: dateOnlySchema.optional(),
+  })
+  .refine(isDateRangeValid, dateRangeError)
+
+export const DoseAdherenceResSchema = z.object({
+  patientTreatmentId: z.number(),
+  patientId: z.number(),
+  // Các buổi uống thuốc theo phác đồ và thuốc tuỳ chỉnh
+  scheduleSlots: z.array(z.nativeEnum(MedicationSchedule)),
+  fromDate: z.string(),
+  toDate: z.string(),
+  expectedDoses: z.number(),
+  takenDoses: z.number(),
+  missedDoses: z.number(),
+  unloggedDoses: z.number(),
+  // null khi chưa có liều nào cần uống trong khoảng ngày
+  adherencePercentage: z.number().nullable(),
+  dailyAdherence: z.array(
+    z.object({
+      date: z.string(),
+      expectedDoses: z.number(),
+      takenDoses: z.number(),
+      adherencePercentage: z.number().nullable(),
+    }),
+  ),
+})
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common'
+import { DoseLogRepository } from '../../../../repositories/dose-log.repository'
+import { AuthRepository } from '../../../../repositories/user.repository'
+import { PrismaService } from '../../../../shared/services/prisma.service'
+import { DoseLogController } from './dose-log.controller'
+import { DoseLogService } from './dose-log.service'
+
+@Module({
+  controllers: [DoseLogController],
+  providers: [DoseLogService, DoseLogRepository, AuthRepository, PrismaService],
+  exports: [DoseLogService],
+})
+export class DoseLogModule {}
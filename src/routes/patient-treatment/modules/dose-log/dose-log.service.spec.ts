@@ -0,0 +1,133 @@
+import { Test, TestingModule } from '@nestjs/testing'
+import { DoseLogStatus, MedicationSchedule } from '@prisma/client'
+import { DoseLogRepository } from '../../../../repositories/dose-log.repository'
+import { AuthRepository } from '../../../../repositories/user.repository'
+import { DoseLogService } from './dose-log.service'
+
+describe('DoseLogService', () => {
+  let service: DoseLogService
+  let doseLogRepository: Partial<Record<keyof DoseLogRepository, jest.Mock>>
+  let authRepository: Partial<Record<keyof AuthRepository, jest.Mock>>
+
+  // Phác đồ uống buổi sáng, thêm thuốc tuỳ chỉnh uống buổi tối
+  const treatment = {
+    id: 1,
+    patientId: 5,
+    startDate: new Date('2025-06-28T00:00:00+07:00'),
+    endDate: null,
+    customMedications: { additionalMeds: [{ name: 'Cotrimoxazole', dosage: '960mg', schedule: 'NIGHT' }] },
+    protocol: {
+      medicines: [
+        {
+          medicineId: 10,
+          dosage: '1 viên',
+          duration: MedicationSchedule.MORNING,
+          notes: null,
+          medicine: { name: 'TLD' },
+        },
+      ],
+    },
+  }
+
+  const log = (date: string, scheduleSlot: MedicationSchedule, status: DoseLogStatus) => ({
+    doseDate: new Date(`${date}T00:00:00Z`),
+    scheduleSlot,
+    status,
+  })
+
+  beforeEach(async () => {
+    jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] })
+    jest.setSystemTime(new Date('2025-07-01T10:00:00+07:00'))
+
+    doseLogRepository = {
+      findTreatmentForDoseLog: jest.fn().mockResolvedValue(treatment),
+      findActiveTreatmentForDoseLog: jest.fn().mockResolvedValue(treatment),
+      findDoseLogs: jest.fn().mockResolvedValue([]),
+      upsertDoseLog: jest.fn(),
+    }
+    authRepository = {
+      findUserRoleNameById: jest.fn(),
+    }
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DoseLogService,
+        { provide: DoseLogRepository, useValue: doseLogRepository },
+        { provide: AuthRepository, useValue: authRepository },
+      ],
+    }).compile()
+
+    service = module.get<DoseLogService>(DoseLogService)
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  it('should compute adherence from dose logs since the treatment start', async () => {
+    ;(doseLogRepository.findDoseLogs as jest.Mock).mockResolvedValue([
+      log('2025-06-28', MedicationSchedule.MORNING, DoseLogStatus.TAKEN),
+      log('2025-06-28', MedicationSchedule.NIGHT, DoseLogStatus.TAKEN),
+      log('2025-06-29', MedicationSchedule.MORNING, DoseLogStatus.MISSED),
+      log('2025-06-30', MedicationSchedule.MORNING, DoseLogStatus.TAKEN),
+      log('2025-06-30', MedicationSchedule.NIGHT, DoseLogStatus.TAKEN),
+      log('2025-07-01', MedicationSchedule.MORNING, DoseLogStatus.TAKEN),
+    ])
+
+    const result = await service.getPatientAdherence(5)
+
+    expect(doseLogRepository.findDoseLogs).toHaveBeenCalledWith(
+      1,
+      new Date('2025-06-28T00:00:00Z'),
+      new Date('2025-07-01T00:00:00Z'),
+    )
+    expect(result).toMatchObject({
+      scheduleSlots: [MedicationSchedule.MORNING, MedicationSchedule.NIGHT],
+      fromDate: '2025-06-28',
+      toDate: '2025-07-01',
+      // Hôm nay chỉ tính buổi đã ghi nhận
+      expectedDoses: 7,
+      takenDoses: 5,
+      missedDoses: 1,
+      unloggedDoses: 1,
+      adherencePercentage: 71.43,
+    })
+    expect(result!.dailyAdherence.at(-1)).toEqual({
+      date: '2025-07-01',
+      expectedDoses: 1,
+      takenDoses: 1,
+      adherencePercentage: 100,
+    })
+  })
+
+  it('should reject logging a slot without scheduled medication', async () => {
+    await expect(
+      service.logDose(
+        {
+          patientTreatmentId: 1,
+          doseDate: '2025-07-01',
+          scheduleSlot: MedicationSchedule.AFTERNOON,
+          status: DoseLogStatus.TAKEN,
+        },
+        5,
+      ),
+    ).rejects.toThrow('No medication is scheduled in this slot')
+    expect(doseLogRepository.upsertDoseLog).not.toHaveBeenCalled()
+  })
+
+  it('should not let patients log doses of another patient', async () => {
+    ;(authRepository.findUserRoleNameById as jest.Mock).mockResolvedValue('PATIENT')
+
+    await expect(
+      service.logDose(
+        {
+          patientTreatmentId: 1,
+          doseDate: '2025-07-01',
+          scheduleSlot: MedicationSchedule.MORNING,
+          status: DoseLogStatus.TAKEN,
+        },
+        6,
+      ),
+    ).rejects.toThrow('Patients can only access dose logs of their own treatments')
+  })
+})
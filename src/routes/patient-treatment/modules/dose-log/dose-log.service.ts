@@ -0,0 +1,157 @@
+import { BadRequestException, ForbiddenException, Injectable, NotFoundException } from '@nestjs/common'
+import { DoseLogStatus } from '@prisma/client'
+import { DoseLogRepository } from '../../../../repositories/dose-log.repository'
+import { AuthRepository } from '../../../../repositories/user.repository'
+import {
+  DEFAULT_ADHERENCE_PERIOD_DAYS,
+  MAX_ADHERENCE_PERIOD_DAYS,
+} from '../../../../shared/constants/dose-log.constant'
+import { Role } from '../../../../shared/constants/role.constant'
+import { calculateDoseAdherence } from '../../../../shared/utils/adherence.utils'
+import { addDaysToDateString, formatDateYYYYMMDD } from '../../../../shared/utils/appointment-slot.utils'
+import { buildRegimen, getRegimenScheduleSlots, RegimenTreatment } from '../../../../shared/utils/regimen.utils'
+import {
+  CreateDoseLogDtoType,
+  DoseAdherenceResponseType,
+  DoseLogRangeQueryType,
+  DoseLogResponseType,
+} from './dose-log.dto'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+@Injectable()
+export class DoseLogService {
+  constructor(
+    private readonly doseLogRepository: DoseLogRepository,
+    private readonly authRepository: AuthRepository,
+  ) {}
+
+  // Ghi nhận lại cùng một buổi sẽ cập nhật nhật ký đã có
+  async logDose(data: CreateDoseLogDtoType, userId: number): Promise<DoseLogResponseType> {
+    const treatment = await this.findTreatment(data.patientTreatmentId, userId)
+    const { startDate, endDate } = this.getTreatmentDays(treatment)
+    if (data.doseDate > formatDateYYYYMMDD(new Date())) {
+      throw new BadRequestException('Cannot log doses for future dates')
+    }
+    if (data.doseDate < startDate || (endDate && data.doseDate > endDate)) {
+      throw new BadRequestException('Dose date is outside the treatment period')
+    }
+    if (!this.getScheduleSlots(treatment).includes(data.scheduleSlot)) {
+      throw new BadRequestException('No medication is scheduled in this slot')
+    }
+
+    return this.doseLogRepository.upsertDoseLog({
+      patientTreatmentId: treatment.id,
+      doseDate: new Date(`${data.doseDate}T00:00:00Z`),
+      scheduleSlot: data.scheduleSlot,
+      status: data.status,
+      takenAt: data.status === DoseLogStatus.TAKEN ? (data.takenAt ?? new Date()) : null,
+      notes: data.notes ?? null,
+      loggedById: userId,
+    })
+  }
+
+  async findDoseLogs(
+    patientTreatmentId: number,
+    query: DoseLogRangeQueryType,
+    userId: number,
+  ): Promise<DoseLogResponseType[]> {
+    const treatment = await this.findTreatment(patientTreatmentId, userId)
+    const { fromDate, toDate } = this.resolveRange(treatment, query)
+    return this.doseLogRepository.findDoseLogs(
+      treatment.id,
+      new Date(`${fromDate}T00:00:00Z`),
+      new Date(`${toDate}T00:00:00Z`),
+    )
+  }
+
+  async getTreatmentAdherence(
+    patientTreatmentId: number,
+    query: DoseLogRangeQueryType,
+    userId: number,
+  ): Promise<DoseAdherenceResponseType> {
+    const treatment = await this.findTreatment(patientTreatmentId, userId)
+    return this.calculateAdherence(treatment, query)
+  }
+
+  // Tỉ lệ tuân thủ của đợt điều trị đang diễn ra, null khi bệnh nhân không có đợt điều trị nào
+  async getPatientAdherence(
+    patientId: number,
+    query: DoseLogRangeQueryType = {},
+  ): Promise<DoseAdherenceResponseType | null> {
+    const treatment = await this.doseLogRepository.findActiveTreatmentForDoseLog(patientId)
+    return treatment ? this.calculateAdherence(treatment, query) : null
+  }
+
+  private async calculateAdherence(
+    treatment: RegimenTreatment,
+    query: DoseLogRangeQueryType,
+  ): Promise<DoseAdherenceResponseType> {
+    const { fromDate, toDate } = this.resolveRange(treatment, query)
+    const logs = await this.doseLogRepository.findDoseLogs(
+      treatment.id,
+      new Date(`${fromDate}T00:00:00Z`),
+      new Date(`${toDate}T00:00:00Z`),
+    )
+    const scheduleSlots = this.getScheduleSlots(treatment)
+
+    return {
+      patientTreatmentId: treatment.id,
+      patientId: treatment.patientId,
+      scheduleSlots,
+      ...calculateDoseAdherence({
+        slots: scheduleSlots,
+        fromDate,
+        toDate,
+        today: formatDateYYYYMMDD(new Date()),
+        logs,
+      }),
+    }
+  }
+
+  // Bệnh nhân chỉ xem và ghi nhận cho đợt điều trị của mình
+  private async findTreatment(patientTreatmentId: number, userId: number): Promise<RegimenTreatment> {
+    const treatment = await this.doseLogRepository.findTreatmentForDoseLog(patientTreatmentId)
+    if (!treatment) {
+      throw new NotFoundException('Patient treatment not found')
+    }
+    if (treatment.patientId !== userId) {
+      const role = (await this.authRepository.findUserRoleNameById(userId)) as Role | null
+      if (role === Role.Patient) {
+        throw new ForbiddenException('Patients can only access dose logs of their own treatments')
+      }
+    }
+    return treatment
+  }
+
+  private getScheduleSlots(treatment: RegimenTreatment) {
+    return getRegimenScheduleSlots(buildRegimen(treatment.protocol.medicines, treatment.customMedications))
+  }
+
+  private getTreatmentDays(treatment: RegimenTreatment): { startDate: string; endDate: string | null } {
+    return {
+      startDate: formatDateYYYYMMDD(treatment.startDate),
+      endDate: treatment.endDate ? formatDateYYYYMMDD(treatment.endDate) : null,
+    }
+  }
+
+  // Mặc định 30 ngày gần nhất; luôn nằm trong thời gian điều trị và không sau hôm nay
+  private resolveRange(
+    treatment: RegimenTreatment,
+    query: DoseLogRangeQueryType,
+  ): { fromDate: string; toDate: string } {
+    const today = formatDateYYYYMMDD(new Date())
+    const { startDate, endDate } = this.getTreatmentDays(treatment)
+
+    let toDate = query.toDate && query.toDate < today ? query.toDate : today
+    if (endDate && toDate > endDate) toDate = endDate
+    let fromDate = query.fromDate ?? addDaysToDateString(toDate, 1 - DEFAULT_ADHERENCE_PERIOD_DAYS)
+    if (fromDate < startDate) fromDate = startDate
+
+    const days = (new Date(`${toDate}T00:00:00Z`).getTime() - new Date(`${fromDate}T00:00:00Z`).getTime()) / DAY_MS + 1
+    if (days > MAX_ADHERENCE_PERIOD_DAYS) {
+      throw new BadRequestException(`Date range must not exceed ${MAX_ADHERENCE_PERIOD_DAYS} days`)
+    }
+    return { fromDate, toDate }
+  }
+}
@@ -0,0 +1,3 @@
+export * from './dose-log.controller'
+export * from './dose-log.module'
+export * from './dose-log.service'
@@ -1,5 +1,6 @@
 import { Module } from '@nestjs/common'
 import { AppoinmentRepository } from '../../../../repositories/appoinment.repository'
+import { ClinicCalendarRepository } from '../../../../repositories/clinic-calendar.repository'
 import { DoctorRepository } from '../../../../repositories/doctor.repository'
 import { PatientTreatmentRepository } from '../../../../repositories/patient-treatment.repository'
 import { ServiceRepository } from '../../../../repositories/service.repository'
@@ -17,6 +18,7 @@ import { FollowUpAppointmentService } from '../../services/follow-up-appointment
     PatientTreatmentRepository,
     ServiceRepository,
     DoctorRepository,
+    ClinicCalendarRepository,
     PrismaService,
     PaginationService,
   ],
@@ -3,6 +3,7 @@ export * from './core'
 export * from './analytics'
 export * from './validation'
 export * from './management'
+export * from './dose-log'
 
 // Feature modules
 export * from './follow-up-appointment'
@@ -1,7 +1,9 @@
 import { Module } from '@nestjs/common'
 import { AppoinmentRepository } from '../../../../repositories/appoinment.repository'
+import { ClinicCalendarRepository } from '../../../../repositories/clinic-calendar.repository'
 import { DoctorRepository } from '../../../../repositories/doctor.repository'
 import { PatientTreatmentRepository } from '../../../../repositories/patient-treatment.repository'
+import { TestResultRepository } from '../../../../repositories/test-result.repository'
 import { ServiceRepository } from '../../../../repositories/service.repository'
 import { TreatmentProtocolRepository } from '../../../../repositories/treatment-protocol.repository'
 import { AuthRepository } from '../../../../repositories/user.repository'
@@ -11,6 +13,7 @@ import { SharedErrorHandlingService } from '../../../../shared/services/error-ha
 import { TestPatientTreatmentController } from '../../controllers/test-patient-treatment.controller'
 import { PatientTreatmentService } from '../../patient-treatment.service'
 import { FollowUpAppointmentService } from '../../services/follow-up-appointment.service'
+import { DoseLogModule } from '../dose-log/dose-log.module'
 import {
   PatientTreatmentAnalyticsService,
   PatientTreatmentCoreService,
@@ -19,14 +22,17 @@ import {
 } from '../index'
 
 @Module({
+  imports: [DoseLogModule],
   controllers: [TestPatientTreatmentController],
   providers: [
     PatientTreatmentService,
     FollowUpAppointmentService,
     PatientTreatmentRepository,
+    TestResultRepository,
     AppoinmentRepository,
     ServiceRepository,
     DoctorRepository,
+    ClinicCalendarRepository,
     TreatmentProtocolRepository,
     AuthRepository,
     PrismaService,
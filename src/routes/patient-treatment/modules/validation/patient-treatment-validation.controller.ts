@@ -1,10 +1,18 @@
 import { Body, Controller, Get, Param, ParseIntPipe, Post, Query } from '@nestjs/common'
-import { ApiBearerAuth, ApiOperation, ApiTags } from '@nestjs/swagger'
+import { ApiBearerAuth, ApiOperation, ApiQuery, ApiTags } from '@nestjs/swagger'
+import CustomZodValidationPipe from '../../../../common/custom-zod-validate'
 import { AuthType } from '../../../../shared/constants/auth.constant'
 import { Role } from '../../../../shared/constants/role.constant'
 import { Auth } from '../../../../shared/decorators/auth.decorator'
 import { Roles } from '../../../../shared/decorators/roles.decorator'
-import { PatientTreatmentValidationService } from './patient-treatment-validation.service'
+import { AdherenceAssessment } from '../../../../shared/utils/adherence.utils'
+import { DoseAdherenceResponseType } from '../dose-log/dose-log.dto'
+import { ValidateAdherenceDto, ValidateAdherenceDtoType } from './patient-treatment-validation.dto'
+import {
+  OverdueViralLoadItem,
+  PatientTreatmentValidationService,
+  ViralLoadMonitoring,
+} from './patient-treatment-validation.service'
 
 @ApiBearerAuth()
 @ApiTags('Patient Treatment - Validation & Business Rules')
@@ -39,44 +47,57 @@ export class PatientTreatmentValidationController {
     }
   }
 
+  @Get('viral-load-monitoring/overdue')
+  @Roles(Role.Admin, Role.Doctor, Role.Staff)
+  @ApiOperation({
+    summary: 'Get clinic-wide worklist of patients with overdue viral load tests',
+    description:
+      'Lists patients on an active treatment whose next viral load test is more than 7 days overdue, most overdue first. Set includeDue=true to also list tests that are due now.',
+  })
+  @ApiQuery({ name: 'doctorId', required: false, type: Number, description: 'Only treatments of this doctor' })
+  @ApiQuery({ name: 'includeDue', required: false, type: Boolean, description: 'Also include tests that are due now' })
+  getOverdueViralLoadWorklist(
+    @Query('doctorId', new ParseIntPipe({ optional: true })) doctorId?: number,
+    @Query('includeDue') includeDue?: string,
+  ): Promise<OverdueViralLoadItem[]> {
+    return this.patientTreatmentValidationService.getOverdueViralLoadWorklist({
+      doctorId,
+      includeDue: includeDue === 'true',
+    })
+  }
+
   @Get('viral-load-monitoring/:patientId')
   @Roles(Role.Admin, Role.Doctor, Role.Staff)
   @ApiOperation({
     summary: 'Validate viral load monitoring compliance for a patient',
-    description: 'Check if patient viral load monitoring is up to date and get recommendations',
+    description:
+      'Check if patient viral load monitoring is up to date based on recorded HIV_VIRAL_LOAD results, classify viral suppression and get recommendations. Defaults to the start date of the active treatment.',
   })
   validateViralLoadMonitoring(
     @Param('patientId', ParseIntPipe) patientId: number,
     @Query('treatmentStartDate') treatmentStartDate?: string,
-  ): Promise<{
-    isCompliant: boolean
-    lastViralLoad: Date | null
-    daysSinceLastTest: number | null
-    requiredTestFrequency: 'monthly' | 'quarterly' | 'biannually'
-    nextTestDue: Date
-    urgencyLevel: 'normal' | 'due' | 'overdue' | 'critical'
-    recommendations: string[]
-  }> {
-    const startDate = treatmentStartDate ? new Date(treatmentStartDate) : new Date()
-    return Promise.resolve(this.patientTreatmentValidationService.validateViralLoadMonitoring(patientId, startDate))
+  ): Promise<ViralLoadMonitoring> {
+    const startDate = treatmentStartDate ? new Date(treatmentStartDate) : undefined
+    return this.patientTreatmentValidationService.validateViralLoadMonitoring(patientId, startDate)
   }
 
   @Post('adherence')
   @Roles(Role.Admin, Role.Doctor, Role.Staff)
   @ApiOperation({
     summary: 'Validate treatment adherence and get recommendations',
-    description: 'Analyze patient adherence data and provide intervention recommendations',
+    description:
+      "With patientId, adherence is computed from the dose logs of the patient's active treatment (last 30 days unless fromDate/toDate are given). Otherwise the supplied pill counts are analysed.",
   })
   validateTreatmentAdherence(
-    @Body() adherenceData: { pillsMissed: number; totalPills: number; recentAdherencePattern: number[] },
-  ): Promise<{
-    adherencePercentage: number
-    adherenceLevel: 'excellent' | 'good' | 'suboptimal' | 'poor'
-    riskAssessment: 'low' | 'medium' | 'high' | 'critical'
-    interventionsRequired: string[]
-    recommendations: string[]
-  }> {
-    return Promise.resolve(this.patientTreatmentValidationService.validateTreatmentAdherence(adherenceData))
+    @Body(new CustomZodValidationPipe(ValidateAdherenceDto)) adherenceData: ValidateAdherenceDtoType,
+  ): Promise<
+    {
+      adherencePercentage: number
+      source: 'dose-logs' | 'reported'
+      doseAdherence: DoseAdherenceResponseType | null
+    } & AdherenceAssessment
+  > {
+    return this.patientTreatmentValidationService.validateTreatmentAdherence(adherenceData)
   }
 
   @Post('pregnancy-safety')
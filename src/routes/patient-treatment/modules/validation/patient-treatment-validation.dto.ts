@@ -0,0 +1,11 @@
+import { createZodDto } from 'nestjs-zod'
+import { z } from 'zod'
+import { ValidateAdherenceSchema } from './patient-treatment-validation.model'
+
+export class ValidateAdherenceDto extends createZodDto(ValidateAdherenceSchema) {
+  static create(data: unknown) {
+    return ValidateAdherenceSchema.parse(data)
+  }
+}
+
+export type ValidateAdherenceDtoType = z.infer<typeof ValidateAdherenceSchema>
@@ -0,0 +1,14 @@
+import { z } from 'zod'
+import { DoseLogRangeQuerySchema } from '../dose-log/dose-log.model'
+
+export const ValidateAdherenceSchema = DoseLogRangeQuerySchema.and(
+  z.object({
+    patientId: z.number().int().positive().optional(),
+    pillsMissed: z.number().int().min(0).optional(),
+    totalPills: z.number().int().positive().optional(),
+    recentAdherencePattern: z.array(z.number().min(0).max(100)).optional(),
+  }),
+).refine(
+  (data) => data.pillsMissed === undefined || data.totalPills === undefined || data.pillsMissed <= data.totalPills,
+  { message: 'pillsMissed must not exceed totalPills', path: ['pillsMissed'] },
+)
@@ -1,13 +1,22 @@
 import { Module } from '@nestjs/common'
 import { PatientTreatmentRepository } from '../../../../repositories/patient-treatment.repository'
+import { TestResultRepository } from '../../../../repositories/test-result.repository'
 import { PaginationService } from '../../../../shared/services/pagination.service'
 import { PrismaService } from '../../../../shared/services/prisma.service'
+import { DoseLogModule } from '../dose-log/dose-log.module'
 import { PatientTreatmentValidationController } from './patient-treatment-validation.controller'
 import { PatientTreatmentValidationService } from './patient-treatment-validation.service'
 
 @Module({
+  imports: [DoseLogModule],
   controllers: [PatientTreatmentValidationController],
-  providers: [PatientTreatmentValidationService, PatientTreatmentRepository, PrismaService, PaginationService],
+  providers: [
+    PatientTreatmentValidationService,
+    PatientTreatmentRepository,
+    TestResultRepository,
+    PrismaService,
+    PaginationService,
+  ],
   exports: [PatientTreatmentValidationService],
 })
 export class PatientTreatmentValidationModule {}
@@ -0,0 +1,174 @@
+import { Test, TestingModule } from '@nestjs/testing'
+import { PatientTreatmentRepository } from '../../../../repositories/patient-treatment.repository'
+import { TestResultRepository } from '../../../../repositories/test-result.repository'
+import { DoseLogService } from '../dose-log/dose-log.service'
+import { PatientTreatmentValidationService } from './patient-treatment-validation.service'
+
+describe('PatientTreatmentValidationService', () => {
+  let service: PatientTreatmentValidationService
+  let patientTreatmentRepository: Partial<Record<keyof PatientTreatmentRepository, jest.Mock>>
+  let testResultRepository: Partial<Record<keyof TestResultRepository, jest.Mock>>
+
+  const now = new Date('2026-03-01T10:00:00+07:00')
+  const daysAgo = (days: number) => new Date(now.getTime() - days * 24 * 60 * 60 * 1000)
+
+  const treatment = (id: number, patientId: number, startedDaysAgo: number) => ({
+    id,
+    patientId,
+    startDate: daysAgo(startedDaysAgo),
+    patient: {
+      id: patientId,
+      name: `Bệnh nhân ${patientId}`,
+      email: `patient${patientId}@example.com`,
+      phoneNumber: null,
+    },
+    doctor: { id: 3, user: { name: 'Bác sĩ A' } },
+  })
+
+  beforeEach(async () => {
+    jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] })
+    jest.setSystemTime(now)
+
+    patientTreatmentRepository = {
+      getActivePatientTreatments: jest.fn(),
+      findTreatmentsForViralLoadMonitoring: jest.fn(),
+    }
+    testResultRepository = {
+      findLatestViralLoads: jest.fn().mockResolvedValue([]),
+    }
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PatientTreatmentValidationService,
+        { provide: PatientTreatmentRepository, useValue: patientTreatmentRepository },
+        { provide: TestResultRepository, useValue: testResultRepository },
+        { provide: DoseLogService, useValue: {} },
+      ],
+    }).compile()
+
+    service = module.get<PatientTreatmentValidationService>(PatientTreatmentValidationService)
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  describe('validateViralLoadMonitoring', () => {
+    it('should count the first test from the treatment start when no result is recorded', async () => {
+      const result = await service.validateViralLoadMonitoring(5, daysAgo(200))
+
+      expect(result).toEqual(
+        expect.objectContaining({
+          lastViralLoad: null,
+          suppressionStatus: null,
+          requiredTestFrequency: 'quarterly',
+          nextTestDue: daysAgo(110),
+          daysOverdue: 110,
+          urgencyLevel: 'critical',
+          isCompliant: false,
+        }),
+      )
+      expect(result.recommendations).toContain('No viral load result recorded since treatment start')
+    })
+
+    it('should test suppressed patients on long-term treatment twice a year', async () => {
+      ;(testResultRepository.findLatestViralLoads as jest.Mock).mockResolvedValue([
+        { userId: 5, resultDate: daysAgo(20), value: 30 },
+      ])
+
+      const result = await service.validateViralLoadMonitoring(5, daysAgo(400))
+
+      expect(result).toEqual(
+        expect.objectContaining({
+          lastViralLoadValue: 30,
+          suppressionStatus: 'undetectable',
+          requiredTestFrequency: 'biannually',
+          daysSinceLastTest: 20,
+          urgencyLevel: 'normal',
+          isCompliant: true,
+        }),
+      )
+    })
+
+    it('should retest unsuppressed patients within three months and flag virologic failure', async () => {
+      ;(testResultRepository.findLatestViralLoads as jest.Mock).mockResolvedValue([
+        { userId: 5, resultDate: daysAgo(100), value: 1500 },
+      ])
+
+      const result = await service.validateViralLoadMonitoring(5, daysAgo(400))
+
+      expect(result).toEqual(
+        expect.objectContaining({
+          suppressionStatus: 'virologic-failure',
+          requiredTestFrequency: 'quarterly',
+          daysOverdue: 10,
+          urgencyLevel: 'overdue',
+        }),
+      )
+      expect(result.recommendations).toContain(
+        'Virologic failure: assess adherence, repeat viral load and consider switching regimen',
+      )
+    })
+
+    it('should require an active treatment when no start date is given', async () => {
+      ;(patientTreatmentRepository.getActivePatientTreatments as jest.Mock).mockResolvedValue([])
+
+      await expect(service.validateViralLoadMonitoring(5)).rejects.toThrow(
+        'No active treatments found for this patient',
+      )
+    })
+  })
+
+  describe('validateTreatmentAdherence', () => {
+    it('should compute adherence from the reported pill counts', async () => {
+      const result = await service.validateTreatmentAdherence({ pillsMissed: 3, totalPills: 60 })
+
+      expect(result).toEqual(
+        expect.objectContaining({ adherencePercentage: 95, source: 'reported', doseAdherence: null }),
+      )
+    })
+
+    it('should reject more missed pills than pills in total', async () => {
+      await expect(service.validateTreatmentAdherence({ pillsMissed: 61, totalPills: 60 })).rejects.toThrow(
+        'Provide patientId, or pillsMissed and a positive totalPills',
+      )
+    })
+  })
+
+  describe('getOverdueViralLoadWorklist', () => {
+    beforeEach(() => {
+      // Kết quả từ repository đã sắp theo bệnh nhân, đợt điều trị mới nhất trước
+      ;(patientTreatmentRepository.findTreatmentsForViralLoadMonitoring as jest.Mock).mockResolvedValue([
+        treatment(11, 1, 40),
+        treatment(10, 1, 500),
+        treatment(20, 2, 200),
+        treatment(30, 3, 400),
+        treatment(40, 4, 33),
+      ])
+      ;(testResultRepository.findLatestViralLoads as jest.Mock).mockResolvedValue([
+        { userId: 3, resultDate: daysAgo(175), value: 120 },
+      ])
+    })
+
+    it('should list overdue patients once, most overdue first', async () => {
+      const worklist = await service.getOverdueViralLoadWorklist()
+
+      expect(testResultRepository.findLatestViralLoads).toHaveBeenCalledWith([1, 2, 3, 4])
+      expect(worklist.map((item) => [item.patientId, item.treatmentId, item.urgencyLevel, item.daysOverdue])).toEqual([
+        [2, 20, 'critical', 110],
+        [1, 11, 'overdue', 10],
+      ])
+      expect(worklist[0].doctor).toEqual({ id: 3, name: 'Bác sĩ A' })
+    })
+
+    it('should include patients who are due when asked', async () => {
+      const worklist = await service.getOverdueViralLoadWorklist({ includeDue: true })
+
+      expect(worklist.map((item) => [item.patientId, item.urgencyLevel])).toEqual([
+        [2, 'critical'],
+        [1, 'overdue'],
+        [4, 'due'],
+      ])
+    })
+  })
+})
@@ -1,9 +1,52 @@
 import { Injectable, BadRequestException, InternalServerErrorException, ConflictException } from '@nestjs/common'
 import { PatientTreatmentRepository } from '../../../../repositories/patient-treatment.repository'
+import { TestResultRepository } from '../../../../repositories/test-result.repository'
+import { VIRAL_LOAD_TEST_INTERVAL_DAYS } from '../../../../shared/constants/test-result.constant'
+import { AdherenceAssessment, assessAdherence } from '../../../../shared/utils/adherence.utils'
+import { classifyViralLoad, ViralLoadSuppressionStatus } from '../../../../shared/utils/test-result.utils'
+import { DoseAdherenceResponseType } from '../dose-log/dose-log.dto'
+import { DoseLogService } from '../dose-log/dose-log.service'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export type ViralLoadTestFrequency = 'monthly' | 'quarterly' | 'biannually'
+export type ViralLoadUrgencyLevel = 'normal' | 'due' | 'overdue' | 'critical'
+
+export interface ViralLoadMonitoring {
+  isCompliant: boolean
+  lastViralLoad: Date | null
+  lastViralLoadValue: number | null
+  suppressionStatus: ViralLoadSuppressionStatus | null
+  daysSinceLastTest: number | null
+  requiredTestFrequency: ViralLoadTestFrequency
+  nextTestDue: Date
+  daysOverdue: number
+  urgencyLevel: ViralLoadUrgencyLevel
+  recommendations: string[]
+}
+
+export interface OverdueViralLoadItem {
+  patientId: number
+  patient: { id: number; name: string; email: string; phoneNumber: string | null }
+  treatmentId: number
+  doctor: { id: number; name: string }
+  treatmentStartDate: Date
+  lastViralLoad: Date | null
+  lastViralLoadValue: number | null
+  suppressionStatus: ViralLoadSuppressionStatus | null
+  requiredTestFrequency: ViralLoadTestFrequency
+  nextTestDue: Date
+  daysOverdue: number
+  urgencyLevel: ViralLoadUrgencyLevel
+}
 
 @Injectable()
 export class PatientTreatmentValidationService {
-  constructor(private readonly patientTreatmentRepository: PatientTreatmentRepository) {}
+  constructor(
+    private readonly patientTreatmentRepository: PatientTreatmentRepository,
+    private readonly testResultRepository: TestResultRepository,
+    private readonly doseLogService: DoseLogService,
+  ) {}
 
   // Validate single protocol rule
   async validateSingleProtocolRule(patientId: number): Promise<{
@@ -46,41 +89,87 @@ export class PatientTreatmentValidationService {
     }
   }
 
-  // Validate viral load monitoring (mock implementation)
-  validateViralLoadMonitoring(
-    patientId: number,
+  // Validate viral load monitoring from the patient's recorded HIV_VIRAL_LOAD results
+  async validateViralLoadMonitoring(patientId: number, treatmentStartDate?: Date): Promise<ViralLoadMonitoring> {
+    let startDate = treatmentStartDate
+    if (!startDate) {
+      const [treatment] = await this.patientTreatmentRepository.getActivePatientTreatments({ patientId })
+      if (!treatment) {
+        throw new BadRequestException('No active treatments found for this patient')
+      }
+      startDate = treatment.startDate
+    }
+
+    const [lastResult] = await this.testResultRepository.findLatestViralLoads([patientId])
+    return this.evaluateViralLoadMonitoring(startDate, lastResult ?? null)
+  }
+
+  // Clinic-wide worklist of patients on treatment whose viral load test is overdue
+  async getOverdueViralLoadWorklist(
+    params: { doctorId?: number; includeDue?: boolean } = {},
+  ): Promise<OverdueViralLoadItem[]> {
+    const treatments = await this.patientTreatmentRepository.findTreatmentsForViralLoadMonitoring(params.doctorId)
+
+    // Keep only the newest treatment of each patient
+    const latestTreatments = treatments.filter(
+      (treatment, index) => index === 0 || treatments[index - 1].patientId !== treatment.patientId,
+    )
+    const lastResults = await this.testResultRepository.findLatestViralLoads(
+      latestTreatments.map((treatment) => treatment.patientId),
+    )
+    const lastResultByPatient = new Map(lastResults.map((result) => [result.userId, result]))
+    const reportedLevels = params.includeDue ? ['due', 'overdue', 'critical'] : ['overdue', 'critical']
+
+    return latestTreatments
+      .map((treatment) => {
+        const monitoring = this.evaluateViralLoadMonitoring(
+          treatment.startDate,
+          lastResultByPatient.get(treatment.patientId) ?? null,
+        )
+        return {
+          patientId: treatment.patientId,
+          patient: treatment.patient,
+          treatmentId: treatment.id,
+          doctor: { id: treatment.doctor.id, name: treatment.doctor.user.name },
+          treatmentStartDate: treatment.startDate,
+          lastViralLoad: monitoring.lastViralLoad,
+          lastViralLoadValue: monitoring.lastViralLoadValue,
+          suppressionStatus: monitoring.suppressionStatus,
+          requiredTestFrequency: monitoring.requiredTestFrequency,
+          nextTestDue: monitoring.nextTestDue,
+          daysOverdue: monitoring.daysOverdue,
+          urgencyLevel: monitoring.urgencyLevel,
+        }
+      })
+      .filter((item) => reportedLevels.includes(item.urgencyLevel))
+      .sort((a, b) => b.daysOverdue - a.daysOverdue || a.patientId - b.patientId)
+  }
+
+  private evaluateViralLoadMonitoring(
     treatmentStartDate: Date,
-  ): {
-    isCompliant: boolean
-    lastViralLoad: Date | null
-    daysSinceLastTest: number | null
-    requiredTestFrequency: 'monthly' | 'quarterly' | 'biannually'
-    nextTestDue: Date
-    urgencyLevel: 'normal' | 'due' | 'overdue' | 'critical'
-    recommendations: string[]
-  } {
-    // Mock implementation
+    lastResult: { resultDate: Date; value: number | null } | null,
+  ): ViralLoadMonitoring {
     const today = new Date()
-    const treatmentDuration = today.getTime() - treatmentStartDate.getTime()
-    const daysOnTreatment = Math.floor(treatmentDuration / (1000 * 60 * 60 * 24))
+    const daysOnTreatment = Math.floor((today.getTime() - treatmentStartDate.getTime()) / DAY_MS)
+    const suppressionStatus = lastResult && lastResult.value !== null ? classifyViralLoad(lastResult.value) : null
+    const isSuppressed = suppressionStatus === 'undetectable' || suppressionStatus === 'suppressed'
 
-    // Determine frequency based on treatment duration
-    let frequency: 'monthly' | 'quarterly' | 'biannually' = 'quarterly'
+    // Determine frequency based on treatment duration; unsuppressed patients are retested within 3 months
+    let frequency: ViralLoadTestFrequency
     if (daysOnTreatment < 180) frequency = 'monthly'
-    else if (daysOnTreatment < 365) frequency = 'quarterly'
+    else if (daysOnTreatment < 365 || (suppressionStatus && !isSuppressed)) frequency = 'quarterly'
     else frequency = 'biannually'
 
-    // Mock last test date (60 days ago)
-    const lastViralLoad = new Date(today.getTime() - 60 * 24 * 60 * 60 * 1000)
-    const daysSinceLastTest = 60
-
-    // Calculate next test due
-    const frequencyDays = frequency === 'monthly' ? 30 : frequency === 'quarterly' ? 90 : 180
-    const nextTestDue = new Date(lastViralLoad.getTime() + frequencyDays * 24 * 60 * 60 * 1000)
+    // Without any result the first test is counted from the treatment start
+    const lastViralLoad = lastResult?.resultDate ?? null
+    const daysSinceLastTest = lastViralLoad ? Math.floor((today.getTime() - lastViralLoad.getTime()) / DAY_MS) : null
+    const nextTestDue = new Date(
+      (lastViralLoad ?? treatmentStartDate).getTime() + VIRAL_LOAD_TEST_INTERVAL_DAYS[frequency] * DAY_MS,
+    )
 
     // Determine urgency
-    let urgencyLevel: 'normal' | 'due' | 'overdue' | 'critical' = 'normal'
-    const daysOverdue = Math.floor((today.getTime() - nextTestDue.getTime()) / (1000 * 60 * 60 * 24))
+    let urgencyLevel: ViralLoadUrgencyLevel = 'normal'
+    const daysOverdue = Math.floor((today.getTime() - nextTestDue.getTime()) / DAY_MS)
 
     if (daysOverdue > 30) urgencyLevel = 'critical'
     else if (daysOverdue > 7) urgencyLevel = 'overdue'
@@ -95,70 +184,80 @@ export class PatientTreatmentValidationService {
         recommendations.push('Consider treatment review due to overdue monitoring')
       }
     }
+    if (!lastViralLoad) {
+      recommendations.push('No viral load result recorded since treatment start')
+    }
+    if (suppressionStatus === 'virologic-failure') {
+      recommendations.push('Virologic failure: assess adherence, repeat viral load and consider switching regimen')
+    } else if (suppressionStatus === 'low-level-viremia') {
+      recommendations.push('Viral load not suppressed: reinforce adherence and repeat test within 3 months')
+    }
 
     return {
       isCompliant,
       lastViralLoad,
+      lastViralLoadValue: lastResult?.value ?? null,
+      suppressionStatus,
       daysSinceLastTest,
       requiredTestFrequency: frequency,
       nextTestDue,
+      daysOverdue,
       urgencyLevel,
       recommendations,
     }
   }
 
-  // Validate treatment adherence (mock implementation)
-  validateTreatmentAdherence(adherenceData: {
-    pillsMissed: number
-    totalPills: number
-    recentAdherencePattern: number[]
-  }): {
-    adherencePercentage: number
-    adherenceLevel: 'excellent' | 'good' | 'suboptimal' | 'poor'
-    riskAssessment: 'low' | 'medium' | 'high' | 'critical'
-    interventionsRequired: string[]
-    recommendations: string[]
-  } {
-    const adherencePercentage =
-      ((adherenceData.totalPills - adherenceData.pillsMissed) / adherenceData.totalPills) * 100
-
-    let adherenceLevel: 'excellent' | 'good' | 'suboptimal' | 'poor'
-    let riskAssessment: 'low' | 'medium' | 'high' | 'critical'
-
-    if (adherencePercentage >= 95) {
-      adherenceLevel = 'excellent'
-      riskAssessment = 'low'
-    } else if (adherencePercentage >= 85) {
-      adherenceLevel = 'good'
-      riskAssessment = 'low'
-    } else if (adherencePercentage >= 70) {
-      adherenceLevel = 'suboptimal'
-      riskAssessment = 'medium'
-    } else {
-      adherenceLevel = 'poor'
-      riskAssessment = 'high'
-    }
-
-    const interventionsRequired: string[] = []
-    const recommendations: string[] = []
-
-    if (adherencePercentage < 95) {
-      interventionsRequired.push('Adherence counseling')
-      recommendations.push('Review dosing schedule with patient')
+  // Validate treatment adherence from the dose logs of the patient's active treatment, or from reported pill counts
+  async validateTreatmentAdherence(adherenceData: {
+    patientId?: number
+    fromDate?: string
+    toDate?: string
+    pillsMissed?: number
+    totalPills?: number
+    recentAdherencePattern?: number[]
+  }): Promise<
+    {
+      adherencePercentage: number
+      source: 'dose-logs' | 'reported'
+      doseAdherence: DoseAdherenceResponseType | null
+    } & AdherenceAssessment
+  > {
+    if (adherenceData.patientId) {
+      const doseAdherence = await this.doseLogService.getPatientAdherence(adherenceData.patientId, {
+        fromDate: adherenceData.fromDate,
+        toDate: adherenceData.toDate,
+      })
+      if (!doseAdherence) {
+        throw new BadRequestException('No active treatments found for this patient')
+      }
+      if (doseAdherence.adherencePercentage === null) {
+        throw new BadRequestException('No doses were due in this period')
+      }
+      return {
+        adherencePercentage: doseAdherence.adherencePercentage,
+        source: 'dose-logs',
+        doseAdherence,
+        ...assessAdherence(doseAdherence.adherencePercentage),
+      }
     }
 
-    if (adherencePercentage < 70) {
-      interventionsRequired.push('Intensive adherence support')
-      recommendations.push('Consider simplified regimen')
-      recommendations.push('Assess for side effects')
+    const { pillsMissed, totalPills } = adherenceData
+    if (
+      typeof pillsMissed !== 'number' ||
+      typeof totalPills !== 'number' ||
+      totalPills <= 0 ||
+      pillsMissed < 0 ||
+      pillsMissed > totalPills
+    ) {
+      throw new BadRequestException('Provide patientId, or pillsMissed and a positive totalPills')
     }
+    const adherencePercentage = ((totalPills - pillsMissed) / totalPills) * 100
 
     return {
       adherencePercentage,
-      adherenceLevel,
-      riskAssessment,
-      interventionsRequired,
-      recommendations,
+      source: 'reported',
+      doseAdherence: null,
+      ...assessAdherence(adherencePercentage),
     }
   }
 
@@ -367,7 +466,7 @@ export class PatientTreatmentValidationService {
       const treatment = activeTreatments[0]
 
       // Run validations
-      const viralLoadMonitoring = this.validateViralLoadMonitoring(patientId, treatment.startDate)
+      const viralLoadMonitoring = await this.validateViralLoadMonitoring(patientId, treatment.startDate)
       const businessRuleCompliance = await this.validateSingleProtocolRule(patientId)
 
       // Mock other validations
@@ -382,6 +481,9 @@ export class PatientTreatmentValidationService {
       if (viralLoadMonitoring.urgencyLevel === 'critical') {
         overallRiskLevel = 'critical'
         priorityActions.push('Immediate viral load testing required')
+      } else if (viralLoadMonitoring.suppressionStatus === 'virologic-failure') {
+        overallRiskLevel = 'high'
+        priorityActions.push('Review regimen for virologic failure')
       } else if (!businessRuleCompliance.isValid) {
         overallRiskLevel = 'high'
         priorityActions.push('Resolve multiple active treatments')
@@ -425,11 +527,12 @@ export class PatientTreatmentValidationService {
   } {
     return {
       totalRules: 15,
-      implementedRules: 8,
-      mockRules: 7,
+      implementedRules: 10,
+      mockRules: 5,
       availableEndpoints: [
         '/validation/single-protocol/:patientId',
         '/validation/viral-load-monitoring/:patientId',
+        '/validation/viral-load-monitoring/overdue',
         '/validation/adherence',
         '/validation/pregnancy-safety',
         '/validation/organ-function',
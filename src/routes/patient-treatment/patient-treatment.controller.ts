@@ -43,6 +43,7 @@ import {
   CreatePatientTreatmentDtoType,
   PatientTreatmentQueryDto,
 } from './patient-treatment.dto'
+import { PatientTreatmentAnalyticsService } from './modules/analytics/patient-treatment-analytics.service'
 import { PatientTreatmentService } from './patient-treatment.service'
 
 @ApiBearerAuth()
@@ -50,7 +51,10 @@ import { PatientTreatmentService } from './patient-treatment.service'
 @Controller('patient-treatments')
 @Auth([AuthType.Bearer])
 export class PatientTreatmentController {
-  constructor(private readonly patientTreatmentService: PatientTreatmentService) {}
+  constructor(
+    private readonly patientTreatmentService: PatientTreatmentService,
+    private readonly patientTreatmentAnalyticsService: PatientTreatmentAnalyticsService,
+  ) {}
 
   // ===============================
   // CRUD Endpoints
@@ -267,15 +271,13 @@ export class PatientTreatmentController {
   async getTreatmentComplianceStats(
     @Param('patientId', ParseIntPipe) patientId: number,
   ): Promise<TreatmentComplianceStatsDto> {
-    const result = await this.patientTreatmentService.getTreatmentComplianceStats(patientId)
-    if (!result || typeof result !== 'object') throw new InternalServerErrorException('Unexpected result')
-    // Explicit mapping for type safety
+    const result = await this.patientTreatmentAnalyticsService.getTreatmentComplianceStats(patientId)
     return {
-      patientId: Number(result.patientId),
-      adherence: Number(result.adherence),
-      missedDoses: Number(result.missedDoses),
-      riskLevel: String(result.riskLevel),
-      recommendations: Array.isArray(result.recommendations) ? result.recommendations.map(String) : [],
+      patientId: result.patientId,
+      adherence: result.medicationAdherence ?? result.averageCompliance,
+      missedDoses: result.missedDoses,
+      riskLevel: result.riskLevel,
+      recommendations: result.recommendations,
     }
   }
 
@@ -1,7 +1,9 @@
 import { Module } from '@nestjs/common'
 import { AppoinmentRepository } from '../../repositories/appoinment.repository'
+import { ClinicCalendarRepository } from '../../repositories/clinic-calendar.repository'
 import { DoctorRepository } from '../../repositories/doctor.repository'
 import { PatientTreatmentRepository } from '../../repositories/patient-treatment.repository'
+import { TestResultRepository } from '../../repositories/test-result.repository'
 import { ServiceRepository } from '../../repositories/service.repository'
 import { TreatmentProtocolRepository } from '../../repositories/treatment-protocol.repository'
 import { AuthRepository } from '../../repositories/user.repository'
@@ -16,6 +18,7 @@ import {
 } from './modules'
 import { PatientTreatmentAnalyticsModule } from './modules/analytics/patient-treatment-analytics.module'
 import { PatientTreatmentCoreModule } from './modules/core/patient-treatment-core.module'
+import { DoseLogModule } from './modules/dose-log/dose-log.module'
 import { FollowUpAppointmentModule } from './modules/follow-up-appointment/follow-up-appointment.module'
 import { PatientTreatmentManagementModule } from './modules/management/patient-treatment-management.module'
 import { TestPatientTreatmentModule } from './modules/test/patient-treatment-test.module'
@@ -31,12 +34,15 @@ import { FollowUpAppointmentService } from './services/follow-up-appointment.ser
     PatientTreatmentManagementModule,
     FollowUpAppointmentModule,
     TestPatientTreatmentModule,
+    DoseLogModule,
   ],
   providers: [
     PatientTreatmentService,
     PatientTreatmentRepository,
+    TestResultRepository,
     AppoinmentRepository,
     DoctorRepository,
+    ClinicCalendarRepository,
     ServiceRepository,
     TreatmentProtocolRepository,
     AuthRepository,
@@ -2123,7 +2123,7 @@ export class PatientTreatmentService {
 
       // Tính toán summary
       const treatmentsWithFollowUp = treatments.filter((t) =>
-        followUpAppointments.some((apt) => apt.notes?.includes(`treatment ${t.id}`)),
+        followUpAppointments.some((apt) => apt.patientTreatmentId === t.id),
       ).length
 
       const upcomingAppointments = followUpAppointments.filter((apt) => {
@@ -2329,17 +2329,6 @@ export class PatientTreatmentService {
     return []
   }
 
-  getTreatmentComplianceStats(patientId: number): any {
-    // Mock: return compliance stats
-    return {
-      patientId,
-      adherence: 100,
-      missedDoses: 0,
-      riskLevel: 'low',
-      recommendations: [],
-    }
-  }
-
   getTreatmentCostAnalysis(params: any): any {
     // Mock: return cost analysis
     return {
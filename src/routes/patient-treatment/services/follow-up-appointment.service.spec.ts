@@ -1,5 +1,6 @@
 import { Test, TestingModule } from '@nestjs/testing'
 import { AppoinmentRepository } from '../../../repositories/appoinment.repository'
+import { ClinicCalendarRepository } from '../../../repositories/clinic-calendar.repository'
 import { DoctorRepository } from '../../../repositories/doctor.repository'
 import { PatientTreatmentRepository } from '../../../repositories/patient-treatment.repository'
 import { ServiceRepository } from '../../../repositories/service.repository'
@@ -11,17 +12,23 @@ describe('FollowUpAppointmentService', () => {
   let appoinmentRepository: Partial<Record<keyof AppoinmentRepository, jest.Mock>>
   let serviceRepository: Partial<Record<keyof ServiceRepository, jest.Mock>>
   let doctorRepository: Partial<Record<keyof DoctorRepository, jest.Mock>>
+  let clinicCalendarRepository: Partial<Record<keyof ClinicCalendarRepository, jest.Mock>>
 
   beforeEach(async () => {
     patientTreatmentRepository = {
       findPatientTreatmentById: jest.fn(),
     }
     appoinmentRepository = {
-      findAppointmentByUserId: jest.fn(),
+      findFollowUpAppointments: jest.fn(),
       createAppointment: jest.fn(),
       findAppointmentById: jest.fn(),
       updateAppointment: jest.fn(),
       updateAppointmentStatus: jest.fn(),
+      createAppointmentSeries: jest.fn(),
+      deleteAppointmentSeries: jest.fn(),
+      createAppointmentInSlot: jest.fn(),
+      findAppointmentSeriesById: jest.fn(),
+      updateAppointmentInSlot: jest.fn(),
     }
     serviceRepository = {
       findServiceById: jest.fn(),
@@ -30,6 +37,10 @@ describe('FollowUpAppointmentService', () => {
     doctorRepository = {
       findDoctorById: jest.fn(),
       findAllDoctors: jest.fn(),
+      findManySchedules: jest.fn().mockResolvedValue([{ shift: 'MORNING' }, { shift: 'AFTERNOON' }]),
+    }
+    clinicCalendarRepository = {
+      findClosuresInRange: jest.fn().mockResolvedValue([]),
     }
 
     const module: TestingModule = await Test.createTestingModule({
@@ -39,6 +50,7 @@ describe('FollowUpAppointmentService', () => {
         { provide: PatientTreatmentRepository, useValue: patientTreatmentRepository },
         { provide: ServiceRepository, useValue: serviceRepository },
         { provide: DoctorRepository, useValue: doctorRepository },
+        { provide: ClinicCalendarRepository, useValue: clinicCalendarRepository },
       ],
     }).compile()
 
@@ -66,11 +78,10 @@ describe('FollowUpAppointmentService', () => {
     }
     const appointment = { id: 99, appointmentTime: new Date('2024-01-31') }
     ;(patientTreatmentRepository.findPatientTreatmentById as jest.Mock).mockResolvedValue(treatment)
-    ;(appoinmentRepository.findAppointmentByUserId as jest.Mock).mockResolvedValue({ data: [] })
+    ;(appoinmentRepository.findFollowUpAppointments as jest.Mock).mockResolvedValue([])
     ;(serviceRepository.findServiceById as jest.Mock).mockResolvedValue({ id: 10 })
     ;(doctorRepository.findDoctorById as jest.Mock).mockResolvedValue({ id: 3 })
-    ;(appoinmentRepository.createAppointment as jest.Mock).mockResolvedValue(appointment)
-    ;(patientTreatmentRepository.updatePatientTreatment as jest.Mock) = jest.fn()
+    ;(appoinmentRepository.createAppointmentInSlot as jest.Mock).mockResolvedValue(appointment)
 
     const result = await service.createFollowUpAppointment(1, {
       dayOffset: 30,
@@ -80,13 +91,17 @@ describe('FollowUpAppointmentService', () => {
     })
     expect(result.success).toBe(true)
     expect(result.appointment).toEqual(appointment)
-    expect(appoinmentRepository.createAppointment).toHaveBeenCalledWith(
+    expect(appoinmentRepository.createAppointmentInSlot).toHaveBeenCalledWith(
       expect.objectContaining({
         userId: 2,
         doctorId: 3,
         serviceId: 10,
+        patientTreatmentId: 1,
+        purpose: 'FOLLOW_UP',
         notes: expect.stringContaining('Test note'),
       }),
+      new Date('2024-01-31T07:00:00+07:00'),
+      new Date('2024-01-31T07:30:00+07:00'),
     )
   })
 
@@ -98,14 +113,16 @@ describe('FollowUpAppointmentService', () => {
       startDate: new Date('2024-01-01'),
       notes: '',
     }
-    // Đã có follow-up appointment
+    // Đã có follow-up appointment sắp tới của treatment
     const existingAppointment = {
       id: 100,
-      notes: 'Follow-up for treatment 1',
+      patientTreatmentId: 1,
+      purpose: 'FOLLOW_UP',
+      status: 'PENDING',
       appointmentTime: new Date('2024-01-31'),
     }
     ;(patientTreatmentRepository.findPatientTreatmentById as jest.Mock).mockResolvedValue(treatment)
-    ;(appoinmentRepository.findAppointmentByUserId as jest.Mock).mockResolvedValue({ data: [existingAppointment] })
+    ;(appoinmentRepository.findFollowUpAppointments as jest.Mock).mockResolvedValue([existingAppointment])
     const result = await service.createFollowUpAppointment(1, { dayOffset: 30 })
     expect(result.success).toBe(false)
     expect(result.message).toMatch(/đã tồn tại/i)
@@ -120,7 +137,7 @@ describe('FollowUpAppointmentService', () => {
       notes: '',
     }
     ;(patientTreatmentRepository.findPatientTreatmentById as jest.Mock).mockResolvedValue(treatment)
-    ;(appoinmentRepository.findAppointmentByUserId as jest.Mock).mockResolvedValue({ data: [] })
+    ;(appoinmentRepository.findFollowUpAppointments as jest.Mock).mockResolvedValue([])
     ;(serviceRepository.findServiceById as jest.Mock).mockResolvedValue(null)
     await expect(service.createFollowUpAppointment(1, { dayOffset: 30, serviceId: 999 })).rejects.toThrow(
       'Không tìm thấy service phù hợp cho follow-up appointment',
@@ -130,7 +147,9 @@ describe('FollowUpAppointmentService', () => {
   it('should update follow-up appointment successfully', async () => {
     const appointment = {
       id: 1,
+      purpose: 'FOLLOW_UP',
       notes: 'Follow-up for treatment 1',
+      status: 'PENDING',
       appointmentTime: new Date('2024-01-31'),
     }
     ;(appoinmentRepository.findAppointmentById as jest.Mock).mockResolvedValue(appointment)
@@ -138,12 +157,243 @@ describe('FollowUpAppointmentService', () => {
       ...appointment,
       notes: 'Follow-up for treatment 1. Updated',
     })
-    ;(appoinmentRepository.updateAppointmentStatus as jest.Mock) = jest.fn()
     const result = await service.updateFollowUpAppointment(1, {
       notes: 'Follow-up for treatment 1. Updated',
-      status: 'CONFIRMED',
     })
     expect(result.notes).toContain('Updated')
-    expect(appoinmentRepository.updateAppointmentStatus).toHaveBeenCalledWith(1, 'CONFIRMED')
+    expect(appoinmentRepository.updateAppointment).toHaveBeenCalledWith(1, {
+      notes: 'Follow-up for treatment 1. Updated',
+    })
+    expect(appoinmentRepository.updateAppointmentStatus).not.toHaveBeenCalled()
+  })
+
+  it('should reschedule follow-up appointments under the slot lock', async () => {
+    ;(appoinmentRepository.findAppointmentById as jest.Mock).mockResolvedValue({
+      id: 1,
+      purpose: 'FOLLOW_UP',
+      status: 'PENDING',
+      appointmentTime: new Date('2099-01-05T07:00:00+07:00'),
+      user: { id: 2 },
+      doctor: { id: 3 },
+      service: { id: 10 },
+    })
+    ;(serviceRepository.findServiceById as jest.Mock).mockResolvedValue({
+      id: 10,
+      startTime: '07:00',
+      endTime: '17:00',
+      slots: null,
+    })
+    ;(appoinmentRepository.updateAppointmentInSlot as jest.Mock).mockResolvedValue(null)
+
+    await expect(
+      service.updateFollowUpAppointment(1, { appointmentTime: new Date('2099-01-06T08:10:00+07:00') }),
+    ).rejects.toThrow('This slot is already booked')
+    expect(appoinmentRepository.updateAppointmentInSlot).toHaveBeenCalledWith(
+      1,
+      { appointmentTime: new Date('2099-01-06T08:10:00+07:00'), userId: 2, doctorId: 3 },
+      new Date('2099-01-06T08:10:00+07:00'),
+      new Date('2099-01-06T08:40:00+07:00'),
+    )
+    expect(appoinmentRepository.updateAppointment).not.toHaveBeenCalled()
+  })
+
+  it('should materialize series occurrences and move weekend dates to Monday', async () => {
+    ;(patientTreatmentRepository.findPatientTreatmentById as jest.Mock).mockResolvedValue({
+      id: 1,
+      patientId: 2,
+      doctorId: 3,
+    })
+    ;(doctorRepository.findDoctorById as jest.Mock).mockResolvedValue({ id: 3 })
+    ;(serviceRepository.findServiceById as jest.Mock).mockResolvedValue({
+      id: 10,
+      startTime: '07:00',
+      endTime: '17:00',
+      slots: null,
+    })
+    ;(appoinmentRepository.createAppointmentSeries as jest.Mock).mockResolvedValue({ id: 5 })
+    ;(appoinmentRepository.createAppointmentInSlot as jest.Mock).mockImplementation((data) =>
+      Promise.resolve({ id: 100 + data.seriesIndex }),
+    )
+    ;(appoinmentRepository.findAppointmentSeriesById as jest.Mock).mockResolvedValue({ id: 5, appointments: [] })
+
+    const result = await service.createAppointmentSeries({
+      patientTreatmentId: 1,
+      serviceId: 10,
+      startDate: '2099-01-05',
+      intervalDays: 33,
+      occurrenceCount: 3,
+      preferredSlot: '08:10',
+    })
+
+    expect(result.skippedDates).toEqual([])
+    const bookedTimes = (appoinmentRepository.createAppointmentInSlot as jest.Mock).mock.calls.map(
+      ([data]) => (data as { appointmentTime: Date }).appointmentTime,
+    )
+    expect(bookedTimes).toEqual([
+      new Date('2099-01-05T08:10:00+07:00'),
+      new Date('2099-02-09T08:10:00+07:00'), // 2099-02-07 là thứ Bảy
+      new Date('2099-03-12T08:10:00+07:00'),
+    ])
+    expect(appoinmentRepository.createAppointmentInSlot).toHaveBeenCalledWith(
+      expect.objectContaining({
+        userId: 2,
+        doctorId: 3,
+        patientTreatmentId: 1,
+        purpose: 'FOLLOW_UP',
+        seriesId: 5,
+        seriesIndex: 2,
+      }),
+      expect.any(Date),
+      expect.any(Date),
+    )
+  })
+
+  it('should skip clinic closures when planning series occurrences', async () => {
+    ;(doctorRepository.findDoctorById as jest.Mock).mockResolvedValue({ id: 3 })
+    ;(serviceRepository.findServiceById as jest.Mock).mockResolvedValue({
+      id: 10,
+      startTime: '07:00',
+      endTime: '17:00',
+      slots: null,
+    })
+    ;(clinicCalendarRepository.findClosuresInRange as jest.Mock).mockResolvedValue([
+      {
+        startDate: new Date('2099-01-12'),
+        endDate: new Date('2099-01-13'),
+        type: 'CLOSED',
+        openTime: null,
+        closeTime: null,
+        serviceId: null,
+      },
+      {
+        startDate: new Date('2099-01-19'),
+        endDate: new Date('2099-01-19'),
+        type: 'REDUCED_HOURS',
+        openTime: '07:00',
+        closeTime: '08:40',
+        serviceId: 10,
+      },
+    ])
+    ;(appoinmentRepository.createAppointmentSeries as jest.Mock).mockResolvedValue({ id: 5 })
+    ;(appoinmentRepository.createAppointmentInSlot as jest.Mock).mockImplementation((data) =>
+      Promise.resolve({ id: 100 + data.seriesIndex }),
+    )
+    ;(appoinmentRepository.findAppointmentSeriesById as jest.Mock).mockResolvedValue({ id: 5, appointments: [] })
+
+    await service.createAppointmentSeries({
+      userId: 2,
+      doctorId: 3,
+      serviceId: 10,
+      startDate: '2099-01-05',
+      intervalDays: 7,
+      occurrenceCount: 3,
+      preferredSlot: '09:20',
+    })
+
+    const bookedTimes = (appoinmentRepository.createAppointmentInSlot as jest.Mock).mock.calls.map(
+      ([data]) => (data as { appointmentTime: Date }).appointmentTime,
+    )
+    expect(bookedTimes).toEqual([
+      new Date('2099-01-05T09:20:00+07:00'),
+      new Date('2099-01-14T09:20:00+07:00'), // 12-13/01 phòng khám nghỉ
+      new Date('2099-01-19T07:00:00+07:00'), // 19/01 dịch vụ chỉ mở đến 08:40
+    ])
+  })
+
+  it('should only book series occurrences in working shifts of the doctor', async () => {
+    ;(doctorRepository.findDoctorById as jest.Mock).mockResolvedValue({ id: 3 })
+    ;(serviceRepository.findServiceById as jest.Mock).mockResolvedValue({
+      id: 10,
+      startTime: '07:00',
+      endTime: '17:00',
+      slots: null,
+    })
+    // 12/01 bác sĩ chỉ làm ca chiều, 19/01 nghỉ phép cả ngày
+    ;(doctorRepository.findManySchedules as jest.Mock).mockImplementation(({ where }) => {
+      const date = (where.date as Date).toISOString().slice(0, 10)
+      if (date === '2099-01-12') return Promise.resolve([{ shift: 'AFTERNOON' }])
+      if (date === '2099-01-19') return Promise.resolve([])
+      return Promise.resolve([{ shift: 'MORNING' }, { shift: 'AFTERNOON' }])
+    })
+    ;(appoinmentRepository.createAppointmentSeries as jest.Mock).mockResolvedValue({ id: 5 })
+    ;(appoinmentRepository.createAppointmentInSlot as jest.Mock).mockImplementation((data) =>
+      Promise.resolve({ id: 100 + data.seriesIndex }),
+    )
+    ;(appoinmentRepository.findAppointmentSeriesById as jest.Mock).mockResolvedValue({ id: 5, appointments: [] })
+
+    const result = await service.createAppointmentSeries({
+      userId: 2,
+      doctorId: 3,
+      serviceId: 10,
+      startDate: '2099-01-05',
+      intervalDays: 7,
+      occurrenceCount: 3,
+      preferredSlot: '09:20',
+    })
+
+    expect(result.skippedDates).toEqual(['2099-01-19'])
+    const bookedTimes = (appoinmentRepository.createAppointmentInSlot as jest.Mock).mock.calls.map(
+      ([data]) => (data as { appointmentTime: Date }).appointmentTime,
+    )
+    expect(bookedTimes).toEqual([new Date('2099-01-05T09:20:00+07:00'), new Date('2099-01-12T13:00:00+07:00')])
+  })
+
+  describe('when no series occurrence can be booked', () => {
+    const seriesData = {
+      userId: 2,
+      doctorId: 3,
+      serviceId: 10,
+      startDate: '2099-01-05',
+      intervalDays: 7,
+      occurrenceCount: 2,
+      preferredSlot: '09:20',
+    }
+
+    beforeEach(() => {
+      ;(doctorRepository.findDoctorById as jest.Mock).mockResolvedValue({ id: 3 })
+      ;(serviceRepository.findServiceById as jest.Mock).mockResolvedValue({
+        id: 10,
+        startTime: '07:00',
+        endTime: '17:00',
+        slots: null,
+      })
+      ;(appoinmentRepository.createAppointmentSeries as jest.Mock).mockResolvedValue({ id: 5 })
+    })
+
+    it('should delete the empty series and reject the request', async () => {
+      // Bác sĩ nghỉ cả hai ngày nên không lần hẹn nào được đặt
+      ;(doctorRepository.findManySchedules as jest.Mock).mockResolvedValue([])
+
+      await expect(service.createAppointmentSeries(seriesData)).rejects.toThrow(
+        'No free slot for any occurrence of the series',
+      )
+      expect(appoinmentRepository.deleteAppointmentSeries).toHaveBeenCalledWith(5)
+      expect(appoinmentRepository.findAppointmentSeriesById).not.toHaveBeenCalled()
+    })
+
+    it('should delete the series when booking fails before any occurrence is created', async () => {
+      ;(appoinmentRepository.createAppointmentInSlot as jest.Mock).mockRejectedValue(new Error('Database unavailable'))
+
+      await expect(service.createAppointmentSeries(seriesData)).rejects.toThrow('Database unavailable')
+      expect(appoinmentRepository.deleteAppointmentSeries).toHaveBeenCalledWith(5)
+    })
+
+    it('should not create a series when the closures push the first date past untilDate', async () => {
+      ;(clinicCalendarRepository.findClosuresInRange as jest.Mock).mockResolvedValue([
+        {
+          startDate: new Date('2099-01-05'),
+          endDate: new Date('2099-01-09'),
+          type: 'CLOSED',
+          openTime: null,
+          closeTime: null,
+          serviceId: null,
+        },
+      ])
+
+      await expect(service.createAppointmentSeries({ ...seriesData, untilDate: '2099-01-10' })).rejects.toThrow(
+        'The series has no occurrence before untilDate',
+      )
+      expect(appoinmentRepository.createAppointmentSeries).not.toHaveBeenCalled()
+    })
   })
 })
@@ -1,10 +1,34 @@
-import { Injectable, Logger } from '@nestjs/common'
-import { PatientTreatment } from '@prisma/client'
+import { BadRequestException, Injectable, Logger, NotFoundException } from '@nestjs/common'
+import { AppointmentSeriesStatus, AppointmentStatus, DayOfWeek, PatientTreatment, Service } from '@prisma/client'
 import { AppoinmentRepository } from '../../../repositories/appoinment.repository'
+import { ClinicCalendarRepository } from '../../../repositories/clinic-calendar.repository'
 import { DoctorRepository } from '../../../repositories/doctor.repository'
 import { PatientTreatmentRepository } from '../../../repositories/patient-treatment.repository'
 import { ServiceRepository } from '../../../repositories/service.repository'
-import { CreateAppointmentDtoType } from '../../appoinment/appoinment.dto'
+import {
+  AppointmentSlot,
+  DEFAULT_SLOT_MINUTES,
+  FOLLOW_UP_MATCH_WINDOW_DAYS,
+  MAX_SERIES_OCCURRENCES,
+  RESCHEDULABLE_APPOINTMENT_STATUSES,
+} from '../../../shared/constants/appointment.constant'
+import {
+  addDaysToDateString,
+  formatDateYYYYMMDD,
+  getDayOfWeekOfDateString,
+  getServiceSlots,
+  getShiftBySlotStart,
+  getSlotDateRange,
+} from '../../../shared/utils/appointment-slot.utils'
+import { ClinicClosureInput, isClosedOnDate, isSlotOpen } from '../../../shared/utils/clinic-calendar.utils'
+import { formatTimeHHMM, isTimeBetween } from '../../../shared/utils/date.utils'
+import {
+  AppointmentSeriesPlanResponseType,
+  AppointmentSeriesResponseType,
+  CreateAppointmentDtoType,
+  CreateAppointmentSeriesDtoType,
+  UpdateAppointmentSeriesOccurrenceDtoType,
+} from '../../appoinment/appoinment.dto'
 
 @Injectable()
 export class FollowUpAppointmentService {
@@ -15,6 +39,7 @@ export class FollowUpAppointmentService {
     private readonly patientTreatmentRepository: PatientTreatmentRepository,
     private readonly serviceRepository: ServiceRepository,
     private readonly doctorRepository: DoctorRepository,
+    private readonly clinicCalendarRepository: ClinicCalendarRepository,
   ) {}
 
   /**
@@ -36,17 +61,12 @@ export class FollowUpAppointmentService {
         throw new Error(`Treatment với ID ${treatmentId} không tồn tại`)
       }
 
-      // 2. Kiểm tra treatment đã có follow-up appointment chưa
-      const existingAppointments = await this.appointmentRepository.findAppointmentByUserId(treatment.patientId, {
-        page: 1,
-        limit: 1000,
-        sortOrder: 'asc',
-        // sortBy: 'appointmentTime',
+      // 2. Kiểm tra treatment đã có follow-up appointment sắp tới chưa
+      const existingAppointments = await this.appointmentRepository.findFollowUpAppointments({
+        patientTreatmentId: treatmentId,
       })
-      const hasFollowUp = existingAppointments.data.some(
-        (apt) =>
-          apt.notes?.includes(`Follow-up for treatment ${treatmentId}`) ||
-          (apt.appointmentTime >= treatment.startDate && apt.notes?.includes('follow-up')),
+      const hasFollowUp = existingAppointments.some((apt) =>
+        RESCHEDULABLE_APPOINTMENT_STATUSES.includes(apt.status as AppointmentStatus),
       )
 
       if (hasFollowUp) {
@@ -54,19 +74,20 @@ export class FollowUpAppointmentService {
         return { success: false, message: 'Follow-up appointment đã tồn tại' }
       }
 
-      // 3. Tính toán ngày hẹn tái khám
-      const followUpDate = this.calculateFollowUpDate(
-        treatment,
-        followUpConfig.dayOffset,
-        followUpConfig.appointmentTime,
-      )
-
-      // 4. Tìm service phù hợp (HIV follow-up hoặc general consultation)
+      // 3. Tìm service phù hợp (HIV follow-up hoặc general consultation)
       const serviceId = await this.findAppropriateService(followUpConfig.serviceId)
       if (!serviceId) {
         throw new Error('Không tìm thấy service phù hợp cho follow-up appointment')
       }
 
+      // 4. Tính toán ngày hẹn tái khám (tránh cuối tuần và ngày phòng khám nghỉ)
+      const followUpDate = await this.calculateFollowUpDate(
+        treatment,
+        followUpConfig.dayOffset,
+        serviceId,
+        followUpConfig.appointmentTime,
+      )
+
       // 5. Tìm doctor phù hợp (ưu tiên doctor hiện tại của treatment)
       const doctorId = await this.findAppropriateDoctor(treatment.doctorId, followUpDate)
 
@@ -79,14 +100,17 @@ export class FollowUpAppointmentService {
         type: 'OFFLINE',
         status: 'PENDING',
         isAnonymous: false,
-        notes: `Follow-up for treatment ${treatmentId}. ${followUpConfig.notes || 'Routine HIV treatment follow-up'}`,
+        patientTreatmentId: treatmentId,
+        purpose: 'FOLLOW_UP',
+        notes: followUpConfig.notes || 'Routine HIV treatment follow-up',
       }
 
-      // 7. Tạo appointment
-      const appointment = await this.appointmentRepository.createAppointment(appointmentData)
-
-      // 8. Cập nhật treatment để liên kết với appointment
-      await this.linkTreatmentWithAppointment(treatmentId, appointment.id)
+      // 7. Tạo appointment (liên kết với treatment qua patientTreatmentId), kiểm tra trùng slot trong cùng transaction
+      const service = await this.serviceRepository.findServiceById(serviceId)
+      if (!service) throw new BadRequestException('Service not found')
+      const { slotStart, slotEnd } = this.getAppointmentSlotRange(service, followUpDate)
+      const appointment = await this.appointmentRepository.createAppointmentInSlot(appointmentData, slotStart, slotEnd)
+      if (!appointment) throw new BadRequestException('This slot is already booked')
 
       this.logger.log(`Created follow-up appointment ${appointment.id} for treatment ${treatmentId}`)
 
@@ -102,7 +126,7 @@ export class FollowUpAppointmentService {
   }
 
   /**
-   * Tạo multiple follow-up appointments cho treatment dài hạn
+   * Tạo multiple follow-up appointments cho treatment dài hạn (dưới dạng một chuỗi lịch hẹn)
    */
   async createMultipleFollowUpAppointments(
     treatmentId: number,
@@ -113,32 +137,263 @@ export class FollowUpAppointmentService {
       startFromDay?: number // Bắt đầu từ ngày thứ mấy của treatment (mặc định 30)
     },
   ) {
-    const appointments: any[] = []
     const { intervalDays, totalAppointments, serviceId, startFromDay = 30 } = schedule
 
-    for (let i = 0; i < totalAppointments; i++) {
-      const dayOffset = startFromDay + i * intervalDays
-
-      try {
-        const result = await this.createFollowUpAppointment(treatmentId, {
-          dayOffset,
-          serviceId,
-          notes: `Routine follow-up #${i + 1} (${dayOffset} days after treatment start)`,
-        })
+    const treatment = await this.patientTreatmentRepository.findPatientTreatmentById(treatmentId)
+    if (!treatment) {
+      throw new Error(`Treatment với ID ${treatmentId} không tồn tại`)
+    }
 
-        if (result.success && result.appointment) {
-          appointments.push(result.appointment)
-        }
-      } catch (error) {
-        this.logger.error(`Failed to create follow-up appointment #${i + 1} for treatment ${treatmentId}:`, error)
+    // Bỏ qua các lần tái khám đã rơi vào quá khứ, giữ nhịp tính từ ngày bắt đầu treatment
+    const today = formatDateYYYYMMDD(new Date())
+    let startDate = addDaysToDateString(formatDateYYYYMMDD(new Date(treatment.startDate)), startFromDay)
+    let occurrenceCount = totalAppointments
+    while (startDate < today && occurrenceCount > 0) {
+      startDate = addDaysToDateString(startDate, intervalDays)
+      occurrenceCount--
+    }
+    if (occurrenceCount <= 0) {
+      return {
+        success: false,
+        createdAppointments: [],
+        message: `Đã tạo 0/${totalAppointments} lịch hẹn tái khám`,
       }
     }
 
+    const series = await this.createAppointmentSeries({
+      patientTreatmentId: treatmentId,
+      serviceId,
+      startDate,
+      intervalDays,
+      occurrenceCount,
+    })
+
     return {
-      success: appointments.length > 0,
-      createdAppointments: appointments,
-      message: `Đã tạo ${appointments.length}/${totalAppointments} lịch hẹn tái khám`,
+      success: series.appointments.length > 0,
+      series,
+      createdAppointments: series.appointments,
+      message: `Đã tạo ${series.appointments.length}/${totalAppointments} lịch hẹn tái khám`,
+    }
+  }
+
+  /**
+   * Tạo chuỗi lịch hẹn tái khám định kỳ và sinh các lần hẹn theo quy tắc lặp
+   */
+  async createAppointmentSeries(
+    data: CreateAppointmentSeriesDtoType,
+    actorId?: number,
+  ): Promise<AppointmentSeriesPlanResponseType> {
+    let userId = data.userId
+    let doctorId = data.doctorId
+    if (data.patientTreatmentId) {
+      const treatment = await this.patientTreatmentRepository.findPatientTreatmentById(data.patientTreatmentId)
+      if (!treatment) throw new BadRequestException(`Treatment với ID ${data.patientTreatmentId} không tồn tại`)
+      if (userId && userId !== treatment.patientId) {
+        throw new BadRequestException('userId does not match the patient of the treatment')
+      }
+      userId = treatment.patientId
+      doctorId = doctorId ?? treatment.doctorId
+    }
+    if (!userId || !doctorId) throw new BadRequestException('userId and doctorId are required')
+
+    const doctor = await this.doctorRepository.findDoctorById(doctorId)
+    if (!doctor) throw new BadRequestException('Doctor not found')
+
+    const serviceId = await this.findAppropriateService(data.serviceId)
+    const service = serviceId ? await this.serviceRepository.findServiceById(serviceId) : null
+    if (!service) throw new BadRequestException('Không tìm thấy service phù hợp cho follow-up appointment')
+
+    if (data.startDate < formatDateYYYYMMDD(new Date())) {
+      throw new BadRequestException('startDate cannot be in the past')
+    }
+    if (data.preferredSlot && !this.getSeriesSlots(service).some((slot) => slot.start === data.preferredSlot)) {
+      throw new BadRequestException('preferredSlot is not a bookable slot of this service')
+    }
+
+    const closures = await this.clinicCalendarRepository.findClosuresInRange(new Date(data.startDate))
+    const dates = this.planSeriesDates(
+      data.startDate,
+      {
+        intervalDays: data.intervalDays,
+        occurrenceCount: data.occurrenceCount,
+        untilDate: data.untilDate,
+        preferredWeekday: data.preferredWeekday,
+      },
+      { closures, serviceId: service.id },
+    )
+    if (dates.length === 0) throw new BadRequestException('The series has no occurrence before untilDate')
+
+    const series = await this.appointmentRepository.createAppointmentSeries({
+      userId,
+      doctorId,
+      serviceId: service.id,
+      patientTreatmentId: data.patientTreatmentId,
+      startDate: new Date(`${data.startDate}T00:00:00+07:00`),
+      intervalDays: data.intervalDays,
+      occurrenceCount: data.occurrenceCount,
+      untilDate: data.untilDate ? new Date(`${data.untilDate}T23:59:59.999+07:00`) : undefined,
+      preferredWeekday: data.preferredWeekday,
+      preferredSlot: data.preferredSlot,
+      notes: data.notes,
+      createdById: actorId,
+    })
+
+    const skippedDates: string[] = []
+    let bookedCount = 0
+    try {
+      for (const [index, date] of dates.entries()) {
+        const appointment = await this.bookSeriesOccurrence(
+          {
+            seriesId: series.id,
+            patientTreatmentId: data.patientTreatmentId,
+            userId,
+            doctorId,
+            service,
+            preferredSlot: data.preferredSlot,
+            notes: data.notes,
+            closures,
+          },
+          date,
+          index,
+        )
+        if (appointment) bookedCount++
+        else skippedDates.push(date)
+      }
+    } finally {
+      // Không đặt được lần hẹn nào (kể cả khi lỗi giữa chừng) thì không để lại chuỗi rỗng
+      if (bookedCount === 0) {
+        await this.appointmentRepository.deleteAppointmentSeries(series.id)
+      }
+    }
+    if (bookedCount === 0) {
+      throw new BadRequestException('No free slot for any occurrence of the series')
+    }
+    if (skippedDates.length > 0) {
+      this.logger.warn(`Series ${series.id}: no free slot on ${skippedDates.join(', ')}`)
+    }
+
+    const created = await this.appointmentRepository.findAppointmentSeriesById(series.id)
+    return { ...created!, skippedDates }
+  }
+
+  async findAppointmentSeriesById(seriesId: number): Promise<AppointmentSeriesResponseType> {
+    const series = await this.appointmentRepository.findAppointmentSeriesById(seriesId)
+    if (!series) throw new NotFoundException('Appointment series not found')
+    return series
+  }
+
+  /**
+   * Sửa một lần hẹn của chuỗi: chỉ lần này (THIS) hoặc lần này và tất cả các lần sau (FUTURE)
+   */
+  async updateAppointmentSeriesOccurrence(
+    seriesId: number,
+    appointmentId: number,
+    data: UpdateAppointmentSeriesOccurrenceDtoType,
+  ): Promise<AppointmentSeriesPlanResponseType> {
+    const series = await this.findAppointmentSeriesById(seriesId)
+    if (series.status !== AppointmentSeriesStatus.ACTIVE)
+      throw new BadRequestException('Appointment series is cancelled')
+
+    const occurrence = series.appointments.find((appointment) => appointment.id === appointmentId)
+    if (!occurrence) throw new BadRequestException('Appointment does not belong to this series')
+    if (!RESCHEDULABLE_APPOINTMENT_STATUSES.includes(occurrence.status as AppointmentStatus)) {
+      throw new BadRequestException(`Cannot edit an occurrence with status ${occurrence.status}`)
+    }
+    if (data.appointmentTime && data.appointmentTime < new Date()) {
+      throw new BadRequestException('Appointment time cannot be in the past')
+    }
+
+    const service = await this.serviceRepository.findServiceById(series.serviceId)
+    if (!service) throw new BadRequestException('Service not found')
+    if (data.doctorId) {
+      const doctor = await this.doctorRepository.findDoctorById(data.doctorId)
+      if (!doctor) throw new BadRequestException('Doctor not found')
+    }
+    const doctorId = data.doctorId ?? occurrence.doctor.id
+    const newSlot = data.appointmentTime
+      ? this.findSeriesSlot(service, formatTimeHHMM(data.appointmentTime))
+      : undefined
+
+    if (data.scope === 'THIS') {
+      const slot = newSlot ?? this.findSeriesSlot(service, formatTimeHHMM(occurrence.appointmentTime))
+      const date = formatDateYYYYMMDD(data.appointmentTime ?? occurrence.appointmentTime)
+      const closures = await this.clinicCalendarRepository.findClosuresInRange(new Date(date), new Date(date))
+      if (!isSlotOpen(closures, date, slot, service.id)) {
+        throw new BadRequestException('The clinic is closed at the selected time')
+      }
+      const moved = await this.appointmentRepository.moveSeriesOccurrence(appointmentId, {
+        userId: series.userId,
+        doctorId,
+        ...getSlotDateRange(date, slot),
+        isSeriesException: true,
+        notes: data.notes,
+      })
+      if (!moved) throw new BadRequestException('This slot is already booked')
+      return { ...(await this.findAppointmentSeriesById(seriesId)), skippedDates: [] }
+    }
+
+    // FUTURE: cập nhật quy tắc của chuỗi rồi xếp lại các lần hẹn chưa diễn ra từ lần này trở đi
+    const intervalDays = data.intervalDays ?? series.intervalDays
+    const preferredWeekday = data.preferredWeekday !== undefined ? data.preferredWeekday : series.preferredWeekday
+    const preferredSlot = newSlot?.start ?? series.preferredSlot ?? formatTimeHHMM(occurrence.appointmentTime)
+    const notes = data.notes !== undefined ? data.notes : (series.notes ?? undefined)
+    const anchorDate = formatDateYYYYMMDD(data.appointmentTime ?? occurrence.appointmentTime)
+
+    const futureOccurrences = series.appointments.filter(
+      (appointment) =>
+        appointment.appointmentTime >= occurrence.appointmentTime &&
+        RESCHEDULABLE_APPOINTMENT_STATUSES.includes(appointment.status as AppointmentStatus),
+    )
+    const closures = await this.clinicCalendarRepository.findClosuresInRange(new Date(anchorDate))
+    const skippedDates: string[] = []
+    for (const [offset, appointment] of futureOccurrences.entries()) {
+      const date =
+        offset === 0
+          ? anchorDate
+          : this.alignSeriesDate(
+              addDaysToDateString(anchorDate, offset * intervalDays),
+              preferredWeekday ?? undefined,
+              {
+                closures,
+                serviceId: service.id,
+              },
+            )
+      const moved = await this.moveSeriesOccurrenceToDate(
+        appointment.id,
+        { userId: series.userId, doctorId, service, preferredSlot, closures },
+        date,
+        data.notes,
+      )
+      if (!moved) skippedDates.push(date)
     }
+
+    await this.appointmentRepository.updateAppointmentSeries(seriesId, {
+      intervalDays,
+      preferredWeekday,
+      preferredSlot,
+      notes,
+      ...(data.doctorId && { doctor: { connect: { id: data.doctorId } } }),
+    })
+    return { ...(await this.findAppointmentSeriesById(seriesId)), skippedDates }
+  }
+
+  /**
+   * Huỷ chuỗi lịch hẹn: các lần hẹn chưa diễn ra sẽ bị huỷ
+   */
+  async cancelAppointmentSeries(
+    seriesId: number,
+    reason: string,
+    actorId: number,
+  ): Promise<AppointmentSeriesResponseType> {
+    const series = await this.findAppointmentSeriesById(seriesId)
+    if (series.status !== AppointmentSeriesStatus.ACTIVE) {
+      throw new BadRequestException('Appointment series is already cancelled')
+    }
+
+    const cancelled = await this.appointmentRepository.cancelSeriesOccurrences(seriesId, new Date(), reason, actorId)
+    await this.appointmentRepository.updateAppointmentSeries(seriesId, { status: AppointmentSeriesStatus.CANCELLED })
+    this.logger.log(`Cancelled series ${seriesId} with ${cancelled} upcoming appointments`)
+    return this.findAppointmentSeriesById(seriesId)
   }
 
   /**
@@ -181,27 +436,41 @@ export class FollowUpAppointmentService {
    * Lấy follow-up appointments cho một patient
    */
   async getFollowUpAppointmentsByPatient(patientId: number) {
-    const appointments = await this.appointmentRepository.findAppointmentByUserId(patientId, {
-      page: 1,
-      limit: 1000,
-      sortOrder: 'asc',
-      // sortBy: 'appointmentTime',
-    })
+    return this.appointmentRepository.findFollowUpAppointments({ userId: patientId })
+  }
 
-    return appointments.data.filter(
-      (apt) => apt.notes?.includes('Follow-up') || apt.notes?.includes('follow-up') || apt.notes?.includes('tái khám'),
-    )
+  /**
+   * Thống kê follow-up appointments theo trạng thái
+   */
+  async getFollowUpStatistics(fromDate?: Date, toDate?: Date) {
+    const [countsByStatus, upcomingAppointments] = await Promise.all([
+      this.appointmentRepository.countFollowUpAppointmentsByStatus(fromDate, toDate),
+      this.appointmentRepository.countUpcomingFollowUpAppointments(new Date(), toDate),
+    ])
+    const byStatus = Object.fromEntries(
+      Object.values(AppointmentStatus).map((status) => [
+        status,
+        countsByStatus.find((item) => item.status === status)?._count._all ?? 0,
+      ]),
+    ) as Record<AppointmentStatus, number>
+
+    return {
+      totalFollowUpAppointments: countsByStatus.reduce((sum, item) => sum + item._count._all, 0),
+      upcomingAppointments,
+      completedAppointments: byStatus.COMPLETED,
+      missedAppointments: byStatus.NO_SHOW,
+      byStatus,
+    }
   }
 
   /**
-   * Cập nhật follow-up appointment
+   * Cập nhật follow-up appointment (đổi trạng thái đi qua luồng trạng thái của lịch hẹn)
    */
   async updateFollowUpAppointment(
     appointmentId: number,
     updates: {
       appointmentTime?: Date
       notes?: string
-      status?: string
     },
   ) {
     try {
@@ -211,7 +480,7 @@ export class FollowUpAppointmentService {
       }
 
       // Kiểm tra xem có phải follow-up appointment không
-      if (!appointment.notes?.includes('Follow-up') && !appointment.notes?.includes('follow-up')) {
+      if (appointment.purpose !== 'FOLLOW_UP') {
         throw new Error('Đây không phải follow-up appointment')
       }
 
@@ -222,17 +491,22 @@ export class FollowUpAppointmentService {
       if (updates.appointmentTime) updateData.appointmentTime = updates.appointmentTime
       if (updates.notes) updateData.notes = updates.notes
 
-      const updatedAppointment = await this.appointmentRepository.updateAppointment(appointmentId, updateData)
-
-      // Cập nhật status nếu có
-      if (updates.status) {
-        await this.appointmentRepository.updateAppointmentStatus(
-          appointmentId,
-          updates.status as 'PENDING' | 'CONFIRMED' | 'COMPLETED' | 'CANCELLED',
-        )
-      }
-
-      return updatedAppointment
+      if (!updateData.appointmentTime)
+        return await this.appointmentRepository.updateAppointment(appointmentId, updateData)
+
+      // Dời lịch: kiểm tra trùng slot và cập nhật trong cùng transaction có khoá slot
+      const service = await this.serviceRepository.findServiceById(appointment.service.id)
+      if (!service) throw new BadRequestException('Service not found')
+      const slot = this.findSeriesSlot(service, formatTimeHHMM(updateData.appointmentTime))
+      const { slotStart, slotEnd } = getSlotDateRange(formatDateYYYYMMDD(updateData.appointmentTime), slot)
+      const updated = await this.appointmentRepository.updateAppointmentInSlot(
+        appointmentId,
+        { ...updateData, userId: appointment.user.id, doctorId: appointment.doctor.id },
+        slotStart,
+        slotEnd,
+      )
+      if (!updated) throw new BadRequestException('This slot is already booked')
+      return updated
     } catch (error) {
       this.logger.error(`Error updating follow-up appointment ${appointmentId}:`, error)
       throw error
@@ -260,7 +534,12 @@ export class FollowUpAppointmentService {
 
   // ==================== PRIVATE HELPER METHODS ====================
 
-  private calculateFollowUpDate(treatment: PatientTreatment, dayOffset: number, specificTime?: Date): Date {
+  private async calculateFollowUpDate(
+    treatment: PatientTreatment,
+    dayOffset: number,
+    serviceId: number,
+    specificTime?: Date,
+  ): Promise<Date> {
     if (specificTime) {
       return new Date(specificTime)
     }
@@ -271,13 +550,14 @@ export class FollowUpAppointmentService {
     // Set time to 9:00 AM for follow-up appointments
     followUpDate.setHours(9, 0, 0, 0)
 
-    // If it's weekend, move to next Monday
-    if (followUpDate.getDay() === 0) {
-      // Sunday
+    // Cuối tuần hoặc ngày phòng khám (hoặc dịch vụ) nghỉ thì dời sang ngày làm việc kế tiếp
+    const closures = await this.clinicCalendarRepository.findClosuresInRange(new Date(formatDateYYYYMMDD(followUpDate)))
+    while (
+      followUpDate.getDay() === 0 ||
+      followUpDate.getDay() === 6 ||
+      isClosedOnDate(closures, formatDateYYYYMMDD(followUpDate), serviceId)
+    ) {
       followUpDate.setDate(followUpDate.getDate() + 1)
-    } else if (followUpDate.getDay() === 6) {
-      // Saturday
-      followUpDate.setDate(followUpDate.getDate() + 2)
     }
 
     return followUpDate
@@ -322,16 +602,153 @@ export class FollowUpAppointmentService {
     return availableDoctors[Math.floor(Math.random() * availableDoctors.length)].id
   }
 
-  private async linkTreatmentWithAppointment(treatmentId: number, appointmentId: number) {
-    // Có thể lưu thông tin liên kết trong notes hoặc tạo bảng riêng
-    // Tạm thời cập nhật notes của treatment
-    const treatment = await this.patientTreatmentRepository.findPatientTreatmentById(treatmentId)
-    const currentNotes = treatment?.notes || ''
-    const updatedNotes = `${currentNotes}\nFollow-up appointment created: ${appointmentId} on ${new Date().toISOString()}`
+  // Các ngày hẹn của chuỗi theo quy tắc lặp, giới hạn bởi số lần hẹn và/hoặc ngày kết thúc
+  private planSeriesDates(
+    startDate: string,
+    rule: { intervalDays: number; occurrenceCount?: number; untilDate?: string; preferredWeekday?: DayOfWeek },
+    calendar: { closures: ClinicClosureInput[]; serviceId: number },
+  ): string[] {
+    const dates: string[] = []
+    const limit = rule.occurrenceCount ?? MAX_SERIES_OCCURRENCES
+    for (let index = 0; dates.length < limit; index++) {
+      const date = this.alignSeriesDate(
+        addDaysToDateString(startDate, index * rule.intervalDays),
+        rule.preferredWeekday,
+        calendar,
+      )
+      if (rule.untilDate && date > rule.untilDate) break
+      dates.push(date)
+    }
+    return dates
+  }
 
-    await this.patientTreatmentRepository.updatePatientTreatment(treatmentId, {
-      notes: updatedNotes,
+  // Dời ngày hẹn tới thứ mong muốn gần nhất, hoặc tránh cuối tuần nếu không chọn thứ; bỏ qua ngày phòng khám nghỉ
+  private alignSeriesDate(
+    date: string,
+    preferredWeekday: DayOfWeek | undefined,
+    calendar: { closures: ClinicClosureInput[]; serviceId: number },
+  ): string {
+    const weekend: DayOfWeek[] = [DayOfWeek.SATURDAY, DayOfWeek.SUNDAY]
+    const isSkipped = (day: string) =>
+      (preferredWeekday
+        ? getDayOfWeekOfDateString(day) !== preferredWeekday
+        : weekend.includes(getDayOfWeekOfDateString(day))) || isClosedOnDate(calendar.closures, day, calendar.serviceId)
+
+    let aligned = date
+    while (isSkipped(aligned)) aligned = addDaysToDateString(aligned, 1)
+    return aligned
+  }
+
+  // Slot của dịch vụ nằm trong giờ làm việc, slot mong muốn được thử trước
+  private getSeriesSlots(service: Service, preferredSlot?: string | null): AppointmentSlot[] {
+    const slots = getServiceSlots(service).filter((slot) =>
+      isTimeBetween(slot.start, service.startTime, service.endTime),
+    )
+    return [...slots].sort((a, b) => Number(b.start === preferredSlot) - Number(a.start === preferredSlot))
+  }
+
+  // Khoảng thời gian của slot chứa thời điểm hẹn; giờ không trùng slot nào thì tính một slot mặc định từ thời điểm đó
+  private getAppointmentSlotRange(service: Service, appointmentTime: Date): { slotStart: Date; slotEnd: Date } {
+    const slot = getServiceSlots(service).find((s) => s.start === formatTimeHHMM(appointmentTime))
+    if (slot) return getSlotDateRange(formatDateYYYYMMDD(appointmentTime), slot)
+    return {
+      slotStart: appointmentTime,
+      slotEnd: new Date(appointmentTime.getTime() + DEFAULT_SLOT_MINUTES * 60 * 1000),
+    }
+  }
+
+  private findSeriesSlot(service: Service, start: string): AppointmentSlot {
+    const slot = this.getSeriesSlots(service).find((s) => s.start === start)
+    if (!slot) throw new BadRequestException('This slot is not available for appointment')
+    return slot
+  }
+
+  // Đặt một lần hẹn của chuỗi vào slot trống đầu tiên trong ngày, trả về null nếu cả ngày đã kín
+  // hoặc bác sĩ không có ca làm việc
+  private async bookSeriesOccurrence(
+    context: {
+      seriesId: number
+      patientTreatmentId?: number
+      userId: number
+      doctorId: number
+      service: Service
+      preferredSlot?: string
+      notes?: string
+      closures: ClinicClosureInput[]
+    },
+    date: string,
+    seriesIndex: number,
+  ) {
+    for (const slot of await this.getWorkingSeriesSlots(context, date)) {
+      const { slotStart, slotEnd } = getSlotDateRange(date, slot)
+      if (slotStart <= new Date() || !isSlotOpen(context.closures, date, slot, context.service.id)) continue
+
+      const appointment = await this.appointmentRepository.createAppointmentInSlot(
+        {
+          userId: context.userId,
+          doctorId: context.doctorId,
+          serviceId: context.service.id,
+          appointmentTime: slotStart,
+          type: 'OFFLINE',
+          status: 'PENDING',
+          isAnonymous: false,
+          notes: context.notes || 'Routine HIV treatment follow-up',
+          patientTreatmentId: context.patientTreatmentId,
+          purpose: 'FOLLOW_UP',
+          seriesId: context.seriesId,
+          seriesIndex,
+        },
+        slotStart,
+        slotEnd,
+      )
+      if (appointment) return appointment
+    }
+    return null
+  }
+
+  // Chỉ các slot thuộc ca làm việc của bác sĩ trong ngày (ca nghỉ phép đã bị đánh dấu isOff)
+  private async getWorkingSeriesSlots(
+    context: { doctorId: number; service: Service; preferredSlot?: string },
+    date: string,
+  ): Promise<AppointmentSlot[]> {
+    const schedules = await this.doctorRepository.findManySchedules({
+      where: { doctorId: context.doctorId, date: new Date(`${date}T00:00:00Z`), isOff: false },
+      select: { shift: true },
     })
+    const shifts = schedules.map((schedule) => schedule.shift)
+    return this.getSeriesSlots(context.service, context.preferredSlot).filter((slot) =>
+      shifts.includes(getShiftBySlotStart(slot.start)),
+    )
+  }
+
+  // Dời một lần hẹn của chuỗi sang ngày mới, thử lần lượt các slot trong ngày
+  private async moveSeriesOccurrenceToDate(
+    appointmentId: number,
+    context: {
+      userId: number
+      doctorId: number
+      service: Service
+      preferredSlot: string
+      closures: ClinicClosureInput[]
+    },
+    date: string,
+    notes?: string,
+  ) {
+    for (const slot of await this.getWorkingSeriesSlots(context, date)) {
+      const { slotStart, slotEnd } = getSlotDateRange(date, slot)
+      if (slotStart <= new Date() || !isSlotOpen(context.closures, date, slot, context.service.id)) continue
+
+      const moved = await this.appointmentRepository.moveSeriesOccurrence(appointmentId, {
+        userId: context.userId,
+        doctorId: context.doctorId,
+        slotStart,
+        slotEnd,
+        isSeriesException: false,
+        notes,
+      })
+      if (moved) return moved
+    }
+    return null
   }
 
   private async getEndingTreatments(daysBeforeEnd: number): Promise<PatientTreatment[]> {
@@ -356,20 +773,44 @@ export class FollowUpAppointmentService {
       // 2. Logic đơn giản để tính recommended schedule
       const recommendedSchedule = this.calculateRecommendedSchedule(treatment)
 
-      // 3. Tính toán dates cụ thể cho mỗi appointment
+      // 3. Lịch hẹn tái khám đã có của treatment (bỏ qua lịch đã huỷ)
+      const existingFollowUps = (
+        await this.appointmentRepository.findFollowUpAppointments({ patientTreatmentId: treatmentId })
+      ).filter((apt) => apt.status !== AppointmentStatus.CANCELLED)
+      const matchedIds = new Set<number>()
+
+      // 4. Tính toán dates cụ thể cho mỗi appointment, ghép với lịch hẹn đã có gần ngày khuyến nghị nhất
       const treatmentStartDate = new Date(treatment.startDate)
       const scheduleWithDates = recommendedSchedule.recommendedIntervals.map((dayOffset, index) => {
         const appointmentDate = new Date(treatmentStartDate)
         appointmentDate.setDate(appointmentDate.getDate() + dayOffset)
 
+        const existing = existingFollowUps
+          .filter(
+            (apt) =>
+              !matchedIds.has(apt.id) &&
+              Math.abs(apt.appointmentTime.getTime() - appointmentDate.getTime()) <=
+                FOLLOW_UP_MATCH_WINDOW_DAYS * 24 * 60 * 60 * 1000,
+          )
+          .sort(
+            (a, b) =>
+              Math.abs(a.appointmentTime.getTime() - appointmentDate.getTime()) -
+              Math.abs(b.appointmentTime.getTime() - appointmentDate.getTime()),
+          )[0]
+        if (existing) matchedIds.add(existing.id)
+
         return {
           appointmentNumber: index + 1,
           dayOffset,
           scheduledDate: appointmentDate.toISOString(),
           urgency: this.getAppointmentUrgency(dayOffset, recommendedSchedule.urgencyLevel),
           description: this.getAppointmentDescription(dayOffset, index + 1),
+          existingAppointment: existing
+            ? { id: existing.id, appointmentTime: existing.appointmentTime, status: existing.status }
+            : null,
         }
       })
+      const missingCount = scheduleWithDates.filter((item) => !item.existingAppointment).length
 
       return {
         treatmentId,
@@ -378,10 +819,13 @@ export class FollowUpAppointmentService {
         recommendation: {
           ...recommendedSchedule,
           schedule: scheduleWithDates,
+          scheduledCount: scheduleWithDates.length - missingCount,
+          missingCount,
           createdAt: new Date().toISOString(),
         },
         nextAction: {
-          suggestion: 'Tạo lịch hẹn theo khuyến nghị',
+          suggestion:
+            missingCount > 0 ? 'Tạo lịch hẹn theo khuyến nghị' : 'Đã có đủ lịch hẹn tái khám theo khuyến nghị',
           endpoint: `/patient-treatments/follow-up-appointments/${treatmentId}/multiple`,
           payload: {
             intervalDays: recommendedSchedule.recommendedIntervals,
@@ -0,0 +1,68 @@
+import { Body, Controller, Get, Param, ParseIntPipe, Patch, Put, Query } from '@nestjs/common'
+import { ApiBearerAuth, ApiTags } from '@nestjs/swagger'
+import CustomZodValidationPipe from 'src/common/custom-zod-validate'
+import { AuthType } from 'src/shared/constants/auth.constant'
+import { Role } from 'src/shared/constants/role.constant'
+import { ActiveUser } from 'src/shared/decorators/active-user.decorator'
+import { Auth } from 'src/shared/decorators/auth.decorator'
+import { Roles } from 'src/shared/decorators/roles.decorator'
+import {
+  ApiFindMyReminders,
+  ApiGetReminderPreference,
+  ApiOptOutReminder,
+  ApiUpdateReminderPreference,
+} from 'src/swagger/reminder.swagger'
+import {
+  ReminderPreferenceResponseType,
+  ReminderQueryDto,
+  ReminderQueryType,
+  ReminderResponseType,
+  UpdateReminderPreferenceDto,
+  UpdateReminderPreferenceDtoType,
+} from './reminder.dto'
+import { ReminderService } from './reminder.service'
+
+@ApiTags('Reminders')
+@ApiBearerAuth()
+@Auth([AuthType.Bearer])
+@Controller('reminders')
+export class ReminderController {
+  constructor(private readonly reminderService: ReminderService) {}
+
+  @ApiFindMyReminders()
+  @Roles(Role.Patient)
+  @Get('me')
+  findMyReminders(
+    @Query(new CustomZodValidationPipe(ReminderQueryDto)) query: ReminderQueryType,
+    @ActiveUser('userId') userId: number,
+  ): Promise<ReminderResponseType[]> {
+    return this.reminderService.findMyReminders(userId, query)
+  }
+
+  @ApiGetReminderPreference()
+  @Roles(Role.Patient)
+  @Get('preferences')
+  getReminderPreference(@ActiveUser('userId') userId: number): Promise<ReminderPreferenceResponseType> {
+    return this.reminderService.getReminderPreference(userId)
+  }
+
+  @ApiUpdateReminderPreference()
+  @Roles(Role.Patient)
+  @Put('preferences')
+  updateReminderPreference(
+    @Body(new CustomZodValidationPipe(UpdateReminderPreferenceDto)) body: UpdateReminderPreferenceDtoType,
+    @ActiveUser('userId') userId: number,
+  ): Promise<ReminderPreferenceResponseType> {
+    return this.reminderService.updateReminderPreference(userId, body)
+  }
+
+  @ApiOptOutReminder()
+  @Roles(Role.Patient)
+  @Patch(':id/opt-out')
+  optOutReminder(
+    @Param('id', ParseIntPipe) id: number,
+    @ActiveUser('userId') userId: number,
+  ): Promise<ReminderResponseType> {
+    return this.reminderService.optOutReminder(id, userId)
+  }
+}
@@ -0,0 +1,25 @@
+import { createZodDto } from 'nestjs-zod'
+import { z } from 'zod'
+import {
+  ReminderPreferenceSchema,
+  ReminderQuerySchema,
+  ReminderResSchema,
+  UpdateReminderPreferenceSchema,
+} from './reminder.model'
+
+export class ReminderQueryDto extends createZodDto(ReminderQuerySchema) {
+  static create(data: unknown) {
+    return ReminderQuerySchema.parse(data)
+  }
+}
+
+export class UpdateReminderPreferenceDto extends createZodDto(UpdateReminderPreferenceSchema) {
+  static create(data: unknown) {
+    return UpdateReminderPreferenceSchema.parse(data)
+  }
+}
+
+export type ReminderResponseType = z.infer<typeof ReminderResSchema>
+export type ReminderQueryType = z.infer<typeof ReminderQuerySchema>
+export type ReminderPreferenceResponseType = z.infer<typeof ReminderPreferenceSchema>
+export type UpdateReminderPreferenceDtoType = z.infer<typeof UpdateReminderPreferenceSchema>
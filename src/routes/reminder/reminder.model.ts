@@ -0,0 +1,40 @@
+import { z } from 'zod'
+
+export const ReminderResSchema = z.object({
+  id: z.number(),
+  userId: z.number(),
+  type: z.enum(['MEDICINE', 'APPOINTMENT']),
+  message: z.string(),
+  remindAt: z.date(),
+  isSent: z.boolean(),
+  isCancelled: z.boolean(),
+  appointmentId: z.number().nullable(),
+  patientTreatmentId: z.number().nullable(),
+  scheduleSlot: z.enum(['MORNING', 'AFTERNOON', 'NIGHT']).nullable(),
+  sentAt: z.date().nullable(),
+  createdAt: z.date(),
+})
+
+export const ReminderQuerySchema = z.object({
+  type: z.enum(['MEDICINE', 'APPOINTMENT']).optional(),
+  upcoming: z
+    .enum(['true', 'false'])
+    .transform((value) => value === 'true')
+    .optional(), // chỉ lấy nhắc nhở chưa gửi
+})
+
+// Giờ nhắc uống thuốc theo buổi, định dạng HH:mm (giờ Việt Nam)
+const ReminderTimeSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Time must be in HH:mm format')
+
+export const ReminderPreferenceSchema = z.object({
+  appointmentReminders: z.boolean(),
+  medicineReminders: z.boolean(),
+  morningReminderTime: ReminderTimeSchema,
+  afternoonReminderTime: ReminderTimeSchema,
+  nightReminderTime: ReminderTimeSchema,
+})
+
+export const UpdateReminderPreferenceSchema = ReminderPreferenceSchema.partial().refine(
+  (data) => Object.values(data).some((value) => value !== undefined),
+  { message: 'Nothing to update' },
+)
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common'
+import { ReminderRepository } from '../../repositories/reminder.repository'
+import { EmailService } from '../../shared/services/email.service'
+import { PrismaService } from '../../shared/services/prisma.service'
+import { ReminderController } from './reminder.controller'
+import { ReminderService } from './reminder.service'
+
+@Module({
+  controllers: [ReminderController],
+  providers: [ReminderService, ReminderRepository, PrismaService, EmailService],
+})
+export class ReminderModule {}
@@ -0,0 +1,159 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common'
+import { Cron, CronExpression } from '@nestjs/schedule'
+import { ReminderPreference, ReminderType } from '@prisma/client'
+import { ReminderRepository } from 'src/repositories/reminder.repository'
+import {
+  MAX_REMINDER_ATTEMPTS,
+  MEDICINE_REMINDER_SYNC_BATCH_SIZE,
+  REMINDABLE_APPOINTMENT_STATUSES,
+  REMINDER_CLAIM_MINUTES,
+  REMINDER_DISPATCH_BATCH_SIZE,
+  REMINDER_RETRY_MINUTES,
+} from 'src/shared/constants/reminder.constant'
+import { EmailService } from 'src/shared/services/email.service'
+import { getMedicineReminderTimes } from 'src/shared/utils/medicine-reminder.utils'
+import {
+  ReminderPreferenceResponseType,
+  ReminderQueryType,
+  ReminderResponseType,
+  UpdateReminderPreferenceDtoType,
+} from './reminder.dto'
+
+type DueReminder = Awaited<ReturnType<ReminderRepository['findDueReminders']>>[number]
+
+@Injectable()
+export class ReminderService {
+  private readonly logger = new Logger(ReminderService.name)
+
+  constructor(
+    private readonly reminderRepository: ReminderRepository,
+    private readonly emailService: EmailService,
+  ) {}
+
+  async findMyReminders(userId: number, query: ReminderQueryType): Promise<ReminderResponseType[]> {
+    return this.reminderRepository.findRemindersByUserId(userId, {
+      type: query.type as ReminderType | undefined,
+      upcoming: query.upcoming,
+    })
+  }
+
+  async optOutReminder(id: number, userId: number): Promise<ReminderResponseType> {
+    const reminder = await this.reminderRepository.findReminderById(id)
+    if (!reminder || reminder.userId !== userId) throw new BadRequestException('Reminder not found')
+    if (reminder.isSent) throw new BadRequestException('Reminder has already been sent')
+
+    return this.reminderRepository.updateReminder(id, { isCancelled: true })
+  }
+
+  async getReminderPreference(userId: number): Promise<ReminderPreferenceResponseType> {
+    const preference = await this.reminderRepository.findReminderPreference(userId)
+    return this.toReminderPreference(preference)
+  }
+
+  // Đổi giờ nhắc uống thuốc thì tạo lại các nhắc sắp tới của những đợt điều trị đang diễn ra
+  async updateReminderPreference(
+    userId: number,
+    data: UpdateReminderPreferenceDtoType,
+  ): Promise<ReminderPreferenceResponseType> {
+    const preference = await this.reminderRepository.upsertReminderPreference(userId, data)
+    if (data.morningReminderTime || data.afternoonReminderTime || data.nightReminderTime) {
+      const treatmentIds = await this.reminderRepository.findActiveTreatmentIds({ userId })
+      await this.reminderRepository.syncMedicineReminders(treatmentIds)
+    }
+    return this.toReminderPreference(preference)
+  }
+
+  // Nhắc uống thuốc chỉ được tạo trước vài ngày, mỗi ngày bổ sung tiếp cho các đợt điều trị đang diễn ra
+  @Cron(CronExpression.EVERY_DAY_AT_MIDNIGHT)
+  async syncMedicineReminders(): Promise<void> {
+    let afterId: number | undefined
+    for (;;) {
+      const treatmentIds = await this.reminderRepository.findActiveTreatmentIds({
+        afterId,
+        limit: MEDICINE_REMINDER_SYNC_BATCH_SIZE,
+      })
+      if (treatmentIds.length === 0) return
+
+      try {
+        await this.reminderRepository.syncMedicineReminders(treatmentIds)
+      } catch (error) {
+        this.logger.error(`Failed to sync medicine reminders for treatments ${treatmentIds.join(', ')}`, error)
+      }
+      afterId = treatmentIds[treatmentIds.length - 1]
+    }
+  }
+
+  // Gửi các nhắc nhở đến hạn; gửi lỗi thì thử lại sau REMINDER_RETRY_MINUTES, tối đa MAX_REMINDER_ATTEMPTS lần.
+  // Mỗi nhắc nhở được nhận trước khi gửi nên các lần chạy chồng nhau không gửi trùng
+  @Cron(CronExpression.EVERY_MINUTE)
+  async dispatchDueReminders(): Promise<void> {
+    const now = new Date()
+    const reminders = await this.reminderRepository.findDueReminders(now, REMINDER_DISPATCH_BATCH_SIZE)
+
+    for (const reminder of reminders) {
+      if (!this.shouldSend(reminder, now)) {
+        await this.reminderRepository.updateReminder(reminder.id, { isCancelled: true })
+        continue
+      }
+      const leaseUntil = new Date(Date.now() + REMINDER_CLAIM_MINUTES * 60 * 1000)
+      if (!(await this.reminderRepository.claimReminder(reminder.id, new Date(), leaseUntil))) continue
+
+      try {
+        await this.sendReminder(reminder)
+        await this.reminderRepository.updateReminder(reminder.id, { isSent: true, sentAt: new Date() })
+      } catch (error) {
+        const attempts = reminder.attempts + 1
+        await this.reminderRepository.updateReminder(reminder.id, {
+          attempts,
+          lastError: error instanceof Error ? error.message : String(error),
+          nextAttemptAt: new Date(Date.now() + REMINDER_RETRY_MINUTES * 60 * 1000),
+        })
+        if (attempts >= MAX_REMINDER_ATTEMPTS) {
+          this.logger.error(`Reminder ${reminder.id} failed after ${attempts} attempts`)
+        }
+      }
+    }
+  }
+
+  // Bỏ qua nhắc nhở khi bệnh nhân đã tắt loại nhắc nhở này, hoặc lịch hẹn đã huỷ / đã bắt đầu
+  private shouldSend(reminder: DueReminder, now: Date): boolean {
+    const preference = reminder.user.reminderPreference
+    if (reminder.type === ReminderType.APPOINTMENT) {
+      if (preference && !preference.appointmentReminders) return false
+      if (!reminder.appointment) return false
+      return (
+        REMINDABLE_APPOINTMENT_STATUSES.includes(reminder.appointment.status) &&
+        reminder.appointment.appointmentTime > now
+      )
+    }
+    return !preference || preference.medicineReminders
+  }
+
+  private toReminderPreference(preference: ReminderPreference | null): ReminderPreferenceResponseType {
+    const times = getMedicineReminderTimes(preference)
+    return {
+      appointmentReminders: preference?.appointmentReminders ?? true,
+      medicineReminders: preference?.medicineReminders ?? true,
+      morningReminderTime: times.MORNING,
+      afternoonReminderTime: times.AFTERNOON,
+      nightReminderTime: times.NIGHT,
+    }
+  }
+
+  private async sendReminder(reminder: DueReminder): Promise<void> {
+    if (reminder.appointment) {
+      await this.emailService.sendAppointmentReminderMail({
+        email: reminder.user.email,
+        serviceName: reminder.appointment.service.name,
+        appointmentTime: reminder.appointment.appointmentTime,
+        meetingUrl: reminder.appointment.type === 'ONLINE' ? reminder.appointment.patientMeetingUrl : null,
+      })
+      return
+    }
+    await this.emailService.sendReminderMail({
+      email: reminder.user.email,
+      subject: 'Nhắc nhở uống thuốc',
+      message: reminder.message,
+    })
+  }
+}
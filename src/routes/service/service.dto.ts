@@ -2,6 +2,7 @@ import { createZodDto } from 'nestjs-zod'
 import { z } from 'zod'
 import { ServiceType } from '@prisma/client'
 import { ApiProperty } from '@nestjs/swagger'
+import { ServiceSlotSchema, ServiceSlotsSchema } from './service.model'
 
 export const ServiceSchema = z.object({
   id: z.number(),
@@ -13,6 +14,7 @@ export const ServiceSchema = z.object({
   startTime: z.string(),
   endTime: z.string(),
   duration: z.string(),
+  slots: z.array(ServiceSlotSchema).nullable(),
   imageUrl: z.string(),
   content: z.string(),
   isActive: z.boolean(),
@@ -28,6 +30,7 @@ export const CreateServiceSchema = z.object({
   startTime: z.string().regex(/^([01]\d|2[0-3]):([0-5]\d)$/), // chỉ nhận giờ HH:mm
   endTime: z.string().regex(/^([01]\d|2[0-3]):([0-5]\d)$/), // chỉ nhận giờ HH:mm
   duration: z.string().regex(/^([01]\d|2[0-3]):([0-5]\d)$/), // chỉ nhận giờ HH:mm, optional
+  slots: ServiceSlotsSchema.optional(), // slot đặt lịch riêng của dịch vụ
   imageUrl: z.string().optional(),
   content: z.string(),
   isActive: z.boolean().optional(),
@@ -79,6 +82,17 @@ export class ServiceResponseSwagger {
   @ApiProperty({ example: '01:00', required: false, nullable: true })
   duration?: string | null
 
+  @ApiProperty({
+    example: [
+      { start: '07:00', end: '07:30' },
+      { start: '07:35', end: '08:05' },
+    ],
+    required: false,
+    nullable: true,
+    description: 'Slot đặt lịch của dịch vụ, null nếu dùng slot mặc định',
+  })
+  slots?: { start: string; end: string }[] | null
+
   @ApiProperty({ example: 'https://example.com/image.jpg' })
   imageUrl: string
 
@@ -1,5 +1,23 @@
 import { z } from 'zod'
 import { ServiceType } from '@prisma/client'
+import { compareTimeHHMM } from '../../shared/utils/date.utils'
+
+export const ServiceSlotSchema = z
+  .object({
+    start: z.string().regex(/^([01]\d|2[0-3]):([0-5]\d)$/), // HH:mm
+    end: z.string().regex(/^([01]\d|2[0-3]):([0-5]\d)$/), // HH:mm
+  })
+  .refine((slot) => compareTimeHHMM(slot.start, slot.end) < 0, {
+    message: 'Slot end time must be after start time',
+    path: ['end'],
+  })
+
+export const ServiceSlotsSchema = z
+  .array(ServiceSlotSchema)
+  .max(100)
+  .refine((slots) => new Set(slots.map((slot) => slot.start)).size === slots.length, {
+    message: 'Slot start times must be unique',
+  })
 
 export const ServiceResSchema = z.object({
   id: z.number(),
@@ -12,6 +30,7 @@ export const ServiceResSchema = z.object({
   endTime: z.string(), // trả về string HH:mm
   imageUrl: z.string(),
   duration: z.string(), // có thể null hoặc undefined
+  slots: z.array(ServiceSlotSchema).nullable(), // null = dùng slot mặc định
   content: z.string(),
   isActive: z.boolean(),
   createdAt: z.date(),
@@ -26,6 +45,7 @@ export const CreateServiceReqSchema = z.object({
   startTime: z.string().regex(/^([01]\d|2[0-3]):([0-5]\d)$/), // chỉ nhận giờ HH:mm
   endTime: z.string().regex(/^([01]\d|2[0-3]):([0-5]\d)$/), // chỉ nhận giờ HH:mm
   duration: z.string().regex(/^([01]\d|2[0-3]):([0-5]\d)$/),
+  slots: ServiceSlotsSchema.optional(),
   imageUrl: z.string().optional(),
   content: z.string(),
   isActive: z.boolean().optional(),
@@ -36,3 +56,4 @@ export const UpdateServiceReqSchema = CreateServiceReqSchema.partial()
 export type ServiceResType = z.infer<typeof ServiceResSchema>
 export type CreateServiceReqType = z.infer<typeof CreateServiceReqSchema>
 export type UpdateServiceReqType = z.infer<typeof UpdateServiceReqSchema>
+export type ServiceSlotType = z.infer<typeof ServiceSlotSchema>
@@ -1,6 +1,6 @@
 import { Injectable, NotFoundException } from '@nestjs/common'
 import { ServiceRepository } from '../../repositories/service.repository'
-import { CreateServiceReqType, ServiceResType, UpdateServiceReqType } from './service.model'
+import { CreateServiceReqType, ServiceResType, ServiceSlotType, UpdateServiceReqType } from './service.model'
 import { Service as PrismaServiceModel, ServiceType, Prisma } from '@prisma/client'
 import { slugify } from 'src/shared/utils/slugify.utils'
 import { QueryServiceSchema, QueryServiceType } from './service.query'
@@ -18,6 +18,7 @@ function mapServiceToResponse(service: PrismaServiceModel): ServiceResType {
     startTime: service.startTime,
     endTime: service.endTime,
     duration: service.duration,
+    slots: Array.isArray(service.slots) ? (service.slots as ServiceSlotType[]) : null,
     imageUrl: service.imageUrl,
     content: service.content,
     isActive: service.isActive,
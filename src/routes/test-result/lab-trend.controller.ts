@@ -0,0 +1,24 @@
+import { Controller, Get, Param, ParseIntPipe } from '@nestjs/common'
+import { ApiBearerAuth, ApiTags } from '@nestjs/swagger'
+import { AuthType } from 'src/shared/constants/auth.constant'
+import { Role } from 'src/shared/constants/role.constant'
+import { Auth } from 'src/shared/decorators/auth.decorator'
+import { Roles } from 'src/shared/decorators/roles.decorator'
+import { ApiGetPatientLabTrends } from 'src/swagger/test-result.swagger'
+import { LabTrendsResponseType } from './lab-trend.dto'
+import { LabTrendService } from './lab-trend.service'
+
+@ApiTags('Test Results')
+@ApiBearerAuth()
+@Auth([AuthType.Bearer])
+@Controller('patients')
+export class LabTrendController {
+  constructor(private readonly labTrendService: LabTrendService) {}
+
+  @ApiGetPatientLabTrends()
+  @Roles(Role.Admin, Role.Doctor, Role.Staff)
+  @Get(':id/lab-trends')
+  getLabTrends(@Param('id', ParseIntPipe) id: number): Promise<LabTrendsResponseType> {
+    return this.labTrendService.getLabTrends(id)
+  }
+}
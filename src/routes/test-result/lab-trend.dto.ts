@@ -0,0 +1,12 @@
+import { z } from 'zod'
+import {
+  LabTrendPointSchema,
+  LabTrendsResSchema,
+  TreatmentPeriodSchema,
+  ViralLoadTrendPointSchema,
+} from './lab-trend.model'
+
+export type LabTrendsResponseType = z.infer<typeof LabTrendsResSchema>
+export type LabTrendPointType = z.infer<typeof LabTrendPointSchema>
+export type ViralLoadTrendPointType = z.infer<typeof ViralLoadTrendPointSchema>
+export type TreatmentPeriodType = z.infer<typeof TreatmentPeriodSchema>
@@ -0,0 +1,57 @@
+import { z } from 'zod'
+import { TestResultFlagSchema } from './test-result.model'
+
+export const ViralLoadSuppressionStatusSchema = z.enum([
+  'undetectable',
+  'suppressed',
+  'low-level-viremia',
+  'virologic-failure',
+])
+
+export const LabTrendPointSchema = z.object({
+  testResultId: z.number(),
+  resultDate: z.date(),
+  value: z.number(),
+  unit: z.string().nullable(),
+  patientTreatmentId: z.number(),
+  // Chênh lệch so với lần xét nghiệm trước (null ở lần đầu) và so với lần đầu tiên
+  delta: z.number().nullable(),
+  deltaFromBaseline: z.number(),
+  flag: TestResultFlagSchema.nullable(),
+})
+
+export const ViralLoadTrendPointSchema = LabTrendPointSchema.extend({
+  suppressionStatus: ViralLoadSuppressionStatusSchema,
+  // Tải lượng virus tăng lại trên ngưỡng ức chế sau một lần đã ức chế
+  isRebound: z.boolean(),
+})
+
+export const TreatmentPeriodSchema = z.object({
+  patientTreatmentId: z.number(),
+  protocolId: z.number(),
+  protocolName: z.string(),
+  doctor: z.object({ id: z.number(), name: z.string() }),
+  startDate: z.date(),
+  endDate: z.date().nullable(),
+  isCurrent: z.boolean(),
+  // Số ngày từ đầu đợt điều trị đến lần đầu tải lượng virus dưới ngưỡng ức chế trong đợt
+  timeToSuppressionDays: z.number().nullable(),
+})
+
+export const LabTrendsResSchema = z.object({
+  patient: z.object({ id: z.number(), name: z.string() }),
+  treatmentPeriods: z.array(TreatmentPeriodSchema),
+  cd4: z.object({
+    points: z.array(LabTrendPointSchema),
+    baseline: z.number().nullable(),
+    latest: z.number().nullable(),
+  }),
+  viralLoad: z.object({
+    points: z.array(ViralLoadTrendPointSchema),
+    currentStatus: ViralLoadSuppressionStatusSchema.nullable(),
+    // Tính từ khi bắt đầu đợt điều trị đầu tiên
+    firstSuppressedAt: z.date().nullable(),
+    timeToSuppressionDays: z.number().nullable(),
+    reboundCount: z.number(),
+  }),
+})
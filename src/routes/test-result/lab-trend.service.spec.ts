@@ -0,0 +1,107 @@
+import { Test, TestingModule } from '@nestjs/testing'
+import { TestResultRepository } from '../../repositories/test-result.repository'
+import { LabTrendService } from './lab-trend.service'
+
+describe('LabTrendService', () => {
+  let service: LabTrendService
+  let testResultRepository: Partial<Record<keyof TestResultRepository, jest.Mock>>
+
+  const treatment = (id: number, startDate: string, endDate: string | null) => ({
+    id,
+    protocolId: id * 10,
+    startDate: new Date(startDate),
+    endDate: endDate ? new Date(endDate) : null,
+    protocol: { name: `Phác đồ ${id}` },
+    doctor: { id: 3, user: { name: 'Bác sĩ A' } },
+  })
+
+  const result = (id: number, type: string, resultDate: string, value: number) => ({
+    id,
+    type,
+    value,
+    unit: type === 'CD4' ? 'cells/mm³' : 'copies/mL',
+    referenceRangeLow: type === 'CD4' ? 500 : null,
+    referenceRangeHigh: type === 'CD4' ? 1500 : 200,
+    resultDate: new Date(resultDate),
+    patientTreatmentId: null,
+  })
+
+  beforeEach(async () => {
+    jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] })
+    jest.setSystemTime(new Date('2026-03-01T10:00:00Z'))
+
+    testResultRepository = {
+      findPatientForLabTrends: jest.fn().mockResolvedValue({ id: 5, name: 'Bệnh nhân A' }),
+      findTreatmentPeriods: jest
+        .fn()
+        .mockResolvedValue([
+          treatment(1, '2025-01-01T00:00:00Z', '2025-07-01T00:00:00Z'),
+          treatment(2, '2025-07-01T00:00:00Z', null),
+        ]),
+      findLabTrendResults: jest
+        .fn()
+        .mockResolvedValue([
+          result(1, 'CD4', '2025-01-05T00:00:00Z', 250),
+          result(2, 'HIV_VIRAL_LOAD', '2025-01-05T00:00:00Z', 50000),
+          result(3, 'hiv_viral_load', '2025-03-01T00:00:00Z', 150),
+          result(4, 'CD4', '2025-06-01T00:00:00Z', 420),
+          result(5, 'HIV_VIRAL_LOAD', '2025-06-01T00:00:00Z', 800),
+          result(6, 'HIV_VIRAL_LOAD', '2025-09-01T00:00:00Z', 40),
+        ]),
+    }
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [LabTrendService, { provide: TestResultRepository, useValue: testResultRepository }],
+    }).compile()
+
+    service = module.get<LabTrendService>(LabTrendService)
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  it('should reject unknown patients', async () => {
+    ;(testResultRepository.findPatientForLabTrends as jest.Mock).mockResolvedValue(null)
+
+    await expect(service.getLabTrends(5)).rejects.toThrow('Patient not found')
+  })
+
+  it('should build the CD4 series with deltas from the previous and the first result', async () => {
+    const { cd4 } = await service.getLabTrends(5)
+
+    expect(cd4.points.map((point) => [point.value, point.delta, point.deltaFromBaseline, point.flag])).toEqual([
+      [250, null, 0, 'LOW'],
+      [420, 170, 170, 'LOW'],
+    ])
+    expect(cd4.baseline).toBe(250)
+    expect(cd4.latest).toBe(420)
+  })
+
+  it('should classify viral load results and count rebounds above the suppression threshold', async () => {
+    const { viralLoad } = await service.getLabTrends(5)
+
+    expect(viralLoad.points.map((point) => [point.testResultId, point.suppressionStatus, point.isRebound])).toEqual([
+      [2, 'virologic-failure', false],
+      [3, 'suppressed', false],
+      [5, 'low-level-viremia', true],
+      [6, 'undetectable', false],
+    ])
+    expect(viralLoad.currentStatus).toBe('undetectable')
+    expect(viralLoad.reboundCount).toBe(1)
+    expect(viralLoad.firstSuppressedAt).toEqual(new Date('2025-03-01T00:00:00Z'))
+    expect(viralLoad.timeToSuppressionDays).toBe(59)
+  })
+
+  it('should measure the time to suppression within each treatment period', async () => {
+    const { treatmentPeriods } = await service.getLabTrends(5)
+
+    expect(
+      treatmentPeriods.map((period) => [period.patientTreatmentId, period.isCurrent, period.timeToSuppressionDays]),
+    ).toEqual([
+      [1, false, 59],
+      [2, true, 62],
+    ])
+    expect(treatmentPeriods[1].doctor).toEqual({ id: 3, name: 'Bác sĩ A' })
+  })
+})
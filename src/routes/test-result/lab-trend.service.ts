@@ -0,0 +1,112 @@
+import { BadRequestException, Injectable } from '@nestjs/common'
+import { TestType } from '@prisma/client'
+import { TestResultRepository } from 'src/repositories/test-result.repository'
+import { VIRAL_LOAD_SUPPRESSED_THRESHOLD } from 'src/shared/constants/test-result.constant'
+import { classifyViralLoad, getTestResultFlag } from 'src/shared/utils/test-result.utils'
+import { LabTrendPointType, LabTrendsResponseType, TreatmentPeriodType, ViralLoadTrendPointType } from './lab-trend.dto'
+
+type LabResult = Awaited<ReturnType<TestResultRepository['findLabTrendResults']>>[number]
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+@Injectable()
+export class LabTrendService {
+  constructor(private readonly testResultRepository: TestResultRepository) {}
+
+  // Chuỗi CD4 và tải lượng virus theo thời gian, kèm các đợt điều trị để vẽ biểu đồ
+  async getLabTrends(patientId: number): Promise<LabTrendsResponseType> {
+    const [patient, treatments, results] = await Promise.all([
+      this.testResultRepository.findPatientForLabTrends(patientId),
+      this.testResultRepository.findTreatmentPeriods(patientId),
+      this.testResultRepository.findLabTrendResults(patientId),
+    ])
+    if (!patient) throw new BadRequestException('Patient not found')
+
+    const cd4Points = this.buildPoints(results.filter((result) => this.isType(result, TestType.CD4)))
+    const viralLoadPoints = this.buildPoints(
+      results.filter((result) => this.isType(result, TestType.HIV_VIRAL_LOAD)),
+    ).map((point, index, points): ViralLoadTrendPointType => {
+      const previous = points[index - 1]
+      return {
+        ...point,
+        suppressionStatus: classifyViralLoad(point.value),
+        isRebound:
+          !!previous &&
+          previous.value < VIRAL_LOAD_SUPPRESSED_THRESHOLD &&
+          point.value >= VIRAL_LOAD_SUPPRESSED_THRESHOLD,
+      }
+    })
+
+    const now = new Date()
+    const treatmentPeriods: TreatmentPeriodType[] = treatments.map((treatment) => {
+      const suppressedAt = this.findFirstSuppressedAt(viralLoadPoints, treatment.startDate, treatment.endDate)
+      return {
+        patientTreatmentId: treatment.id,
+        protocolId: treatment.protocolId,
+        protocolName: treatment.protocol.name,
+        doctor: { id: treatment.doctor.id, name: treatment.doctor.user.name },
+        startDate: treatment.startDate,
+        endDate: treatment.endDate,
+        isCurrent: treatment.startDate <= now && (!treatment.endDate || treatment.endDate > now),
+        timeToSuppressionDays: suppressedAt ? this.daysBetween(treatment.startDate, suppressedAt) : null,
+      }
+    })
+
+    const firstStartDate = treatments[0]?.startDate
+    const firstSuppressedAt = firstStartDate ? this.findFirstSuppressedAt(viralLoadPoints, firstStartDate, null) : null
+
+    return {
+      patient,
+      treatmentPeriods,
+      cd4: {
+        points: cd4Points,
+        baseline: cd4Points[0]?.value ?? null,
+        latest: cd4Points.at(-1)?.value ?? null,
+      },
+      viralLoad: {
+        points: viralLoadPoints,
+        currentStatus: viralLoadPoints.at(-1)?.suppressionStatus ?? null,
+        firstSuppressedAt,
+        timeToSuppressionDays:
+          firstStartDate && firstSuppressedAt ? this.daysBetween(firstStartDate, firstSuppressedAt) : null,
+        reboundCount: viralLoadPoints.filter((point) => point.isRebound).length,
+      },
+    }
+  }
+
+  private isType(result: LabResult, type: TestType): boolean {
+    return result.type.trim().toUpperCase() === type
+  }
+
+  // Kết quả đã sắp xếp cũ nhất trước; chênh lệch tính theo lần trước và lần đầu tiên
+  private buildPoints(results: LabResult[]): LabTrendPointType[] {
+    const baseline = results[0]?.value ?? 0
+    return results.map((result, index) => {
+      const value = result.value!
+      const previous = results[index - 1]
+      return {
+        testResultId: result.id,
+        resultDate: result.resultDate,
+        value,
+        unit: result.unit,
+        patientTreatmentId: result.patientTreatmentId,
+        delta: previous ? value - previous.value! : null,
+        deltaFromBaseline: value - baseline,
+        flag: getTestResultFlag(result),
+      }
+    })
+  }
+
+  // Lần đầu tải lượng virus dưới ngưỡng ức chế trong khoảng [from, to)
+  private findFirstSuppressedAt(points: ViralLoadTrendPointType[], from: Date, to: Date | null): Date | null {
+    const point = points.find(
+      (point) =>
+        point.resultDate >= from && (!to || point.resultDate < to) && point.value < VIRAL_LOAD_SUPPRESSED_THRESHOLD,
+    )
+    return point?.resultDate ?? null
+  }
+
+  private daysBetween(from: Date, to: Date): number {
+    return Math.floor((to.getTime() - from.getTime()) / DAY_MS)
+  }
+}
@@ -0,0 +1,100 @@
+import { Body, Controller, Delete, Get, Param, ParseIntPipe, Post, Put, Query } from '@nestjs/common'
+import { ApiBearerAuth, ApiTags } from '@nestjs/swagger'
+import CustomZodValidationPipe from 'src/common/custom-zod-validate'
+import { AuthType } from 'src/shared/constants/auth.constant'
+import { Role } from 'src/shared/constants/role.constant'
+import { ActiveUser } from 'src/shared/decorators/active-user.decorator'
+import { Auth } from 'src/shared/decorators/auth.decorator'
+import { Roles } from 'src/shared/decorators/roles.decorator'
+import { PaginatedResponse } from 'src/shared/schemas/pagination.schema'
+import {
+  ApiCreateTestResult,
+  ApiDeleteTestResult,
+  ApiFindMyTestResults,
+  ApiFindPatientTestResults,
+  ApiFindTestResultById,
+  ApiFindTestResults,
+  ApiUpdateTestResult,
+} from 'src/swagger/test-result.swagger'
+import {
+  CreateTestResultDto,
+  CreateTestResultDtoType,
+  TestResultHistoryQueryDto,
+  TestResultHistoryQueryType,
+  TestResultQueryDto,
+  TestResultQueryType,
+  TestResultResponseType,
+  UpdateTestResultDto,
+  UpdateTestResultDtoType,
+} from './test-result.dto'
+import { TestResultService } from './test-result.service'
+
+@ApiTags('Test Results')
+@ApiBearerAuth()
+@Auth([AuthType.Bearer])
+@Controller('test-results')
+export class TestResultController {
+  constructor(private readonly testResultService: TestResultService) {}
+
+  @ApiCreateTestResult()
+  @Roles(Role.Admin, Role.Doctor, Role.Staff)
+  @Post()
+  createTestResult(
+    @Body(new CustomZodValidationPipe(CreateTestResultDto)) body: CreateTestResultDtoType,
+  ): Promise<TestResultResponseType> {
+    return this.testResultService.createTestResult(body)
+  }
+
+  @ApiFindTestResults()
+  @Roles(Role.Admin, Role.Doctor, Role.Staff)
+  @Get()
+  findTestResults(
+    @Query(new CustomZodValidationPipe(TestResultQueryDto)) query: TestResultQueryType,
+  ): Promise<PaginatedResponse<TestResultResponseType>> {
+    return this.testResultService.findTestResults(query)
+  }
+
+  @ApiFindMyTestResults()
+  @Roles(Role.Patient)
+  @Get('me')
+  findMyTestResults(
+    @Query(new CustomZodValidationPipe(TestResultHistoryQueryDto)) query: TestResultHistoryQueryType,
+    @ActiveUser('userId') userId: number,
+  ): Promise<TestResultResponseType[]> {
+    return this.testResultService.getPatientHistory(userId, query)
+  }
+
+  @ApiFindPatientTestResults()
+  @Roles(Role.Admin, Role.Doctor, Role.Staff)
+  @Get('patients/:patientId')
+  findPatientTestResults(
+    @Param('patientId', ParseIntPipe) patientId: number,
+    @Query(new CustomZodValidationPipe(TestResultHistoryQueryDto)) query: TestResultHistoryQueryType,
+  ): Promise<TestResultResponseType[]> {
+    return this.testResultService.getPatientHistory(patientId, query)
+  }
+
+  @ApiFindTestResultById()
+  @Roles(Role.Admin, Role.Doctor, Role.Staff)
+  @Get(':id')
+  findTestResultById(@Param('id', ParseIntPipe) id: number): Promise<TestResultResponseType> {
+    return this.testResultService.findTestResultById(id)
+  }
+
+  @ApiUpdateTestResult()
+  @Roles(Role.Admin, Role.Doctor, Role.Staff)
+  @Put(':id')
+  updateTestResult(
+    @Param('id', ParseIntPipe) id: number,
+    @Body(new CustomZodValidationPipe(UpdateTestResultDto)) body: UpdateTestResultDtoType,
+  ): Promise<TestResultResponseType> {
+    return this.testResultService.updateTestResult(id, body)
+  }
+
+  @ApiDeleteTestResult()
+  @Roles(Role.Admin, Role.Doctor, Role.Staff)
+  @Delete(':id')
+  deleteTestResult(@Param('id', ParseIntPipe) id: number): Promise<TestResultResponseType> {
+    return this.testResultService.deleteTestResult(id)
+  }
+}
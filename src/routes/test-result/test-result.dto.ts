@@ -0,0 +1,39 @@
+import { createZodDto } from 'nestjs-zod'
+import { z } from 'zod'
+import {
+  CreateTestResultSchema,
+  TestResultHistoryQuerySchema,
+  TestResultQuerySchema,
+  TestResultResSchema,
+  UpdateTestResultSchema,
+} from './test-result.model'
+
+export class CreateTestResultDto extends createZodDto(CreateTestResultSchema) {
+  static create(data: unknown) {
+    return CreateTestResultSchema.parse(data)
+  }
+}
+
+export class UpdateTestResultDto extends createZodDto(UpdateTestResultSchema) {
+  static create(data: unknown) {
+    return UpdateTestResultSchema.parse(data)
+  }
+}
+
+export class TestResultQueryDto extends createZodDto(TestResultQuerySchema) {
+  static create(data: unknown) {
+    return TestResultQuerySchema.parse(data)
+  }
+}
+
+export class TestResultHistoryQueryDto extends createZodDto(TestResultHistoryQuerySchema) {
+  static create(data: unknown) {
+    return TestResultHistoryQuerySchema.parse(data)
+  }
+}
+
+export type TestResultResponseType = z.infer<typeof TestResultResSchema>
+export type CreateTestResultDtoType = z.infer<typeof CreateTestResultSchema>
+export type UpdateTestResultDtoType = z.infer<typeof UpdateTestResultSchema>
+export type TestResultQueryType = z.infer<typeof TestResultQuerySchema>
+export type TestResultHistoryQueryType = z.infer<typeof TestResultHistoryQuerySchema>
@@ -0,0 +1,106 @@
+import { z } from 'zod'
+
+const dateOnlySchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, { message: 'Date must be in YYYY-MM-DD format' })
+const dateTimeSchema = z.preprocess(
+  (val) => (typeof val === 'string' || val instanceof Date ? new Date(val) : val),
+  z.date(),
+)
+
+export const TestResultFlagSchema = z.enum(['LOW', 'NORMAL', 'HIGH'])
+
+export const TestResultResSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  type: z.string(),
+  result: z.string(),
+  value: z.number().nullable(),
+  unit: z.string().nullable(),
+  referenceRangeLow: z.number().nullable(),
+  referenceRangeHigh: z.number().nullable(),
+  // So với khoảng tham chiếu, null khi không có giá trị hoặc khoảng tham chiếu
+  flag: TestResultFlagSchema.nullable(),
+  price: z.number(),
+  description: z.string().nullable(),
+  resultDate: z.date(),
+  userId: z.number(),
+  doctorId: z.number(),
+  patientTreatmentId: z.number(),
+  appointmentId: z.number().nullable(),
+  user: z.object({ id: z.number(), name: z.string() }),
+  doctor: z.object({ id: z.number(), name: z.string() }),
+  appointment: z
+    .object({
+      id: z.number(),
+      appointmentTime: z.date(),
+      service: z.object({ id: z.number(), name: z.string() }),
+    })
+    .nullable(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+})
+
+const isReferenceRangeValid = (data: { referenceRangeLow?: number | null; referenceRangeHigh?: number | null }) =>
+  data.referenceRangeLow == null || data.referenceRangeHigh == null || data.referenceRangeLow <= data.referenceRangeHigh
+const referenceRangeError = {
+  message: 'Reference range low must not be greater than high',
+  path: ['referenceRangeHigh'],
+}
+
+export const CreateTestResultSchema = z
+  .object({
+    patientTreatmentId: z.number().int().positive(),
+    // Lịch hẹn xét nghiệm đã lấy mẫu (tuỳ chọn)
+    appointmentId: z.number().int().positive().optional(),
+    // Mặc định là bác sĩ điều trị của phác đồ
+    doctorId: z.number().int().positive().optional(),
+    name: z.string().trim().min(1).max(500),
+    type: z.string().trim().min(1).max(100),
+    value: z.number().optional(),
+    unit: z.string().trim().min(1).max(50).optional(),
+    referenceRangeLow: z.number().optional(),
+    referenceRangeHigh: z.number().optional(),
+    // Mặc định là giá trị kèm đơn vị
+    result: z.string().trim().min(1).optional(),
+    // Mặc định là giá dịch vụ của lịch hẹn xét nghiệm
+    price: z.number().min(0).optional(),
+    description: z.string().optional(),
+    resultDate: dateTimeSchema,
+  })
+  .refine((data) => data.value !== undefined || data.result !== undefined, {
+    message: 'Either value or result is required',
+    path: ['value'],
+  })
+  .refine(isReferenceRangeValid, referenceRangeError)
+
+export const UpdateTestResultSchema = z
+  .object({
+    appointmentId: z.number().int().positive().nullable(),
+    doctorId: z.number().int().positive(),
+    name: z.string().trim().min(1).max(500),
+    type: z.string().trim().min(1).max(100),
+    value: z.number().nullable(),
+    unit: z.string().trim().min(1).max(50).nullable(),
+    referenceRangeLow: z.number().nullable(),
+    referenceRangeHigh: z.number().nullable(),
+    result: z.string().trim().min(1),
+    price: z.number().min(0),
+    description: z.string().nullable(),
+    resultDate: dateTimeSchema,
+  })
+  .partial()
+  .refine((data) => Object.keys(data).length > 0, { message: 'Nothing to update' })
+  .refine(isReferenceRangeValid, referenceRangeError)
+
+export const TestResultQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(10),
+  patientId: z.coerce.number().int().positive().optional(),
+  patientTreatmentId: z.coerce.number().int().positive().optional(),
+  type: z.string().trim().min(1).optional(),
+  fromDate: dateOnlySchema.optional(),
+  toDate: dateOnlySchema.optional(),
+})
+
+export const TestResultHistoryQuerySchema = z.object({
+  type: z.string().trim().min(1).optional(),
+})
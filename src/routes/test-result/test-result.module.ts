@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common'
+import { TestResultRepository } from '../../repositories/test-result.repository'
+import { PrismaService } from '../../shared/services/prisma.service'
+import { LabTrendController } from './lab-trend.controller'
+import { LabTrendService } from './lab-trend.service'
+import { TestResultController } from './test-result.controller'
+import { TestResultService } from './test-result.service'
+
+@Module({
+  controllers: [TestResultController, LabTrendController],
+  providers: [TestResultService, LabTrendService, TestResultRepository, PrismaService],
+})
+export class TestResultModule {}
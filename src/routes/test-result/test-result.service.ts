@@ -0,0 +1,147 @@
+import { BadRequestException, Injectable } from '@nestjs/common'
+import { Prisma, ServiceType } from '@prisma/client'
+import {
+  TestResultRepository,
+  TestResultWithRelations,
+  testResultInclude,
+} from 'src/repositories/test-result.repository'
+import { MAX_TEST_RESULT_HISTORY } from 'src/shared/constants/test-result.constant'
+import { PaginatedResponse } from 'src/shared/schemas/pagination.schema'
+import { PaginationService } from 'src/shared/services/pagination.service'
+import { getDefaultTestResultReference, getTestResultFlag } from 'src/shared/utils/test-result.utils'
+import {
+  CreateTestResultDtoType,
+  TestResultHistoryQueryType,
+  TestResultQueryType,
+  TestResultResponseType,
+  UpdateTestResultDtoType,
+} from './test-result.dto'
+
+@Injectable()
+export class TestResultService {
+  constructor(
+    private readonly testResultRepository: TestResultRepository,
+    private readonly paginationService: PaginationService,
+  ) {}
+
+  // Bệnh nhân lấy theo phác đồ; đơn vị, khoảng tham chiếu và kết quả dạng chữ được điền mặc định nếu bỏ trống
+  async createTestResult(data: CreateTestResultDtoType): Promise<TestResultResponseType> {
+    const { patientTreatmentId, appointmentId, doctorId, ...fields } = data
+    const treatment = await this.testResultRepository.findTreatmentForTestResult(patientTreatmentId)
+    if (!treatment) throw new BadRequestException('Patient treatment not found')
+    if (doctorId) await this.ensureDoctorExists(doctorId)
+    const appointment = appointmentId ? await this.findTestAppointment(appointmentId, treatment.patientId) : null
+
+    const reference = getDefaultTestResultReference(fields.type)
+    const useDefaultRange = fields.referenceRangeLow === undefined && fields.referenceRangeHigh === undefined
+    const unit = fields.unit ?? reference?.unit
+    const testResult = await this.testResultRepository.createTestResult({
+      ...fields,
+      unit,
+      referenceRangeLow: useDefaultRange ? reference?.referenceRangeLow : fields.referenceRangeLow,
+      referenceRangeHigh: useDefaultRange ? reference?.referenceRangeHigh : fields.referenceRangeHigh,
+      result: fields.result ?? this.formatResult(fields.value!, unit),
+      price: fields.price ?? (appointment ? Number(appointment.service.price) : 0),
+      userId: treatment.patientId,
+      doctorId: doctorId ?? treatment.doctorId,
+      patientTreatmentId,
+      appointmentId,
+    })
+    return this.toTestResult(testResult)
+  }
+
+  async findTestResults(query: TestResultQueryType): Promise<PaginatedResponse<TestResultResponseType>> {
+    const where: Prisma.TestResultWhereInput = {
+      ...(query.patientId && { userId: query.patientId }),
+      ...(query.patientTreatmentId && { patientTreatmentId: query.patientTreatmentId }),
+      ...(query.type && { type: { equals: query.type, mode: 'insensitive' } }),
+      ...((query.fromDate || query.toDate) && {
+        resultDate: {
+          ...(query.fromDate && { gte: new Date(`${query.fromDate}T00:00:00+07:00`) }),
+          ...(query.toDate && { lte: new Date(`${query.toDate}T23:59:59+07:00`) }),
+        },
+      }),
+    }
+    const result = await this.paginationService.paginate<TestResultWithRelations>(
+      this.testResultRepository.getTestResultModel(),
+      { page: query.page, limit: query.limit, sortBy: 'resultDate', sortOrder: 'desc' },
+      where,
+      testResultInclude,
+    )
+    return { data: result.data.map((testResult) => this.toTestResult(testResult)), meta: result.meta }
+  }
+
+  // Lịch sử xét nghiệm của bệnh nhân, mới nhất trước
+  async getPatientHistory(patientId: number, query: TestResultHistoryQueryType): Promise<TestResultResponseType[]> {
+    const testResults = await this.testResultRepository.findTestResults(
+      { userId: patientId, ...(query.type && { type: { equals: query.type, mode: 'insensitive' } }) },
+      MAX_TEST_RESULT_HISTORY,
+    )
+    return testResults.map((testResult) => this.toTestResult(testResult))
+  }
+
+  async findTestResultById(id: number): Promise<TestResultResponseType> {
+    return this.toTestResult(await this.findTestResultRecord(id))
+  }
+
+  // Sửa giá trị mà không nhập lại kết quả dạng chữ thì kết quả được cập nhật theo giá trị mới
+  async updateTestResult(id: number, data: UpdateTestResultDtoType): Promise<TestResultResponseType> {
+    const existed = await this.findTestResultRecord(id)
+    if (data.doctorId) await this.ensureDoctorExists(data.doctorId)
+    if (data.appointmentId) await this.findTestAppointment(data.appointmentId, existed.userId)
+
+    const referenceRangeLow = data.referenceRangeLow === undefined ? existed.referenceRangeLow : data.referenceRangeLow
+    const referenceRangeHigh =
+      data.referenceRangeHigh === undefined ? existed.referenceRangeHigh : data.referenceRangeHigh
+    if (referenceRangeLow !== null && referenceRangeHigh !== null && referenceRangeLow > referenceRangeHigh) {
+      throw new BadRequestException('Reference range low must not be greater than high')
+    }
+
+    const value = data.value === undefined ? existed.value : data.value
+    const unit = data.unit === undefined ? existed.unit : data.unit
+    const valueChanged = data.value !== undefined || data.unit !== undefined
+    const testResult = await this.testResultRepository.updateTestResult(id, {
+      ...data,
+      result: data.result ?? (valueChanged && value !== null ? this.formatResult(value, unit) : undefined),
+    })
+    return this.toTestResult(testResult)
+  }
+
+  async deleteTestResult(id: number): Promise<TestResultResponseType> {
+    await this.findTestResultRecord(id)
+    return this.toTestResult(await this.testResultRepository.deleteTestResult(id))
+  }
+
+  private async findTestResultRecord(id: number): Promise<TestResultWithRelations> {
+    const testResult = await this.testResultRepository.findTestResultById(id)
+    if (!testResult) throw new BadRequestException('Test result not found')
+    return testResult
+  }
+
+  private async ensureDoctorExists(doctorId: number): Promise<void> {
+    const doctor = await this.testResultRepository.findDoctorForTestResult(doctorId)
+    if (!doctor) throw new BadRequestException('Doctor not found')
+  }
+
+  // Lịch hẹn phải của chính bệnh nhân và thuộc dịch vụ xét nghiệm
+  private async findTestAppointment(appointmentId: number, patientId: number) {
+    const appointment = await this.testResultRepository.findAppointmentForTestResult(appointmentId)
+    if (!appointment || appointment.userId !== patientId) throw new BadRequestException('Appointment not found')
+    if (appointment.service.type !== ServiceType.TEST) {
+      throw new BadRequestException('Appointment is not for a test service')
+    }
+    return appointment
+  }
+
+  private formatResult(value: number, unit?: string | null): string {
+    return unit ? `${value} ${unit}` : String(value)
+  }
+
+  private toTestResult({ doctor, ...testResult }: TestResultWithRelations): TestResultResponseType {
+    return {
+      ...testResult,
+      flag: getTestResultFlag(testResult),
+      doctor: { id: doctor.id, name: doctor.user.name },
+    }
+  }
+}
@@ -32,6 +32,8 @@ const configSchema = z.object({
   GOOGLE_CLIENT_REDIRECT_URI: z.string().optional(),
   APP_NAME: z.string().optional(),
   PREFIX_STATIC_ENDPOINT: z.string().optional(),
+  APP_URL: z.string().optional(),
+  FRONTEND_URL: z.string().optional(),
 })
 
 const configServer = configSchema.safeParse(process.env)
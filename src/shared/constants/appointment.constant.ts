@@ -0,0 +1,156 @@
+import { AppointmentStatus, ServiceType } from '@prisma/client'
+import { Role } from './role.constant'
+
+export interface AppointmentStatusTransition {
+  from: AppointmentStatus
+  to: AppointmentStatus
+  roles: Role[]
+}
+
+// Luồng trạng thái hợp lệ của lịch hẹn:
+// PENDING → CONFIRMED → CHECKIN → PAID → PROCESS → COMPLETED
+// CANCELLED chỉ được phép từ PENDING, CONFIRMED hoặc CHECKIN
+// NO_SHOW: bệnh nhân không check-in trước khi slot kết thúc (tự động hoặc do nhân viên đánh dấu)
+export const APPOINTMENT_STATUS_TRANSITIONS: AppointmentStatusTransition[] = [
+  { from: AppointmentStatus.PENDING, to: AppointmentStatus.CONFIRMED, roles: [Role.Admin, Role.Staff] },
+  { from: AppointmentStatus.CONFIRMED, to: AppointmentStatus.CHECKIN, roles: [Role.Admin, Role.Staff] },
+  { from: AppointmentStatus.CHECKIN, to: AppointmentStatus.PAID, roles: [Role.Admin, Role.Staff] },
+  { from: AppointmentStatus.PAID, to: AppointmentStatus.PROCESS, roles: [Role.Admin, Role.Staff, Role.Doctor] },
+  { from: AppointmentStatus.PROCESS, to: AppointmentStatus.COMPLETED, roles: [Role.Admin, Role.Doctor] },
+  {
+    from: AppointmentStatus.PENDING,
+    to: AppointmentStatus.CANCELLED,
+    roles: [Role.Admin, Role.Staff, Role.Doctor, Role.Patient],
+  },
+  {
+    from: AppointmentStatus.CONFIRMED,
+    to: AppointmentStatus.CANCELLED,
+    roles: [Role.Admin, Role.Staff, Role.Doctor, Role.Patient],
+  },
+  { from: AppointmentStatus.CHECKIN, to: AppointmentStatus.CANCELLED, roles: [Role.Admin, Role.Staff] },
+  { from: AppointmentStatus.PENDING, to: AppointmentStatus.NO_SHOW, roles: [Role.Admin, Role.Staff] },
+  { from: AppointmentStatus.CONFIRMED, to: AppointmentStatus.NO_SHOW, roles: [Role.Admin, Role.Staff] },
+]
+
+export function findAppointmentStatusTransition(
+  from: AppointmentStatus,
+  to: AppointmentStatus,
+): AppointmentStatusTransition | undefined {
+  return APPOINTMENT_STATUS_TRANSITIONS.find((transition) => transition.from === from && transition.to === to)
+}
+
+export function getNextAppointmentStatuses(from: AppointmentStatus): AppointmentStatus[] {
+  return APPOINTMENT_STATUS_TRANSITIONS.filter((transition) => transition.from === from).map(
+    (transition) => transition.to,
+  )
+}
+
+// Các trạng thái lịch hẹn vẫn đang giữ slot của bác sĩ
+export const SLOT_BLOCKING_APPOINTMENT_STATUSES: AppointmentStatus[] = [
+  AppointmentStatus.PENDING,
+  AppointmentStatus.CONFIRMED,
+  AppointmentStatus.CHECKIN,
+  AppointmentStatus.PAID,
+  AppointmentStatus.PROCESS,
+]
+
+// Các trạng thái lịch hẹn được đưa vào lịch .ics của bác sĩ
+export const CALENDAR_APPOINTMENT_STATUSES: AppointmentStatus[] = [
+  ...SLOT_BLOCKING_APPOINTMENT_STATUSES,
+  AppointmentStatus.COMPLETED,
+]
+
+export interface AppointmentSlot {
+  start: string // HH:mm
+  end: string // HH:mm
+}
+
+// Slot mặc định khi dịch vụ chưa cấu hình slot riêng (Service.slots)
+export const DEFAULT_APPOINTMENT_SLOTS: AppointmentSlot[] = [
+  { start: '07:00', end: '07:30' },
+  { start: '07:35', end: '08:05' },
+  { start: '08:10', end: '08:40' },
+  { start: '08:45', end: '09:15' },
+  { start: '09:20', end: '09:50' },
+  { start: '09:55', end: '10:25' },
+  { start: '10:30', end: '11:00' },
+  { start: '13:00', end: '13:30' },
+  { start: '13:35', end: '14:05' },
+  { start: '14:10', end: '14:40' },
+  { start: '14:45', end: '15:15' },
+  { start: '15:20', end: '15:50' },
+  { start: '15:55', end: '16:25' },
+  { start: '16:30', end: '17:00' },
+]
+
+// Độ dài slot dùng khi không tìm được slot cấu hình cho lịch hẹn
+export const DEFAULT_SLOT_MINUTES = 30
+
+// Số ngày tối đa được tra cứu slot trống trong một lần gọi
+export const MAX_AVAILABILITY_RANGE_DAYS = 14
+
+// Số slot trống gần nhất của bác sĩ mong muốn được gợi ý khi bác sĩ không rảnh (doctorFallback = SUGGEST)
+export const PREFERRED_DOCTOR_SUGGESTION_LIMIT = 5
+
+// Thời gian giữ chỗ một slot trong lúc bệnh nhân điền form đặt lịch
+export const APPOINTMENT_HOLD_MINUTES = 5
+
+// Quy định dời lịch hẹn
+export const RESCHEDULABLE_APPOINTMENT_STATUSES: AppointmentStatus[] = [
+  AppointmentStatus.PENDING,
+  AppointmentStatus.CONFIRMED,
+]
+export const MAX_APPOINTMENT_RESCHEDULES = 2
+export const APPOINTMENT_RESCHEDULE_CUTOFF_HOURS = 2
+
+export interface AppointmentCancellationPolicy {
+  serviceType: ServiceType
+  minNoticeHours: number
+  allowLateCancel: boolean
+  refundable: boolean
+  lateCancelRefundable: boolean
+}
+
+// Chính sách huỷ lịch mặc định khi loại dịch vụ chưa được cấu hình
+export const DEFAULT_CANCELLATION_POLICIES: Record<ServiceType, AppointmentCancellationPolicy> = {
+  [ServiceType.CONSULT]: {
+    serviceType: ServiceType.CONSULT,
+    minNoticeHours: 2,
+    allowLateCancel: true,
+    refundable: true,
+    lateCancelRefundable: false,
+  },
+  [ServiceType.TEST]: {
+    serviceType: ServiceType.TEST,
+    minNoticeHours: 12,
+    allowLateCancel: true,
+    refundable: true,
+    lateCancelRefundable: false,
+  },
+  [ServiceType.TREATMENT]: {
+    serviceType: ServiceType.TREATMENT,
+    minNoticeHours: 24,
+    allowLateCancel: false,
+    refundable: true,
+    lateCancelRefundable: false,
+  },
+}
+
+// Lịch hẹn còn ở các trạng thái này khi slot đã kết thúc sẽ bị đánh dấu NO_SHOW
+export const NO_SHOW_CANDIDATE_STATUSES: AppointmentStatus[] = [AppointmentStatus.PENDING, AppointmentStatus.CONFIRMED]
+
+// Job chỉ xét lịch hẹn bắt đầu trong khoảng này, lịch hẹn cũ hơn để nhân viên tự xử lý
+// (tránh đánh dấu hàng loạt lịch hẹn lịch sử và làm sai thống kê chuyên cần)
+export const NO_SHOW_LOOKBACK_HOURS = 48
+
+// Danh sách chờ
+export const MAX_WAITLIST_WINDOW_DAYS = 14
+export const WAITLIST_OFFER_MINUTES = 30
+
+// Chuỗi lịch hẹn lặp lại
+export const MAX_SERIES_OCCURRENCES = 24
+export const MIN_SERIES_INTERVAL_DAYS = 7
+export const MAX_SERIES_INTERVAL_DAYS = 365
+
+// Lịch tái khám cách ngày khuyến nghị trong khoảng này được coi là đã đáp ứng lần tái khám đó
+export const FOLLOW_UP_MATCH_WINDOW_DAYS = 14
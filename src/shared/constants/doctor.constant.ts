@@ -0,0 +1,52 @@
+import { DayOfWeek, Shift } from '@prisma/client'
+import { AppointmentSlot } from './appointment.constant'
+
+// Số ngày tối đa của một đơn xin nghỉ
+export const MAX_TIME_OFF_DAYS = 30
+
+// Đơn xin nghỉ không khai báo ca thì được hiểu là nghỉ cả ngày
+export const DEFAULT_TIME_OFF_SHIFTS: Shift[] = [Shift.MORNING, Shift.AFTERNOON]
+
+// Ca làm việc trong tuần được xếp lịch: thứ 2 - thứ 6 hai ca, thứ 7 chỉ ca sáng
+export const ROSTER_SHIFTS_BY_DAY: Partial<Record<DayOfWeek, Shift[]>> = {
+  [DayOfWeek.MONDAY]: [Shift.MORNING, Shift.AFTERNOON],
+  [DayOfWeek.TUESDAY]: [Shift.MORNING, Shift.AFTERNOON],
+  [DayOfWeek.WEDNESDAY]: [Shift.MORNING, Shift.AFTERNOON],
+  [DayOfWeek.THURSDAY]: [Shift.MORNING, Shift.AFTERNOON],
+  [DayOfWeek.FRIDAY]: [Shift.MORNING, Shift.AFTERNOON],
+  [DayOfWeek.SATURDAY]: [Shift.MORNING],
+}
+
+// Ràng buộc mặc định của bộ xếp lịch
+export const DEFAULT_MAX_SHIFTS_PER_WEEK = 6
+
+// Số tuần trước đó dùng để cân bằng tải giữa các bác sĩ
+export const ROSTER_HISTORY_WEEKS = 4
+
+// Trọng số chấm điểm khi chọn bác sĩ cho một ca (điểm thấp được ưu tiên)
+export const ROSTER_SCORE_WEIGHTS = {
+  assignedThisWeek: 10,
+  recentWeeklyLoad: 2,
+  avoidedShift: 15,
+  preferredShift: -8,
+}
+
+// Giờ làm việc của từng ca (giờ Việt Nam), khớp với slot đặt lịch mặc định
+export const SHIFT_TIME_RANGES: Record<Shift, AppointmentSlot> = {
+  [Shift.MORNING]: { start: '07:00', end: '11:00' },
+  [Shift.AFTERNOON]: { start: '13:00', end: '17:00' },
+}
+
+// Tên ca hiển thị trong lịch và email
+export const SHIFT_LABELS: Record<Shift, string> = { [Shift.MORNING]: 'Ca sáng', [Shift.AFTERNOON]: 'Ca chiều' }
+
+// Khoảng thời gian mặc định của lịch xuất ra file .ics, tính từ hôm nay
+export const CALENDAR_EXPORT_PAST_DAYS = 30
+export const CALENDAR_EXPORT_FUTURE_DAYS = 90
+export const MAX_CALENDAR_EXPORT_DAYS = 366
+
+// Khoảng ngày tối đa của bảng thống kê tải công việc bác sĩ
+export const MAX_WORKLOAD_RANGE_DAYS = 93
+
+// Gửi email nhắc bác sĩ gia hạn chứng chỉ trước ngày hết hạn bao nhiêu ngày
+export const QUALIFICATION_EXPIRY_ALERT_DAYS = 30
@@ -0,0 +1,5 @@
+// Số ngày tính tỉ lệ tuân thủ khi không chọn khoảng ngày
+export const DEFAULT_ADHERENCE_PERIOD_DAYS = 30
+
+// Khoảng ngày tối đa khi xem nhật ký uống thuốc hoặc tỉ lệ tuân thủ
+export const MAX_ADHERENCE_PERIOD_DAYS = 366
@@ -0,0 +1,39 @@
+import { AppointmentStatus, MedicationSchedule } from '@prisma/client'
+
+// Các mốc nhắc lịch hẹn, tính bằng số giờ trước giờ hẹn
+export const APPOINTMENT_REMINDER_OFFSETS_HOURS = [24, 2]
+
+// Chỉ gửi nhắc nhở cho lịch hẹn còn ở các trạng thái này
+export const REMINDABLE_APPOINTMENT_STATUSES: AppointmentStatus[] = [
+  AppointmentStatus.PENDING,
+  AppointmentStatus.CONFIRMED,
+]
+
+// Gửi lại nhắc nhở thất bại
+export const MAX_REMINDER_ATTEMPTS = 3
+export const REMINDER_RETRY_MINUTES = 10
+
+// Nhắc nhở đang gửi được giữ trong khoảng này để lần chạy job kế tiếp không gửi trùng
+export const REMINDER_CLAIM_MINUTES = 5
+
+// Số nhắc nhở xử lý trong một lần chạy job
+export const REMINDER_DISPATCH_BATCH_SIZE = 50
+
+// Giờ nhắc uống thuốc mặc định theo buổi (giờ Việt Nam), bệnh nhân có thể đổi trong cài đặt nhắc nhở
+export const DEFAULT_MEDICINE_REMINDER_TIMES: Record<MedicationSchedule, string> = {
+  [MedicationSchedule.MORNING]: '07:00',
+  [MedicationSchedule.AFTERNOON]: '13:00',
+  [MedicationSchedule.NIGHT]: '20:00',
+}
+
+export const MEDICATION_SCHEDULE_LABELS: Record<MedicationSchedule, string> = {
+  [MedicationSchedule.MORNING]: 'sáng',
+  [MedicationSchedule.AFTERNOON]: 'chiều',
+  [MedicationSchedule.NIGHT]: 'tối',
+}
+
+// Số ngày nhắc uống thuốc được tạo trước, job hằng ngày bổ sung tiếp
+export const MEDICINE_REMINDER_HORIZON_DAYS = 7
+
+// Số đợt điều trị tạo lại nhắc uống thuốc trong một lần truy vấn của job
+export const MEDICINE_REMINDER_SYNC_BATCH_SIZE = 100
@@ -0,0 +1,29 @@
+import { TestType } from '@prisma/client'
+
+export interface TestResultReference {
+  unit: string
+  referenceRangeLow?: number
+  referenceRangeHigh?: number
+}
+
+// Đơn vị và khoảng tham chiếu mặc định khi nhập kết quả không khai báo
+export const DEFAULT_TEST_RESULT_REFERENCES: Record<string, TestResultReference> = {
+  [TestType.CD4]: { unit: 'cells/mm³', referenceRangeLow: 500, referenceRangeHigh: 1500 },
+  // Dưới 200 copies/mL được xem là ức chế virus
+  [TestType.HIV_VIRAL_LOAD]: { unit: 'copies/mL', referenceRangeHigh: 200 },
+}
+
+// Số kết quả tối đa trả về trong lịch sử xét nghiệm của một bệnh nhân
+export const MAX_TEST_RESULT_HISTORY = 200
+
+// Ngưỡng tải lượng virus (copies/mL): dưới 50 không phát hiện, dưới 200 ức chế, từ 1000 thất bại virus học
+export const VIRAL_LOAD_UNDETECTABLE_THRESHOLD = 50
+export const VIRAL_LOAD_SUPPRESSED_THRESHOLD = 200
+export const VIRAL_LOAD_FAILURE_THRESHOLD = 1000
+
+// Khoảng cách giữa hai lần xét nghiệm tải lượng virus theo thời gian điều trị
+export const VIRAL_LOAD_TEST_INTERVAL_DAYS = {
+  monthly: 30,
+  quarterly: 90,
+  biannually: 180,
+} as const
@@ -2,6 +2,16 @@ import { Injectable } from '@nestjs/common'
 import * as nodemailer from 'nodemailer'
 import envConfig from 'src/shared/config'
 
+// Nội dung do người dùng nhập phải được escape trước khi chèn vào HTML của email
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
 @Injectable()
 export class EmailService {
   private transporter: nodemailer.Transporter
@@ -147,4 +157,225 @@ export class EmailService {
       throw error
     }
   }
+
+  async sendAppointmentRescheduledMail(payload: {
+    email: string
+    serviceName: string
+    oldTime: Date
+    newTime: Date
+    reason: string
+    meetingUrl?: string | null
+  }) {
+    const subject = 'Thông báo dời lịch hẹn'
+
+    console.log('EmailService: Attempting to send appointment rescheduled email to:', payload.email)
+
+    const meetingBlock = payload.meetingUrl
+      ? `<p style="color: #333;">Liên kết tư vấn mới: <a href="${payload.meetingUrl}" style="color: #007bff; word-break: break-all;">${payload.meetingUrl}</a></p>`
+      : ''
+
+    const html = `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; line-height: 1.6;">
+        <h2 style="color: #1a1a1a; text-align: center; padding-bottom: 15px; border-bottom: 1px solid #eee;">Lịch hẹn đã được dời</h2>
+        <p style="color: #333;">Kính gửi,</p>
+        <p style="color: #333;">Lịch hẹn dịch vụ <strong>${payload.serviceName}</strong> đã được chuyển sang thời gian mới:</p>
+        <div style="background-color: #f4f4f4; padding: 20px; border-radius: 5px; margin: 20px 0;">
+          <p><strong>Thời gian cũ:</strong> <span style="text-decoration: line-through;">${formatVietnamDateTime(payload.oldTime)}</span></p>
+          <p><strong>Thời gian mới:</strong> <span style="color: #007bff; font-weight: bold;">${formatVietnamDateTime(payload.newTime)}</span></p>
+          <p><strong>Lý do:</strong> ${escapeHtml(payload.reason)}</p>
+        </div>
+        ${meetingBlock}
+        <p style="color: #333; margin-top: 30px;">Nếu bạn có bất kỳ câu hỏi nào, xin vui lòng liên hệ với chúng tôi.</p>
+        <p style="color: #333;">Trân trọng,<br>Đội ngũ HIV Care Hub</p>
+      </div>
+    `
+
+    await this.sendHtmlMail({ to: payload.email, subject, html }, 'appointment rescheduled')
+  }
+
+  async sendAppointmentDoctorChangedMail(payload: {
+    email: string
+    serviceName: string
+    appointmentTime: Date
+    doctorName: string
+    meetingUrl?: string | null
+  }) {
+    const subject = 'Thông báo thay đổi bác sĩ phụ trách lịch hẹn'
+
+    console.log('EmailService: Attempting to send appointment doctor changed email to:', payload.email)
+
+    const meetingBlock = payload.meetingUrl
+      ? `<p style="color: #333;">Liên kết tư vấn mới: <a href="${payload.meetingUrl}" style="color: #007bff; word-break: break-all;">${payload.meetingUrl}</a></p>`
+      : ''
+
+    const html = `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; line-height: 1.6;">
+        <h2 style="color: #1a1a1a; text-align: center; padding-bottom: 15px; border-bottom: 1px solid #eee;">Thay đổi bác sĩ phụ trách</h2>
+        <p style="color: #333;">Kính gửi,</p>
+        <p style="color: #333;">Do thay đổi lịch làm việc, lịch hẹn dịch vụ <strong>${payload.serviceName}</strong> của bạn sẽ do bác sĩ khác phụ trách. Thời gian hẹn không thay đổi:</p>
+        <div style="background-color: #f4f4f4; padding: 20px; border-radius: 5px; margin: 20px 0;">
+          <p><strong>Thời gian:</strong> ${formatVietnamDateTime(payload.appointmentTime)}</p>
+          <p><strong>Bác sĩ phụ trách:</strong> <span style="color: #007bff; font-weight: bold;">${payload.doctorName}</span></p>
+        </div>
+        ${meetingBlock}
+        <p style="color: #333; margin-top: 30px;">Nếu bạn có bất kỳ câu hỏi nào, xin vui lòng liên hệ với chúng tôi.</p>
+        <p style="color: #333;">Trân trọng,<br>Đội ngũ HIV Care Hub</p>
+      </div>
+    `
+
+    await this.sendHtmlMail({ to: payload.email, subject, html }, 'appointment doctor changed')
+  }
+
+  async sendWaitlistOfferMail(payload: {
+    email: string
+    serviceName: string
+    slotStart: Date
+    expiresAt: Date
+    acceptUrl: string
+  }) {
+    const subject = 'Có lịch hẹn trống cho bạn'
+
+    console.log('EmailService: Attempting to send waitlist offer email to:', payload.email)
+
+    const html = `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; line-height: 1.6;">
+        <h2 style="color: #1a1a1a; text-align: center; padding-bottom: 15px; border-bottom: 1px solid #eee;">Có lịch hẹn trống cho bạn</h2>
+        <p style="color: #333;">Kính gửi,</p>
+        <p style="color: #333;">Một lịch hẹn dịch vụ <strong>${payload.serviceName}</strong> trong danh sách chờ của bạn vừa có chỗ trống:</p>
+        <div style="background-color: #eaf6ff; padding: 25px; border-radius: 8px; margin: 25px 0; text-align: center; border: 1px solid #d2eafc;">
+          <p style="font-size: 18px; color: #0056b3; margin-bottom: 15px;"><strong>${formatVietnamDateTime(payload.slotStart)}</strong></p>
+          <a href="${payload.acceptUrl}" style="display: inline-block; background-color: #007bff; color: #ffffff; padding: 12px 25px; border-radius: 5px; text-decoration: none; font-weight: bold; font-size: 16px;">Nhận lịch hẹn này</a>
+        </div>
+        <p style="color: #666; font-size: 14px;">
+          Lời mời có hiệu lực đến ${formatVietnamDateTime(payload.expiresAt)}. Sau thời gian này, lịch hẹn sẽ được mời cho người tiếp theo trong danh sách chờ.
+        </p>
+        <p style="color: #333;">Trân trọng,<br>Đội ngũ HIV Care Hub</p>
+      </div>
+    `
+
+    await this.sendHtmlMail({ to: payload.email, subject, html }, 'waitlist offer')
+  }
+
+  async sendAppointmentReminderMail(payload: {
+    email: string
+    serviceName: string
+    appointmentTime: Date
+    meetingUrl?: string | null
+  }) {
+    const subject = 'Nhắc lịch hẹn sắp tới'
+
+    console.log('EmailService: Attempting to send appointment reminder email to:', payload.email)
+
+    const meetingBlock = payload.meetingUrl
+      ? `<p style="color: #333;">Link tham gia buổi tư vấn: <a href="${payload.meetingUrl}" style="color: #007bff;">${payload.meetingUrl}</a></p>`
+      : ''
+    const html = `
+      <div style="font-family: Arial, sans-serif; padding: 20px; max-width: 600px; margin: 0 auto; border: 1px solid #ddd; border-radius: 8px;">
+        <h2 style="color: #333; text-align: center;">Nhắc lịch hẹn</h2>
+        <p style="color: #333;">Bạn có lịch hẹn <strong>${payload.serviceName}</strong> vào lúc:</p>
+        <div style="background-color: #f0f8ff; padding: 20px; border-radius: 5px; margin: 20px 0; text-align: center;">
+          <p style="font-size: 18px; color: #0056b3; margin: 0;"><strong>${formatVietnamDateTime(payload.appointmentTime)}</strong></p>
+        </div>
+        ${meetingBlock}
+        <p style="color: #666; font-size: 14px;">Nếu không thể đến đúng hẹn, vui lòng huỷ hoặc dời lịch trên hệ thống để nhường slot cho bệnh nhân khác.</p>
+        <p style="color: #333;">Trân trọng,<br>Đội ngũ HIV Care Hub</p>
+      </div>
+    `
+
+    await this.sendHtmlMail({ to: payload.email, subject, html }, 'appointment reminder')
+  }
+
+  async sendQualificationExpiryMail(payload: {
+    email: string
+    doctorName: string
+    qualificationName: string
+    licenseNumber?: string | null
+    expiresAt: Date
+  }) {
+    const subject = 'Chứng chỉ hành nghề sắp hết hạn'
+
+    console.log('EmailService: Attempting to send qualification expiry email to:', payload.email)
+
+    const licenseBlock = payload.licenseNumber ? `<p><strong>Số hiệu:</strong> ${payload.licenseNumber}</p>` : ''
+    const html = `
+      <div style="font-family: Arial, sans-serif; padding: 20px; max-width: 600px; margin: 0 auto; border: 1px solid #ddd; border-radius: 8px;">
+        <h2 style="color: #333; text-align: center;">Nhắc gia hạn chứng chỉ</h2>
+        <p style="color: #333;">Kính gửi bác sĩ ${payload.doctorName},</p>
+        <p style="color: #333;">Chứng chỉ <strong>${payload.qualificationName}</strong> của bạn sắp hết hạn:</p>
+        <div style="background-color: #fff8e1; padding: 20px; border-radius: 5px; margin: 20px 0;">
+          ${licenseBlock}
+          <p><strong>Ngày hết hạn:</strong> ${payload.expiresAt.toLocaleDateString('vi-VN', { timeZone: 'Asia/Ho_Chi_Minh', dateStyle: 'full' })}</p>
+        </div>
+        <p style="color: #666; font-size: 14px;">Vui lòng gia hạn và gửi thông tin chứng chỉ mới cho quản trị viên để cập nhật hồ sơ.</p>
+        <p style="color: #333;">Trân trọng,<br>Đội ngũ HIV Care Hub</p>
+      </div>
+    `
+
+    await this.sendHtmlMail({ to: payload.email, subject, html }, 'qualification expiry')
+  }
+
+  async sendScheduleChangedMail(payload: {
+    email: string
+    doctorName: string
+    changes: { date: string; shift: string; description: string }[]
+  }) {
+    const subject = 'Lịch làm việc của bạn đã thay đổi'
+
+    console.log('EmailService: Attempting to send schedule changed email to:', payload.email)
+
+    const rows = payload.changes
+      .map(
+        (change) =>
+          `<tr><td style="padding: 8px; border-bottom: 1px solid #eee;">${change.date}</td><td style="padding: 8px; border-bottom: 1px solid #eee;">${change.shift}</td><td style="padding: 8px; border-bottom: 1px solid #eee;">${change.description}</td></tr>`,
+      )
+      .join('')
+    const html = `
+      <div style="font-family: Arial, sans-serif; padding: 20px; max-width: 600px; margin: 0 auto; border: 1px solid #ddd; border-radius: 8px;">
+        <h2 style="color: #333; text-align: center;">Thay đổi lịch làm việc</h2>
+        <p style="color: #333;">Kính gửi bác sĩ ${payload.doctorName},</p>
+        <p style="color: #333;">Lịch làm việc của bạn vừa có các thay đổi sau:</p>
+        <table style="width: 100%; border-collapse: collapse; margin: 20px 0; color: #333;">
+          <tr style="background-color: #f4f4f4; text-align: left;"><th style="padding: 8px;">Ngày</th><th style="padding: 8px;">Ca</th><th style="padding: 8px;">Thay đổi</th></tr>
+          ${rows}
+        </table>
+        <p style="color: #666; font-size: 14px;">Bạn có thể xem chi tiết các thay đổi trong mục lịch làm việc trên hệ thống.</p>
+        <p style="color: #333;">Trân trọng,<br>Đội ngũ HIV Care Hub</p>
+      </div>
+    `
+
+    await this.sendHtmlMail({ to: payload.email, subject, html }, 'schedule changed')
+  }
+
+  async sendReminderMail(payload: { email: string; subject: string; message: string }) {
+    console.log('EmailService: Attempting to send reminder email to:', payload.email)
+
+    const html = `
+      <div style="font-family: Arial, sans-serif; padding: 20px; max-width: 600px; margin: 0 auto; border: 1px solid #ddd; border-radius: 8px;">
+        <h2 style="color: #333; text-align: center;">${payload.subject}</h2>
+        <p style="color: #333;">${payload.message}</p>
+        <p style="color: #333;">Trân trọng,<br>Đội ngũ HIV Care Hub</p>
+      </div>
+    `
+
+    await this.sendHtmlMail({ to: payload.email, subject: payload.subject, html }, 'reminder')
+  }
+
+  private async sendHtmlMail(payload: { to: string; subject: string; html: string }, label: string) {
+    const mailOptions = {
+      from: envConfig.EMAIL_FROM || envConfig.EMAIL_USER,
+      ...payload,
+    }
+
+    try {
+      const result: { messageId: string } = await this.transporter.sendMail(mailOptions)
+      console.log(`EmailService: ${label} email sent successfully:`, result.messageId)
+    } catch (error) {
+      console.error(`EmailService: Failed to send ${label} email:`, error)
+      throw error
+    }
+  }
+}
+
+function formatVietnamDateTime(date: Date): string {
+  return date.toLocaleString('vi-VN', { timeZone: 'Asia/Ho_Chi_Minh', dateStyle: 'full', timeStyle: 'short' })
 }
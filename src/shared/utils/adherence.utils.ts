@@ -0,0 +1,126 @@
+import { DoseLogStatus, MedicationSchedule } from '@prisma/client'
+import { addDaysToDateString } from './appointment-slot.utils'
+
+export interface DailyAdherence {
+  date: string
+  expectedDoses: number
+  takenDoses: number
+  adherencePercentage: number | null
+}
+
+export interface DoseAdherenceSummary {
+  fromDate: string
+  toDate: string
+  expectedDoses: number
+  takenDoses: number
+  missedDoses: number
+  unloggedDoses: number
+  adherencePercentage: number | null
+  dailyAdherence: DailyAdherence[]
+}
+
+export interface AdherenceAssessment {
+  adherenceLevel: 'excellent' | 'good' | 'suboptimal' | 'poor'
+  riskAssessment: 'low' | 'medium' | 'high' | 'critical'
+  interventionsRequired: string[]
+  recommendations: string[]
+}
+
+/**
+ * Compute medication adherence from dose logs
+ *
+ * Every regimen slot of a past day is an expected dose, and a slot without a log counts as not taken.
+ * Slots of today are only expected once logged, since the day is not over yet.
+ * @param fromDate First day in YYYY-MM-DD format
+ * @param toDate Last day in YYYY-MM-DD format, not after today
+ * @param today Today in YYYY-MM-DD format (Vietnam time)
+ */
+export function calculateDoseAdherence(params: {
+  slots: MedicationSchedule[]
+  fromDate: string
+  toDate: string
+  today: string
+  logs: { doseDate: Date; scheduleSlot: MedicationSchedule; status: DoseLogStatus }[]
+}): DoseAdherenceSummary {
+  const { slots, fromDate, toDate, today, logs } = params
+  const logsByDate = new Map<string, Map<MedicationSchedule, DoseLogStatus>>()
+  for (const log of logs) {
+    const date = log.doseDate.toISOString().slice(0, 10)
+    if (!logsByDate.has(date)) logsByDate.set(date, new Map())
+    logsByDate.get(date)!.set(log.scheduleSlot, log.status)
+  }
+
+  const dailyAdherence: DailyAdherence[] = []
+  let missedDoses = 0
+  let unloggedDoses = 0
+  for (let date = fromDate; date <= toDate; date = addDaysToDateString(date, 1)) {
+    const dayLogs = logsByDate.get(date) ?? new Map<MedicationSchedule, DoseLogStatus>()
+    const expectedSlots = new Set<MedicationSchedule>([...(date < today ? slots : []), ...dayLogs.keys()])
+    const takenDoses = [...dayLogs.values()].filter((status) => status === DoseLogStatus.TAKEN).length
+    missedDoses += [...dayLogs.values()].filter((status) => status === DoseLogStatus.MISSED).length
+    unloggedDoses += [...expectedSlots].filter((slot) => !dayLogs.has(slot)).length
+    dailyAdherence.push({
+      date,
+      expectedDoses: expectedSlots.size,
+      takenDoses,
+      adherencePercentage: toPercentage(takenDoses, expectedSlots.size),
+    })
+  }
+
+  const expectedDoses = dailyAdherence.reduce((sum, day) => sum + day.expectedDoses, 0)
+  const takenDoses = dailyAdherence.reduce((sum, day) => sum + day.takenDoses, 0)
+  return {
+    fromDate,
+    toDate,
+    expectedDoses,
+    takenDoses,
+    missedDoses,
+    unloggedDoses,
+    adherencePercentage: toPercentage(takenDoses, expectedDoses),
+    dailyAdherence,
+  }
+}
+
+// Phần trăm làm tròn 2 chữ số thập phân, null khi không có liều nào cần uống
+function toPercentage(part: number, total: number): number | null {
+  return total > 0 ? Math.round((part / total) * 10000) / 100 : null
+}
+
+/**
+ * Grade an adherence percentage and list the interventions it needs
+ * 95% and above is excellent, 85% good, 70% suboptimal, below that poor
+ */
+export function assessAdherence(adherencePercentage: number): AdherenceAssessment {
+  let adherenceLevel: AdherenceAssessment['adherenceLevel']
+  let riskAssessment: AdherenceAssessment['riskAssessment']
+
+  if (adherencePercentage >= 95) {
+    adherenceLevel = 'excellent'
+    riskAssessment = 'low'
+  } else if (adherencePercentage >= 85) {
+    adherenceLevel = 'good'
+    riskAssessment = 'low'
+  } else if (adherencePercentage >= 70) {
+    adherenceLevel = 'suboptimal'
+    riskAssessment = 'medium'
+  } else {
+    adherenceLevel = 'poor'
+    riskAssessment = 'high'
+  }
+
+  const interventionsRequired: string[] = []
+  const recommendations: string[] = []
+
+  if (adherencePercentage < 95) {
+    interventionsRequired.push('Adherence counseling')
+    recommendations.push('Review dosing schedule with patient')
+  }
+
+  if (adherencePercentage < 70) {
+    interventionsRequired.push('Intensive adherence support')
+    recommendations.push('Consider simplified regimen')
+    recommendations.push('Assess for side effects')
+  }
+
+  return { adherenceLevel, riskAssessment, interventionsRequired, recommendations }
+}
@@ -0,0 +1,78 @@
+import { DayOfWeek, Shift } from '@prisma/client'
+import { AppointmentSlot, DEFAULT_APPOINTMENT_SLOTS } from '../constants/appointment.constant'
+import { compareTimeHHMM } from './date.utils'
+
+// Vietnam timezone offset in milliseconds (UTC+7)
+const VIETNAM_TIMEZONE_OFFSET_MS = 7 * 60 * 60 * 1000
+
+/**
+ * Get the slot list configured for a service, falling back to the default slots
+ * @param service Service with optional `slots` JSON column
+ * @returns Slots sorted by start time
+ */
+export function getServiceSlots(service: { slots?: unknown }): AppointmentSlot[] {
+  const configured = Array.isArray(service.slots) ? (service.slots as AppointmentSlot[]) : []
+  const slots = configured.length > 0 ? configured : DEFAULT_APPOINTMENT_SLOTS
+  return [...slots].sort((a, b) => compareTimeHHMM(a.start, b.start))
+}
+
+/**
+ * Get the doctor shift a slot belongs to
+ * @param start Slot start time in HH:MM format
+ * @returns MORNING before 12:00, AFTERNOON otherwise
+ */
+export function getShiftBySlotStart(start: string): Shift {
+  return compareTimeHHMM(start, '12:00') < 0 ? Shift.MORNING : Shift.AFTERNOON
+}
+
+/**
+ * Format a date as YYYY-MM-DD according to Vietnam timezone
+ * @param date The input date
+ * @returns Date string in YYYY-MM-DD format
+ */
+export function formatDateYYYYMMDD(date: Date): string {
+  return new Date(date.getTime() + VIETNAM_TIMEZONE_OFFSET_MS).toISOString().slice(0, 10)
+}
+
+/**
+ * Add a number of days to a YYYY-MM-DD date string
+ * @param date Day in YYYY-MM-DD format
+ * @param days Number of days to add (can be negative)
+ * @returns Resulting day in YYYY-MM-DD format
+ */
+export function addDaysToDateString(date: string, days: number): string {
+  const result = new Date(`${date}T00:00:00Z`)
+  result.setUTCDate(result.getUTCDate() + days)
+  return result.toISOString().slice(0, 10)
+}
+
+/**
+ * Get the day of week of a YYYY-MM-DD date string
+ * @param date Day in YYYY-MM-DD format
+ * @returns DayOfWeek enum value
+ */
+export function getDayOfWeekOfDateString(date: string): DayOfWeek {
+  const days: DayOfWeek[] = [
+    DayOfWeek.SUNDAY,
+    DayOfWeek.MONDAY,
+    DayOfWeek.TUESDAY,
+    DayOfWeek.WEDNESDAY,
+    DayOfWeek.THURSDAY,
+    DayOfWeek.FRIDAY,
+    DayOfWeek.SATURDAY,
+  ]
+  return days[new Date(`${date}T00:00:00Z`).getUTCDay()]
+}
+
+/**
+ * Build the start/end instants of a slot on a given day (Vietnam timezone)
+ * @param date Day in YYYY-MM-DD format
+ * @param slot Slot with HH:MM start and end
+ * @returns Slot start and end as Date objects
+ */
+export function getSlotDateRange(date: string, slot: AppointmentSlot): { slotStart: Date; slotEnd: Date } {
+  return {
+    slotStart: new Date(`${date}T${slot.start}:00+07:00`),
+    slotEnd: new Date(`${date}T${slot.end}:00+07:00`),
+  }
+}
@@ -0,0 +1,43 @@
+import { AppointmentStatus } from '@prisma/client'
+import { getAttendanceDelta } from './attendance.utils'
+
+describe('attendance.utils', () => {
+  describe('getAttendanceDelta', () => {
+    it('should count a check-in as attended', () => {
+      expect(getAttendanceDelta(AppointmentStatus.CONFIRMED, AppointmentStatus.CHECKIN, false)).toEqual({
+        attended: 1,
+        noShow: 0,
+        cancelled: 0,
+        lateCancel: 0,
+      })
+    })
+
+    it('should not count the visit twice when a checked-in appointment is cancelled', () => {
+      expect(getAttendanceDelta(AppointmentStatus.CHECKIN, AppointmentStatus.CANCELLED, true)).toEqual({
+        attended: -1,
+        noShow: 0,
+        cancelled: 1,
+        lateCancel: 1,
+      })
+    })
+
+    it('should only count the cancellation before check-in', () => {
+      expect(getAttendanceDelta(AppointmentStatus.CONFIRMED, AppointmentStatus.CANCELLED, false)).toEqual({
+        attended: 0,
+        noShow: 0,
+        cancelled: 1,
+        lateCancel: 0,
+      })
+    })
+
+    it('should keep the attended count when a checked-in visit moves on', () => {
+      expect(getAttendanceDelta(AppointmentStatus.CHECKIN, AppointmentStatus.PAID, false)).toEqual({
+        attended: 0,
+        noShow: 0,
+        cancelled: 0,
+        lateCancel: 0,
+      })
+      expect(getAttendanceDelta(AppointmentStatus.PENDING, AppointmentStatus.NO_SHOW, false).noShow).toBe(1)
+    })
+  })
+})
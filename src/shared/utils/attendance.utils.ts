@@ -0,0 +1,32 @@
+import { AppointmentStatus } from '@prisma/client'
+
+export interface AttendanceDelta {
+  attended: number
+  noShow: number
+  cancelled: number
+  lateCancel: number
+}
+
+/**
+ * Change to a patient's attendance counters when an appointment moves to a new status
+ * @param previousStatus Status before the change, if known
+ * @param status New status of the appointment
+ * @param isLateCancellation Whether a cancellation falls inside the late cancellation window
+ */
+export function getAttendanceDelta(
+  previousStatus: AppointmentStatus | undefined,
+  status: AppointmentStatus,
+  isLateCancellation: boolean,
+): AttendanceDelta {
+  const cancelled = status === AppointmentStatus.CANCELLED ? 1 : 0
+  // Huỷ sau khi đã check-in thì không còn tính là đã đến khám
+  const attended =
+    (status === AppointmentStatus.CHECKIN ? 1 : 0) - (cancelled && previousStatus === AppointmentStatus.CHECKIN ? 1 : 0)
+
+  return {
+    attended,
+    noShow: status === AppointmentStatus.NO_SHOW ? 1 : 0,
+    cancelled,
+    lateCancel: cancelled && isLateCancellation ? 1 : 0,
+  }
+}
@@ -0,0 +1,63 @@
+import {
+  AvailabilityTemplateInput,
+  findTemplateForDate,
+  getTemplateShiftsForDate,
+  isAvailableByTemplate,
+} from './availability.utils'
+
+describe('availability.utils', () => {
+  const template = (overrides: Partial<AvailabilityTemplateInput> = {}): AvailabilityTemplateInput => ({
+    effectiveFrom: new Date('2026-03-01T00:00:00Z'),
+    effectiveTo: null,
+    slots: [
+      { dayOfWeek: 'MONDAY', shift: 'MORNING' },
+      { dayOfWeek: 'MONDAY', shift: 'AFTERNOON' },
+      { dayOfWeek: 'WEDNESDAY', shift: 'AFTERNOON' },
+    ],
+    exceptions: [],
+    ...overrides,
+  })
+
+  describe('findTemplateForDate', () => {
+    it('should pick the template whose effective range contains the day', () => {
+      const march = template({ effectiveTo: new Date('2026-03-31T00:00:00Z') })
+      const april = template({ effectiveFrom: new Date('2026-04-01T00:00:00Z') })
+
+      expect(findTemplateForDate([march, april], '2026-03-31')).toBe(march)
+      expect(findTemplateForDate([march, april], '2026-04-01')).toBe(april)
+      expect(findTemplateForDate([march, april], '2026-02-28')).toBeUndefined()
+    })
+  })
+
+  describe('getTemplateShiftsForDate', () => {
+    it('should return the shifts of the weekday', () => {
+      // 2026-03-02 là thứ 2, 2026-03-03 là thứ 3
+      expect(getTemplateShiftsForDate([template()], '2026-03-02')).toEqual(['MORNING', 'AFTERNOON'])
+      expect(getTemplateShiftsForDate([template()], '2026-03-03')).toEqual([])
+    })
+
+    it('should drop the shifts removed by an exception', () => {
+      const withException = template({
+        exceptions: [{ date: new Date('2026-03-09T00:00:00Z'), shifts: ['MORNING'] }],
+      })
+
+      expect(getTemplateShiftsForDate([withException], '2026-03-09')).toEqual(['AFTERNOON'])
+      expect(getTemplateShiftsForDate([withException], '2026-03-16')).toEqual(['MORNING', 'AFTERNOON'])
+    })
+
+    it('should return null when no template is in effect', () => {
+      expect(getTemplateShiftsForDate([], '2026-03-02')).toBeNull()
+    })
+  })
+
+  describe('isAvailableByTemplate', () => {
+    it('should only allow shifts of the template', () => {
+      expect(isAvailableByTemplate([template()], '2026-03-04', 'AFTERNOON')).toBe(true)
+      expect(isAvailableByTemplate([template()], '2026-03-04', 'MORNING')).toBe(false)
+    })
+
+    it('should not restrict doctors without a template in effect', () => {
+      expect(isAvailableByTemplate([], '2026-03-04', 'MORNING')).toBe(true)
+    })
+  })
+})
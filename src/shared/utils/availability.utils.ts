@@ -0,0 +1,56 @@
+import { DayOfWeek, Shift } from '@prisma/client'
+import { getDayOfWeekOfDateString } from './appointment-slot.utils'
+
+export interface AvailabilityTemplateInput {
+  effectiveFrom: Date
+  effectiveTo: Date | null
+  slots: { dayOfWeek: DayOfWeek; shift: Shift }[]
+  exceptions: { date: Date; shifts: Shift[] }[]
+}
+
+/**
+ * Find the template in effect on a day
+ * @param templates Templates of one doctor
+ * @param date Day in YYYY-MM-DD format
+ * @returns The template in effect, or undefined when none applies
+ */
+export function findTemplateForDate<T extends AvailabilityTemplateInput>(templates: T[], date: string): T | undefined {
+  return templates.find(
+    (template) =>
+      toDateString(template.effectiveFrom) <= date &&
+      (template.effectiveTo === null || toDateString(template.effectiveTo) >= date),
+  )
+}
+
+/**
+ * Resolve the shifts a doctor is available for on a day from their recurring templates
+ * @param templates Templates of one doctor
+ * @param date Day in YYYY-MM-DD format
+ * @returns Available shifts, or null when no template is in effect (availability is not restricted)
+ */
+export function getTemplateShiftsForDate(templates: AvailabilityTemplateInput[], date: string): Shift[] | null {
+  const template = findTemplateForDate(templates, date)
+  if (!template) return null
+
+  const dayOfWeek = getDayOfWeekOfDateString(date)
+  const exception = template.exceptions.find((item) => toDateString(item.date) === date)
+  return template.slots
+    .filter((slot) => slot.dayOfWeek === dayOfWeek && !exception?.shifts.includes(slot.shift))
+    .map((slot) => slot.shift)
+}
+
+/**
+ * Check whether a doctor's recurring templates allow a shift
+ * @param templates Templates of one doctor
+ * @param date Day in YYYY-MM-DD format
+ * @param shift Shift to check
+ */
+export function isAvailableByTemplate(templates: AvailabilityTemplateInput[], date: string, shift: Shift): boolean {
+  const shifts = getTemplateShiftsForDate(templates, date)
+  return shifts === null || shifts.includes(shift)
+}
+
+// Ngày trong lịch được lưu ở 00:00 UTC
+function toDateString(date: Date): string {
+  return date.toISOString().slice(0, 10)
+}
@@ -0,0 +1,77 @@
+import {
+  ClinicClosureInput,
+  getClosuresForDate,
+  isClosedOnDate,
+  isShiftOpen,
+  isSlotOpen,
+} from './clinic-calendar.utils'
+
+describe('clinic-calendar.utils', () => {
+  const closure = (overrides: Partial<ClinicClosureInput> = {}): ClinicClosureInput => ({
+    startDate: new Date('2026-04-30T00:00:00Z'),
+    endDate: new Date('2026-05-01T00:00:00Z'),
+    type: 'CLOSED',
+    openTime: null,
+    closeTime: null,
+    serviceId: null,
+    ...overrides,
+  })
+  const reducedHours = closure({
+    startDate: new Date('2026-05-02T00:00:00Z'),
+    endDate: new Date('2026-05-02T00:00:00Z'),
+    type: 'REDUCED_HOURS',
+    openTime: '08:00',
+    closeTime: '11:00',
+  })
+
+  describe('getClosuresForDate', () => {
+    it('should include every day of the closure range', () => {
+      expect(getClosuresForDate([closure()], '2026-04-30')).toHaveLength(1)
+      expect(getClosuresForDate([closure()], '2026-05-01')).toHaveLength(1)
+      expect(getClosuresForDate([closure()], '2026-05-02')).toHaveLength(0)
+    })
+
+    it('should only include service closures for that service', () => {
+      const serviceClosure = closure({ serviceId: 10 })
+
+      expect(getClosuresForDate([serviceClosure], '2026-04-30', 10)).toHaveLength(1)
+      expect(getClosuresForDate([serviceClosure], '2026-04-30', 11)).toHaveLength(0)
+      expect(getClosuresForDate([serviceClosure], '2026-04-30')).toHaveLength(0)
+    })
+  })
+
+  describe('isClosedOnDate', () => {
+    it('should treat only full-day closures as closed', () => {
+      expect(isClosedOnDate([closure(), reducedHours], '2026-04-30')).toBe(true)
+      expect(isClosedOnDate([closure(), reducedHours], '2026-05-02')).toBe(false)
+    })
+  })
+
+  describe('isSlotOpen', () => {
+    it('should close every slot on a closed day', () => {
+      expect(isSlotOpen([closure()], '2026-04-30', { start: '08:10', end: '08:40' })).toBe(false)
+    })
+
+    it('should only open slots within the reduced opening hours', () => {
+      expect(isSlotOpen([reducedHours], '2026-05-02', { start: '08:10', end: '08:40' })).toBe(true)
+      expect(isSlotOpen([reducedHours], '2026-05-02', { start: '07:35', end: '08:05' })).toBe(false)
+      expect(isSlotOpen([reducedHours], '2026-05-02', { start: '10:45', end: '11:15' })).toBe(false)
+    })
+
+    it('should keep slots open on days without closures', () => {
+      expect(isSlotOpen([closure()], '2026-05-03', { start: '08:10', end: '08:40' })).toBe(true)
+    })
+  })
+
+  describe('isShiftOpen', () => {
+    it('should only keep shifts overlapping the reduced opening hours', () => {
+      expect(isShiftOpen([reducedHours], '2026-05-02', 'MORNING')).toBe(true)
+      expect(isShiftOpen([reducedHours], '2026-05-02', 'AFTERNOON')).toBe(false)
+    })
+
+    it('should ignore closures of a single service', () => {
+      expect(isShiftOpen([closure({ serviceId: 10 })], '2026-04-30', 'MORNING')).toBe(true)
+      expect(isShiftOpen([closure()], '2026-04-30', 'MORNING')).toBe(false)
+    })
+  })
+})
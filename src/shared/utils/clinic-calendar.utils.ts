@@ -0,0 +1,77 @@
+import { ClinicClosureType, Shift } from '@prisma/client'
+import { AppointmentSlot } from '../constants/appointment.constant'
+import { compareTimeHHMM } from './date.utils'
+
+export interface ClinicClosureInput {
+  startDate: Date
+  endDate: Date
+  type: ClinicClosureType
+  openTime: string | null
+  closeTime: string | null
+  serviceId: number | null
+}
+
+/**
+ * Get the closures that apply on a day
+ * @param closures Closures to search
+ * @param date Day in YYYY-MM-DD format
+ * @param serviceId When given, closures of this service are included along with clinic-wide closures
+ */
+export function getClosuresForDate<T extends ClinicClosureInput>(closures: T[], date: string, serviceId?: number): T[] {
+  return closures.filter(
+    (closure) =>
+      toDateString(closure.startDate) <= date &&
+      toDateString(closure.endDate) >= date &&
+      (closure.serviceId === null || closure.serviceId === serviceId),
+  )
+}
+
+/**
+ * Check whether the clinic (or a service) is closed for the whole day
+ * @param closures Closures to search
+ * @param date Day in YYYY-MM-DD format
+ * @param serviceId Service to check, clinic-wide closures only when omitted
+ */
+export function isClosedOnDate(closures: ClinicClosureInput[], date: string, serviceId?: number): boolean {
+  return getClosuresForDate(closures, date, serviceId).some((closure) => closure.type === ClinicClosureType.CLOSED)
+}
+
+/**
+ * Check whether a booking slot is open on a day; on reduced-hours days the slot must fit in the opening hours
+ * @param closures Closures to search
+ * @param date Day in YYYY-MM-DD format
+ * @param slot Slot to check
+ * @param serviceId Service of the booking
+ */
+export function isSlotOpen(
+  closures: ClinicClosureInput[],
+  date: string,
+  slot: AppointmentSlot,
+  serviceId?: number,
+): boolean {
+  return getClosuresForDate(closures, date, serviceId).every((closure) =>
+    closure.type === ClinicClosureType.CLOSED
+      ? false
+      : compareTimeHHMM(slot.start, closure.openTime!) >= 0 && compareTimeHHMM(slot.end, closure.closeTime!) <= 0,
+  )
+}
+
+/**
+ * Check whether a doctor shift is worked on a day; on reduced-hours days only shifts overlapping the opening hours are
+ * @param closures Closures to search
+ * @param date Day in YYYY-MM-DD format
+ * @param shift Shift to check
+ */
+export function isShiftOpen(closures: ClinicClosureInput[], date: string, shift: Shift): boolean {
+  return getClosuresForDate(closures, date).every((closure) => {
+    if (closure.type === ClinicClosureType.CLOSED) return false
+    return shift === Shift.MORNING
+      ? compareTimeHHMM(closure.openTime!, '12:00') < 0
+      : compareTimeHHMM(closure.closeTime!, '12:00') > 0
+  })
+}
+
+// Ngày trong lịch được lưu ở 00:00 UTC
+function toDateString(date: Date): string {
+  return date.toISOString().slice(0, 10)
+}
@@ -0,0 +1,56 @@
+import { buildICalendar, escapeICalText, foldICalLine, formatICalDateTime } from './ical.utils'
+
+describe('ical.utils', () => {
+  describe('formatICalDateTime', () => {
+    it('should format the instant in UTC', () => {
+      expect(formatICalDateTime(new Date('2026-03-02T07:00:00+07:00'))).toBe('20260302T000000Z')
+    })
+  })
+
+  describe('escapeICalText', () => {
+    it('should escape backslashes, separators and newlines', () => {
+      expect(escapeICalText('Ca sáng; phòng 2, tầng 1\\A\nGhi chú')).toBe('Ca sáng\\; phòng 2\\, tầng 1\\\\A\\nGhi chú')
+    })
+  })
+
+  describe('foldICalLine', () => {
+    it('should keep short lines unchanged', () => {
+      expect(foldICalLine('SUMMARY:Ca sáng')).toBe('SUMMARY:Ca sáng')
+    })
+
+    it('should fold long lines to at most 75 octets without splitting characters', () => {
+      const line = `DESCRIPTION:${'ệ'.repeat(60)}`
+      const parts = foldICalLine(line).split('\r\n')
+
+      expect(parts.length).toBeGreaterThan(1)
+      for (const part of parts) expect(Buffer.byteLength(part)).toBeLessThanOrEqual(75)
+      expect(parts.slice(1).every((part) => part.startsWith(' '))).toBe(true)
+      expect(parts.map((part, index) => (index === 0 ? part : part.slice(1))).join('')).toBe(line)
+    })
+  })
+
+  describe('buildICalendar', () => {
+    it('should build a calendar with one VEVENT per event and CRLF line endings', () => {
+      const ics = buildICalendar('Lịch trực, BS A', [
+        {
+          uid: 'schedule-1@hiv-care-hub',
+          start: new Date('2026-03-02T07:00:00+07:00'),
+          end: new Date('2026-03-02T11:00:00+07:00'),
+          summary: 'Ca sáng',
+          location: 'Phòng khám 1',
+        },
+      ])
+      const lines = ics.split('\r\n')
+
+      expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true)
+      expect(lines[0]).toBe('BEGIN:VCALENDAR')
+      expect(lines).toContain('X-WR-CALNAME:Lịch trực\\, BS A')
+      expect(lines).toContain('UID:schedule-1@hiv-care-hub')
+      expect(lines).toContain('DTSTART:20260302T000000Z')
+      expect(lines).toContain('DTEND:20260302T040000Z')
+      expect(lines).toContain('LOCATION:Phòng khám 1')
+      expect(lines.some((line) => line.startsWith('DESCRIPTION:'))).toBe(false)
+      expect(lines.filter((line) => line === 'BEGIN:VEVENT')).toHaveLength(1)
+    })
+  })
+})
@@ -0,0 +1,91 @@
+export interface ICalEvent {
+  uid: string
+  start: Date
+  end: Date
+  summary: string
+  description?: string
+  location?: string
+}
+
+// Độ dài tối đa của một dòng nội dung theo RFC 5545 (tính theo byte, không kể CRLF)
+const MAX_LINE_OCTETS = 75
+
+/**
+ * Build an iCalendar (RFC 5545) document
+ * @param name Calendar name shown by calendar apps
+ * @param events Events of the calendar
+ * @returns The .ics content with CRLF line endings
+ */
+export function buildICalendar(name: string, events: ICalEvent[]): string {
+  const stamp = formatICalDateTime(new Date())
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//HIV Care Hub//Doctor Schedule//VI',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeICalText(name)}`,
+    'X-WR-TIMEZONE:Asia/Ho_Chi_Minh',
+  ]
+  for (const event of events) {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${event.uid}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${formatICalDateTime(event.start)}`,
+      `DTEND:${formatICalDateTime(event.end)}`,
+      `SUMMARY:${escapeICalText(event.summary)}`,
+    )
+    if (event.description) lines.push(`DESCRIPTION:${escapeICalText(event.description)}`)
+    if (event.location) lines.push(`LOCATION:${escapeICalText(event.location)}`)
+    lines.push('END:VEVENT')
+  }
+  lines.push('END:VCALENDAR')
+  return lines.map(foldICalLine).join('\r\n') + '\r\n'
+}
+
+/**
+ * Format an instant as an iCalendar UTC date-time
+ * @param date The input date
+ * @returns Date-time in YYYYMMDDTHHMMSSZ format
+ */
+export function formatICalDateTime(date: Date): string {
+  return date
+    .toISOString()
+    .replace(/[-:]/g, '')
+    .replace(/\.\d{3}/, '')
+}
+
+/**
+ * Escape a TEXT property value (backslash, semicolon, comma and newlines)
+ * @param value Raw text
+ * @returns Escaped text
+ */
+export function escapeICalText(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n')
+}
+
+/**
+ * Fold a content line longer than 75 octets into continuation lines starting with a space
+ * @param line Unfolded content line
+ * @returns Folded line, never splitting a multi-byte character
+ */
+export function foldICalLine(line: string): string {
+  const parts: string[] = []
+  let current = ''
+  let octets = 0
+  for (const char of line) {
+    const size = Buffer.byteLength(char)
+    // Dòng tiếp theo bắt đầu bằng một dấu cách nên chỉ còn 74 byte cho nội dung
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1
+    if (octets + size > limit) {
+      parts.push(current)
+      current = ''
+      octets = 0
+    }
+    current += char
+    octets += size
+  }
+  parts.push(current)
+  return parts.join('\r\n ')
+}
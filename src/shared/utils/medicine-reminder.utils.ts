@@ -0,0 +1,88 @@
+import { MedicationSchedule, ReminderPreference, ReminderType } from '@prisma/client'
+import {
+  DEFAULT_MEDICINE_REMINDER_TIMES,
+  MEDICATION_SCHEDULE_LABELS,
+  MEDICINE_REMINDER_HORIZON_DAYS,
+} from '../constants/reminder.constant'
+import { addDaysToDateString, formatDateYYYYMMDD } from './appointment-slot.utils'
+import { buildRegimen, MEDICATION_SCHEDULE_ORDER, RegimenTreatment } from './regimen.utils'
+
+export type MedicineReminderTimes = Record<MedicationSchedule, string>
+
+export interface MedicineReminderData {
+  userId: number
+  patientTreatmentId: number
+  type: ReminderType
+  scheduleSlot: MedicationSchedule
+  remindAt: Date
+  message: string
+}
+
+/**
+ * Reminder time of each schedule slot, falling back to the defaults when the patient has no preference
+ */
+export function getMedicineReminderTimes(
+  preference: Pick<ReminderPreference, 'morningReminderTime' | 'afternoonReminderTime' | 'nightReminderTime'> | null,
+): MedicineReminderTimes {
+  return {
+    [MedicationSchedule.MORNING]: preference?.morningReminderTime ?? DEFAULT_MEDICINE_REMINDER_TIMES.MORNING,
+    [MedicationSchedule.AFTERNOON]: preference?.afternoonReminderTime ?? DEFAULT_MEDICINE_REMINDER_TIMES.AFTERNOON,
+    [MedicationSchedule.NIGHT]: preference?.nightReminderTime ?? DEFAULT_MEDICINE_REMINDER_TIMES.NIGHT,
+  }
+}
+
+/**
+ * Build the upcoming medicine reminders of a treatment, one per day and schedule slot of its regimen
+ *
+ * Reminders cover the next MEDICINE_REMINDER_HORIZON_DAYS days (Vietnam time) within the treatment period.
+ * A treatment whose end date has passed gets no reminders.
+ * @param times Reminder time (HH:mm, Vietnam time) of each schedule slot
+ * @param now Only reminders after this instant are built
+ */
+export function buildMedicineReminders(
+  treatment: RegimenTreatment,
+  times: MedicineReminderTimes,
+  now: Date,
+): MedicineReminderData[] {
+  if (treatment.endDate && treatment.endDate <= now) return []
+
+  const regimen = buildRegimen(treatment.protocol.medicines, treatment.customMedications)
+  const messages = MEDICATION_SCHEDULE_ORDER.map((slot) => {
+    const medications = regimen
+      .filter((medication) => medication.schedules.includes(slot))
+      .map((medication) => (medication.dosage ? `${medication.name} (${medication.dosage})` : medication.name))
+    return {
+      slot,
+      message:
+        medications.length > 0
+          ? `Đến giờ uống thuốc buổi ${MEDICATION_SCHEDULE_LABELS[slot]}: ${medications.join(', ')}`
+          : null,
+    }
+  })
+
+  const today = formatDateYYYYMMDD(now)
+  const startDate = formatDateYYYYMMDD(treatment.startDate)
+  const lastDate = addDaysToDateString(today, MEDICINE_REMINDER_HORIZON_DAYS - 1)
+  const endDate =
+    treatment.endDate && formatDateYYYYMMDD(treatment.endDate) < lastDate
+      ? formatDateYYYYMMDD(treatment.endDate)
+      : lastDate
+
+  const reminders: MedicineReminderData[] = []
+  for (let date = startDate > today ? startDate : today; date <= endDate; date = addDaysToDateString(date, 1)) {
+    for (const { slot, message } of messages) {
+      if (!message) continue
+      const remindAt = new Date(`${date}T${times[slot]}:00+07:00`)
+      if (remindAt <= now) continue
+      reminders.push({
+        userId: treatment.patientId,
+        patientTreatmentId: treatment.id,
+        type: ReminderType.MEDICINE,
+        scheduleSlot: slot,
+        remindAt,
+        message,
+      })
+    }
+  }
+  return reminders
+}
@@ -0,0 +1,112 @@
+import { MedicationSchedule, Prisma } from '@prisma/client'
+
+export interface RegimenMedication {
+  medicineId: number | null
+  name: string
+  dosage: string
+  schedules: MedicationSchedule[]
+  notes: string | null
+}
+
+export const MEDICATION_SCHEDULE_ORDER: MedicationSchedule[] = [
+  MedicationSchedule.MORNING,
+  MedicationSchedule.AFTERNOON,
+  MedicationSchedule.NIGHT,
+]
+
+// Các trường của đợt điều trị cần để dựng phác đồ thuốc
+export const regimenTreatmentSelect = Prisma.validator<Prisma.PatientTreatmentSelect>()({
+  id: true,
+  patientId: true,
+  startDate: true,
+  endDate: true,
+  customMedications: true,
+  protocol: {
+    select: {
+      medicines: {
+        select: { medicineId: true, dosage: true, duration: true, notes: true, medicine: { select: { name: true } } },
+      },
+    },
+  },
+})
+
+export type RegimenTreatment = Prisma.PatientTreatmentGetPayload<{ select: typeof regimenTreatmentSelect }>
+
+type ProtocolMedicineInput = {
+  medicineId: number
+  dosage: string
+  duration: MedicationSchedule
+  notes: string | null
+  medicine: { name: string }
+}
+
+/**
+ * Build the medications of a treatment from its protocol and custom medications
+ *
+ * Custom medications are read from an array or from array values of an object (e.g. `additionalMeds`).
+ * An item with the `medicineId` of a protocol medicine overrides its dosage, schedule and notes;
+ * other items are added to the regimen and taken in the morning unless a schedule is given.
+ */
+export function buildRegimen(
+  protocolMedicines: ProtocolMedicineInput[],
+  customMedications: Prisma.JsonValue | null,
+): RegimenMedication[] {
+  const regimen: RegimenMedication[] = protocolMedicines.map((protocolMedicine) => ({
+    medicineId: protocolMedicine.medicineId,
+    name: protocolMedicine.medicine.name,
+    dosage: protocolMedicine.dosage,
+    schedules: [protocolMedicine.duration],
+    notes: protocolMedicine.notes,
+  }))
+
+  for (const item of extractCustomMedications(customMedications)) {
+    const medicineId = typeof item.medicineId === 'number' ? item.medicineId : null
+    const schedules = toSchedules(item.schedule ?? item.duration)
+    const dosage = typeof item.dosage === 'string' ? item.dosage : undefined
+    const notes = typeof item.notes === 'string' ? item.notes : undefined
+
+    const existing =
+      medicineId !== null ? regimen.find((medication) => medication.medicineId === medicineId) : undefined
+    if (existing) {
+      if (dosage !== undefined) existing.dosage = dosage
+      if (schedules.length > 0) existing.schedules = schedules
+      if (notes !== undefined) existing.notes = notes
+      continue
+    }
+    if (typeof item.name !== 'string' && medicineId === null) continue
+
+    regimen.push({
+      medicineId,
+      name: typeof item.name === 'string' ? item.name : `Medicine #${medicineId}`,
+      dosage: dosage ?? '',
+      schedules: schedules.length > 0 ? schedules : [MedicationSchedule.MORNING],
+      notes: notes ?? null,
+    })
+  }
+
+  return regimen
+}
+
+/**
+ * Schedule slots in which at least one medication of the regimen is taken, in daily order
+ */
+export function getRegimenScheduleSlots(regimen: RegimenMedication[]): MedicationSchedule[] {
+  return MEDICATION_SCHEDULE_ORDER.filter((slot) => regimen.some((medication) => medication.schedules.includes(slot)))
+}
+
+function extractCustomMedications(customMedications: Prisma.JsonValue | null): Record<string, unknown>[] {
+  if (!customMedications || typeof customMedications !== 'object') return []
+  const items: unknown[] = Array.isArray(customMedications)
+    ? customMedications
+    : Object.values(customMedications).flatMap((value) => (Array.isArray(value) ? value : [value]))
+  return items.filter(
+    (item): item is Record<string, unknown> => !!item && typeof item === 'object' && !Array.isArray(item),
+  )
+}
+
+function toSchedules(value: unknown): MedicationSchedule[] {
+  const values = Array.isArray(value) ? value : [value]
+  return MEDICATION_SCHEDULE_ORDER.filter((slot) =>
+    values.some((item) => typeof item === 'string' && item.trim().toUpperCase() === slot),
+  )
+}
@@ -0,0 +1,196 @@
+import { evaluateRoster, generateRoster, getRosterSlots, RosterContext } from './roster.utils'
+
+describe('roster.utils', () => {
+  // 2026-03-02 là thứ 2
+  const weekStart = '2026-03-02'
+
+  const context = (overrides: Partial<RosterContext> = {}): RosterContext => ({
+    weekStart,
+    constraints: {
+      doctorsPerShift: 1,
+      maxShiftsPerWeek: 6,
+      noConsecutiveSaturdays: true,
+      requiredSpecializations: [],
+    },
+    doctors: [
+      { id: 1, name: 'Bác sĩ A', specialization: 'HIV' },
+      { id: 2, name: 'Bác sĩ B', specialization: 'Nội khoa' },
+    ],
+    preferences: [],
+    unavailable: [],
+    outsideAvailability: [],
+    closedSlots: [],
+    previousSaturdayDoctorIds: [],
+    recentWeeklyLoad: {},
+    ...overrides,
+  })
+
+  describe('getRosterSlots', () => {
+    it('should list both shifts on weekdays and only the morning on Saturday', () => {
+      const slots = getRosterSlots(weekStart)
+
+      expect(slots).toHaveLength(11)
+      expect(slots[0]).toEqual({ date: '2026-03-02', shift: 'MORNING' })
+      expect(slots[slots.length - 1]).toEqual({ date: '2026-03-07', shift: 'MORNING' })
+      expect(slots.some((slot) => slot.date === '2026-03-08')).toBe(false)
+    })
+  })
+
+  describe('generateRoster', () => {
+    it('should staff every open shift and share the shifts evenly', () => {
+      const assignments = generateRoster(context())
+
+      expect(assignments).toHaveLength(11)
+      const counts = [1, 2].map((id) => assignments.filter((assignment) => assignment.doctorId === id).length)
+      expect(Math.abs(counts[0] - counts[1])).toBeLessThanOrEqual(1)
+    })
+
+    it('should skip closed shifts and respect time off', () => {
+      const assignments = generateRoster(
+        context({
+          closedSlots: [{ date: '2026-03-02', shift: 'MORNING' }],
+          unavailable: [{ doctorId: 1, date: '2026-03-03', shift: 'MORNING' }],
+        }),
+      )
+
+      expect(assignments.some((assignment) => assignment.date === '2026-03-02' && assignment.shift === 'MORNING')).toBe(
+        false,
+      )
+      expect(assignments).toContainEqual({ doctorId: 2, date: '2026-03-03', shift: 'MORNING' })
+    })
+
+    it('should not put a doctor on two Saturdays in a row', () => {
+      const assignments = generateRoster(context({ previousSaturdayDoctorIds: [2] }))
+
+      expect(assignments).toContainEqual({ doctorId: 1, date: '2026-03-07', shift: 'MORNING' })
+    })
+
+    it('should cover required specializations before filling the remaining seats', () => {
+      const assignments = generateRoster(
+        context({
+          constraints: {
+            doctorsPerShift: 2,
+            maxShiftsPerWeek: 11,
+            noConsecutiveSaturdays: false,
+            requiredSpecializations: [{ specialization: 'hiv', minDoctors: 1 }],
+          },
+          doctors: [
+            { id: 1, name: 'Bác sĩ A', specialization: 'HIV' },
+            { id: 2, name: 'Bác sĩ B', specialization: 'Nội khoa' },
+            { id: 3, name: 'Bác sĩ C', specialization: 'Nội khoa' },
+          ],
+        }),
+      )
+
+      for (const slot of getRosterSlots(weekStart)) {
+        const doctorIds = assignments
+          .filter((assignment) => assignment.date === slot.date && assignment.shift === slot.shift)
+          .map((assignment) => assignment.doctorId)
+        expect(doctorIds).toHaveLength(2)
+        expect(doctorIds).toContain(1)
+      }
+    })
+
+    it('should never exceed the weekly shift limit', () => {
+      const assignments = generateRoster(context({ constraints: { ...context().constraints, maxShiftsPerWeek: 3 } }))
+
+      expect(assignments.filter((assignment) => assignment.doctorId === 1)).toHaveLength(3)
+      expect(assignments.filter((assignment) => assignment.doctorId === 2)).toHaveLength(3)
+    })
+
+    it('should favour preferred shifts and avoid avoided ones', () => {
+      const assignments = generateRoster(
+        context({
+          preferences: [
+            { doctorId: 1, dayOfWeek: 'MONDAY', shift: 'MORNING', preference: 'AVOID' },
+            { doctorId: 2, dayOfWeek: 'MONDAY', shift: 'MORNING', preference: 'PREFERRED' },
+          ],
+        }),
+      )
+
+      expect(assignments).toContainEqual({ doctorId: 2, date: '2026-03-02', shift: 'MORNING' })
+    })
+  })
+
+  describe('evaluateRoster', () => {
+    it('should report hard constraint violations', () => {
+      const report = evaluateRoster(
+        context({
+          constraints: { ...context().constraints, maxShiftsPerWeek: 1 },
+          unavailable: [{ doctorId: 1, date: '2026-03-02', shift: 'MORNING' }],
+          previousSaturdayDoctorIds: [2],
+        }),
+        [
+          { doctorId: 1, date: '2026-03-02', shift: 'MORNING' },
+          { doctorId: 1, date: '2026-03-08', shift: 'MORNING' },
+          { doctorId: 2, date: '2026-03-07', shift: 'MORNING' },
+          { doctorId: 9, date: '2026-03-03', shift: 'MORNING' },
+        ],
+      )
+
+      expect(report.violations.map((violation) => [violation.rule, violation.doctorId])).toEqual([
+        ['TIME_OFF', 1],
+        ['OUTSIDE_WORKING_SHIFTS', 1],
+        ['CONSECUTIVE_SATURDAY', 2],
+        ['UNAVAILABLE_DOCTOR', 9],
+        ['MAX_SHIFTS_PER_WEEK', 1],
+      ])
+    })
+
+    it('should report coverage gaps and missing specializations', () => {
+      const report = evaluateRoster(
+        context({
+          constraints: {
+            ...context().constraints,
+            requiredSpecializations: [{ specialization: 'HIV', minDoctors: 1 }],
+          },
+        }),
+        [
+          { doctorId: 1, date: '2026-03-02', shift: 'MORNING' },
+          { doctorId: 2, date: '2026-03-02', shift: 'AFTERNOON' },
+        ],
+      )
+
+      expect(report.coverageGaps).toHaveLength(10)
+      expect(report.coverageGaps[0]).toEqual({
+        date: '2026-03-02',
+        shift: 'AFTERNOON',
+        assigned: 1,
+        required: 1,
+        missingSpecializations: [{ specialization: 'HIV', missing: 1 }],
+      })
+    })
+
+    it('should summarise the fairness of the roster', () => {
+      const report = evaluateRoster(
+        context({
+          preferences: [
+            { doctorId: 1, dayOfWeek: 'MONDAY', shift: 'MORNING', preference: 'PREFERRED' },
+            { doctorId: 2, dayOfWeek: 'SATURDAY', shift: 'MORNING', preference: 'AVOID' },
+          ],
+          recentWeeklyLoad: { 1: 4 },
+        }),
+        [
+          { doctorId: 1, date: '2026-03-02', shift: 'MORNING' },
+          { doctorId: 1, date: '2026-03-03', shift: 'MORNING' },
+          { doctorId: 1, date: '2026-03-04', shift: 'MORNING' },
+          { doctorId: 2, date: '2026-03-07', shift: 'MORNING' },
+        ],
+      )
+
+      expect(report.fairness).toEqual(
+        expect.objectContaining({
+          minShifts: 1,
+          maxShifts: 3,
+          averageShifts: 2,
+          spread: 2,
+          preferenceHits: 1,
+          avoidedAssignments: 1,
+        }),
+      )
+      expect(report.fairness.doctors[1]).toEqual(
+        expect.objectContaining({ doctorId: 2, assignedShifts: 1, saturdayShifts: 1, recentWeeklyLoad: 0 }),
+      )
+    })
+  })
+})
@@ -0,0 +1,347 @@
+import { DayOfWeek, Shift, ShiftPreferenceType } from '@prisma/client'
+import { ROSTER_SCORE_WEIGHTS, ROSTER_SHIFTS_BY_DAY } from '../constants/doctor.constant'
+import { addDaysToDateString, getDayOfWeekOfDateString } from './appointment-slot.utils'
+
+export interface RosterSlot {
+  date: string // YYYY-MM-DD
+  shift: Shift
+}
+
+export interface RosterAssignmentInput extends RosterSlot {
+  doctorId: number
+}
+
+export interface RosterConstraints {
+  doctorsPerShift: number
+  maxShiftsPerWeek: number
+  noConsecutiveSaturdays: boolean
+  requiredSpecializations: { specialization: string; minDoctors: number }[]
+}
+
+export interface RosterDoctor {
+  id: number
+  name: string
+  specialization: string
+}
+
+export interface RosterContext {
+  weekStart: string // YYYY-MM-DD, thứ 2
+  constraints: RosterConstraints
+  doctors: RosterDoctor[]
+  preferences: { doctorId: number; dayOfWeek: DayOfWeek; shift: Shift; preference: ShiftPreferenceType }[]
+  // Các ca bác sĩ đã được duyệt nghỉ
+  unavailable: RosterAssignmentInput[]
+  // Các ca nằm ngoài lịch làm việc định kỳ của bác sĩ
+  outsideAvailability: RosterAssignmentInput[]
+  // Các ca phòng khám nghỉ lễ / đóng cửa
+  closedSlots: RosterSlot[]
+  // Bác sĩ đã trực thứ 7 tuần trước
+  previousSaturdayDoctorIds: number[]
+  // Số ca trung bình mỗi tuần của bác sĩ trong các tuần gần đây
+  recentWeeklyLoad: Record<number, number>
+}
+
+export type RosterViolationRule =
+  | 'MAX_SHIFTS_PER_WEEK'
+  | 'CONSECUTIVE_SATURDAY'
+  | 'TIME_OFF'
+  | 'OUTSIDE_WORKING_SHIFTS'
+  | 'UNAVAILABLE_DOCTOR'
+  | 'OUTSIDE_AVAILABILITY'
+
+export interface RosterViolation {
+  rule: RosterViolationRule
+  doctorId: number
+  date?: string
+  shift?: Shift
+  message: string
+}
+
+export interface RosterCoverageGap extends RosterSlot {
+  assigned: number
+  required: number
+  missingSpecializations: { specialization: string; missing: number }[]
+}
+
+export interface RosterDoctorLoad {
+  doctorId: number
+  name: string
+  specialization: string
+  assignedShifts: number
+  saturdayShifts: number
+  preferredShifts: number
+  avoidedShifts: number
+  recentWeeklyLoad: number
+}
+
+export interface RosterReport {
+  fairness: {
+    doctors: RosterDoctorLoad[]
+    minShifts: number
+    maxShifts: number
+    averageShifts: number
+    spread: number
+    preferenceHits: number
+    avoidedAssignments: number
+  }
+  coverageGaps: RosterCoverageGap[]
+  violations: RosterViolation[]
+}
+
+/**
+ * Get the shifts to staff in a roster week
+ * @param weekStart Monday of the week in YYYY-MM-DD format
+ * @returns Working slots ordered by date then shift
+ */
+export function getRosterSlots(weekStart: string): RosterSlot[] {
+  const slots: RosterSlot[] = []
+  for (let offset = 0; offset < 7; offset++) {
+    const date = addDaysToDateString(weekStart, offset)
+    for (const shift of ROSTER_SHIFTS_BY_DAY[getDayOfWeekOfDateString(date)] ?? []) {
+      slots.push({ date, shift })
+    }
+  }
+  return slots
+}
+
+/**
+ * Build a draft roster: required specializations are covered first, then every shift is filled
+ * round by round with the lowest scoring doctor that satisfies all hard constraints
+ * @param context Doctors, preferences, time off and constraints of the week
+ * @returns Assignments of the draft roster
+ */
+export function generateRoster(context: RosterContext): RosterAssignmentInput[] {
+  const { constraints } = context
+  const assignedBySlot = new Map<string, number[]>()
+  const shiftCounts = new Map<number, number>()
+
+  const assign = (doctorId: number, slot: RosterSlot) => {
+    assignedBySlot.set(getSlotKey(slot), [...getSlotDoctorIds(assignedBySlot, slot), doctorId])
+    shiftCounts.set(doctorId, (shiftCounts.get(doctorId) ?? 0) + 1)
+  }
+
+  const pickDoctor = (slot: RosterSlot, candidates: RosterDoctor[]): RosterDoctor | undefined => {
+    const assigned = getSlotDoctorIds(assignedBySlot, slot)
+    return candidates
+      .filter(
+        (doctor) =>
+          !assigned.includes(doctor.id) &&
+          (shiftCounts.get(doctor.id) ?? 0) < constraints.maxShiftsPerWeek &&
+          isDoctorEligible(context, doctor.id, slot),
+      )
+      .map((doctor) => ({ doctor, score: scoreCandidate(context, shiftCounts.get(doctor.id) ?? 0, doctor.id, slot) }))
+      .sort((a, b) => a.score - b.score || a.doctor.id - b.doctor.id)[0]?.doctor
+  }
+
+  // Ca có ít bác sĩ đủ điều kiện nhất được xếp trước
+  const slots = getOpenRosterSlots(context)
+    .map((slot) => ({
+      slot,
+      eligible: context.doctors.filter((doctor) => isDoctorEligible(context, doctor.id, slot)).length,
+    }))
+    .sort((a, b) => a.eligible - b.eligible)
+    .map(({ slot }) => slot)
+
+  for (const requirement of constraints.requiredSpecializations) {
+    const specialists = context.doctors.filter((doctor) =>
+      matchesSpecialization(doctor.specialization, requirement.specialization),
+    )
+    for (let round = 0; round < requirement.minDoctors; round++) {
+      for (const slot of slots) {
+        const assigned = getSlotDoctorIds(assignedBySlot, slot)
+        if (assigned.length >= constraints.doctorsPerShift) continue
+        if (specialists.filter((doctor) => assigned.includes(doctor.id)).length > round) continue
+        const doctor = pickDoctor(slot, specialists)
+        if (doctor) assign(doctor.id, slot)
+      }
+    }
+  }
+
+  for (let round = 0; round < constraints.doctorsPerShift; round++) {
+    for (const slot of slots) {
+      if (getSlotDoctorIds(assignedBySlot, slot).length > round) continue
+      const doctor = pickDoctor(slot, context.doctors)
+      if (doctor) assign(doctor.id, slot)
+    }
+  }
+
+  return getOpenRosterSlots(context).flatMap((slot) =>
+    getSlotDoctorIds(assignedBySlot, slot).map((doctorId) => ({ ...slot, doctorId })),
+  )
+}
+
+/**
+ * Check a roster against the hard constraints and summarise coverage and fairness
+ * @param context Doctors, preferences, time off and constraints of the week
+ * @param assignments Assignments to evaluate (generated or tweaked by an admin)
+ * @returns Fairness report, coverage gaps and hard constraint violations
+ */
+export function evaluateRoster(context: RosterContext, assignments: RosterAssignmentInput[]): RosterReport {
+  const { constraints } = context
+  const slots = getOpenRosterSlots(context)
+  const violations: RosterViolation[] = []
+
+  for (const assignment of assignments) {
+    const doctorId = assignment.doctorId
+    const slot = { date: assignment.date, shift: assignment.shift }
+    if (!slots.some((workingSlot) => getSlotKey(workingSlot) === getSlotKey(slot))) {
+      violations.push({ rule: 'OUTSIDE_WORKING_SHIFTS', doctorId, ...slot, message: 'Shift is not a working shift' })
+    }
+    if (!context.doctors.some((doctor) => doctor.id === doctorId)) {
+      violations.push({ rule: 'UNAVAILABLE_DOCTOR', doctorId, ...slot, message: 'Doctor is not available' })
+    }
+    if (isOnTimeOff(context, doctorId, slot)) {
+      violations.push({ rule: 'TIME_OFF', doctorId, ...slot, message: 'Doctor has approved time off' })
+    }
+    if (isOutsideAvailability(context, doctorId, slot)) {
+      violations.push({
+        rule: 'OUTSIDE_AVAILABILITY',
+        doctorId,
+        ...slot,
+        message: 'Shift is outside the availability template of the doctor',
+      })
+    }
+    if (isBlockedSaturday(context, doctorId, slot)) {
+      violations.push({
+        rule: 'CONSECUTIVE_SATURDAY',
+        doctorId,
+        ...slot,
+        message: 'Doctor already worked Saturday last week',
+      })
+    }
+  }
+
+  const doctors = context.doctors.map((doctor): RosterDoctorLoad => {
+    const own = assignments.filter((assignment) => assignment.doctorId === doctor.id)
+    const preferences = own.map((assignment) => getPreference(context, doctor.id, assignment))
+    return {
+      doctorId: doctor.id,
+      name: doctor.name,
+      specialization: doctor.specialization,
+      assignedShifts: own.length,
+      saturdayShifts: own.filter((assignment) => getDayOfWeekOfDateString(assignment.date) === DayOfWeek.SATURDAY)
+        .length,
+      preferredShifts: preferences.filter((preference) => preference === ShiftPreferenceType.PREFERRED).length,
+      avoidedShifts: preferences.filter((preference) => preference === ShiftPreferenceType.AVOID).length,
+      recentWeeklyLoad: context.recentWeeklyLoad[doctor.id] ?? 0,
+    }
+  })
+  for (const load of doctors) {
+    if (load.assignedShifts > constraints.maxShiftsPerWeek) {
+      violations.push({
+        rule: 'MAX_SHIFTS_PER_WEEK',
+        doctorId: load.doctorId,
+        message: `Doctor is assigned ${load.assignedShifts} shifts (max ${constraints.maxShiftsPerWeek})`,
+      })
+    }
+  }
+
+  const coverageGaps: RosterCoverageGap[] = []
+  for (const slot of slots) {
+    const assigned = assignments
+      .filter((assignment) => getSlotKey(assignment) === getSlotKey(slot))
+      .map((assignment) => context.doctors.find((doctor) => doctor.id === assignment.doctorId))
+    const missingSpecializations = constraints.requiredSpecializations
+      .map(({ specialization, minDoctors }) => ({
+        specialization,
+        missing:
+          minDoctors -
+          assigned.filter((doctor) => doctor && matchesSpecialization(doctor.specialization, specialization)).length,
+      }))
+      .filter(({ missing }) => missing > 0)
+    if (assigned.length < constraints.doctorsPerShift || missingSpecializations.length > 0) {
+      coverageGaps.push({
+        ...slot,
+        assigned: assigned.length,
+        required: constraints.doctorsPerShift,
+        missingSpecializations,
+      })
+    }
+  }
+
+  const shiftCounts = doctors.map((load) => load.assignedShifts)
+  const minShifts = shiftCounts.length > 0 ? Math.min(...shiftCounts) : 0
+  const maxShifts = shiftCounts.length > 0 ? Math.max(...shiftCounts) : 0
+  return {
+    fairness: {
+      doctors,
+      minShifts,
+      maxShifts,
+      averageShifts:
+        shiftCounts.length > 0
+          ? Math.round((shiftCounts.reduce((sum, count) => sum + count, 0) / shiftCounts.length) * 100) / 100
+          : 0,
+      spread: maxShifts - minShifts,
+      preferenceHits: doctors.reduce((sum, load) => sum + load.preferredShifts, 0),
+      avoidedAssignments: doctors.reduce((sum, load) => sum + load.avoidedShifts, 0),
+    },
+    coverageGaps,
+    violations,
+  }
+}
+
+// Các ca cần xếp người trong tuần, trừ các ca phòng khám nghỉ
+function getOpenRosterSlots(context: RosterContext): RosterSlot[] {
+  return getRosterSlots(context.weekStart).filter(
+    (slot) => !context.closedSlots.some((closed) => getSlotKey(closed) === getSlotKey(slot)),
+  )
+}
+
+function getSlotKey(slot: RosterSlot): string {
+  return `${slot.date}_${slot.shift}`
+}
+
+function getSlotDoctorIds(assignedBySlot: Map<string, number[]>, slot: RosterSlot): number[] {
+  return assignedBySlot.get(getSlotKey(slot)) ?? []
+}
+
+function matchesSpecialization(specialization: string, required: string): boolean {
+  return specialization.trim().toLowerCase() === required.trim().toLowerCase()
+}
+
+function getPreference(context: RosterContext, doctorId: number, slot: RosterSlot): ShiftPreferenceType | undefined {
+  const dayOfWeek = getDayOfWeekOfDateString(slot.date)
+  return context.preferences.find(
+    (preference) =>
+      preference.doctorId === doctorId && preference.dayOfWeek === dayOfWeek && preference.shift === slot.shift,
+  )?.preference
+}
+
+function isOnTimeOff(context: RosterContext, doctorId: number, slot: RosterSlot): boolean {
+  return context.unavailable.some(
+    (timeOff) => timeOff.doctorId === doctorId && getSlotKey(timeOff) === getSlotKey(slot),
+  )
+}
+
+function isOutsideAvailability(context: RosterContext, doctorId: number, slot: RosterSlot): boolean {
+  return context.outsideAvailability.some(
+    (outside) => outside.doctorId === doctorId && getSlotKey(outside) === getSlotKey(slot),
+  )
+}
+
+function isBlockedSaturday(context: RosterContext, doctorId: number, slot: RosterSlot): boolean {
+  return (
+    context.constraints.noConsecutiveSaturdays &&
+    getDayOfWeekOfDateString(slot.date) === DayOfWeek.SATURDAY &&
+    context.previousSaturdayDoctorIds.includes(doctorId)
+  )
+}
+
+function isDoctorEligible(context: RosterContext, doctorId: number, slot: RosterSlot): boolean {
+  return (
+    !isOnTimeOff(context, doctorId, slot) &&
+    !isOutsideAvailability(context, doctorId, slot) &&
+    !isBlockedSaturday(context, doctorId, slot)
+  )
+}
+
+// Điểm càng thấp càng được ưu tiên: ít ca trong tuần, tải các tuần trước thấp và đúng nguyện vọng
+function scoreCandidate(context: RosterContext, assignedThisWeek: number, doctorId: number, slot: RosterSlot): number {
+  const preference = getPreference(context, doctorId, slot)
+  return (
+    ROSTER_SCORE_WEIGHTS.assignedThisWeek * assignedThisWeek +
+    ROSTER_SCORE_WEIGHTS.recentWeeklyLoad * (context.recentWeeklyLoad[doctorId] ?? 0) +
+    (preference === ShiftPreferenceType.AVOID ? ROSTER_SCORE_WEIGHTS.avoidedShift : 0) +
+    (preference === ShiftPreferenceType.PREFERRED ? ROSTER_SCORE_WEIGHTS.preferredShift : 0)
+  )
+}
@@ -0,0 +1,27 @@
+import { Shift } from '@prisma/client'
+
+// Kiểu (không phải interface) để gán được vào cột Json của Prisma
+export type ScheduleSnapshot = {
+  doctorId: number
+  date: string
+  shift: Shift
+  isOff: boolean
+}
+
+/**
+ * Snapshot of a schedule stored as the before/after state of a schedule change
+ * @param schedule Schedule to snapshot, its date is stored as YYYY-MM-DD
+ */
+export function toScheduleSnapshot(schedule: {
+  doctorId: number
+  date: Date
+  shift: Shift
+  isOff: boolean
+}): ScheduleSnapshot {
+  return {
+    doctorId: schedule.doctorId,
+    date: schedule.date.toISOString().slice(0, 10),
+    shift: schedule.shift,
+    isOff: schedule.isOff,
+  }
+}
@@ -0,0 +1,49 @@
+import { classifyViralLoad, getDefaultTestResultReference, getTestResultFlag } from './test-result.utils'
+
+describe('test-result.utils', () => {
+  describe('getDefaultTestResultReference', () => {
+    it('should match the test type case-insensitively', () => {
+      expect(getDefaultTestResultReference(' cd4 ')).toEqual({
+        unit: 'cells/mm³',
+        referenceRangeLow: 500,
+        referenceRangeHigh: 1500,
+      })
+      expect(getDefaultTestResultReference('HBsAg')).toBeUndefined()
+    })
+  })
+
+  describe('getTestResultFlag', () => {
+    const result = (value: number | null, low: number | null, high: number | null) => ({
+      value,
+      referenceRangeLow: low,
+      referenceRangeHigh: high,
+    })
+
+    it('should compare the value with both bounds', () => {
+      expect(getTestResultFlag(result(350, 500, 1500))).toBe('LOW')
+      expect(getTestResultFlag(result(500, 500, 1500))).toBe('NORMAL')
+      expect(getTestResultFlag(result(1600, 500, 1500))).toBe('HIGH')
+    })
+
+    it('should work with a single bound', () => {
+      expect(getTestResultFlag(result(150, null, 200))).toBe('NORMAL')
+      expect(getTestResultFlag(result(250, null, 200))).toBe('HIGH')
+    })
+
+    it('should not flag results without a value or a reference range', () => {
+      expect(getTestResultFlag(result(null, 500, 1500))).toBeNull()
+      expect(getTestResultFlag(result(350, null, null))).toBeNull()
+    })
+  })
+
+  describe('classifyViralLoad', () => {
+    it('should classify by the suppression thresholds', () => {
+      expect(classifyViralLoad(20)).toBe('undetectable')
+      expect(classifyViralLoad(50)).toBe('suppressed')
+      expect(classifyViralLoad(199)).toBe('suppressed')
+      expect(classifyViralLoad(200)).toBe('low-level-viremia')
+      expect(classifyViralLoad(999)).toBe('low-level-viremia')
+      expect(classifyViralLoad(1000)).toBe('virologic-failure')
+    })
+  })
+})
@@ -0,0 +1,45 @@
+import {
+  DEFAULT_TEST_RESULT_REFERENCES,
+  TestResultReference,
+  VIRAL_LOAD_FAILURE_THRESHOLD,
+  VIRAL_LOAD_SUPPRESSED_THRESHOLD,
+  VIRAL_LOAD_UNDETECTABLE_THRESHOLD,
+} from '../constants/test-result.constant'
+
+export type TestResultFlag = 'LOW' | 'NORMAL' | 'HIGH'
+
+export type ViralLoadSuppressionStatus = 'undetectable' | 'suppressed' | 'low-level-viremia' | 'virologic-failure'
+
+/**
+ * Get the default unit and reference range of a test type
+ * @param type Test type, matched case-insensitively
+ */
+export function getDefaultTestResultReference(type: string): TestResultReference | undefined {
+  return DEFAULT_TEST_RESULT_REFERENCES[type.trim().toUpperCase()]
+}
+
+/**
+ * Compare a numeric result with its reference range
+ * @returns null when the result has no value or no reference range
+ */
+export function getTestResultFlag(result: {
+  value: number | null
+  referenceRangeLow: number | null
+  referenceRangeHigh: number | null
+}): TestResultFlag | null {
+  const { value, referenceRangeLow, referenceRangeHigh } = result
+  if (value === null || (referenceRangeLow === null && referenceRangeHigh === null)) return null
+  if (referenceRangeLow !== null && value < referenceRangeLow) return 'LOW'
+  if (referenceRangeHigh !== null && value > referenceRangeHigh) return 'HIGH'
+  return 'NORMAL'
+}
+
+/**
+ * Classify a viral load result (copies/mL) by the suppression thresholds
+ */
+export function classifyViralLoad(value: number): ViralLoadSuppressionStatus {
+  if (value < VIRAL_LOAD_UNDETECTABLE_THRESHOLD) return 'undetectable'
+  if (value < VIRAL_LOAD_SUPPRESSED_THRESHOLD) return 'suppressed'
+  if (value < VIRAL_LOAD_FAILURE_THRESHOLD) return 'low-level-viremia'
+  return 'virologic-failure'
+}
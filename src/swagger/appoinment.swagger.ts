@@ -12,15 +12,40 @@ export const AppointmentResponseSchema = {
     type: { type: 'string', enum: ['ONLINE', 'OFFLINE'], example: 'OFFLINE' },
     status: {
       type: 'string',
-      enum: ['PENDING', 'CHECKIN', 'PAID', 'PROCESS', 'CONFIRMED', 'COMPLETED', 'CANCELLED'],
+      enum: ['PENDING', 'CHECKIN', 'PAID', 'PROCESS', 'CONFIRMED', 'COMPLETED', 'CANCELLED', 'NO_SHOW'],
       example: 'PENDING',
     },
     notes: { type: 'string', nullable: true, example: null },
+    rescheduleCount: { type: 'number', example: 0 },
+    cancellationReason: { type: 'string', nullable: true, example: null },
+    cancelledAt: { type: 'string', format: 'date-time', nullable: true, example: null },
+    isLateCancellation: { type: 'boolean', example: false },
+    isRefundEligible: { type: 'boolean', nullable: true, example: null },
+    patientTreatmentId: { type: 'number', nullable: true, example: null },
+    purpose: { type: 'string', enum: ['INITIAL', 'FOLLOW_UP', 'TEST', 'REFILL'], example: 'INITIAL' },
+    seriesId: { type: 'number', nullable: true, example: null },
+    seriesIndex: { type: 'number', nullable: true, example: null },
+    isSeriesException: { type: 'boolean', example: false },
     createdAt: { type: 'string', format: 'date-time', example: '2024-03-20T10:00:00Z' },
     updatedAt: { type: 'string', format: 'date-time', example: '2024-03-20T10:00:00Z' },
   },
 }
 
+const PreferredDoctorProperties = {
+  preferredDoctorId: {
+    type: 'number',
+    description: 'Preferred doctor for online consultations. Defaults to the doctor of the patient treatment',
+    example: 1,
+  },
+  doctorFallback: {
+    type: 'string',
+    enum: ['AUTO_ASSIGN', 'FAIL', 'SUGGEST'],
+    description:
+      'What to do when the preferred doctor is busy: assign the least loaded free doctor (default), reject, or reject with the next free slots of the preferred doctor',
+    example: 'AUTO_ASSIGN',
+  },
+}
+
 export const ApiCreateAppointment = () => {
   return applyDecorators(
     ApiOperation({ summary: 'Create Appointment', description: 'Create Appointment' }),
@@ -46,6 +71,24 @@ export const ApiCreateAppointment = () => {
             example: 'OFFLINE',
           },
           notes: { type: 'string', nullable: true, description: 'Notes', example: null },
+          holdId: {
+            type: 'number',
+            description: 'Hold ID from POST /appointments/holds (optional)',
+            example: 1,
+          },
+          patientTreatmentId: {
+            type: 'number',
+            description: 'Patient treatment this appointment belongs to (optional)',
+            example: 1,
+          },
+          purpose: {
+            type: 'string',
+            enum: ['INITIAL', 'FOLLOW_UP', 'TEST', 'REFILL'],
+            description:
+              'Appointment purpose. Defaults to FOLLOW_UP for treatment appointments, TEST for test services',
+            example: 'FOLLOW_UP',
+          },
+          ...PreferredDoctorProperties,
         },
       },
     }),
@@ -56,6 +99,156 @@ export const ApiCreateAppointment = () => {
   )
 }
 
+const AppointmentHoldResponseSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'number', example: 1 },
+    userId: { type: 'number', example: 1 },
+    doctorId: { type: 'number', example: 1 },
+    serviceId: { type: 'number', example: 1 },
+    slotStart: { type: 'string', format: 'date-time', example: '2025-07-01T00:00:00.000Z' },
+    slotEnd: { type: 'string', format: 'date-time', example: '2025-07-01T00:30:00.000Z' },
+    expiresAt: { type: 'string', format: 'date-time', example: '2025-06-30T09:05:00.000Z' },
+    createdAt: { type: 'string', format: 'date-time', example: '2025-06-30T09:00:00.000Z' },
+  },
+}
+
+export const ApiCreateAppointmentHold = () => {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Hold Appointment Slot',
+      description:
+        'Reserve a slot for a few minutes while the patient fills in the booking form. Pass the returned id as holdId when creating the appointment. A patient can only hold one slot at a time.',
+    }),
+    ApiBody({
+      description: 'Slot to hold',
+      schema: {
+        type: 'object',
+        properties: {
+          serviceId: { type: 'number', description: 'Service ID', example: 1 },
+          doctorId: { type: 'number', description: 'Doctor ID (not allowed for CONSULT services)', example: 1 },
+          appointmentTime: {
+            type: 'string',
+            format: 'date-time',
+            description: 'Slot start time',
+            example: '2025-07-01T00:00:00.000Z',
+          },
+          ...PreferredDoctorProperties,
+        },
+        required: ['serviceId', 'appointmentTime'],
+      },
+    }),
+    ApiResponse({ status: 201, description: 'Slot held successfully', schema: AppointmentHoldResponseSchema }),
+    ApiResponse({ status: 400, description: 'Slot not available or already booked' }),
+    ApiResponse({ status: 401, description: 'Unauthorized' }),
+    ApiResponse({ status: 403, description: 'Forbidden - Insufficient permissions' }),
+  )
+}
+
+export const ApiReleaseAppointmentHold = () => {
+  return applyDecorators(
+    ApiOperation({ summary: 'Release Appointment Hold', description: 'Release a slot held by the current patient' }),
+    ApiParam({ name: 'id', type: 'number', description: 'Hold ID', example: 1 }),
+    ApiResponse({ status: 200, description: 'Hold released successfully', schema: AppointmentHoldResponseSchema }),
+    ApiResponse({ status: 400, description: 'Appointment hold not found' }),
+    ApiResponse({ status: 401, description: 'Unauthorized' }),
+    ApiResponse({ status: 403, description: 'Forbidden - Insufficient permissions' }),
+  )
+}
+
+const WaitlistEntryResponseSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'number', example: 1 },
+    userId: { type: 'number', example: 1 },
+    serviceId: { type: 'number', example: 1 },
+    doctorId: { type: 'number', nullable: true, example: null },
+    dateFrom: { type: 'string', format: 'date-time', example: '2025-06-30T17:00:00.000Z' },
+    dateTo: { type: 'string', format: 'date-time', example: '2025-07-07T16:59:59.999Z' },
+    status: { type: 'string', enum: ['WAITING', 'OFFERED', 'BOOKED', 'EXPIRED', 'CANCELLED'], example: 'WAITING' },
+    offeredDoctorId: { type: 'number', nullable: true, example: null },
+    offeredSlotStart: { type: 'string', format: 'date-time', nullable: true, example: null },
+    offerExpiresAt: { type: 'string', format: 'date-time', nullable: true, example: null },
+    appointmentId: { type: 'number', nullable: true, example: null },
+    createdAt: { type: 'string', format: 'date-time', example: '2025-06-30T09:00:00.000Z' },
+    updatedAt: { type: 'string', format: 'date-time', example: '2025-06-30T09:00:00.000Z' },
+  },
+}
+
+export const ApiJoinWaitlist = () => {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Join Appointment Waitlist',
+      description:
+        'Join the waitlist of a fully booked service. When a matching slot is freed by a cancellation or reschedule, the first patient in line is emailed an offer that holds the slot for a limited time.',
+    }),
+    ApiBody({
+      description: 'Waitlist preferences',
+      schema: {
+        type: 'object',
+        properties: {
+          serviceId: { type: 'number', description: 'Service ID', example: 1 },
+          doctorId: { type: 'number', description: 'Preferred doctor (not allowed for CONSULT services)', example: 1 },
+          dateFrom: { type: 'string', description: 'First acceptable date (YYYY-MM-DD)', example: '2025-07-01' },
+          dateTo: { type: 'string', description: 'Last acceptable date (YYYY-MM-DD)', example: '2025-07-07' },
+        },
+        required: ['serviceId', 'dateFrom', 'dateTo'],
+      },
+    }),
+    ApiResponse({ status: 201, description: 'Joined waitlist successfully', schema: WaitlistEntryResponseSchema }),
+    ApiResponse({ status: 400, description: 'Invalid date window or already on the waitlist' }),
+    ApiResponse({ status: 401, description: 'Unauthorized' }),
+    ApiResponse({ status: 403, description: 'Forbidden - Insufficient permissions' }),
+  )
+}
+
+export const ApiFindMyWaitlistEntries = () => {
+  return applyDecorators(
+    ApiOperation({ summary: 'Get My Waitlist Entries', description: 'Get waitlist entries of the current patient' }),
+    ApiResponse({
+      status: 200,
+      description: 'Waitlist entries retrieved successfully',
+      schema: { type: 'array', items: WaitlistEntryResponseSchema },
+    }),
+    ApiResponse({ status: 401, description: 'Unauthorized' }),
+    ApiResponse({ status: 403, description: 'Forbidden - Insufficient permissions' }),
+  )
+}
+
+export const ApiLeaveWaitlist = () => {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Leave Appointment Waitlist',
+      description: 'Cancel a waitlist entry. A pending offer is passed to the next patient in line.',
+    }),
+    ApiParam({ name: 'id', type: 'number', description: 'Waitlist entry ID', example: 1 }),
+    ApiResponse({ status: 200, description: 'Left waitlist successfully', schema: WaitlistEntryResponseSchema }),
+    ApiResponse({ status: 400, description: 'Waitlist entry not found or already closed' }),
+    ApiResponse({ status: 401, description: 'Unauthorized' }),
+    ApiResponse({ status: 403, description: 'Forbidden - Insufficient permissions' }),
+  )
+}
+
+export const ApiAcceptWaitlistOffer = () => {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Accept Waitlist Offer',
+      description:
+        'Book the offered slot using the token from the waitlist offer email. ' +
+        'The email links to a frontend page that posts the token here.',
+    }),
+    ApiBody({
+      schema: {
+        type: 'object',
+        properties: { token: { type: 'string', description: 'Offer token' } },
+        required: ['token'],
+      },
+    }),
+    ApiResponse({ status: 201, description: 'Appointment booked successfully', schema: AppointmentResponseSchema }),
+    ApiResponse({ status: 400, description: 'Offer not found, expired or slot no longer available' }),
+  )
+}
+
 export const ApiUpdateAppointment = () => {
   return applyDecorators(
     ApiOperation({ summary: 'Update Appointment', description: 'Update Appointment' }),
@@ -89,32 +282,286 @@ export const ApiUpdateAppointment = () => {
 
 export const ApiUpdateAppointmentStatus = () => {
   return applyDecorators(
-    ApiOperation({ summary: 'Update Appointment Status', description: 'Update Appointment Status' }),
+    ApiOperation({
+      summary: 'Update Appointment Status',
+      description:
+        'Move an appointment along PENDING → CONFIRMED → CHECKIN → PAID → PROCESS → COMPLETED. ' +
+        'CANCELLED is only reachable from PENDING, CONFIRMED or CHECKIN, NO_SHOW from PENDING or CONFIRMED. Each transition is restricted by role ' +
+        'and recorded in the appointment status history.',
+    }),
     ApiParam({ name: 'id', type: 'number', description: 'Appointment ID', example: 1 }),
     ApiBody({
       description: 'Appointment status data',
       schema: {
         type: 'object',
+        required: ['status'],
         properties: {
           status: {
             type: 'string',
-            enum: ['PENDING', 'CHECKIN', 'PAID', 'PROCESS', 'CONFIRMED', 'COMPLETED', 'CANCELLED'],
+            enum: ['PENDING', 'CHECKIN', 'PAID', 'PROCESS', 'CONFIRMED', 'COMPLETED', 'CANCELLED', 'NO_SHOW'],
             description: 'Appointment Status',
-            example: 'PENDING',
+            example: 'CONFIRMED',
+          },
+          reason: {
+            type: 'string',
+            description: 'Reason for the change',
+            example: 'Patient requested cancellation',
           },
         },
       },
     }),
     ApiResponse({ status: 200, description: 'Appointment status updated successfully' }),
-    ApiResponse({ status: 400, description: 'Bad Request' }),
+    ApiResponse({ status: 400, description: 'Bad Request - Invalid status transition' }),
+    ApiResponse({ status: 401, description: 'Unauthorized' }),
+    ApiResponse({ status: 403, description: 'Forbidden - Insufficient permissions' }),
+  )
+}
+
+export const AppointmentStatusHistoryResponseSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'number', example: 1 },
+    appointmentId: { type: 'number', example: 1 },
+    previousStatus: {
+      type: 'string',
+      nullable: true,
+      enum: ['PENDING', 'CHECKIN', 'PAID', 'PROCESS', 'CONFIRMED', 'COMPLETED', 'CANCELLED', 'NO_SHOW'],
+      example: 'PENDING',
+    },
+    newStatus: {
+      type: 'string',
+      enum: ['PENDING', 'CHECKIN', 'PAID', 'PROCESS', 'CONFIRMED', 'COMPLETED', 'CANCELLED', 'NO_SHOW'],
+      example: 'CONFIRMED',
+    },
+    reason: { type: 'string', nullable: true, example: null },
+    changedBy: {
+      type: 'object',
+      nullable: true,
+      properties: {
+        id: { type: 'number', example: 1 },
+        name: { type: 'string', example: 'Nguyen Van A' },
+        email: { type: 'string', example: 'staff@example.com' },
+      },
+    },
+    createdAt: { type: 'string', format: 'date-time', example: '2024-03-20T10:00:00Z' },
+  },
+}
+
+export const ApiRescheduleAppointment = () => {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Reschedule Appointment',
+      description:
+        'Move a PENDING or CONFIRMED appointment to another slot of the same doctor. Allowed at most 2 times and not within 2 hours of the current start time. Online appointments get a new meeting room. Patient and doctor are notified by email.',
+    }),
+    ApiParam({ name: 'id', type: 'number', description: 'Appointment ID', example: 1 }),
+    ApiBody({
+      description: 'New time and reason',
+      schema: {
+        type: 'object',
+        properties: {
+          appointmentTime: {
+            type: 'string',
+            format: 'date-time',
+            description: 'New slot start time',
+            example: '2025-07-02T01:35:00.000Z',
+          },
+          reason: { type: 'string', description: 'Reason for rescheduling', example: 'Bận công tác đột xuất' },
+        },
+        required: ['appointmentTime', 'reason'],
+      },
+    }),
+    ApiResponse({
+      status: 201,
+      description: 'Appointment rescheduled successfully',
+      schema: AppointmentResponseSchema,
+    }),
+    ApiResponse({ status: 400, description: 'Slot not available, limit reached or too close to start time' }),
+    ApiResponse({ status: 401, description: 'Unauthorized' }),
+    ApiResponse({ status: 403, description: 'Forbidden - Not your appointment' }),
+  )
+}
+
+const CancellationPolicyResponseSchema = {
+  type: 'object',
+  properties: {
+    serviceType: { type: 'string', enum: ['TEST', 'CONSULT', 'TREATMENT'], example: 'CONSULT' },
+    minNoticeHours: { type: 'number', example: 2 },
+    allowLateCancel: { type: 'boolean', example: true },
+    refundable: { type: 'boolean', example: true },
+    lateCancelRefundable: { type: 'boolean', example: false },
+  },
+}
+
+export const ApiCancelAppointment = () => {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Cancel Appointment',
+      description:
+        'Cancel an appointment with a reason. Patients can cancel their own PENDING or CONFIRMED appointments. ' +
+        'The cancellation policy of the service type decides whether it is a late cancellation and whether it is refundable. ' +
+        'The slot is released for other bookings.',
+    }),
+    ApiParam({ name: 'id', type: 'number', description: 'Appointment ID', example: 1 }),
+    ApiBody({
+      description: 'Cancellation reason',
+      schema: {
+        type: 'object',
+        properties: {
+          reason: { type: 'string', description: 'Reason for cancelling', example: 'Không thể sắp xếp thời gian' },
+        },
+        required: ['reason'],
+      },
+    }),
+    ApiResponse({ status: 201, description: 'Appointment cancelled successfully', schema: AppointmentResponseSchema }),
+    ApiResponse({ status: 400, description: 'Appointment cannot be cancelled' }),
+    ApiResponse({ status: 401, description: 'Unauthorized' }),
+    ApiResponse({ status: 403, description: 'Forbidden - Not your appointment' }),
+  )
+}
+
+export const ApiGetCancellationPolicies = () => {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Get Cancellation Policies',
+      description: 'Cancellation policy of every service type (configured or default)',
+    }),
+    ApiResponse({
+      status: 200,
+      description: 'Cancellation policies found successfully',
+      schema: { type: 'array', items: CancellationPolicyResponseSchema },
+    }),
+    ApiResponse({ status: 401, description: 'Unauthorized' }),
+  )
+}
+
+export const ApiUpdateCancellationPolicy = () => {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Update Cancellation Policy',
+      description: 'Configure the cancellation policy of a service type',
+    }),
+    ApiParam({
+      name: 'serviceType',
+      enum: ['TEST', 'CONSULT', 'TREATMENT'],
+      description: 'Service type',
+      example: 'CONSULT',
+    }),
+    ApiBody({
+      description: 'Policy fields to update',
+      schema: {
+        type: 'object',
+        properties: {
+          minNoticeHours: { type: 'number', description: 'Minimum notice in hours', example: 4 },
+          allowLateCancel: { type: 'boolean', description: 'Patients may cancel later than the notice', example: true },
+          refundable: { type: 'boolean', description: 'On-time cancellation is refundable', example: true },
+          lateCancelRefundable: { type: 'boolean', description: 'Late cancellation is refundable', example: false },
+        },
+      },
+    }),
+    ApiResponse({
+      status: 200,
+      description: 'Cancellation policy updated successfully',
+      schema: CancellationPolicyResponseSchema,
+    }),
+    ApiResponse({ status: 400, description: 'Invalid service type' }),
     ApiResponse({ status: 401, description: 'Unauthorized' }),
     ApiResponse({ status: 403, description: 'Forbidden - Insufficient permissions' }),
   )
 }
 
+export const ApiGetAppointmentStatusHistory = () => {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Get Appointment Status History',
+      description:
+        'List every status change of an appointment in chronological order. ' +
+        'Patients and doctors can only view their own appointments.',
+    }),
+    ApiParam({ name: 'id', type: 'number', description: 'Appointment ID', example: 1 }),
+    ApiResponse({
+      status: 200,
+      description: 'Appointment status history found successfully',
+      schema: { type: 'array', items: AppointmentStatusHistoryResponseSchema },
+    }),
+    ApiResponse({ status: 400, description: 'Appointment not found' }),
+    ApiResponse({ status: 401, description: 'Unauthorized' }),
+    ApiResponse({ status: 403, description: 'Forbidden - Not your appointment' }),
+  )
+}
+
+const AppointmentAvailabilityResponseSchema = {
+  type: 'object',
+  properties: {
+    serviceId: { type: 'number', example: 1 },
+    days: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          date: { type: 'string', example: '2025-07-01' },
+          slots: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                start: { type: 'string', example: '07:00' },
+                end: { type: 'string', example: '07:30' },
+                shift: { type: 'string', enum: ['MORNING', 'AFTERNOON'], example: 'MORNING' },
+                isAvailable: { type: 'boolean', example: true },
+                availableDoctors: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      id: { type: 'number', example: 1 },
+                      name: { type: 'string', example: 'Dr. Nguyen Van A' },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  },
+}
+
+export const ApiGetAppointmentAvailability = () => {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Get Appointment Slot Availability',
+      description:
+        'List the booking slots of a service for each day in the range, with the doctors who are on shift and still free for each slot',
+    }),
+    ApiQuery({ name: 'serviceId', type: 'number', description: 'Service ID', example: 1, required: true }),
+    ApiQuery({ name: 'date', type: 'string', description: 'Start date (YYYY-MM-DD)', example: '2025-07-01' }),
+    ApiQuery({
+      name: 'endDate',
+      type: 'string',
+      description: 'End date (YYYY-MM-DD), defaults to date, at most 14 days',
+      example: '2025-07-07',
+      required: false,
+    }),
+    ApiQuery({ name: 'doctorId', type: 'number', description: 'Only check this doctor', example: 1, required: false }),
+    ApiResponse({
+      status: 200,
+      description: 'Slot availability computed successfully',
+      schema: AppointmentAvailabilityResponseSchema,
+    }),
+    ApiResponse({ status: 400, description: 'Service not found' }),
+    ApiResponse({ status: 401, description: 'Unauthorized' }),
+    ApiResponse({ status: 422, description: 'Invalid query parameters' }),
+  )
+}
+
 export const ApiDeleteAppointment = () => {
   return applyDecorators(
-    ApiOperation({ summary: 'Delete Appointment', description: 'Delete Appointment' }),
+    ApiOperation({
+      summary: 'Delete Appointment',
+      description: 'Hard delete an appointment (admin only). Use POST /appointments/:id/cancel to cancel a booking.',
+    }),
     ApiParam({ name: 'id', type: 'number', description: 'Appointment ID', example: 1 }),
     ApiResponse({ status: 200, description: 'Appointment deleted successfully' }),
     ApiResponse({ status: 400, description: 'Bad Request' }),
@@ -161,7 +608,7 @@ export const ApiFindAppointmentByUserId = () => {
       type: 'string',
       description: 'Status',
       required: false,
-      enum: ['PENDING', 'CHECKIN', 'PAID', 'PROCESS', 'CONFIRMED', 'COMPLETED', 'CANCELLED'],
+      enum: ['PENDING', 'CHECKIN', 'PAID', 'PROCESS', 'CONFIRMED', 'COMPLETED', 'CANCELLED', 'NO_SHOW'],
     }),
     ApiQuery({
       name: 'type',
@@ -198,6 +645,35 @@ export const ApiFindAppointmentByUserId = () => {
   )
 }
 
+export const ApiGetPatientAttendance = () => {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Get Patient Attendance',
+      description: 'Attendance counters of a patient: check-ins, no-shows and cancellations',
+    }),
+    ApiParam({ name: 'id', type: 'number', description: 'Patient user ID', example: 1 }),
+    ApiResponse({
+      status: 200,
+      description: 'Attendance record found successfully',
+      schema: {
+        type: 'object',
+        properties: {
+          userId: { type: 'number', example: 1 },
+          attendedCount: { type: 'number', example: 8 },
+          noShowCount: { type: 'number', example: 2 },
+          cancelledCount: { type: 'number', example: 1 },
+          lateCancelCount: { type: 'number', example: 0 },
+          lastNoShowAt: { type: 'string', format: 'date-time', nullable: true, example: '2025-06-20T03:00:00.000Z' },
+          attendanceRate: { type: 'number', nullable: true, example: 80 },
+        },
+      },
+    }),
+    ApiResponse({ status: 400, description: 'User not found' }),
+    ApiResponse({ status: 401, description: 'Unauthorized' }),
+    ApiResponse({ status: 403, description: 'Forbidden - Not your attendance record' }),
+  )
+}
+
 export const ApiFindAppointmentByDoctorId = () => {
   return applyDecorators(
     ApiOperation({ summary: 'Find Appointment by Doctor ID', description: 'Find Appointment by Doctor ID' }),
@@ -225,7 +701,7 @@ export const ApiFindAppointmentByDoctorId = () => {
       type: 'string',
       description: 'Status',
       required: false,
-      enum: ['PENDING', 'CHECKIN', 'PAID', 'PROCESS', 'CONFIRMED', 'COMPLETED', 'CANCELLED'],
+      enum: ['PENDING', 'CHECKIN', 'PAID', 'PROCESS', 'CONFIRMED', 'COMPLETED', 'CANCELLED', 'NO_SHOW'],
     }),
     ApiQuery({
       name: 'type',
@@ -291,7 +767,7 @@ export const ApiFindAppointmentsPaginated = () => {
       type: 'string',
       description: 'Status',
       required: false,
-      enum: ['PENDING', 'CHECKIN', 'PAID', 'PROCESS', 'CONFIRMED', 'COMPLETED', 'CANCELLED'],
+      enum: ['PENDING', 'CHECKIN', 'PAID', 'PROCESS', 'CONFIRMED', 'COMPLETED', 'CANCELLED', 'NO_SHOW'],
     }),
     ApiQuery({
       name: 'type',
@@ -357,7 +833,7 @@ export const ApiFindAppointmentsPaginatedByStaff = () => {
       type: 'string',
       description: 'Status',
       required: false,
-      enum: ['PENDING', 'CHECKIN', 'PAID', 'PROCESS', 'CONFIRMED', 'COMPLETED', 'CANCELLED'],
+      enum: ['PENDING', 'CHECKIN', 'PAID', 'PROCESS', 'CONFIRMED', 'COMPLETED', 'CANCELLED', 'NO_SHOW'],
     }),
     ApiQuery({
       name: 'type',
@@ -0,0 +1,193 @@
+import { applyDecorators } from '@nestjs/common'
+import { ApiBody, ApiOperation, ApiParam, ApiQuery, ApiResponse } from '@nestjs/swagger'
+
+const DAYS_OF_WEEK = ['MONDAY', 'TUESDAY', 'WEDNESDAY', 'THURSDAY', 'FRIDAY', 'SATURDAY', 'SUNDAY']
+const SHIFTS = ['MORNING', 'AFTERNOON']
+
+const AvailabilitySlotSchema = {
+  type: 'object',
+  required: ['dayOfWeek', 'shift'],
+  properties: {
+    dayOfWeek: { type: 'string', enum: DAYS_OF_WEEK, example: 'MONDAY' },
+    shift: { type: 'string', enum: SHIFTS, example: 'MORNING' },
+  },
+}
+
+const AvailabilityTemplateResponseSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'number', example: 1 },
+    doctorId: { type: 'number', example: 1 },
+    name: { type: 'string', nullable: true, example: 'Lịch học kỳ 1' },
+    effectiveFrom: { type: 'string', format: 'date-time', example: '2024-03-01T00:00:00.000Z' },
+    effectiveTo: { type: 'string', format: 'date-time', nullable: true, example: '2024-06-30T00:00:00.000Z' },
+    slots: {
+      type: 'array',
+      items: AvailabilitySlotSchema,
+      example: [
+        { dayOfWeek: 'MONDAY', shift: 'MORNING' },
+        { dayOfWeek: 'WEDNESDAY', shift: 'MORNING' },
+        { dayOfWeek: 'FRIDAY', shift: 'AFTERNOON' },
+      ],
+    },
+    exceptions: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'number', example: 1 },
+          date: { type: 'string', format: 'date-time', example: '2024-04-29T00:00:00.000Z' },
+          shifts: { type: 'array', items: { type: 'string', enum: SHIFTS }, example: ['MORNING', 'AFTERNOON'] },
+          reason: { type: 'string', nullable: true, example: 'Nghỉ lễ 30/4' },
+          createdAt: { type: 'string', format: 'date-time' },
+        },
+      },
+    },
+    createdAt: { type: 'string', format: 'date-time' },
+    updatedAt: { type: 'string', format: 'date-time' },
+  },
+}
+
+const TemplateIdParam = ApiParam({ name: 'id', type: 'number', description: 'Availability template ID', example: 1 })
+
+export const ApiCreateAvailabilityTemplate = () => {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Create a recurring availability template',
+      description:
+        'While a template is in effect, the schedule generator and the doctors-by-date lookup only use its shifts. ' +
+        'Doctors without a template in effect are not restricted.',
+    }),
+    ApiBody({
+      schema: {
+        type: 'object',
+        required: ['doctorId', 'effectiveFrom', 'slots'],
+        properties: {
+          doctorId: { type: 'number', example: 1 },
+          name: { type: 'string', example: 'Lịch học kỳ 1' },
+          effectiveFrom: { type: 'string', format: 'date', example: '2024-03-01' },
+          effectiveTo: { type: 'string', format: 'date', description: 'Omit for no end date', example: '2024-06-30' },
+          slots: { type: 'array', items: AvailabilitySlotSchema },
+        },
+      },
+    }),
+    ApiResponse({ status: 201, description: 'Template created', schema: AvailabilityTemplateResponseSchema }),
+    ApiResponse({ status: 400, description: 'Invalid input data' }),
+    ApiResponse({ status: 404, description: 'Doctor not found' }),
+    ApiResponse({ status: 409, description: 'Doctor already has a template in this period' }),
+  )
+}
+
+export const ApiFindAvailabilityTemplates = () => {
+  return applyDecorators(
+    ApiOperation({ summary: 'Get availability templates' }),
+    ApiQuery({ name: 'doctorId', required: false, type: Number, example: 1 }),
+    ApiQuery({
+      name: 'date',
+      required: false,
+      type: String,
+      description: 'Only templates in effect on this date (YYYY-MM-DD)',
+      example: '2024-03-18',
+    }),
+    ApiResponse({
+      status: 200,
+      description: 'Templates retrieved successfully',
+      schema: { type: 'array', items: AvailabilityTemplateResponseSchema },
+    }),
+  )
+}
+
+export const ApiFindMyAvailabilityTemplates = () => {
+  return applyDecorators(
+    ApiOperation({ summary: 'Get availability templates of the current doctor' }),
+    ApiResponse({
+      status: 200,
+      description: 'Templates retrieved successfully',
+      schema: { type: 'array', items: AvailabilityTemplateResponseSchema },
+    }),
+    ApiResponse({ status: 404, description: 'Doctor not found' }),
+  )
+}
+
+export const ApiGetAvailabilityTemplate = () => {
+  return applyDecorators(
+    ApiOperation({ summary: 'Get an availability template' }),
+    TemplateIdParam,
+    ApiResponse({
+      status: 200,
+      description: 'Template retrieved successfully',
+      schema: AvailabilityTemplateResponseSchema,
+    }),
+    ApiResponse({ status: 404, description: 'Availability template not found' }),
+  )
+}
+
+export const ApiUpdateAvailabilityTemplate = () => {
+  return applyDecorators(
+    ApiOperation({ summary: 'Update an availability template', description: 'New slots replace the existing ones' }),
+    TemplateIdParam,
+    ApiBody({
+      schema: {
+        type: 'object',
+        properties: {
+          name: { type: 'string', example: 'Lịch học kỳ 1' },
+          effectiveFrom: { type: 'string', format: 'date', example: '2024-03-01' },
+          effectiveTo: { type: 'string', format: 'date', nullable: true, example: null },
+          slots: { type: 'array', items: AvailabilitySlotSchema },
+        },
+      },
+    }),
+    ApiResponse({ status: 200, description: 'Template updated', schema: AvailabilityTemplateResponseSchema }),
+    ApiResponse({ status: 400, description: 'Invalid input data' }),
+    ApiResponse({ status: 404, description: 'Availability template not found' }),
+    ApiResponse({ status: 409, description: 'Doctor already has a template in this period' }),
+  )
+}
+
+export const ApiDeleteAvailabilityTemplate = () => {
+  return applyDecorators(
+    ApiOperation({ summary: 'Delete an availability template' }),
+    TemplateIdParam,
+    ApiResponse({ status: 200, description: 'Template deleted' }),
+    ApiResponse({ status: 404, description: 'Availability template not found' }),
+  )
+}
+
+export const ApiAddAvailabilityException = () => {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Add an exception to an availability template',
+      description: 'The doctor is unavailable for the given shifts on that date (e.g. a holiday)',
+    }),
+    TemplateIdParam,
+    ApiBody({
+      schema: {
+        type: 'object',
+        required: ['date'],
+        properties: {
+          date: { type: 'string', format: 'date', example: '2024-04-30' },
+          shifts: {
+            type: 'array',
+            items: { type: 'string', enum: SHIFTS },
+            description: 'Defaults to the whole day',
+            example: ['MORNING', 'AFTERNOON'],
+          },
+          reason: { type: 'string', example: 'Nghỉ lễ 30/4' },
+        },
+      },
+    }),
+    ApiResponse({ status: 201, description: 'Exception added', schema: AvailabilityTemplateResponseSchema }),
+    ApiResponse({ status: 400, description: 'Date is outside the effective range of the template' }),
+    ApiResponse({ status: 404, description: 'Availability template not found' }),
+  )
+}
+
+export const ApiRemoveAvailabilityException = () => {
+  return applyDecorators(
+    ApiOperation({ summary: 'Remove an exception from an availability template' }),
+    TemplateIdParam,
+    ApiParam({ name: 'exceptionId', type: 'number', description: 'Exception ID', example: 1 }),
+    ApiResponse({ status: 200, description: 'Exception removed', schema: AvailabilityTemplateResponseSchema }),
+    ApiResponse({ status: 404, description: 'Availability template or exception not found' }),
+  )
+}
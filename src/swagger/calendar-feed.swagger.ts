@@ -0,0 +1,113 @@
+import { applyDecorators } from '@nestjs/common'
+import { ApiOperation, ApiParam, ApiProduces, ApiQuery, ApiResponse } from '@nestjs/swagger'
+
+const CalendarSubscriptionResponseSchema = {
+  type: 'object',
+  properties: {
+    url: {
+      type: 'string',
+      example: 'http://localhost:3000/doctors/calendar/feeds/9f86d081884c7d659a2feaa0c55ad015a3bf4f1b2b0b822c.ics',
+    },
+    token: { type: 'string', example: '9f86d081884c7d659a2feaa0c55ad015a3bf4f1b2b0b822c' },
+    createdAt: { type: 'string', format: 'date-time' },
+    lastAccessedAt: { type: 'string', format: 'date-time', nullable: true },
+  },
+}
+
+const CalendarFileResponse = ApiResponse({
+  status: 200,
+  description: 'iCalendar file with the doctor shifts and booked appointments',
+  content: { 'text/calendar': { schema: { type: 'string', example: 'BEGIN:VCALENDAR\r\nVERSION:2.0\r\n...' } } },
+})
+
+const CalendarRangeQueries = [
+  ApiQuery({
+    name: 'startDate',
+    required: false,
+    type: String,
+    description: 'First day (YYYY-MM-DD), defaults to 30 days ago',
+    example: '2024-03-01',
+  }),
+  ApiQuery({
+    name: 'endDate',
+    required: false,
+    type: String,
+    description: 'Last day (YYYY-MM-DD), defaults to 90 days ahead',
+    example: '2024-05-31',
+  }),
+]
+
+export const ApiExportMyCalendar = () => {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Export the current doctor schedule as an iCalendar file',
+      description: 'Patient names of anonymous appointments are hidden.',
+    }),
+    ApiProduces('text/calendar'),
+    ...CalendarRangeQueries,
+    CalendarFileResponse,
+    ApiResponse({ status: 400, description: 'Invalid date range' }),
+    ApiResponse({ status: 404, description: 'Doctor not found' }),
+  )
+}
+
+export const ApiExportDoctorCalendar = () => {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Export a doctor schedule as an iCalendar file',
+      description: 'Patient names of anonymous appointments are hidden.',
+    }),
+    ApiProduces('text/calendar'),
+    ApiParam({ name: 'id', type: 'number', description: 'Doctor ID', example: 1 }),
+    ...CalendarRangeQueries,
+    CalendarFileResponse,
+    ApiResponse({ status: 400, description: 'Invalid date range' }),
+    ApiResponse({ status: 404, description: 'Doctor not found' }),
+  )
+}
+
+export const ApiGetMyCalendarSubscription = () => {
+  return applyDecorators(
+    ApiOperation({ summary: 'Get the calendar subscription URL of the current doctor' }),
+    ApiResponse({
+      status: 200,
+      description: 'Subscription retrieved successfully, null when the doctor has none',
+      schema: { ...CalendarSubscriptionResponseSchema, nullable: true },
+    }),
+    ApiResponse({ status: 404, description: 'Doctor not found' }),
+  )
+}
+
+export const ApiCreateMyCalendarSubscription = () => {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Create or regenerate the calendar subscription URL of the current doctor',
+      description: 'The URL can be added to any calendar app. Regenerating it stops the previous URL from working.',
+    }),
+    ApiResponse({ status: 201, description: 'Subscription created', schema: CalendarSubscriptionResponseSchema }),
+    ApiResponse({ status: 404, description: 'Doctor not found' }),
+  )
+}
+
+export const ApiRevokeMyCalendarSubscription = () => {
+  return applyDecorators(
+    ApiOperation({ summary: 'Revoke the calendar subscription URL of the current doctor' }),
+    ApiResponse({ status: 200, description: 'Subscription revoked successfully' }),
+    ApiResponse({ status: 404, description: 'Doctor or subscription not found' }),
+  )
+}
+
+export const ApiGetCalendarFeed = () => {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Calendar subscription feed',
+      description:
+        'Public endpoint used by calendar apps. The token from the subscription URL authenticates the request; ' +
+        'the feed covers 30 days ago to 90 days ahead.',
+    }),
+    ApiProduces('text/calendar'),
+    ApiParam({ name: 'token', type: 'string', description: 'Subscription token, optionally ending with .ics' }),
+    CalendarFileResponse,
+    ApiResponse({ status: 404, description: 'Calendar feed not found' }),
+  )
+}
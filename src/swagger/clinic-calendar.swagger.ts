@@ -0,0 +1,100 @@
+import { applyDecorators } from '@nestjs/common'
+import { ApiBody, ApiOperation, ApiParam, ApiQuery, ApiResponse } from '@nestjs/swagger'
+
+const CLOSURE_TYPES = ['CLOSED', 'REDUCED_HOURS']
+
+const ClinicClosureResponseSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'number', example: 1 },
+    name: { type: 'string', example: 'Tết Nguyên Đán' },
+    startDate: { type: 'string', format: 'date-time', example: '2026-02-16T00:00:00.000Z' },
+    endDate: { type: 'string', format: 'date-time', example: '2026-02-20T00:00:00.000Z' },
+    type: { type: 'string', enum: CLOSURE_TYPES, example: 'CLOSED' },
+    openTime: { type: 'string', nullable: true, example: null },
+    closeTime: { type: 'string', nullable: true, example: null },
+    serviceId: { type: 'number', nullable: true, example: null },
+    service: {
+      type: 'object',
+      nullable: true,
+      properties: { id: { type: 'number', example: 1 }, name: { type: 'string', example: 'Xét nghiệm HIV' } },
+    },
+    createdById: { type: 'number', nullable: true, example: 1 },
+    createdAt: { type: 'string', format: 'date-time' },
+    updatedAt: { type: 'string', format: 'date-time' },
+  },
+}
+
+const ClinicClosureBodyProperties = {
+  name: { type: 'string', example: 'Tết Nguyên Đán' },
+  startDate: { type: 'string', format: 'date', example: '2026-02-16' },
+  endDate: { type: 'string', format: 'date', example: '2026-02-20' },
+  type: { type: 'string', enum: CLOSURE_TYPES, example: 'CLOSED' },
+  openTime: { type: 'string', nullable: true, description: 'Required for REDUCED_HOURS (HH:mm)', example: '07:00' },
+  closeTime: { type: 'string', nullable: true, description: 'Required for REDUCED_HOURS (HH:mm)', example: '11:00' },
+  serviceId: { type: 'number', nullable: true, description: 'Omit to close the whole clinic', example: null },
+}
+
+export const ApiFindClinicClosures = () => {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Get Clinic Closures',
+      description: 'Holidays, closures and reduced-hours days of the clinic',
+    }),
+    ApiQuery({ name: 'startDate', required: false, type: String, example: '2026-01-01' }),
+    ApiQuery({ name: 'endDate', required: false, type: String, example: '2026-12-31' }),
+    ApiQuery({
+      name: 'serviceId',
+      required: false,
+      type: Number,
+      description: 'Closures of this service together with clinic-wide closures',
+    }),
+    ApiResponse({
+      status: 200,
+      description: 'Closures retrieved successfully',
+      schema: { type: 'array', items: ClinicClosureResponseSchema },
+    }),
+    ApiResponse({ status: 401, description: 'Unauthorized' }),
+  )
+}
+
+export const ApiCreateClinicClosure = () => {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Create Clinic Closure',
+      description:
+        'No doctor shifts are generated and no appointments can be booked on closed days. ' +
+        'On reduced-hours days only slots within the opening hours can be booked.',
+    }),
+    ApiBody({
+      schema: { type: 'object', required: ['name', 'startDate', 'endDate'], properties: ClinicClosureBodyProperties },
+    }),
+    ApiResponse({ status: 201, description: 'Closure created successfully', schema: ClinicClosureResponseSchema }),
+    ApiResponse({ status: 400, description: 'Invalid dates, opening hours or service' }),
+    ApiResponse({ status: 401, description: 'Unauthorized' }),
+    ApiResponse({ status: 403, description: 'Forbidden - Insufficient permissions' }),
+  )
+}
+
+export const ApiUpdateClinicClosure = () => {
+  return applyDecorators(
+    ApiOperation({ summary: 'Update Clinic Closure' }),
+    ApiParam({ name: 'id', type: 'number', description: 'Closure ID', example: 1 }),
+    ApiBody({ schema: { type: 'object', properties: ClinicClosureBodyProperties } }),
+    ApiResponse({ status: 200, description: 'Closure updated successfully', schema: ClinicClosureResponseSchema }),
+    ApiResponse({ status: 400, description: 'Closure not found or invalid data' }),
+    ApiResponse({ status: 401, description: 'Unauthorized' }),
+    ApiResponse({ status: 403, description: 'Forbidden - Insufficient permissions' }),
+  )
+}
+
+export const ApiDeleteClinicClosure = () => {
+  return applyDecorators(
+    ApiOperation({ summary: 'Delete Clinic Closure' }),
+    ApiParam({ name: 'id', type: 'number', description: 'Closure ID', example: 1 }),
+    ApiResponse({ status: 200, description: 'Closure deleted successfully', schema: ClinicClosureResponseSchema }),
+    ApiResponse({ status: 400, description: 'Clinic closure not found' }),
+    ApiResponse({ status: 401, description: 'Unauthorized' }),
+    ApiResponse({ status: 403, description: 'Forbidden - Insufficient permissions' }),
+  )
+}
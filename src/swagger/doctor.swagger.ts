@@ -12,6 +12,9 @@ const DoctorResponseSchema = {
     email: { type: 'string', example: 'john.doe@example.com' },
     phone: { type: 'string', example: '0123456789' },
     specialization: { type: 'string', example: 'Cardiology' },
+    bio: { type: 'string', nullable: true, example: 'Bác sĩ chuyên điều trị HIV với hơn 10 năm kinh nghiệm' },
+    yearsOfExperience: { type: 'number', nullable: true, example: 12 },
+    languages: { type: 'array', items: { type: 'string' }, example: ['Tiếng Việt', 'English'] },
     maxShiftsPerDay: { type: 'number', example: 2 },
     isActive: { type: 'boolean', example: true },
     createdAt: { type: 'string', format: 'date-time' },
@@ -232,6 +235,67 @@ export const ApiGetDoctorById = () => {
   )
 }
 
+export const ApiGetPublicDoctors = () => {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Public doctor directory',
+      description:
+        'Unauthenticated listing for the patient-facing site. Only available doctors with an active account are ' +
+        'listed, with safe profile fields and unexpired qualifications.',
+    }),
+    ApiQuery({ name: 'page', required: false, type: Number, example: 1 }),
+    ApiQuery({ name: 'limit', required: false, type: Number, description: 'Maximum 50 (default: 10)', example: 10 }),
+    ApiQuery({ name: 'search', required: false, type: String, description: 'Search by doctor name' }),
+    ApiQuery({ name: 'specialization', required: false, type: String, example: 'Truyền nhiễm' }),
+    ApiQuery({ name: 'language', required: false, type: String, description: 'Spoken language', example: 'English' }),
+    ApiResponse({
+      status: 200,
+      description: 'Doctors retrieved successfully',
+      schema: {
+        type: 'object',
+        properties: {
+          data: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                id: { type: 'number', example: 1 },
+                name: { type: 'string', example: 'Nguyễn Văn A' },
+                avatar: { type: 'string', nullable: true },
+                specialization: { type: 'string', example: 'Truyền nhiễm' },
+                bio: { type: 'string', nullable: true },
+                yearsOfExperience: { type: 'number', nullable: true, example: 12 },
+                languages: { type: 'array', items: { type: 'string' }, example: ['Tiếng Việt', 'English'] },
+                qualifications: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      name: { type: 'string', example: 'Chứng chỉ hành nghề khám bệnh, chữa bệnh' },
+                      issuingBody: { type: 'string', example: 'Sở Y tế TP. Hồ Chí Minh' },
+                    },
+                  },
+                },
+              },
+            },
+          },
+          meta: {
+            type: 'object',
+            properties: {
+              total: { type: 'number', example: 25 },
+              page: { type: 'number', example: 1 },
+              limit: { type: 'number', example: 10 },
+              totalPages: { type: 'number', example: 3 },
+              hasNextPage: { type: 'boolean', example: true },
+              hasPreviousPage: { type: 'boolean', example: false },
+            },
+          },
+        },
+      },
+    }),
+  )
+}
+
 export const ApiCreateDoctor = () => {
   return applyDecorators(
     ApiOperation({ summary: 'Create new doctor with basic information' }),
@@ -258,6 +322,24 @@ export const ApiCreateDoctor = () => {
             description: 'List of doctor certifications (optional)',
             example: ['Medical License', 'Board Certification'],
           },
+          bio: {
+            type: 'string',
+            description: 'Short biography shown on the patient-facing site (optional)',
+            example: 'Bác sĩ chuyên điều trị HIV với hơn 10 năm kinh nghiệm',
+          },
+          yearsOfExperience: {
+            type: 'number',
+            description: 'Years of clinical experience (optional)',
+            example: 12,
+          },
+          languages: {
+            type: 'array',
+            items: {
+              type: 'string',
+            },
+            description: 'Spoken languages (optional)',
+            example: ['Tiếng Việt', 'English'],
+          },
         },
       },
     }),
@@ -303,6 +385,24 @@ export const ApiUpdateDoctor = () => {
             description: 'List of doctor certifications',
             example: ['Medical License', 'Board Certification'],
           },
+          bio: {
+            type: 'string',
+            description: 'Short biography shown on the patient-facing site',
+            example: 'Bác sĩ chuyên điều trị HIV với hơn 10 năm kinh nghiệm',
+          },
+          yearsOfExperience: {
+            type: 'number',
+            description: 'Years of clinical experience',
+            example: 12,
+          },
+          languages: {
+            type: 'array',
+            items: {
+              type: 'string',
+            },
+            description: 'Spoken languages',
+            example: ['Tiếng Việt', 'English'],
+          },
         },
       },
     }),
@@ -349,7 +449,10 @@ export const ApiDeleteDoctor = () => {
 
 export const ApiSwapShifts = () => {
   return applyDecorators(
-    ApiOperation({ summary: 'Swap shifts between two doctors on different dates' }),
+    ApiOperation({
+      summary: 'Swap shifts between two doctors on different dates',
+      description: 'Booked appointments in both shifts are moved to the covering doctor and patients are notified.',
+    }),
     ApiBody({
       schema: {
         type: 'object',
@@ -414,6 +517,10 @@ export const ApiSwapShifts = () => {
             type: 'string',
             example: 'Shifts swapped successfully',
           },
+          movedAppointments: {
+            type: 'number',
+            example: 3,
+          },
           doctor1: {
             type: 'object',
             properties: {
@@ -483,19 +590,9 @@ export const ApiSwapShifts = () => {
 
 export const ApiGetPreferredSchedules = () => {
   return applyDecorators(
-    ApiOperation({ summary: "Get doctor's preferred schedules" }),
-    ApiBody({
-      schema: {
-        type: 'object',
-        required: ['doctorId'],
-        properties: {
-          doctorId: {
-            type: 'number',
-            description: 'Doctor ID',
-            example: 1,
-          },
-        },
-      },
+    ApiOperation({
+      summary: "Get doctor's preferred schedules",
+      description: 'Soft preferences used by the roster generator',
     }),
     ApiResponse({
       status: 200,
@@ -513,6 +610,10 @@ export const ApiGetPreferredSchedules = () => {
               type: 'string',
               enum: ['MORNING', 'AFTERNOON'],
             },
+            preference: {
+              type: 'string',
+              enum: ['PREFERRED', 'AVOID'],
+            },
           },
         },
       },
@@ -534,17 +635,15 @@ export const ApiGetPreferredSchedules = () => {
 
 export const ApiUpdatePreferredSchedules = () => {
   return applyDecorators(
-    ApiOperation({ summary: "Update doctor's preferred schedules" }),
+    ApiOperation({
+      summary: "Update doctor's preferred schedules",
+      description: 'Replaces all preferences of the current doctor',
+    }),
     ApiBody({
       schema: {
         type: 'object',
-        required: ['doctorId', 'schedules'],
+        required: ['schedules'],
         properties: {
-          doctorId: {
-            type: 'number',
-            description: 'Doctor ID',
-            example: 1,
-          },
           schedules: {
             type: 'array',
             items: {
@@ -559,6 +658,11 @@ export const ApiUpdatePreferredSchedules = () => {
                   type: 'string',
                   enum: ['MORNING', 'AFTERNOON'],
                 },
+                preference: {
+                  type: 'string',
+                  enum: ['PREFERRED', 'AVOID'],
+                  default: 'PREFERRED',
+                },
               },
             },
           },
@@ -763,3 +867,333 @@ export const ApiGetDoctorsByDate = () => {
     }),
   )
 }
+
+// Schema cho TimeOffRequest
+const TimeOffRequestResponseSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'number', example: 1 },
+    doctorId: { type: 'number', example: 1 },
+    startDate: { type: 'string', format: 'date-time', example: '2024-03-20T00:00:00.000Z' },
+    endDate: { type: 'string', format: 'date-time', example: '2024-03-22T00:00:00.000Z' },
+    shifts: { type: 'array', items: { type: 'string', enum: Object.values(Shift) }, example: ['MORNING', 'AFTERNOON'] },
+    reason: { type: 'string', example: 'Tham dự hội thảo chuyên môn' },
+    status: { type: 'string', enum: ['PENDING', 'APPROVED', 'REJECTED'], example: 'PENDING' },
+    reviewedById: { type: 'number', nullable: true, example: null },
+    reviewedAt: { type: 'string', format: 'date-time', nullable: true, example: null },
+    reviewNote: { type: 'string', nullable: true, example: null },
+    createdAt: { type: 'string', format: 'date-time' },
+    updatedAt: { type: 'string', format: 'date-time' },
+    doctor: {
+      type: 'object',
+      properties: {
+        id: { type: 'number', example: 1 },
+        name: { type: 'string', example: 'Dr. John Doe' },
+        email: { type: 'string', example: 'john.doe@example.com' },
+      },
+    },
+  },
+}
+
+// Schema cho lịch hẹn bị ảnh hưởng bởi đơn xin nghỉ hoặc đổi ca
+const AffectedAppointmentResponseSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'number', example: 1 },
+    appointmentTime: { type: 'string', format: 'date-time', example: '2024-03-20T02:00:00.000Z' },
+    status: { type: 'string', example: 'CONFIRMED' },
+    type: { type: 'string', enum: ['ONLINE', 'OFFLINE'], example: 'OFFLINE' },
+    shift: { type: 'string', enum: Object.values(Shift), example: 'MORNING' },
+    user: {
+      type: 'object',
+      properties: {
+        id: { type: 'number', example: 5 },
+        name: { type: 'string', example: 'Nguyen Van A' },
+        email: { type: 'string', example: 'patient@example.com' },
+      },
+    },
+    service: {
+      type: 'object',
+      properties: {
+        id: { type: 'number', example: 2 },
+        name: { type: 'string', example: 'Tư vấn HIV' },
+      },
+    },
+  },
+}
+
+const ReviewTimeOffRequestBody = {
+  schema: {
+    type: 'object',
+    properties: {
+      note: { type: 'string', description: 'Optional note for the doctor', example: 'Đã sắp xếp bác sĩ thay thế' },
+    },
+  },
+}
+
+export const ApiRequestTimeOff = () => {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Request time off',
+      description:
+        'Doctor submits a time off request for one or more days. The schedule is only marked off once an admin approves it.',
+    }),
+    ApiBody({
+      schema: {
+        type: 'object',
+        required: ['startDate', 'endDate', 'reason'],
+        properties: {
+          startDate: { type: 'string', format: 'date', example: '2024-03-20' },
+          endDate: { type: 'string', format: 'date', example: '2024-03-22' },
+          shifts: {
+            type: 'array',
+            items: { type: 'string', enum: Object.values(Shift) },
+            description: 'Shifts requested off on each day (defaults to both shifts)',
+            example: ['MORNING'],
+          },
+          reason: { type: 'string', example: 'Tham dự hội thảo chuyên môn' },
+        },
+      },
+    }),
+    ApiResponse({ status: 201, description: 'Time off request submitted', schema: TimeOffRequestResponseSchema }),
+    ApiResponse({ status: 400, description: 'Invalid date range' }),
+    ApiResponse({ status: 404, description: 'Doctor not found' }),
+    ApiResponse({ status: 409, description: 'Overlaps an existing pending or approved request' }),
+  )
+}
+
+export const ApiGetMyTimeOffRequests = () => {
+  return applyDecorators(
+    ApiOperation({ summary: 'Get time off requests of the current doctor' }),
+    ApiResponse({
+      status: 200,
+      description: 'Time off requests retrieved successfully',
+      schema: { type: 'array', items: TimeOffRequestResponseSchema },
+    }),
+    ApiResponse({ status: 404, description: 'Doctor not found' }),
+  )
+}
+
+export const ApiGetTimeOffRequests = () => {
+  return applyDecorators(
+    ApiOperation({ summary: 'Get time off requests for review' }),
+    ApiQuery({ name: 'status', required: false, enum: ['PENDING', 'APPROVED', 'REJECTED'] }),
+    ApiQuery({ name: 'doctorId', required: false, type: Number }),
+    ApiQuery({ name: 'startDate', required: false, type: String, example: '2024-03-01' }),
+    ApiQuery({ name: 'endDate', required: false, type: String, example: '2024-03-31' }),
+    ApiResponse({
+      status: 200,
+      description: 'Time off requests retrieved successfully',
+      schema: { type: 'array', items: TimeOffRequestResponseSchema },
+    }),
+  )
+}
+
+export const ApiApproveTimeOffRequest = () => {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Approve time off request',
+      description:
+        'Marks the matching schedules as off and returns the booked appointments in those shifts so staff can reassign them.',
+    }),
+    ApiParam({ name: 'id', type: 'number', description: 'Time off request ID', example: 1 }),
+    ApiBody(ReviewTimeOffRequestBody),
+    ApiResponse({
+      status: 200,
+      description: 'Time off request approved',
+      schema: {
+        type: 'object',
+        properties: {
+          request: TimeOffRequestResponseSchema,
+          affectedAppointments: { type: 'array', items: AffectedAppointmentResponseSchema },
+        },
+      },
+    }),
+    ApiResponse({ status: 400, description: 'Request has already been reviewed' }),
+    ApiResponse({ status: 404, description: 'Time off request not found' }),
+  )
+}
+
+export const ApiRejectTimeOffRequest = () => {
+  return applyDecorators(
+    ApiOperation({ summary: 'Reject time off request' }),
+    ApiParam({ name: 'id', type: 'number', description: 'Time off request ID', example: 1 }),
+    ApiBody(ReviewTimeOffRequestBody),
+    ApiResponse({ status: 200, description: 'Time off request rejected', schema: TimeOffRequestResponseSchema }),
+    ApiResponse({ status: 400, description: 'Request has already been reviewed' }),
+    ApiResponse({ status: 404, description: 'Time off request not found' }),
+  )
+}
+
+export const ApiGetTimeOffAffectedAppointments = () => {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Get appointments affected by an approved time off request',
+      description: 'Booked appointments of the doctor that fall in the approved shifts and still need reassigning.',
+    }),
+    ApiParam({ name: 'id', type: 'number', description: 'Time off request ID', example: 1 }),
+    ApiResponse({
+      status: 200,
+      description: 'Affected appointments retrieved successfully',
+      schema: { type: 'array', items: AffectedAppointmentResponseSchema },
+    }),
+    ApiResponse({ status: 404, description: 'Time off request not found' }),
+  )
+}
+
+export const ApiGetSchedulesWithTimeOff = () => {
+  return applyDecorators(
+    ApiOperation({ summary: 'Get schedules marked as off in a date range' }),
+    ApiQuery({ name: 'startDate', required: false, type: String, example: '2024-03-01' }),
+    ApiQuery({ name: 'endDate', required: false, type: String, example: '2024-03-31' }),
+    ApiResponse({
+      status: 200,
+      description: 'Schedules retrieved successfully',
+      schema: { type: 'array', items: DoctorScheduleSchema },
+    }),
+  )
+}
+
+// Schema cho ShiftSwapRequest
+const SwapScheduleSummaryResponseSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'number', example: 10 },
+    date: { type: 'string', format: 'date-time', example: '2024-03-20T00:00:00.000Z' },
+    shift: { type: 'string', enum: Object.values(Shift), example: 'MORNING' },
+  },
+}
+
+const ShiftSwapRequestResponseSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'number', example: 1 },
+    requesterId: { type: 'number', example: 1 },
+    requesterScheduleId: { type: 'number', example: 10 },
+    targetDoctorId: { type: 'number', example: 2 },
+    targetScheduleId: { type: 'number', example: 12 },
+    reason: { type: 'string', nullable: true, example: 'Có việc gia đình' },
+    status: { type: 'string', enum: ['PENDING', 'ACCEPTED', 'DECLINED', 'CANCELLED'], example: 'PENDING' },
+    respondedAt: { type: 'string', format: 'date-time', nullable: true, example: null },
+    createdAt: { type: 'string', format: 'date-time' },
+    updatedAt: { type: 'string', format: 'date-time' },
+    requester: {
+      type: 'object',
+      properties: { id: { type: 'number', example: 1 }, name: { type: 'string', example: 'Dr. John Doe' } },
+    },
+    targetDoctor: {
+      type: 'object',
+      properties: { id: { type: 'number', example: 2 }, name: { type: 'string', example: 'Dr. Jane Roe' } },
+    },
+    requesterSchedule: SwapScheduleSummaryResponseSchema,
+    targetSchedule: SwapScheduleSummaryResponseSchema,
+  },
+}
+
+const ShiftSwapImpactResponseSchema = {
+  type: 'object',
+  properties: {
+    request: ShiftSwapRequestResponseSchema,
+    toTargetDoctor: {
+      type: 'array',
+      description: 'Appointments of the requester moved to the target doctor',
+      items: AffectedAppointmentResponseSchema,
+    },
+    toRequester: {
+      type: 'array',
+      description: 'Appointments of the target doctor moved to the requester',
+      items: AffectedAppointmentResponseSchema,
+    },
+  },
+}
+
+export const ApiRequestShiftSwap = () => {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Request a shift swap',
+      description:
+        'Doctor proposes swapping one of their schedules with a schedule of another doctor. ' +
+        'The response lists the booked appointments that will be handed over if the swap is accepted.',
+    }),
+    ApiBody({
+      schema: {
+        type: 'object',
+        required: ['scheduleId', 'targetScheduleId'],
+        properties: {
+          scheduleId: { type: 'number', description: 'Own schedule to give away', example: 10 },
+          targetScheduleId: { type: 'number', description: 'Schedule of the other doctor', example: 12 },
+          reason: { type: 'string', example: 'Có việc gia đình' },
+        },
+      },
+    }),
+    ApiResponse({ status: 201, description: 'Shift swap requested', schema: ShiftSwapImpactResponseSchema }),
+    ApiResponse({ status: 400, description: 'Schedules cannot be swapped' }),
+    ApiResponse({ status: 403, description: 'Schedule does not belong to the current doctor' }),
+    ApiResponse({ status: 404, description: 'Schedule not found' }),
+    ApiResponse({ status: 409, description: 'A pending swap request already exists for one of the schedules' }),
+  )
+}
+
+export const ApiGetMyShiftSwapRequests = () => {
+  return applyDecorators(
+    ApiOperation({ summary: 'Get shift swap requests sent or received by the current doctor' }),
+    ApiResponse({
+      status: 200,
+      description: 'Shift swap requests retrieved successfully',
+      schema: { type: 'array', items: ShiftSwapRequestResponseSchema },
+    }),
+  )
+}
+
+export const ApiGetShiftSwapImpact = () => {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Preview appointments affected by a shift swap',
+      description:
+        'Only pending requests have affected appointments. ' +
+        'Doctors can only view requests they made or received.',
+    }),
+    ApiParam({ name: 'id', type: 'number', description: 'Shift swap request ID', example: 1 }),
+    ApiResponse({ status: 200, description: 'Impact retrieved successfully', schema: ShiftSwapImpactResponseSchema }),
+    ApiResponse({ status: 403, description: 'Not part of this swap request' }),
+    ApiResponse({ status: 404, description: 'Shift swap request not found' }),
+  )
+}
+
+export const ApiAcceptShiftSwap = () => {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Accept a shift swap',
+      description:
+        'Target doctor accepts the swap. Schedules are swapped, booked appointments are moved to the covering doctor ' +
+        '(online appointments get new meeting links) and patients are notified by email.',
+    }),
+    ApiParam({ name: 'id', type: 'number', description: 'Shift swap request ID', example: 1 }),
+    ApiResponse({ status: 200, description: 'Shift swap accepted', schema: ShiftSwapImpactResponseSchema }),
+    ApiResponse({ status: 400, description: 'Request is no longer pending or schedules have changed' }),
+    ApiResponse({ status: 403, description: 'Only the requested doctor can accept' }),
+    ApiResponse({ status: 404, description: 'Shift swap request not found' }),
+  )
+}
+
+export const ApiDeclineShiftSwap = () => {
+  return applyDecorators(
+    ApiOperation({ summary: 'Decline a shift swap' }),
+    ApiParam({ name: 'id', type: 'number', description: 'Shift swap request ID', example: 1 }),
+    ApiResponse({ status: 200, description: 'Shift swap declined', schema: ShiftSwapRequestResponseSchema }),
+    ApiResponse({ status: 400, description: 'Request is no longer pending' }),
+    ApiResponse({ status: 403, description: 'Only the requested doctor can decline' }),
+    ApiResponse({ status: 404, description: 'Shift swap request not found' }),
+  )
+}
+
+export const ApiCancelShiftSwap = () => {
+  return applyDecorators(
+    ApiOperation({ summary: 'Cancel a shift swap request' }),
+    ApiParam({ name: 'id', type: 'number', description: 'Shift swap request ID', example: 1 }),
+    ApiResponse({ status: 200, description: 'Shift swap cancelled', schema: ShiftSwapRequestResponseSchema }),
+    ApiResponse({ status: 400, description: 'Request is no longer pending' }),
+    ApiResponse({ status: 403, description: 'Only the requesting doctor can cancel' }),
+    ApiResponse({ status: 404, description: 'Shift swap request not found' }),
+  )
+}
@@ -0,0 +1,142 @@
+import { applyDecorators } from '@nestjs/common'
+import { ApiBody, ApiOperation, ApiParam, ApiQuery, ApiResponse } from '@nestjs/swagger'
+
+const ScheduleSlotProperty = { type: 'string', enum: ['MORNING', 'AFTERNOON', 'NIGHT'], example: 'MORNING' }
+
+const DoseLogResponseSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'number', example: 1 },
+    patientTreatmentId: { type: 'number', example: 1 },
+    doseDate: { type: 'string', format: 'date-time', example: '2025-07-01T00:00:00.000Z' },
+    scheduleSlot: ScheduleSlotProperty,
+    status: { type: 'string', enum: ['TAKEN', 'MISSED'], example: 'TAKEN' },
+    takenAt: { type: 'string', format: 'date-time', nullable: true, example: '2025-07-01T01:15:00.000Z' },
+    notes: { type: 'string', nullable: true, example: null },
+    loggedById: { type: 'number', nullable: true, example: 5 },
+    createdAt: { type: 'string', format: 'date-time' },
+    updatedAt: { type: 'string', format: 'date-time' },
+  },
+}
+
+const DoseAdherenceResponseSchema = {
+  type: 'object',
+  properties: {
+    patientTreatmentId: { type: 'number', example: 1 },
+    patientId: { type: 'number', example: 5 },
+    scheduleSlots: {
+      type: 'array',
+      description: 'Slots in which the regimen has medications, including custom medications',
+      items: ScheduleSlotProperty,
+    },
+    fromDate: { type: 'string', format: 'date', example: '2025-06-02' },
+    toDate: { type: 'string', format: 'date', example: '2025-07-01' },
+    expectedDoses: { type: 'number', example: 60 },
+    takenDoses: { type: 'number', example: 57 },
+    missedDoses: { type: 'number', description: 'Doses logged as missed', example: 2 },
+    unloggedDoses: { type: 'number', description: 'Past doses without a log, counted as not taken', example: 1 },
+    adherencePercentage: { type: 'number', nullable: true, example: 95 },
+    dailyAdherence: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          date: { type: 'string', format: 'date', example: '2025-07-01' },
+          expectedDoses: { type: 'number', example: 2 },
+          takenDoses: { type: 'number', example: 2 },
+          adherencePercentage: { type: 'number', nullable: true, example: 100 },
+        },
+      },
+    },
+  },
+}
+
+const PatientTreatmentIdParam = ApiParam({
+  name: 'patientTreatmentId',
+  type: 'number',
+  description: 'Patient treatment ID',
+  example: 1,
+})
+
+const DateRangeQueries = [
+  ApiQuery({
+    name: 'fromDate',
+    required: false,
+    type: String,
+    description: 'Defaults to 30 days before toDate, not before the treatment start',
+    example: '2025-06-02',
+  }),
+  ApiQuery({
+    name: 'toDate',
+    required: false,
+    type: String,
+    description: 'Defaults to today, not after the treatment end',
+    example: '2025-07-01',
+  }),
+]
+
+export const ApiLogDose = () => {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Log a taken or missed dose',
+      description:
+        'Logs one schedule slot of a day against a treatment. Logging the same slot again updates the log. Patients can only log doses of their own treatments.',
+    }),
+    ApiBody({
+      schema: {
+        type: 'object',
+        required: ['patientTreatmentId', 'doseDate', 'scheduleSlot', 'status'],
+        properties: {
+          patientTreatmentId: { type: 'number', example: 1 },
+          doseDate: { type: 'string', format: 'date', example: '2025-07-01' },
+          scheduleSlot: ScheduleSlotProperty,
+          status: { type: 'string', enum: ['TAKEN', 'MISSED'], example: 'TAKEN' },
+          takenAt: {
+            type: 'string',
+            format: 'date-time',
+            description: 'Only for taken doses, defaults to now',
+            example: '2025-07-01T01:15:00.000Z',
+          },
+          notes: { type: 'string', example: 'Uống sau bữa sáng' },
+        },
+      },
+    }),
+    ApiResponse({ status: 201, description: 'Dose logged', schema: DoseLogResponseSchema }),
+    ApiResponse({
+      status: 400,
+      description: 'Dose date in the future or outside the treatment, or no medication scheduled in the slot',
+    }),
+    ApiResponse({ status: 403, description: 'Patients can only log doses of their own treatments' }),
+    ApiResponse({ status: 404, description: 'Patient treatment not found' }),
+  )
+}
+
+export const ApiFindDoseLogs = () => {
+  return applyDecorators(
+    ApiOperation({ summary: 'Get dose logs of a treatment' }),
+    PatientTreatmentIdParam,
+    ...DateRangeQueries,
+    ApiResponse({
+      status: 200,
+      description: 'Dose logs retrieved successfully',
+      schema: { type: 'array', items: DoseLogResponseSchema },
+    }),
+    ApiResponse({ status: 403, description: 'Patients can only view dose logs of their own treatments' }),
+    ApiResponse({ status: 404, description: 'Patient treatment not found' }),
+  )
+}
+
+export const ApiGetDoseAdherence = () => {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Get medication adherence of a treatment',
+      description:
+        'Computed from dose logs. Every regimen slot of a past day is an expected dose; slots of today count only once logged.',
+    }),
+    PatientTreatmentIdParam,
+    ...DateRangeQueries,
+    ApiResponse({ status: 200, description: 'Adherence retrieved successfully', schema: DoseAdherenceResponseSchema }),
+    ApiResponse({ status: 403, description: 'Patients can only view adherence of their own treatments' }),
+    ApiResponse({ status: 404, description: 'Patient treatment not found' }),
+  )
+}
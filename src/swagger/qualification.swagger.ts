@@ -0,0 +1,107 @@
+import { applyDecorators } from '@nestjs/common'
+import { ApiBody, ApiOperation, ApiParam, ApiQuery, ApiResponse } from '@nestjs/swagger'
+
+const QualificationResponseSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'number', example: 1 },
+    doctorId: { type: 'number', example: 1 },
+    name: { type: 'string', example: 'Chứng chỉ hành nghề khám bệnh, chữa bệnh' },
+    licenseNumber: { type: 'string', nullable: true, example: '012345/HCM-CCHN' },
+    issuingBody: { type: 'string', example: 'Sở Y tế TP. Hồ Chí Minh' },
+    issuedAt: { type: 'string', format: 'date-time', nullable: true, example: '2019-05-01T00:00:00.000Z' },
+    expiresAt: { type: 'string', format: 'date-time', nullable: true, example: '2024-05-01T00:00:00.000Z' },
+    expiryStatus: {
+      type: 'string',
+      enum: ['VALID', 'EXPIRING_SOON', 'EXPIRED', 'NO_EXPIRY'],
+      description: 'EXPIRING_SOON when the qualification expires within 30 days',
+      example: 'EXPIRING_SOON',
+    },
+    expiryAlertSentAt: { type: 'string', format: 'date-time', nullable: true, example: null },
+    createdAt: { type: 'string', format: 'date-time' },
+    updatedAt: { type: 'string', format: 'date-time' },
+  },
+}
+
+const QualificationBodyProperties = {
+  name: { type: 'string', example: 'Chứng chỉ hành nghề khám bệnh, chữa bệnh' },
+  licenseNumber: { type: 'string', example: '012345/HCM-CCHN' },
+  issuingBody: { type: 'string', example: 'Sở Y tế TP. Hồ Chí Minh' },
+  issuedAt: { type: 'string', format: 'date', example: '2019-05-01' },
+  expiresAt: { type: 'string', format: 'date', description: 'Omit for qualifications that never expire' },
+}
+
+const QualificationIdParam = ApiParam({ name: 'id', type: 'number', description: 'Qualification ID', example: 1 })
+
+export const ApiCreateQualification = () => {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Add a qualification to a doctor',
+      description: 'The doctor is emailed 30 days before the qualification expires.',
+    }),
+    ApiBody({
+      schema: {
+        type: 'object',
+        required: ['doctorId', 'name', 'issuingBody'],
+        properties: { doctorId: { type: 'number', example: 1 }, ...QualificationBodyProperties },
+      },
+    }),
+    ApiResponse({ status: 201, description: 'Qualification created', schema: QualificationResponseSchema }),
+    ApiResponse({ status: 400, description: 'Invalid input data' }),
+    ApiResponse({ status: 404, description: 'Doctor not found' }),
+  )
+}
+
+export const ApiFindQualifications = () => {
+  return applyDecorators(
+    ApiOperation({ summary: 'Get doctor qualifications' }),
+    ApiQuery({ name: 'doctorId', required: false, type: Number, example: 1 }),
+    ApiQuery({
+      name: 'expiringWithinDays',
+      required: false,
+      type: Number,
+      description: 'Only qualifications expiring within this many days, including expired ones',
+      example: 30,
+    }),
+    ApiResponse({
+      status: 200,
+      description: 'Qualifications retrieved successfully',
+      schema: { type: 'array', items: QualificationResponseSchema },
+    }),
+  )
+}
+
+export const ApiFindMyQualifications = () => {
+  return applyDecorators(
+    ApiOperation({ summary: 'Get qualifications of the current doctor' }),
+    ApiResponse({
+      status: 200,
+      description: 'Qualifications retrieved successfully',
+      schema: { type: 'array', items: QualificationResponseSchema },
+    }),
+    ApiResponse({ status: 404, description: 'Doctor not found' }),
+  )
+}
+
+export const ApiUpdateQualification = () => {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Update a qualification',
+      description: 'Changing the expiry date re-enables the expiry alert email.',
+    }),
+    QualificationIdParam,
+    ApiBody({ schema: { type: 'object', properties: QualificationBodyProperties } }),
+    ApiResponse({ status: 200, description: 'Qualification updated', schema: QualificationResponseSchema }),
+    ApiResponse({ status: 400, description: 'Invalid input data' }),
+    ApiResponse({ status: 404, description: 'Qualification not found' }),
+  )
+}
+
+export const ApiDeleteQualification = () => {
+  return applyDecorators(
+    ApiOperation({ summary: 'Delete a qualification' }),
+    QualificationIdParam,
+    ApiResponse({ status: 200, description: 'Qualification deleted successfully' }),
+    ApiResponse({ status: 404, description: 'Qualification not found' }),
+  )
+}
@@ -0,0 +1,121 @@
+import { applyDecorators } from '@nestjs/common'
+import { ApiBody, ApiOperation, ApiParam, ApiQuery, ApiResponse } from '@nestjs/swagger'
+
+const ReminderResponseSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'number', example: 1 },
+    userId: { type: 'number', example: 1 },
+    type: { type: 'string', enum: ['MEDICINE', 'APPOINTMENT'], example: 'APPOINTMENT' },
+    message: { type: 'string', example: 'Bạn có lịch hẹn Tư vấn HIV sau 24 giờ nữa' },
+    remindAt: { type: 'string', format: 'date-time', example: '2025-06-30T02:00:00.000Z' },
+    isSent: { type: 'boolean', example: false },
+    isCancelled: { type: 'boolean', example: false },
+    appointmentId: { type: 'number', nullable: true, example: 1 },
+    patientTreatmentId: {
+      type: 'number',
+      nullable: true,
+      example: null,
+      description: 'Treatment of a medicine reminder',
+    },
+    scheduleSlot: {
+      type: 'string',
+      enum: ['MORNING', 'AFTERNOON', 'NIGHT'],
+      nullable: true,
+      example: null,
+      description: 'Schedule slot of a medicine reminder',
+    },
+    sentAt: { type: 'string', format: 'date-time', nullable: true, example: null },
+    createdAt: { type: 'string', format: 'date-time', example: '2025-06-29T09:00:00.000Z' },
+  },
+}
+
+const ReminderPreferenceResponseSchema = {
+  type: 'object',
+  properties: {
+    appointmentReminders: { type: 'boolean', example: true },
+    medicineReminders: { type: 'boolean', example: true },
+    morningReminderTime: { type: 'string', example: '07:00' },
+    afternoonReminderTime: { type: 'string', example: '13:00' },
+    nightReminderTime: { type: 'string', example: '20:00' },
+  },
+}
+
+export const ApiFindMyReminders = () => {
+  return applyDecorators(
+    ApiOperation({ summary: 'Get My Reminders', description: 'Get reminders of the current patient' }),
+    ApiQuery({ name: 'type', required: false, enum: ['MEDICINE', 'APPOINTMENT'], description: 'Reminder type' }),
+    ApiQuery({
+      name: 'upcoming',
+      required: false,
+      enum: ['true', 'false'],
+      description: 'Only reminders that have not been sent yet',
+    }),
+    ApiResponse({
+      status: 200,
+      description: 'Reminders retrieved successfully',
+      schema: { type: 'array', items: ReminderResponseSchema },
+    }),
+    ApiResponse({ status: 401, description: 'Unauthorized' }),
+    ApiResponse({ status: 403, description: 'Forbidden - Insufficient permissions' }),
+  )
+}
+
+export const ApiOptOutReminder = () => {
+  return applyDecorators(
+    ApiOperation({ summary: 'Opt Out Of Reminder', description: 'Stop a single reminder from being sent' }),
+    ApiParam({ name: 'id', type: 'number', description: 'Reminder ID', example: 1 }),
+    ApiResponse({ status: 200, description: 'Reminder cancelled successfully', schema: ReminderResponseSchema }),
+    ApiResponse({ status: 400, description: 'Reminder not found or already sent' }),
+    ApiResponse({ status: 401, description: 'Unauthorized' }),
+    ApiResponse({ status: 403, description: 'Forbidden - Insufficient permissions' }),
+  )
+}
+
+export const ApiGetReminderPreference = () => {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Get Reminder Preferences',
+      description: 'Get which reminder types the current patient receives',
+    }),
+    ApiResponse({
+      status: 200,
+      description: 'Preferences retrieved successfully',
+      schema: ReminderPreferenceResponseSchema,
+    }),
+    ApiResponse({ status: 401, description: 'Unauthorized' }),
+    ApiResponse({ status: 403, description: 'Forbidden - Insufficient permissions' }),
+  )
+}
+
+export const ApiUpdateReminderPreference = () => {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Update Reminder Preferences',
+      description:
+        'Opt in or out of appointment and medicine reminders, or change the time (HH:mm, Vietnam time) ' +
+        'of the medicine reminder of each schedule slot. Changing a time reschedules upcoming medicine reminders.',
+    }),
+    ApiBody({
+      description: 'Reminder preferences',
+      schema: {
+        type: 'object',
+        properties: {
+          appointmentReminders: { type: 'boolean', example: false },
+          medicineReminders: { type: 'boolean', example: true },
+          morningReminderTime: { type: 'string', example: '06:30' },
+          afternoonReminderTime: { type: 'string', example: '12:30' },
+          nightReminderTime: { type: 'string', example: '21:00' },
+        },
+      },
+    }),
+    ApiResponse({
+      status: 200,
+      description: 'Preferences updated successfully',
+      schema: ReminderPreferenceResponseSchema,
+    }),
+    ApiResponse({ status: 400, description: 'Nothing to update or invalid time' }),
+    ApiResponse({ status: 401, description: 'Unauthorized' }),
+    ApiResponse({ status: 403, description: 'Forbidden - Insufficient permissions' }),
+  )
+}
@@ -0,0 +1,252 @@
+import { applyDecorators } from '@nestjs/common'
+import { ApiBody, ApiOperation, ApiParam, ApiQuery, ApiResponse } from '@nestjs/swagger'
+
+const SHIFTS = ['MORNING', 'AFTERNOON']
+const ROSTER_STATUSES = ['DRAFT', 'PUBLISHED', 'DISCARDED']
+
+const RosterResponseSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'number', example: 1 },
+    weekStart: { type: 'string', format: 'date-time', example: '2024-03-18T00:00:00.000Z' },
+    status: { type: 'string', enum: ROSTER_STATUSES, example: 'DRAFT' },
+    constraints: {
+      type: 'object',
+      properties: {
+        doctorsPerShift: { type: 'number', example: 2 },
+        maxShiftsPerWeek: { type: 'number', example: 6 },
+        noConsecutiveSaturdays: { type: 'boolean', example: true },
+        requiredSpecializations: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              specialization: { type: 'string', example: 'Truyền nhiễm' },
+              minDoctors: { type: 'number', example: 1 },
+            },
+          },
+        },
+      },
+    },
+    createdById: { type: 'number', nullable: true, example: 1 },
+    publishedAt: { type: 'string', format: 'date-time', nullable: true, example: null },
+    createdAt: { type: 'string', format: 'date-time' },
+    updatedAt: { type: 'string', format: 'date-time' },
+  },
+}
+
+const RosterPreviewResponseSchema = {
+  type: 'object',
+  properties: {
+    roster: RosterResponseSchema,
+    assignments: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'number', example: 1 },
+          doctorId: { type: 'number', example: 1 },
+          doctorName: { type: 'string', example: 'Dr. John Doe' },
+          date: { type: 'string', format: 'date', example: '2024-03-18' },
+          shift: { type: 'string', enum: SHIFTS, example: 'MORNING' },
+          isManual: { type: 'boolean', example: false },
+        },
+      },
+    },
+    report: {
+      type: 'object',
+      properties: {
+        fairness: {
+          type: 'object',
+          properties: {
+            doctors: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  doctorId: { type: 'number', example: 1 },
+                  name: { type: 'string', example: 'Dr. John Doe' },
+                  specialization: { type: 'string', example: 'Truyền nhiễm' },
+                  assignedShifts: { type: 'number', example: 5 },
+                  saturdayShifts: { type: 'number', example: 0 },
+                  preferredShifts: { type: 'number', example: 3 },
+                  avoidedShifts: { type: 'number', example: 0 },
+                  recentWeeklyLoad: { type: 'number', example: 5.5 },
+                },
+              },
+            },
+            minShifts: { type: 'number', example: 4 },
+            maxShifts: { type: 'number', example: 5 },
+            averageShifts: { type: 'number', example: 4.4 },
+            spread: { type: 'number', example: 1 },
+            preferenceHits: { type: 'number', example: 9 },
+            avoidedAssignments: { type: 'number', example: 1 },
+          },
+        },
+        coverageGaps: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              date: { type: 'string', format: 'date', example: '2024-03-23' },
+              shift: { type: 'string', enum: SHIFTS, example: 'MORNING' },
+              assigned: { type: 'number', example: 1 },
+              required: { type: 'number', example: 2 },
+              missingSpecializations: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    specialization: { type: 'string', example: 'Truyền nhiễm' },
+                    missing: { type: 'number', example: 1 },
+                  },
+                },
+              },
+            },
+          },
+        },
+        violations: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              rule: {
+                type: 'string',
+                enum: [
+                  'MAX_SHIFTS_PER_WEEK',
+                  'CONSECUTIVE_SATURDAY',
+                  'TIME_OFF',
+                  'OUTSIDE_WORKING_SHIFTS',
+                  'UNAVAILABLE_DOCTOR',
+                  'OUTSIDE_AVAILABILITY',
+                ],
+                example: 'TIME_OFF',
+              },
+              doctorId: { type: 'number', example: 1 },
+              date: { type: 'string', format: 'date', example: '2024-03-19' },
+              shift: { type: 'string', enum: SHIFTS, example: 'AFTERNOON' },
+              message: { type: 'string', example: 'Doctor has approved time off' },
+            },
+          },
+        },
+      },
+    },
+  },
+}
+
+const RosterAssignmentItemSchema = {
+  type: 'object',
+  required: ['doctorId', 'date', 'shift'],
+  properties: {
+    doctorId: { type: 'number', example: 1 },
+    date: { type: 'string', format: 'date', example: '2024-03-18' },
+    shift: { type: 'string', enum: SHIFTS, example: 'MORNING' },
+  },
+}
+
+export const ApiCreateRoster = () => {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Generate a draft roster',
+      description:
+        'Builds a draft weekly roster from hard constraints, doctor preferences, approved time off and recent load. ' +
+        'Nothing is written to the doctor schedule until the draft is published.',
+    }),
+    ApiBody({
+      schema: {
+        type: 'object',
+        required: ['weekStart', 'doctorsPerShift'],
+        properties: {
+          weekStart: { type: 'string', format: 'date', description: 'Monday of the week', example: '2024-03-18' },
+          doctorsPerShift: { type: 'number', example: 2 },
+          maxShiftsPerWeek: { type: 'number', example: 6 },
+          noConsecutiveSaturdays: { type: 'boolean', example: true },
+          requiredSpecializations: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                specialization: { type: 'string', example: 'Truyền nhiễm' },
+                minDoctors: { type: 'number', example: 1 },
+              },
+            },
+          },
+        },
+      },
+    }),
+    ApiResponse({ status: 201, description: 'Draft roster generated', schema: RosterPreviewResponseSchema }),
+    ApiResponse({ status: 400, description: 'Invalid constraints or schedule already exists for this week' }),
+    ApiResponse({ status: 401, description: 'Unauthorized' }),
+    ApiResponse({ status: 403, description: 'Forbidden - Insufficient permissions' }),
+  )
+}
+
+export const ApiFindRosters = () => {
+  return applyDecorators(
+    ApiOperation({ summary: 'Get rosters' }),
+    ApiQuery({ name: 'weekStart', required: false, type: String, example: '2024-03-18' }),
+    ApiQuery({ name: 'status', required: false, enum: ROSTER_STATUSES }),
+    ApiResponse({
+      status: 200,
+      description: 'Rosters retrieved successfully',
+      schema: { type: 'array', items: RosterResponseSchema },
+    }),
+    ApiResponse({ status: 401, description: 'Unauthorized' }),
+    ApiResponse({ status: 403, description: 'Forbidden - Insufficient permissions' }),
+  )
+}
+
+export const ApiGetRosterPreview = () => {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Preview a roster',
+      description: 'Assignments with the fairness report, coverage gaps and hard constraint violations',
+    }),
+    ApiParam({ name: 'id', type: 'number', description: 'Roster ID', example: 1 }),
+    ApiResponse({ status: 200, description: 'Roster retrieved successfully', schema: RosterPreviewResponseSchema }),
+    ApiResponse({ status: 404, description: 'Roster not found' }),
+  )
+}
+
+export const ApiUpdateRosterAssignments = () => {
+  return applyDecorators(
+    ApiOperation({ summary: 'Tweak a draft roster', description: 'Add or remove doctors from shifts of a draft' }),
+    ApiParam({ name: 'id', type: 'number', description: 'Roster ID', example: 1 }),
+    ApiBody({
+      schema: {
+        type: 'object',
+        properties: {
+          add: { type: 'array', items: RosterAssignmentItemSchema },
+          remove: { type: 'array', items: RosterAssignmentItemSchema },
+        },
+      },
+    }),
+    ApiResponse({ status: 200, description: 'Draft roster updated', schema: RosterPreviewResponseSchema }),
+    ApiResponse({ status: 400, description: 'Roster is not a draft' }),
+    ApiResponse({ status: 404, description: 'Roster not found' }),
+  )
+}
+
+export const ApiPublishRoster = () => {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Publish a draft roster',
+      description:
+        'Writes the assignments to the doctor schedule. Rosters with hard constraint violations are rejected.',
+    }),
+    ApiParam({ name: 'id', type: 'number', description: 'Roster ID', example: 1 }),
+    ApiResponse({ status: 201, description: 'Roster published', schema: RosterPreviewResponseSchema }),
+    ApiResponse({ status: 400, description: 'Roster is not a draft, has violations or the week is already scheduled' }),
+    ApiResponse({ status: 404, description: 'Roster not found' }),
+  )
+}
+
+export const ApiDiscardRoster = () => {
+  return applyDecorators(
+    ApiOperation({ summary: 'Discard a draft roster' }),
+    ApiParam({ name: 'id', type: 'number', description: 'Roster ID', example: 1 }),
+    ApiResponse({ status: 201, description: 'Roster discarded', schema: RosterResponseSchema }),
+    ApiResponse({ status: 400, description: 'Roster is not a draft' }),
+    ApiResponse({ status: 404, description: 'Roster not found' }),
+  )
+}
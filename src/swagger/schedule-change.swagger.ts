@@ -0,0 +1,72 @@
+import { applyDecorators } from '@nestjs/common'
+import { ApiOperation, ApiParam, ApiQuery, ApiResponse } from '@nestjs/swagger'
+
+const ScheduleSnapshotSchema = {
+  type: 'object',
+  nullable: true,
+  properties: {
+    doctorId: { type: 'number', example: 1 },
+    date: { type: 'string', format: 'date', example: '2025-07-01' },
+    shift: { type: 'string', enum: ['MORNING', 'AFTERNOON'], example: 'MORNING' },
+    isOff: { type: 'boolean', example: false },
+  },
+}
+
+const ScheduleChangeSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'number', example: 1 },
+    doctorId: { type: 'number', example: 1 },
+    scheduleId: { type: 'number', nullable: true, example: 10 },
+    action: {
+      type: 'string',
+      enum: ['ASSIGNED', 'GENERATED', 'PUBLISHED', 'SWAPPED', 'TIME_OFF'],
+      example: 'SWAPPED',
+    },
+    before: { ...ScheduleSnapshotSchema, description: 'Schedule before the change, null when it was created' },
+    after: { ...ScheduleSnapshotSchema, description: 'Schedule after the change' },
+    changedBy: {
+      type: 'object',
+      nullable: true,
+      properties: { id: { type: 'number', example: 2 }, name: { type: 'string', example: 'Admin' } },
+    },
+    createdAt: { type: 'string', format: 'date-time' },
+    isNew: { type: 'boolean', description: 'Changed after the doctor last viewed their changes', example: true },
+  },
+}
+
+export const ApiGetScheduleChanges = () => {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Get schedule change history of a doctor',
+      description:
+        'Manual assignments, generated schedules, published rosters, swaps and approved time off are recorded. ' +
+        'When doctors view their own history, only changes since their last visit are returned by default and ' +
+        'the returned changes are marked as seen, unless the limit cut off older unseen changes. ' +
+        'Other doctors cannot view it.',
+    }),
+    ApiParam({ name: 'id', type: 'number', description: 'Doctor ID', example: 1 }),
+    ApiQuery({
+      name: 'since',
+      required: false,
+      type: String,
+      description: 'Only changes after this time (ISO 8601)',
+      example: '2025-07-01T00:00:00.000Z',
+    }),
+    ApiQuery({ name: 'limit', required: false, type: Number, description: 'Max 200, default 50', example: 50 }),
+    ApiResponse({
+      status: 200,
+      description: 'Schedule changes retrieved successfully, newest first',
+      schema: {
+        type: 'object',
+        properties: {
+          doctorId: { type: 'number', example: 1 },
+          lastSeenAt: { type: 'string', format: 'date-time', nullable: true },
+          changes: { type: 'array', items: ScheduleChangeSchema },
+        },
+      },
+    }),
+    ApiResponse({ status: 403, description: 'Doctors can only view their own schedule changes' }),
+    ApiResponse({ status: 404, description: 'Doctor not found' }),
+  )
+}
@@ -19,6 +19,10 @@ export function ApiCreateService() {
             startTime: '07:00',
             endTime: '16:00',
             duration: '01:00',
+            slots: [
+              { start: '07:00', end: '07:30' },
+              { start: '07:35', end: '08:05' },
+            ],
             imageUrl: 'https://example.com/image.jpg',
             content: 'Nội dung chi tiết...',
           },
@@ -0,0 +1,284 @@
+import { applyDecorators } from '@nestjs/common'
+import { ApiBody, ApiOperation, ApiParam, ApiQuery, ApiResponse } from '@nestjs/swagger'
+
+const TestResultResponseSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'number', example: 1 },
+    name: { type: 'string', example: 'Xét nghiệm tải lượng virus' },
+    type: { type: 'string', example: 'HIV_VIRAL_LOAD' },
+    result: { type: 'string', example: '150 copies/mL' },
+    value: { type: 'number', nullable: true, example: 150 },
+    unit: { type: 'string', nullable: true, example: 'copies/mL' },
+    referenceRangeLow: { type: 'number', nullable: true, example: null },
+    referenceRangeHigh: { type: 'number', nullable: true, example: 200 },
+    flag: {
+      type: 'string',
+      enum: ['LOW', 'NORMAL', 'HIGH'],
+      nullable: true,
+      description: 'Value compared with the reference range',
+      example: 'NORMAL',
+    },
+    price: { type: 'number', example: 500000 },
+    description: { type: 'string', nullable: true, example: null },
+    resultDate: { type: 'string', format: 'date-time', example: '2025-07-01T03:00:00.000Z' },
+    userId: { type: 'number', example: 5 },
+    doctorId: { type: 'number', example: 1 },
+    patientTreatmentId: { type: 'number', example: 1 },
+    appointmentId: { type: 'number', nullable: true, example: 10 },
+    user: { type: 'object', properties: { id: { type: 'number' }, name: { type: 'string' } } },
+    doctor: { type: 'object', properties: { id: { type: 'number' }, name: { type: 'string' } } },
+    appointment: {
+      type: 'object',
+      nullable: true,
+      properties: {
+        id: { type: 'number', example: 10 },
+        appointmentTime: { type: 'string', format: 'date-time' },
+        service: { type: 'object', properties: { id: { type: 'number' }, name: { type: 'string' } } },
+      },
+    },
+    createdAt: { type: 'string', format: 'date-time' },
+    updatedAt: { type: 'string', format: 'date-time' },
+  },
+}
+
+const TestResultBodyProperties = {
+  doctorId: { type: 'number', description: 'Defaults to the doctor of the patient treatment', example: 1 },
+  appointmentId: {
+    type: 'number',
+    description: 'Appointment of a TEST service where the sample was taken',
+    example: 10,
+  },
+  name: { type: 'string', example: 'Xét nghiệm tải lượng virus' },
+  type: { type: 'string', description: 'Test type, e.g. CD4 or HIV_VIRAL_LOAD', example: 'HIV_VIRAL_LOAD' },
+  value: { type: 'number', description: 'Numeric value of the result', example: 150 },
+  unit: {
+    type: 'string',
+    description: 'Defaults to the standard unit of CD4 and HIV_VIRAL_LOAD',
+    example: 'copies/mL',
+  },
+  referenceRangeLow: { type: 'number', example: 0 },
+  referenceRangeHigh: {
+    type: 'number',
+    description: 'The reference range defaults to the standard range of CD4 and HIV_VIRAL_LOAD',
+    example: 200,
+  },
+  result: { type: 'string', description: 'Defaults to the value with its unit', example: '150 copies/mL' },
+  price: { type: 'number', description: 'Defaults to the price of the appointment service', example: 500000 },
+  description: { type: 'string', example: 'Mẫu lấy buổi sáng' },
+  resultDate: { type: 'string', format: 'date-time', example: '2025-07-01T03:00:00.000Z' },
+}
+
+const TestResultIdParam = ApiParam({ name: 'id', type: 'number', description: 'Test result ID', example: 1 })
+const TestTypeQuery = ApiQuery({ name: 'type', required: false, type: String, example: 'HIV_VIRAL_LOAD' })
+
+export const ApiCreateTestResult = () => {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Create Test Result',
+      description: 'Record a lab result for a patient treatment. Either value or result is required.',
+    }),
+    ApiBody({
+      schema: {
+        type: 'object',
+        required: ['patientTreatmentId', 'name', 'type', 'resultDate'],
+        properties: { patientTreatmentId: { type: 'number', example: 1 }, ...TestResultBodyProperties },
+      },
+    }),
+    ApiResponse({ status: 201, description: 'Test result created successfully', schema: TestResultResponseSchema }),
+    ApiResponse({ status: 400, description: 'Invalid data, treatment, doctor or appointment' }),
+    ApiResponse({ status: 401, description: 'Unauthorized' }),
+    ApiResponse({ status: 403, description: 'Forbidden - Insufficient permissions' }),
+  )
+}
+
+export const ApiFindTestResults = () => {
+  return applyDecorators(
+    ApiOperation({ summary: 'Get Test Results', description: 'Paginated test results, newest first' }),
+    ApiQuery({ name: 'page', required: false, type: Number, example: 1 }),
+    ApiQuery({ name: 'limit', required: false, type: Number, example: 10 }),
+    ApiQuery({ name: 'patientId', required: false, type: Number }),
+    ApiQuery({ name: 'patientTreatmentId', required: false, type: Number }),
+    TestTypeQuery,
+    ApiQuery({ name: 'fromDate', required: false, type: String, example: '2025-01-01' }),
+    ApiQuery({ name: 'toDate', required: false, type: String, example: '2025-12-31' }),
+    ApiResponse({
+      status: 200,
+      description: 'Test results retrieved successfully',
+      schema: {
+        type: 'object',
+        properties: { data: { type: 'array', items: TestResultResponseSchema }, meta: { type: 'object' } },
+      },
+    }),
+    ApiResponse({ status: 401, description: 'Unauthorized' }),
+    ApiResponse({ status: 403, description: 'Forbidden - Insufficient permissions' }),
+  )
+}
+
+export const ApiFindMyTestResults = () => {
+  return applyDecorators(
+    ApiOperation({ summary: 'Get My Test Results', description: 'Test result history of the current patient' }),
+    TestTypeQuery,
+    ApiResponse({
+      status: 200,
+      description: 'Test results retrieved successfully',
+      schema: { type: 'array', items: TestResultResponseSchema },
+    }),
+    ApiResponse({ status: 401, description: 'Unauthorized' }),
+    ApiResponse({ status: 403, description: 'Forbidden - Insufficient permissions' }),
+  )
+}
+
+export const ApiFindPatientTestResults = () => {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Get Patient Test Results',
+      description: 'Test result history of a patient, newest first',
+    }),
+    ApiParam({ name: 'patientId', type: 'number', description: 'Patient (user) ID', example: 5 }),
+    TestTypeQuery,
+    ApiResponse({
+      status: 200,
+      description: 'Test results retrieved successfully',
+      schema: { type: 'array', items: TestResultResponseSchema },
+    }),
+    ApiResponse({ status: 401, description: 'Unauthorized' }),
+    ApiResponse({ status: 403, description: 'Forbidden - Insufficient permissions' }),
+  )
+}
+
+export const ApiFindTestResultById = () => {
+  return applyDecorators(
+    ApiOperation({ summary: 'Get Test Result By ID' }),
+    TestResultIdParam,
+    ApiResponse({ status: 200, description: 'Test result retrieved successfully', schema: TestResultResponseSchema }),
+    ApiResponse({ status: 400, description: 'Test result not found' }),
+    ApiResponse({ status: 401, description: 'Unauthorized' }),
+    ApiResponse({ status: 403, description: 'Forbidden - Insufficient permissions' }),
+  )
+}
+
+export const ApiUpdateTestResult = () => {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Update Test Result',
+      description: 'Correct a test result. Changing the value without a new result text regenerates the result text.',
+    }),
+    TestResultIdParam,
+    ApiBody({ schema: { type: 'object', properties: TestResultBodyProperties } }),
+    ApiResponse({ status: 200, description: 'Test result updated successfully', schema: TestResultResponseSchema }),
+    ApiResponse({ status: 400, description: 'Invalid data or test result not found' }),
+    ApiResponse({ status: 401, description: 'Unauthorized' }),
+    ApiResponse({ status: 403, description: 'Forbidden - Insufficient permissions' }),
+  )
+}
+
+export const ApiDeleteTestResult = () => {
+  return applyDecorators(
+    ApiOperation({ summary: 'Delete Test Result' }),
+    TestResultIdParam,
+    ApiResponse({ status: 200, description: 'Test result deleted successfully', schema: TestResultResponseSchema }),
+    ApiResponse({ status: 400, description: 'Test result not found' }),
+    ApiResponse({ status: 401, description: 'Unauthorized' }),
+    ApiResponse({ status: 403, description: 'Forbidden - Insufficient permissions' }),
+  )
+}
+
+const LabTrendPointProperties = {
+  testResultId: { type: 'number', example: 12 },
+  resultDate: { type: 'string', format: 'date-time', example: '2025-07-01T03:00:00.000Z' },
+  value: { type: 'number', example: 150 },
+  unit: { type: 'string', nullable: true, example: 'copies/mL' },
+  patientTreatmentId: { type: 'number', example: 1 },
+  delta: { type: 'number', nullable: true, description: 'Change from the previous result', example: -850 },
+  deltaFromBaseline: { type: 'number', description: 'Change from the first result', example: -9850 },
+  flag: { type: 'string', enum: ['LOW', 'NORMAL', 'HIGH'], nullable: true, example: 'NORMAL' },
+}
+
+const SuppressionStatusProperty = {
+  type: 'string',
+  enum: ['undetectable', 'suppressed', 'low-level-viremia', 'virologic-failure'],
+  description: 'Below 50 undetectable, below 200 suppressed, 1000 and above virologic failure (copies/mL)',
+  example: 'suppressed',
+}
+
+const LabTrendsResponseSchema = {
+  type: 'object',
+  properties: {
+    patient: { type: 'object', properties: { id: { type: 'number' }, name: { type: 'string' } } },
+    treatmentPeriods: {
+      type: 'array',
+      description: 'Treatments of the patient, oldest first; each protocol change starts a new period',
+      items: {
+        type: 'object',
+        properties: {
+          patientTreatmentId: { type: 'number', example: 1 },
+          protocolId: { type: 'number', example: 2 },
+          protocolName: { type: 'string', example: 'TDF + 3TC + DTG' },
+          doctor: { type: 'object', properties: { id: { type: 'number' }, name: { type: 'string' } } },
+          startDate: { type: 'string', format: 'date-time' },
+          endDate: { type: 'string', format: 'date-time', nullable: true },
+          isCurrent: { type: 'boolean', example: true },
+          timeToSuppressionDays: {
+            type: 'number',
+            nullable: true,
+            description: 'Days from the period start to the first suppressed viral load within the period',
+            example: 92,
+          },
+        },
+      },
+    },
+    cd4: {
+      type: 'object',
+      properties: {
+        points: { type: 'array', items: { type: 'object', properties: LabTrendPointProperties } },
+        baseline: { type: 'number', nullable: true, example: 250 },
+        latest: { type: 'number', nullable: true, example: 480 },
+      },
+    },
+    viralLoad: {
+      type: 'object',
+      properties: {
+        points: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              ...LabTrendPointProperties,
+              suppressionStatus: SuppressionStatusProperty,
+              isRebound: {
+                type: 'boolean',
+                description: 'Back above 200 copies/mL after a suppressed result',
+                example: false,
+              },
+            },
+          },
+        },
+        currentStatus: { ...SuppressionStatusProperty, nullable: true },
+        firstSuppressedAt: { type: 'string', format: 'date-time', nullable: true },
+        timeToSuppressionDays: {
+          type: 'number',
+          nullable: true,
+          description: 'Days from the start of the first treatment to the first suppressed viral load',
+          example: 92,
+        },
+        reboundCount: { type: 'number', example: 0 },
+      },
+    },
+  },
+}
+
+export const ApiGetPatientLabTrends = () => {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Get CD4 and viral load trends of a patient',
+      description:
+        'Time series of CD4 counts and viral loads, oldest first, with deltas, time to suppression and rebound flags, aligned with the treatment periods of the patient.',
+    }),
+    ApiParam({ name: 'id', type: 'number', description: 'Patient (user) ID', example: 5 }),
+    ApiResponse({ status: 200, description: 'Lab trends retrieved successfully', schema: LabTrendsResponseSchema }),
+    ApiResponse({ status: 400, description: 'Patient not found' }),
+    ApiResponse({ status: 401, description: 'Unauthorized' }),
+    ApiResponse({ status: 403, description: 'Forbidden - Insufficient permissions' }),
+  )
+}
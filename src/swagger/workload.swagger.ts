@@ -0,0 +1,67 @@
+import { applyDecorators } from '@nestjs/common'
+import { ApiOperation, ApiQuery, ApiResponse } from '@nestjs/swagger'
+
+const WorkloadMetricsProperties = {
+  scheduledShifts: { type: 'number', example: 8 },
+  availableSlots: { type: 'number', example: 56, description: 'Open default slots in the scheduled shifts' },
+  bookedSlots: { type: 'number', example: 42, description: 'Appointments that were not cancelled' },
+  utilisationRate: { type: 'number', example: 0.75, description: 'bookedSlots / availableSlots' },
+  completedAppointments: { type: 'number', example: 30 },
+  cancelledAppointments: { type: 'number', example: 4 },
+  noShowAppointments: { type: 'number', example: 2 },
+  onlineAppointments: { type: 'number', example: 12 },
+  offlineAppointments: { type: 'number', example: 30 },
+  onlineRatio: { type: 'number', example: 0.29, description: 'onlineAppointments / bookedSlots' },
+  activeTreatments: { type: 'number', example: 25, description: 'Treatments in effect during the range' },
+}
+
+export const ApiGetDoctorWorkloadDashboard = () => {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Get the workload and utilisation dashboard of all doctors',
+      description:
+        'Combines scheduled shifts, booked vs available slots, appointment outcomes, online vs offline ratio and ' +
+        'active treatments per doctor. Doctors are sorted by utilisation rate, highest first.',
+    }),
+    ApiQuery({
+      name: 'startDate',
+      required: false,
+      type: String,
+      description: 'First day (YYYY-MM-DD), defaults to Monday of the current week',
+      example: '2024-03-18',
+    }),
+    ApiQuery({
+      name: 'endDate',
+      required: false,
+      type: String,
+      description: 'Last day (YYYY-MM-DD), required together with startDate',
+      example: '2024-03-24',
+    }),
+    ApiResponse({
+      status: 200,
+      description: 'Dashboard retrieved successfully',
+      schema: {
+        type: 'object',
+        properties: {
+          startDate: { type: 'string', example: '2024-03-18' },
+          endDate: { type: 'string', example: '2024-03-24' },
+          summary: { type: 'object', properties: WorkloadMetricsProperties },
+          doctors: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                doctorId: { type: 'number', example: 1 },
+                doctorName: { type: 'string', example: 'Nguyễn Văn A' },
+                specialization: { type: 'string', example: 'Truyền nhiễm' },
+                isAvailable: { type: 'boolean', example: true },
+                ...WorkloadMetricsProperties,
+              },
+            },
+          },
+        },
+      },
+    }),
+    ApiResponse({ status: 400, description: 'Invalid date range' }),
+  )
+}